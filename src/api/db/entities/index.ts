@@ -1,6 +1,11 @@
 export { XhsTask, TaskStatus } from "./xhs-task.entity";
 export { XhsImage, ImageStatus } from "./xhs-image.entity";
 export { XhsImageHistory } from "./xhs-image-history.entity";
+export { XhsOutlineHistory } from "./xhs-outline-history.entity";
 export { XhsProvider, ProviderType, ServiceType } from "./xhs-provider.entity";
 export { XhsConfig } from "./xhs-config.entity";
 export { XhsUserUsage } from "./xhs-user-usage.entity";
+export { XhsPromptTemplate, TemplateType } from "./xhs-prompt-template.entity";
+export { XhsPowerHold, PowerHoldStatus } from "./xhs-power-hold.entity";
+export { XhsBillingLedger, BillingLedgerType, ReconcileStatus } from "./xhs-billing-ledger.entity";
+export { XhsPricingTier } from "./xhs-pricing-tier.entity";
@@ -0,0 +1,111 @@
+import { ExtensionEntity } from "@buildingai/core/decorators";
+import { Column, CreateDateColumn, Index, PrimaryGeneratedColumn } from "@buildingai/db/typeorm";
+
+/**
+ * 账本记录类型
+ * - charge: 扣除积分
+ * - free-use: 使用免费次数（不扣积分）
+ * - refund: 退回积分
+ * - free-refund: 退回免费次数（免费生成失败时）
+ */
+export enum BillingLedgerType {
+    CHARGE = "charge",
+    FREE_USE = "free-use",
+    REFUND = "refund",
+    FREE_REFUND = "free-refund",
+}
+
+/**
+ * 对账状态
+ * - pending: 未对账
+ * - matched: 与主系统账户流水一致
+ * - mismatched: 与主系统账户流水不一致
+ */
+export enum ReconcileStatus {
+    PENDING = "pending",
+    MATCHED = "matched",
+    MISMATCHED = "mismatched",
+}
+
+/**
+ * 计费账本实体
+ * 记录每一笔扣费、免费次数使用和退款，关联任务、图片、页面和版本，用于费用明细与对账
+ * 不关联外键，任务删除后账本保留
+ */
+@ExtensionEntity({ name: "xhs_creator_billing_ledger", comment: "小红书计费账本" })
+@Index("idx_xhs_billing_ledger_task", ["taskId"])
+@Index("idx_xhs_billing_ledger_association", ["associationNo"])
+@Index("idx_xhs_billing_ledger_user_created", ["userId", "createdAt"])
+export class XhsBillingLedger {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    // 用户ID
+    @Column({ type: "varchar", length: 255, comment: "用户ID" })
+    userId: string;
+
+    // 记录类型
+    @Column({
+        type: "varchar",
+        length: 20,
+        comment: "记录类型：charge（扣费）/free-use（免费次数）/refund（退款）/free-refund（退回免费次数）",
+    })
+    type: BillingLedgerType;
+
+    // 消费场景：outline / page-rewrite / image
+    @Column({ type: "varchar", length: 20, comment: "消费场景" })
+    scene: string;
+
+    // 积分数量（免费次数为0）
+    @Column({ type: "int", default: 0, comment: "积分数量" })
+    amount: number;
+
+    // 所属任务ID
+    @Column({ type: "uuid", nullable: true, comment: "所属任务ID" })
+    taskId: string | null;
+
+    // 图片记录ID
+    @Column({ type: "uuid", nullable: true, comment: "图片记录ID" })
+    imageId: string | null;
+
+    // 页面ID
+    @Column({ type: "uuid", nullable: true, comment: "页面ID" })
+    pageId: string | null;
+
+    // 页面索引
+    @Column({ type: "int", nullable: true, comment: "页面索引" })
+    pageIndex: number | null;
+
+    // 页面类型
+    @Column({ type: "varchar", length: 20, nullable: true, comment: "页面类型" })
+    pageType: string | null;
+
+    // 生成的图片版本号（图片成功并保存版本后回填）
+    @Column({ type: "int", nullable: true, comment: "图片版本号" })
+    version: number | null;
+
+    // 主系统账户流水的关联单号
+    @Column({ type: "varchar", length: 64, nullable: true, comment: "账户流水关联单号" })
+    associationNo: string | null;
+
+    // 备注
+    @Column({ type: "varchar", length: 255, nullable: true, comment: "备注" })
+    remark: string | null;
+
+    // 对账状态
+    @Column({
+        type: "varchar",
+        length: 20,
+        default: ReconcileStatus.PENDING,
+        comment: "对账状态：pending（未对账）/matched（一致）/mismatched（不一致）",
+    })
+    reconcileStatus: ReconcileStatus;
+
+    // 最近一次对账时间
+    @Column({ type: "timestamp", nullable: true, comment: "对账时间" })
+    reconciledAt: Date | null;
+
+    // 创建时间
+    @CreateDateColumn({ comment: "记录时间" })
+    createdAt: Date;
+}
@@ -1,6 +1,45 @@
 import { ExtensionEntity } from "@buildingai/core/decorators";
 import { Column, CreateDateColumn, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
 
+/**
+ * 备用图片模型（按顺序故障转移）
+ */
+export interface ImageModelRoute {
+    /** 系统AI模型ID */
+    modelId: string;
+    /** 端点类型 */
+    endpointType: "images" | "chat" | "custom";
+    /** 自定义端点URL（endpointType 为 custom 时必填） */
+    endpointUrl?: string | null;
+    /** 模型版本偏好 → 模型名称映射（images/chat 端点选择模型版本时使用） */
+    modelVersions?: Record<string, string> | null;
+}
+
+/**
+ * 合规检查规则
+ */
+export interface ComplianceRule {
+    /** 违规词或正则表达式 */
+    pattern: string;
+    /** 规则分类，如 absolute（极限词）/medical（医疗功效）/financial（金融理财）/contact（站外联系方式） */
+    category: string;
+    /** 严重程度：critical 可阻止图片生成，warning 仅提示 */
+    severity: "critical" | "warning";
+    /** 建议替换词，为空表示建议删除 */
+    replacement?: string | null;
+    /** pattern 是否按正则表达式匹配 */
+    isRegex?: boolean;
+    /** 是否启用，默认启用 */
+    enabled?: boolean;
+}
+
+/**
+ * 免费次数重置周期
+ * - none：不重置（终身次数）
+ * - daily / weekly / monthly：每天 / 每周一 / 每月1日零点重置
+ */
+export type FreeQuotaPeriod = "none" | "daily" | "weekly" | "monthly";
+
 /**
  * 小红书图文生成配置
  */
@@ -48,6 +87,12 @@ export class XhsConfig {
     @Column({ type: "int", default: 40, comment: "内容图每张消耗积分" })
     contentImagePower: number;
 
+    /**
+     * 总结页图片消耗积分
+     */
+    @Column({ type: "int", default: 40, comment: "总结页图片每张消耗积分" })
+    summaryImagePower: number;
+
     /**
      * 文本生成模型
      */
@@ -116,6 +161,17 @@ export class XhsConfig {
     })
     imageEndpointUrl: string | null;
 
+    /**
+     * 备用图片模型列表
+     * 主模型熔断或调用失败时按顺序切换，每个模型可使用独立的端点类型
+     */
+    @Column({
+        type: "json",
+        nullable: true,
+        comment: "备用图片模型列表 [{modelId, endpointType, endpointUrl}]，按顺序故障转移",
+    })
+    imageFallbackModels: ImageModelRoute[] | null;
+
     /**
      * 是否启用高并发图片生成
      * 启用后会并行生成内容页图片，加快整体生成速度
@@ -127,6 +183,36 @@ export class XhsConfig {
     })
     highConcurrency: boolean;
 
+    /**
+     * 单张图片最大尝试次数（含首次，1 表示不重试）
+     */
+    @Column({
+        type: "int",
+        default: 3,
+        comment: "单张图片最大尝试次数（含首次）",
+    })
+    imageRetryMaxAttempts: number;
+
+    /**
+     * 重试退避基准间隔（毫秒），第 n 次重试等待 base * 2^(n-1)
+     */
+    @Column({
+        type: "int",
+        default: 2000,
+        comment: "图片重试退避基准间隔（毫秒）",
+    })
+    imageRetryBaseDelay: number;
+
+    /**
+     * 可重试错误关键字（匹配错误信息，忽略大小写），为空使用默认规则
+     */
+    @Column({
+        type: "json",
+        nullable: true,
+        comment: "可重试错误关键字列表，留空使用默认（429/5xx/超时/网络错误）",
+    })
+    imageRetryableErrors: string[] | null;
+
     /**
      * 大纲生成消耗积分
      */
@@ -138,15 +224,96 @@ export class XhsConfig {
     outlinePower: number;
 
     /**
-     * 用户免费使用次数（大纲+图片共用）
+     * 大纲单页改写消耗积分
+     */
+    @Column({
+        type: "int",
+        default: 2,
+        comment: "大纲单页改写每次消耗积分",
+    })
+    pageRewritePower: number;
+
+    /**
+     * 用户免费使用次数（未单独设置额度的操作共用）
      */
     @Column({
         type: "int",
         default: 5,
-        comment: "每用户免费使用总次数（大纲和图片生成共用）",
+        comment: "每用户每周期免费使用次数（未单独设置额度的操作共用）",
     })
     freeUsageLimit: number;
 
+    /**
+     * 免费次数重置周期
+     */
+    @Column({
+        type: "varchar",
+        length: 20,
+        default: "none",
+        comment: "免费次数重置周期：none 不重置 / daily 每天 / weekly 每周 / monthly 每月",
+    })
+    freeQuotaPeriod: FreeQuotaPeriod;
+
+    /**
+     * 大纲免费次数（含单页改写，为空则使用共用次数）
+     */
+    @Column({
+        type: "int",
+        nullable: true,
+        comment: "大纲生成与单页改写每周期免费次数，留空使用共用次数",
+    })
+    freeOutlineLimit: number | null;
+
+    /**
+     * 封面图免费次数（为空则使用共用次数）
+     */
+    @Column({
+        type: "int",
+        nullable: true,
+        comment: "封面图每周期免费次数，留空使用共用次数",
+    })
+    freeCoverImageLimit: number | null;
+
+    /**
+     * 内容图免费次数（为空则使用共用次数）
+     */
+    @Column({
+        type: "int",
+        nullable: true,
+        comment: "内容图每周期免费次数，留空使用共用次数",
+    })
+    freeContentImageLimit: number | null;
+
+    /**
+     * 每位用户每日消费上限（积分，为空不限制）
+     */
+    @Column({
+        type: "int",
+        nullable: true,
+        comment: "每用户每日消费积分上限，留空不限制",
+    })
+    dailySpendCap: number | null;
+
+    /**
+     * 每位用户每月消费上限（积分，为空不限制）
+     */
+    @Column({
+        type: "int",
+        nullable: true,
+        comment: "每用户每月消费积分上限，留空不限制",
+    })
+    monthlySpendCap: number | null;
+
+    /**
+     * 是否允许用户自行设置更低的消费上限
+     */
+    @Column({
+        type: "boolean",
+        default: true,
+        comment: "是否允许用户自行设置消费上限",
+    })
+    allowUserSpendCap: boolean;
+
     /**
      * 首页标题
      */
@@ -178,6 +345,49 @@ export class XhsConfig {
     })
     outlinePrompt: string | null;
 
+    /**
+     * 大纲输出模式
+     * - text：<page> 分隔的文本
+     * - json：结构化 JSON，经校验与修复，失败时回退文本解析
+     */
+    @Column({
+        type: "varchar",
+        length: 20,
+        default: "text",
+        comment: "大纲输出模式：text 文本 / json 结构化",
+    })
+    outlineOutputMode: "text" | "json";
+
+    /**
+     * 是否启用大纲合规检查
+     */
+    @Column({
+        type: "boolean",
+        default: true,
+        comment: "是否启用大纲合规检查",
+    })
+    complianceEnabled: boolean;
+
+    /**
+     * 存在严重违规时是否阻止图片生成
+     */
+    @Column({
+        type: "boolean",
+        default: false,
+        comment: "存在严重违规内容时是否阻止图片生成",
+    })
+    complianceBlockCritical: boolean;
+
+    /**
+     * 合规词库（为空则使用内置词库）
+     */
+    @Column({
+        type: "jsonb",
+        nullable: true,
+        comment: "合规词库 [{pattern, category, severity, replacement, isRegex, enabled}]，留空使用内置词库",
+    })
+    complianceRules: ComplianceRule[] | null;
+
     /**
      * 图片生成提示词模板（为空则使用默认模板）
      */
@@ -31,6 +31,10 @@ export class XhsImageHistory {
     @Column({ type: "uuid", name: "task_id", comment: "所属任务ID" })
     taskId: string;
 
+    // 页面ID
+    @Column({ type: "uuid", name: "page_id", nullable: true, comment: "页面ID" })
+    pageId: string | null;
+
     // 页面索引
     @Column({ type: "int", comment: "页面索引" })
     pageIndex: number;
@@ -51,14 +55,18 @@ export class XhsImageHistory {
     @Column({
         type: "varchar",
         length: 50,
-        comment: "生成方式：initial（初始生成）/single-regenerate（单个重绘）/batch-regenerate（批量重绘）",
+        comment: "生成方式：initial（初始生成）/single-regenerate（单个重绘）/batch-regenerate（批量重绘）/cover-variant（封面候选）",
     })
-    generatedBy: "initial" | "single-regenerate" | "batch-regenerate";
+    generatedBy: "initial" | "single-regenerate" | "batch-regenerate" | "cover-variant";
 
     // 消耗的积分
     @Column({ type: "int", default: 0, comment: "消耗的积分数量" })
     powerAmount: number;
 
+    // 生成该版本的模型
+    @Column({ type: "varchar", length: 255, nullable: true, comment: "生成图片使用的模型" })
+    generatedModel: string | null;
+
     // 是否为当前使用的版本
     @Column({ type: "boolean", default: true, comment: "是否为当前版本" })
     isCurrent: boolean;
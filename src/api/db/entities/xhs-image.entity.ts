@@ -16,6 +16,7 @@ export enum ImageStatus {
     GENERATING = "generating",
     COMPLETED = "completed",
     FAILED = "failed",
+    CANCELLED = "cancelled",
 }
 
 /**
@@ -23,6 +24,7 @@ export enum ImageStatus {
  */
 @ExtensionEntity({ name: "xhs_creator_images", comment: "小红书图文生成图片" })
 @Index("idx_xhs_image_task_page", ["taskId", "pageIndex"])  // 复合索引：按任务ID+页面索引查询
+@Index("idx_xhs_image_task_page_id", ["taskId", "pageId"])  // 复合索引：按任务ID+页面ID查询
 export class XhsImage {
     @PrimaryGeneratedColumn("uuid")
     id: string;
@@ -38,7 +40,11 @@ export class XhsImage {
     @JoinColumn({ name: "task_id" })
     task: any;
 
-    // 页面索引
+    // 页面ID（对应 XhsTask.pages[].id，调整页面顺序后图片仍跟随原页面）
+    @Column({ type: "uuid", name: "page_id", nullable: true, comment: "页面ID" })
+    pageId: string | null;
+
+    // 页面索引（随页面顺序调整重新映射）
     @Column({ type: "int" })
     pageIndex: number;
 
@@ -68,7 +74,7 @@ export class XhsImage {
 
     // 错误信息
     @Column({ type: "text", nullable: true })
-    errorMessage: string;
+    errorMessage: string | null;
 
     // 重试次数
     @Column({ type: "int", default: 0 })
@@ -94,6 +100,15 @@ export class XhsImage {
     })
     billingAccountNo: string;
 
+    // 生成该图片的模型（多模型故障转移时用于追溯）
+    @Column({
+        type: "varchar",
+        length: 255,
+        nullable: true,
+        comment: "生成图片使用的模型",
+    })
+    generatedModel: string | null;
+
     // 生成耗时（毫秒）
     @Column({
         type: "int",
@@ -0,0 +1,73 @@
+import { ExtensionEntity } from "@buildingai/core/decorators";
+import {
+    Column,
+    CreateDateColumn,
+    Index,
+    JoinColumn,
+    ManyToOne,
+    PrimaryGeneratedColumn,
+} from "@buildingai/db/typeorm";
+
+import type { XhsTask } from "./xhs-task.entity";
+
+/**
+ * 大纲版本来源
+ * - ai: AI 生成大纲
+ * - user-edit: 用户保存编辑后的大纲
+ * - page-rewrite: AI 单页改写
+ */
+export type OutlineHistorySource = "ai" | "user-edit" | "page-rewrite";
+
+/**
+ * 大纲版本历史实体
+ * 记录每次大纲生成/保存的完整快照
+ */
+@ExtensionEntity({ name: "xhs_creator_outline_history", comment: "小红书大纲版本历史" })
+@Index("idx_xhs_outline_history_task_version", ["taskId", "version"])
+export class XhsOutlineHistory {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    // 所属任务ID
+    @Column({ type: "uuid", name: "task_id", comment: "所属任务ID" })
+    taskId: string;
+
+    // 关联任务
+    @ManyToOne("XhsTask", {
+        onDelete: "CASCADE",
+    })
+    @JoinColumn({ name: "task_id" })
+    task: any;
+
+    // 版本号（从1开始递增）
+    @Column({ type: "int", comment: "版本号" })
+    version: number;
+
+    // 版本来源
+    @Column({
+        type: "varchar",
+        length: 20,
+        comment: "版本来源：ai（AI生成）/user-edit（用户编辑）/page-rewrite（单页改写）",
+    })
+    source: OutlineHistorySource;
+
+    // 单页改写的页面索引（其他来源为空）
+    @Column({ type: "int", nullable: true, comment: "单页改写的页面索引" })
+    pageIndex: number | null;
+
+    // 大纲文本快照
+    @Column({ type: "text", comment: "大纲文本" })
+    outline: string;
+
+    // 页面快照
+    @Column({ type: "jsonb", comment: "大纲页面" })
+    pages: XhsTask["pages"];
+
+    // 是否为当前使用的版本
+    @Column({ type: "boolean", default: true, comment: "是否为当前版本" })
+    isCurrent: boolean;
+
+    // 创建时间（版本保存时间）
+    @CreateDateColumn({ comment: "版本创建时间" })
+    createdAt: Date;
+}
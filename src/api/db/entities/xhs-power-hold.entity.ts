@@ -0,0 +1,81 @@
+import { ExtensionEntity } from "@buildingai/core/decorators";
+import {
+    Column,
+    CreateDateColumn,
+    Index,
+    JoinColumn,
+    ManyToOne,
+    PrimaryGeneratedColumn,
+    UpdateDateColumn,
+} from "@buildingai/db/typeorm";
+
+/**
+ * 积分冻结状态枚举
+ * - active: 冻结中，批量生成进行中
+ * - settled: 冻结额度已全部转为实际扣费
+ * - released: 已结束，未结算的剩余额度已释放
+ */
+export enum PowerHoldStatus {
+    ACTIVE = "active",
+    SETTLED = "settled",
+    RELEASED = "released",
+}
+
+/**
+ * 积分冻结记录实体
+ * 批量生成图片开始时冻结整批所需积分，每页成功后按单价结算为实际扣费，结束时释放剩余额度
+ */
+@ExtensionEntity({ name: "xhs_creator_power_holds", comment: "小红书批量生成积分冻结记录" })
+@Index("idx_xhs_power_hold_user_status", ["userId", "status"])
+export class XhsPowerHold {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    // 用户ID
+    @Column({ type: "varchar", length: 255, comment: "用户ID" })
+    userId: string;
+
+    // 所属任务ID
+    @Column({ type: "uuid", name: "task_id", comment: "所属任务ID" })
+    taskId: string;
+
+    // 关联任务
+    @ManyToOne("XhsTask", {
+        onDelete: "CASCADE",
+    })
+    @JoinColumn({ name: "task_id" })
+    task: any;
+
+    // 冻结积分
+    @Column({ type: "int", comment: "冻结积分" })
+    amount: number;
+
+    // 已结算为实际扣费的积分
+    @Column({ type: "int", default: 0, comment: "已结算积分" })
+    settledAmount: number;
+
+    // 已结算的图片数
+    @Column({ type: "int", default: 0, comment: "已结算图片数" })
+    settledCount: number;
+
+    // 结束时释放的积分
+    @Column({ type: "int", default: 0, comment: "已释放积分" })
+    releasedAmount: number;
+
+    // 冻结状态
+    @Column({
+        type: "varchar",
+        length: 20,
+        default: PowerHoldStatus.ACTIVE,
+        comment: "冻结状态：active（冻结中）/settled（已结算）/released（已释放）",
+    })
+    status: PowerHoldStatus;
+
+    // 创建时间（冻结时间）
+    @CreateDateColumn({ comment: "冻结时间" })
+    createdAt: Date;
+
+    // 更新时间（最近一次结算或释放时间）
+    @UpdateDateColumn({ comment: "更新时间" })
+    updatedAt: Date;
+}
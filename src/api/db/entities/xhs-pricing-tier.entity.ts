@@ -0,0 +1,72 @@
+import { ExtensionEntity } from "@buildingai/core/decorators";
+import { Column, CreateDateColumn, PrimaryGeneratedColumn, UpdateDateColumn } from "@buildingai/db/typeorm";
+
+/**
+ * 会员等级定价实体
+ * 按主系统会员等级设置积分单价、免费次数和每个任务的最大页数，未匹配等级的用户使用全局配置
+ */
+@ExtensionEntity({ name: "xhs_creator_pricing_tiers", comment: "小红书会员等级定价" })
+export class XhsPricingTier {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    // 主系统会员等级ID
+    @Column({ type: "varchar", length: 64, unique: true, comment: "主系统会员等级ID" })
+    membershipLevelId: string;
+
+    // 定价名称（默认取会员等级名称）
+    @Column({ type: "varchar", length: 100, comment: "定价名称" })
+    name: string;
+
+    // 大纲生成积分
+    @Column({ type: "int", comment: "大纲生成每次消耗积分" })
+    outlinePower: number;
+
+    // 单页改写积分
+    @Column({ type: "int", comment: "大纲单页改写每次消耗积分" })
+    pageRewritePower: number;
+
+    // 封面图积分
+    @Column({ type: "int", comment: "封面图每张消耗积分" })
+    coverImagePower: number;
+
+    // 内容图积分
+    @Column({ type: "int", comment: "内容图每张消耗积分" })
+    contentImagePower: number;
+
+    // 总结页积分
+    @Column({ type: "int", comment: "总结页图片每张消耗积分" })
+    summaryImagePower: number;
+
+    // 共用免费次数（为空沿用全局配置）
+    @Column({ type: "int", nullable: true, comment: "每周期共用免费次数，留空沿用全局配置" })
+    freeUsageLimit: number | null;
+
+    // 大纲免费次数（为空沿用全局配置）
+    @Column({ type: "int", nullable: true, comment: "大纲生成与单页改写每周期免费次数，留空沿用全局配置" })
+    freeOutlineLimit: number | null;
+
+    // 封面图免费次数（为空沿用全局配置）
+    @Column({ type: "int", nullable: true, comment: "封面图每周期免费次数，留空沿用全局配置" })
+    freeCoverImageLimit: number | null;
+
+    // 内容图免费次数（为空沿用全局配置）
+    @Column({ type: "int", nullable: true, comment: "内容图每周期免费次数，留空沿用全局配置" })
+    freeContentImageLimit: number | null;
+
+    // 每个任务最多生成的图片页数（为空不限制）
+    @Column({ type: "int", nullable: true, comment: "每个任务最大页数，留空不限制" })
+    maxPages: number | null;
+
+    // 是否启用
+    @Column({ type: "boolean", default: true, comment: "是否启用" })
+    isEnabled: boolean;
+
+    // 创建时间
+    @CreateDateColumn({ comment: "创建时间" })
+    createdAt: Date;
+
+    // 更新时间
+    @UpdateDateColumn({ comment: "更新时间" })
+    updatedAt: Date;
+}
@@ -0,0 +1,57 @@
+import { ExtensionEntity } from "@buildingai/core/decorators";
+import {
+    Column,
+    CreateDateColumn,
+    Index,
+    PrimaryGeneratedColumn,
+    UpdateDateColumn,
+} from "@buildingai/db/typeorm";
+
+/**
+ * 模板类型枚举
+ */
+export enum TemplateType {
+    OUTLINE = "outline",
+    IMAGE_COVER = "image_cover",
+    IMAGE_CONTENT = "image_content",
+    IMAGE_SUMMARY = "image_summary",
+}
+
+/**
+ * 用户自定义 Prompt 模板实体
+ */
+@ExtensionEntity({ name: "xhs_creator_prompt_templates", comment: "小红书用户自定义提示词模板" })
+@Index("idx_xhs_prompt_template_user_type", ["userId", "type"])  // 复合索引：按用户ID+类型查询
+export class XhsPromptTemplate {
+    @PrimaryGeneratedColumn("uuid")
+    id: string;
+
+    // 用户ID
+    @Column({ type: "varchar", length: 255 })
+    userId: string;
+
+    // 模板名称
+    @Column({ type: "varchar", length: 100 })
+    name: string;
+
+    // 模板类型
+    @Column({
+        type: "enum",
+        enum: TemplateType,
+    })
+    type: TemplateType;
+
+    // 模板内容
+    @Column({ type: "text" })
+    content: string;
+
+    // 是否为该类型的默认模板（每个用户每种类型最多一个）
+    @Column({ type: "boolean", default: false })
+    isDefault: boolean;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
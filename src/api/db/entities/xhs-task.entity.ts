@@ -20,6 +20,58 @@ export enum TaskStatus {
     FAILED = "failed",
 }
 
+/**
+ * 图片生成偏好（来自前端 GenerationPreferences）
+ */
+export interface GenerationPreferences {
+    /** 画面比例，如 "3:4" */
+    aspectRatio?: string;
+    /** 模型版本，如 "4.0" */
+    model?: string;
+    /** 清晰度："1k" | "2k" */
+    quality?: string;
+}
+
+/**
+ * 结构化大纲页面（大纲 JSON 输出模式）
+ */
+export interface StructuredOutlinePage {
+    type: "cover" | "content" | "summary";
+    /** 页面标题 */
+    title: string;
+    /** 副标题，没有时为空字符串 */
+    subtitle: string;
+    /** 正文要点 */
+    bullets: string[];
+    /** 配图描述 */
+    imageDescription: string;
+}
+
+/**
+ * 页面级图片提示词覆盖
+ */
+export interface PagePromptOverride {
+    /** replace：直接作为最终提示词；append：追加到系统组装的提示词之后 */
+    mode: "replace" | "append";
+    text: string;
+}
+
+/**
+ * 发布文案（标题候选、正文、话题标签）
+ */
+export interface XhsCaption {
+    /** AI 生成的标题候选（每个不超过 20 字） */
+    titles: string[];
+    /** 选中/编辑后的标题 */
+    title: string;
+    /** 正文 */
+    body: string;
+    /** 话题标签（不含 #） */
+    hashtags: string[];
+    /** 最近一次 AI 生成时间 */
+    generatedAt: string | null;
+}
+
 /**
  * 小红书图文生成任务实体
  */
@@ -40,9 +92,17 @@ export class XhsTask {
     // 页面结构化数据
     @Column({ type: "jsonb", nullable: true })
     pages: Array<{
+        /** 页面ID（稳定标识，图片和版本历史按此关联） */
+        id?: string;
         index: number;
         type: "cover" | "content" | "summary";
         content: string;
+        /** 页面级风格预设（覆盖任务风格） */
+        styleId?: string | null;
+        /** 结构化内容（JSON 输出模式生成，编辑文案后清空） */
+        structured?: StructuredOutlinePage | null;
+        /** 图片提示词覆盖（为空时使用系统组装的提示词） */
+        promptOverride?: PagePromptOverride | null;
     }>;
 
     // 任务状态
@@ -73,6 +133,26 @@ export class XhsTask {
     @Column({ type: "text", nullable: true })
     errorMessage: string;
 
+    // 风格预设ID（ImageSpecificationService.stylePresets）
+    @Column({ type: "varchar", length: 64, nullable: true })
+    stylePresetId: string | null;
+
+    // 任务预算（积分，为空不限制），任务累计消费超出时停止生成
+    @Column({ type: "int", nullable: true })
+    budget: number | null;
+
+    // 图片生成偏好（比例、模型、清晰度）
+    @Column({ type: "jsonb", nullable: true })
+    generationPreferences: GenerationPreferences | null;
+
+    // 发布文案（标题、正文、话题标签）
+    @Column({ type: "jsonb", nullable: true })
+    caption: XhsCaption | null;
+
+    // 排队或生成中的队列任务参数（提交的页面、重绘标记等），服务重启后按此恢复，任务结束后清空
+    @Column({ type: "jsonb", nullable: true })
+    queuePayload: Record<string, unknown> | null;
+
     // 关联的图片
     @OneToMany("XhsImage", "task")
     images: any[];
@@ -3,7 +3,8 @@ import { Column, CreateDateColumn, PrimaryGeneratedColumn, UpdateDateColumn } fr
 
 /**
  * 小红书用户使用统计
- * 跟踪用户的免费使用次数消耗情况
+ * 跟踪用户在当前免费周期内的免费次数消耗情况
+ * 设置了单独额度的操作计入各自的计数，其余操作计入共用计数
  */
 @ExtensionEntity({ name: "xhs_user_usage", comment: "小红书用户使用统计" })
 export class XhsUserUsage {
@@ -20,11 +21,47 @@ export class XhsUserUsage {
     userId: string;
 
     /**
-     * 已使用免费次数（大纲+图片共用）
+     * 已使用共用免费次数
      */
-    @Column({ type: "int", default: 0, comment: "已使用免费次数" })
+    @Column({ type: "int", default: 0, comment: "已使用共用免费次数" })
     freeUsageCount: number;
 
+    /**
+     * 已使用大纲免费次数（含单页改写）
+     */
+    @Column({ type: "int", default: 0, comment: "已使用大纲免费次数" })
+    outlineFreeCount: number;
+
+    /**
+     * 已使用封面图免费次数
+     */
+    @Column({ type: "int", default: 0, comment: "已使用封面图免费次数" })
+    coverFreeCount: number;
+
+    /**
+     * 已使用内容图免费次数
+     */
+    @Column({ type: "int", default: 0, comment: "已使用内容图免费次数" })
+    contentFreeCount: number;
+
+    /**
+     * 当前免费周期的开始时间（不重置时为空）
+     */
+    @Column({ type: "timestamp", nullable: true, comment: "当前免费周期开始时间" })
+    periodStart: Date | null;
+
+    /**
+     * 用户自行设置的每日消费上限（积分，为空不限制，不能高于后台上限）
+     */
+    @Column({ type: "int", nullable: true, comment: "用户设置的每日消费积分上限" })
+    dailySpendCap: number | null;
+
+    /**
+     * 用户自行设置的每月消费上限（积分，为空不限制，不能高于后台上限）
+     */
+    @Column({ type: "int", nullable: true, comment: "用户设置的每月消费积分上限" })
+    monthlySpendCap: number | null;
+
     /**
      * 创建时间
      */
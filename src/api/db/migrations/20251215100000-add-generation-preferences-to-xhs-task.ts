@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加任务图片生成偏好字段
+ */
+export class AddGenerationPreferencesToXhsTask20251215100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            ADD COLUMN IF NOT EXISTS "generation_preferences" jsonb NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_tasks"."generation_preferences" IS '图片生成偏好（比例、模型、清晰度）';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            DROP COLUMN IF EXISTS "generation_preferences";
+        `);
+    }
+}
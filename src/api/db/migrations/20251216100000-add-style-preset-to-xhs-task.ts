@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加任务风格预设字段
+ */
+export class AddStylePresetToXhsTask20251216100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            ADD COLUMN IF NOT EXISTS "style_preset_id" varchar(64) NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_tasks"."style_preset_id" IS '风格预设ID';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            DROP COLUMN IF EXISTS "style_preset_id";
+        `);
+    }
+}
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 创建用户自定义提示词模板表
+ */
+export class CreateXhsPromptTemplate20251217100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DO $$ BEGIN
+                CREATE TYPE "buildingai_xhs_creator"."xhs_creator_prompt_templates_type_enum"
+                AS ENUM ('outline', 'image_cover', 'image_content', 'image_summary');
+            EXCEPTION
+                WHEN duplicate_object THEN NULL;
+            END $$;
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "buildingai_xhs_creator"."xhs_creator_prompt_templates" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" varchar(255) NOT NULL,
+                "name" varchar(100) NOT NULL,
+                "type" "buildingai_xhs_creator"."xhs_creator_prompt_templates_type_enum" NOT NULL,
+                "content" text NOT NULL,
+                "is_default" boolean NOT NULL DEFAULT false,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "pk_xhs_creator_prompt_templates" PRIMARY KEY ("id")
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_xhs_prompt_template_user_type"
+            ON "buildingai_xhs_creator"."xhs_creator_prompt_templates" ("user_id", "type");
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON TABLE "buildingai_xhs_creator"."xhs_creator_prompt_templates" IS '小红书用户自定义提示词模板';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_prompt_templates"."type" IS '模板类型';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_prompt_templates"."is_default" IS '是否为该类型的默认模板';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP TABLE IF EXISTS "buildingai_xhs_creator"."xhs_creator_prompt_templates";
+        `);
+        await queryRunner.query(`
+            DROP TYPE IF EXISTS "buildingai_xhs_creator"."xhs_creator_prompt_templates_type_enum";
+        `);
+    }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加图片生成重试策略配置
+ */
+export class AddImageRetryPolicyToXhsConfig20251218100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "image_retry_max_attempts" integer NOT NULL DEFAULT 3,
+            ADD COLUMN IF NOT EXISTS "image_retry_base_delay" integer NOT NULL DEFAULT 2000,
+            ADD COLUMN IF NOT EXISTS "image_retryable_errors" json NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."image_retry_max_attempts" IS '单张图片最大尝试次数（含首次）';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."image_retry_base_delay" IS '图片重试退避基准间隔（毫秒）';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."image_retryable_errors" IS '可重试错误关键字列表，留空使用默认（429/5xx/超时/网络错误）';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "image_retry_max_attempts",
+            DROP COLUMN IF EXISTS "image_retry_base_delay",
+            DROP COLUMN IF EXISTS "image_retryable_errors";
+        `);
+    }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加备用图片模型配置，并记录每张图片的生成模型
+ */
+export class AddImageModelFallback20251219100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "image_fallback_models" json NULL;
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_images"
+            ADD COLUMN IF NOT EXISTS "generated_model" varchar(255) NULL;
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_image_history"
+            ADD COLUMN IF NOT EXISTS "generated_model" varchar(255) NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."image_fallback_models" IS '备用图片模型列表 [{modelId, endpointType, endpointUrl}]，按顺序故障转移';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_images"."generated_model" IS '生成图片使用的模型';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_image_history"."generated_model" IS '生成图片使用的模型';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_image_history"
+            DROP COLUMN IF EXISTS "generated_model";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_images"
+            DROP COLUMN IF EXISTS "generated_model";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "image_fallback_models";
+        `);
+    }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加大纲输出模式配置（text / json）
+ */
+export class AddOutlineOutputModeToXhsConfig20251220100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "outline_output_mode" varchar(20) NOT NULL DEFAULT 'text';
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."outline_output_mode" IS '大纲输出模式：text 文本 / json 结构化';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "outline_output_mode";
+        `);
+    }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加大纲单页改写积分配置
+ */
+export class AddPageRewritePowerToXhsConfig20251221100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "page_rewrite_power" int NOT NULL DEFAULT 2;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."page_rewrite_power" IS '大纲单页改写每次消耗积分';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "page_rewrite_power";
+        `);
+    }
+}
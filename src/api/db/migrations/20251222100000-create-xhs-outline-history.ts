@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 创建大纲版本历史表
+ * 已有任务的当前大纲补录为 v1（来源 ai）
+ */
+export class CreateXhsOutlineHistory20251222100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "buildingai_xhs_creator"."xhs_creator_outline_history" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "task_id" uuid NOT NULL,
+                "version" int NOT NULL,
+                "source" varchar(20) NOT NULL,
+                "page_index" int NULL,
+                "outline" text NOT NULL,
+                "pages" jsonb NOT NULL,
+                "is_current" boolean NOT NULL DEFAULT true,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "pk_xhs_creator_outline_history" PRIMARY KEY ("id"),
+                CONSTRAINT "fk_xhs_creator_outline_history_task" FOREIGN KEY ("task_id")
+                    REFERENCES "buildingai_xhs_creator"."xhs_creator_tasks" ("id") ON DELETE CASCADE
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_xhs_outline_history_task_version"
+            ON "buildingai_xhs_creator"."xhs_creator_outline_history" ("task_id", "version");
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON TABLE "buildingai_xhs_creator"."xhs_creator_outline_history" IS '小红书大纲版本历史';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_outline_history"."source" IS '版本来源：ai（AI生成）/user-edit（用户编辑）/page-rewrite（单页改写）';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_outline_history"."page_index" IS '单页改写的页面索引';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_outline_history"."is_current" IS '是否为当前版本';
+        `);
+
+        await queryRunner.query(`
+            INSERT INTO "buildingai_xhs_creator"."xhs_creator_outline_history"
+                ("task_id", "version", "source", "outline", "pages", "is_current", "created_at")
+            SELECT t."id", 1, 'ai', t."outline", t."pages", true, t."updated_at"
+            FROM "buildingai_xhs_creator"."xhs_creator_tasks" t
+            WHERE t."outline" IS NOT NULL
+              AND t."pages" IS NOT NULL
+              AND NOT EXISTS (
+                  SELECT 1 FROM "buildingai_xhs_creator"."xhs_creator_outline_history" h
+                  WHERE h."task_id" = t."id"
+              );
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP TABLE IF EXISTS "buildingai_xhs_creator"."xhs_creator_outline_history";
+        `);
+    }
+}
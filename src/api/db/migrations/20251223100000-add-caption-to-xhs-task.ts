@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加任务发布文案字段
+ */
+export class AddCaptionToXhsTask20251223100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            ADD COLUMN IF NOT EXISTS "caption" jsonb NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_tasks"."caption" IS '发布文案（标题候选、正文、话题标签）';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            DROP COLUMN IF EXISTS "caption";
+        `);
+    }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加大纲合规检查配置
+ */
+export class AddComplianceToXhsConfig20251224100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "compliance_enabled" boolean NOT NULL DEFAULT true,
+            ADD COLUMN IF NOT EXISTS "compliance_block_critical" boolean NOT NULL DEFAULT false,
+            ADD COLUMN IF NOT EXISTS "compliance_rules" jsonb NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."compliance_enabled" IS '是否启用大纲合规检查';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."compliance_block_critical" IS '存在严重违规内容时是否阻止图片生成';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."compliance_rules" IS '合规词库，留空使用内置词库';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "compliance_enabled",
+            DROP COLUMN IF EXISTS "compliance_block_critical",
+            DROP COLUMN IF EXISTS "compliance_rules";
+        `);
+    }
+}
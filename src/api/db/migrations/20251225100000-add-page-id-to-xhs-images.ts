@@ -0,0 +1,81 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 大纲页面添加稳定ID，图片与版本历史按页面ID关联
+ * 已有任务的页面补充ID，已有图片和版本历史按当前页面索引关联到对应页面
+ */
+export class AddPageIdToXhsImages20251225100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_images"
+            ADD COLUMN IF NOT EXISTS "page_id" uuid NULL;
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_image_history"
+            ADD COLUMN IF NOT EXISTS "page_id" uuid NULL;
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_xhs_image_task_page_id"
+            ON "buildingai_xhs_creator"."xhs_creator_images" ("task_id", "page_id");
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_images"."page_id" IS '页面ID';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_image_history"."page_id" IS '页面ID';
+        `);
+
+        // 为已有任务的页面补充ID
+        await queryRunner.query(`
+            UPDATE "buildingai_xhs_creator"."xhs_creator_tasks" t
+            SET "pages" = (
+                SELECT jsonb_agg(
+                    CASE
+                        WHEN e.page ? 'id' THEN e.page
+                        ELSE e.page || jsonb_build_object('id', uuid_generate_v4()::text)
+                    END
+                    ORDER BY e.ord
+                )
+                FROM jsonb_array_elements(t."pages") WITH ORDINALITY AS e(page, ord)
+            )
+            WHERE jsonb_typeof(t."pages") = 'array' AND jsonb_array_length(t."pages") > 0;
+        `);
+
+        // 已有图片按页面索引关联到页面ID
+        await queryRunner.query(`
+            UPDATE "buildingai_xhs_creator"."xhs_creator_images" i
+            SET "page_id" = (p.page ->> 'id')::uuid
+            FROM "buildingai_xhs_creator"."xhs_creator_tasks" t
+            CROSS JOIN LATERAL jsonb_array_elements(t."pages") AS p(page)
+            WHERE i."task_id" = t."id"
+                AND jsonb_typeof(t."pages") = 'array'
+                AND (p.page ->> 'index')::int = i."page_index"
+                AND i."page_id" IS NULL;
+        `);
+
+        // 版本历史跟随所属图片
+        await queryRunner.query(`
+            UPDATE "buildingai_xhs_creator"."xhs_creator_image_history" h
+            SET "page_id" = i."page_id"
+            FROM "buildingai_xhs_creator"."xhs_creator_images" i
+            WHERE h."image_id" = i."id" AND h."page_id" IS NULL;
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP INDEX IF EXISTS "buildingai_xhs_creator"."idx_xhs_image_task_page_id";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_image_history"
+            DROP COLUMN IF EXISTS "page_id";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_images"
+            DROP COLUMN IF EXISTS "page_id";
+        `);
+    }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 创建批量生成积分冻结记录表
+ */
+export class CreateXhsPowerHold20251226100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "buildingai_xhs_creator"."xhs_creator_power_holds" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" varchar(255) NOT NULL,
+                "task_id" uuid NOT NULL,
+                "amount" int NOT NULL,
+                "settled_amount" int NOT NULL DEFAULT 0,
+                "settled_count" int NOT NULL DEFAULT 0,
+                "released_amount" int NOT NULL DEFAULT 0,
+                "status" varchar(20) NOT NULL DEFAULT 'active',
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "pk_xhs_creator_power_holds" PRIMARY KEY ("id"),
+                CONSTRAINT "fk_xhs_creator_power_holds_task" FOREIGN KEY ("task_id")
+                    REFERENCES "buildingai_xhs_creator"."xhs_creator_tasks" ("id") ON DELETE CASCADE
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_xhs_power_hold_user_status"
+            ON "buildingai_xhs_creator"."xhs_creator_power_holds" ("user_id", "status");
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON TABLE "buildingai_xhs_creator"."xhs_creator_power_holds" IS '小红书批量生成积分冻结记录';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_power_holds"."amount" IS '冻结积分';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_power_holds"."settled_amount" IS '已结算积分';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_power_holds"."settled_count" IS '已结算图片数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_power_holds"."released_amount" IS '已释放积分';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_power_holds"."status" IS '冻结状态：active（冻结中）/settled（已结算）/released（已释放）';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP TABLE IF EXISTS "buildingai_xhs_creator"."xhs_creator_power_holds";
+        `);
+    }
+}
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 创建计费账本表
+ */
+export class CreateXhsBillingLedger20251227100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "buildingai_xhs_creator"."xhs_creator_billing_ledger" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "user_id" varchar(255) NOT NULL,
+                "type" varchar(20) NOT NULL,
+                "scene" varchar(20) NOT NULL,
+                "amount" int NOT NULL DEFAULT 0,
+                "task_id" uuid NULL,
+                "image_id" uuid NULL,
+                "page_id" uuid NULL,
+                "page_index" int NULL,
+                "page_type" varchar(20) NULL,
+                "version" int NULL,
+                "association_no" varchar(64) NULL,
+                "remark" varchar(255) NULL,
+                "reconcile_status" varchar(20) NOT NULL DEFAULT 'pending',
+                "reconciled_at" TIMESTAMP NULL,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "pk_xhs_creator_billing_ledger" PRIMARY KEY ("id")
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_xhs_billing_ledger_task"
+            ON "buildingai_xhs_creator"."xhs_creator_billing_ledger" ("task_id");
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_xhs_billing_ledger_association"
+            ON "buildingai_xhs_creator"."xhs_creator_billing_ledger" ("association_no");
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON TABLE "buildingai_xhs_creator"."xhs_creator_billing_ledger" IS '小红书计费账本';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."type" IS '记录类型：charge（扣费）/free-use（免费次数）/refund（退款）';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."scene" IS '消费场景';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."amount" IS '积分数量';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."version" IS '图片版本号';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."association_no" IS '账户流水关联单号';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."reconcile_status" IS '对账状态：pending（未对账）/matched（一致）/mismatched（不一致）';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."reconciled_at" IS '对账时间';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP TABLE IF EXISTS "buildingai_xhs_creator"."xhs_creator_billing_ledger";
+        `);
+    }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加按周期重置、按操作类型拆分的免费次数
+ */
+export class AddFreeQuotaPeriod20251228100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "free_quota_period" varchar(20) NOT NULL DEFAULT 'none',
+            ADD COLUMN IF NOT EXISTS "free_outline_limit" int NULL,
+            ADD COLUMN IF NOT EXISTS "free_cover_image_limit" int NULL,
+            ADD COLUMN IF NOT EXISTS "free_content_image_limit" int NULL;
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_user_usage"
+            ADD COLUMN IF NOT EXISTS "outline_free_count" int NOT NULL DEFAULT 0,
+            ADD COLUMN IF NOT EXISTS "cover_free_count" int NOT NULL DEFAULT 0,
+            ADD COLUMN IF NOT EXISTS "content_free_count" int NOT NULL DEFAULT 0,
+            ADD COLUMN IF NOT EXISTS "period_start" TIMESTAMP NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."free_usage_limit" IS '每用户每周期免费使用次数（未单独设置额度的操作共用）';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."free_quota_period" IS '免费次数重置周期：none 不重置 / daily 每天 / weekly 每周 / monthly 每月';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."free_outline_limit" IS '大纲生成与单页改写每周期免费次数，留空使用共用次数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."free_cover_image_limit" IS '封面图每周期免费次数，留空使用共用次数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."free_content_image_limit" IS '内容图每周期免费次数，留空使用共用次数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_user_usage"."free_usage_count" IS '已使用共用免费次数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_user_usage"."outline_free_count" IS '已使用大纲免费次数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_user_usage"."cover_free_count" IS '已使用封面图免费次数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_user_usage"."content_free_count" IS '已使用内容图免费次数';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_user_usage"."period_start" IS '当前免费周期开始时间';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_billing_ledger"."type" IS '记录类型：charge（扣费）/free-use（免费次数）/refund（退款）/free-refund（退回免费次数）';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "free_quota_period",
+            DROP COLUMN IF EXISTS "free_outline_limit",
+            DROP COLUMN IF EXISTS "free_cover_image_limit",
+            DROP COLUMN IF EXISTS "free_content_image_limit";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_user_usage"
+            DROP COLUMN IF EXISTS "outline_free_count",
+            DROP COLUMN IF EXISTS "cover_free_count",
+            DROP COLUMN IF EXISTS "content_free_count",
+            DROP COLUMN IF EXISTS "period_start";
+        `);
+    }
+}
@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 创建会员等级定价表，添加总结页单价
+ */
+export class CreateXhsPricingTier20251229100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "buildingai_xhs_creator"."xhs_creator_pricing_tiers" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "membership_level_id" varchar(64) NOT NULL,
+                "name" varchar(100) NOT NULL,
+                "outline_power" int NOT NULL,
+                "page_rewrite_power" int NOT NULL,
+                "cover_image_power" int NOT NULL,
+                "content_image_power" int NOT NULL,
+                "summary_image_power" int NOT NULL,
+                "free_usage_limit" int NULL,
+                "free_outline_limit" int NULL,
+                "free_cover_image_limit" int NULL,
+                "free_content_image_limit" int NULL,
+                "max_pages" int NULL,
+                "is_enabled" boolean NOT NULL DEFAULT true,
+                "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+                "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "pk_xhs_creator_pricing_tiers" PRIMARY KEY ("id"),
+                CONSTRAINT "uq_xhs_creator_pricing_tiers_level" UNIQUE ("membership_level_id")
+            );
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON TABLE "buildingai_xhs_creator"."xhs_creator_pricing_tiers" IS '小红书会员等级定价';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_pricing_tiers"."membership_level_id" IS '主系统会员等级ID';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_pricing_tiers"."summary_image_power" IS '总结页图片每张消耗积分';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_pricing_tiers"."free_usage_limit" IS '每周期共用免费次数，留空沿用全局配置';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_pricing_tiers"."max_pages" IS '每个任务最大页数，留空不限制';
+        `);
+
+        // 总结页此前按内容图计费，沿用现有内容图单价
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "summary_image_power" int NULL;
+        `);
+        await queryRunner.query(`
+            UPDATE "buildingai_xhs_creator"."xhs_config"
+            SET "summary_image_power" = "content_image_power"
+            WHERE "summary_image_power" IS NULL;
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ALTER COLUMN "summary_image_power" SET DEFAULT 40,
+            ALTER COLUMN "summary_image_power" SET NOT NULL;
+        `);
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."summary_image_power" IS '总结页图片每张消耗积分';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "summary_image_power";
+        `);
+        await queryRunner.query(`
+            DROP TABLE IF EXISTS "buildingai_xhs_creator"."xhs_creator_pricing_tiers";
+        `);
+    }
+}
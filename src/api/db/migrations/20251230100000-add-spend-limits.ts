@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 添加每日/每月消费上限和任务预算
+ */
+export class AddSpendLimits20251230100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            ADD COLUMN IF NOT EXISTS "daily_spend_cap" int NULL,
+            ADD COLUMN IF NOT EXISTS "monthly_spend_cap" int NULL,
+            ADD COLUMN IF NOT EXISTS "allow_user_spend_cap" boolean NOT NULL DEFAULT true;
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_user_usage"
+            ADD COLUMN IF NOT EXISTS "daily_spend_cap" int NULL,
+            ADD COLUMN IF NOT EXISTS "monthly_spend_cap" int NULL;
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            ADD COLUMN IF NOT EXISTS "budget" int NULL;
+        `);
+
+        // 消费上限按用户和时间范围汇总账本
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_xhs_billing_ledger_user_created"
+            ON "buildingai_xhs_creator"."xhs_creator_billing_ledger" ("user_id", "created_at");
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."daily_spend_cap" IS '每用户每日消费积分上限，留空不限制';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."monthly_spend_cap" IS '每用户每月消费积分上限，留空不限制';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_config"."allow_user_spend_cap" IS '是否允许用户自行设置消费上限';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_user_usage"."daily_spend_cap" IS '用户设置的每日消费积分上限';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_user_usage"."monthly_spend_cap" IS '用户设置的每月消费积分上限';
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_tasks"."budget" IS '任务预算积分，留空不限制';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP INDEX IF EXISTS "buildingai_xhs_creator"."idx_xhs_billing_ledger_user_created";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            DROP COLUMN IF EXISTS "budget";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_user_usage"
+            DROP COLUMN IF EXISTS "daily_spend_cap",
+            DROP COLUMN IF EXISTS "monthly_spend_cap";
+        `);
+
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_config"
+            DROP COLUMN IF EXISTS "daily_spend_cap",
+            DROP COLUMN IF EXISTS "monthly_spend_cap",
+            DROP COLUMN IF EXISTS "allow_user_spend_cap";
+        `);
+    }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 任务保存排队中的队列参数，服务重启后按提交的页面恢复生成
+ */
+export class AddQueuePayloadToXhsTask20251231100000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            ADD COLUMN IF NOT EXISTS "queue_payload" jsonb NULL;
+        `);
+
+        await queryRunner.query(`
+            COMMENT ON COLUMN "buildingai_xhs_creator"."xhs_creator_tasks"."queue_payload" IS '排队或生成中的队列任务参数';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "buildingai_xhs_creator"."xhs_creator_tasks"
+            DROP COLUMN IF EXISTS "queue_payload";
+        `);
+    }
+}
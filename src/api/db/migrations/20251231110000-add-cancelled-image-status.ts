@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * 图片状态添加已取消（用户取消生成时未完成的页面）
+ */
+export class AddCancelledImageStatus20251231110000 implements MigrationInterface {
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TYPE "buildingai_xhs_creator"."xhs_creator_images_status_enum"
+            ADD VALUE IF NOT EXISTS 'cancelled';
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // PostgreSQL 不支持删除枚举值，已取消的图片改为失败
+        await queryRunner.query(`
+            UPDATE "buildingai_xhs_creator"."xhs_creator_images"
+            SET "status" = 'failed'
+            WHERE "status" = 'cancelled';
+        `);
+    }
+}
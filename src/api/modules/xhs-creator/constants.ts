@@ -3,6 +3,8 @@
  * 统一管理魔法字符串和枚举值
  */
 
+import type { ComplianceRule } from "../../db/entities/xhs-config.entity";
+
 /**
  * 页面类型
  */
@@ -28,6 +30,7 @@ export enum GeneratedBy {
     INITIAL = "initial",
     SINGLE_REGENERATE = "single-regenerate",
     BATCH_REGENERATE = "batch-regenerate",
+    COVER_VARIANT = "cover-variant",
 }
 
 /**
@@ -39,8 +42,22 @@ export enum SseEventType {
     ERROR = "error",
     FINISH = "finish",
     START = "start",
+    RETRYING = "retrying",
+    DELTA = "delta",
+    PAGE = "page",
+    COVER_VARIANTS = "cover_variants",
 }
 
+/**
+ * 封面候选
+ */
+export const COVER_VARIANTS = {
+    /** 单次最多生成的封面候选数 */
+    MAX: 4,
+    /** 等待用户选择的最长时间（毫秒），超时自动选用第一张 */
+    SELECTION_TIMEOUT: 5 * 60 * 1000,
+};
+
 /**
  * 生成阶段
  */
@@ -71,6 +88,35 @@ export const DEFAULT_IMAGE_OPTIONS = {
     QUALITY: "standard",
 };
 
+/**
+ * 图片清晰度
+ */
+export enum ImageQuality {
+    STANDARD = "1k",
+    HD = "2k",
+}
+
+/**
+ * 支持的图片比例（与前端 GenerationPreferences 保持一致）
+ */
+export const IMAGE_ASPECT_RATIOS = ["21:9", "16:9", "3:2", "4:3", "1:1", "3:4", "2:3", "9:16"];
+
+/**
+ * 不同清晰度的积分倍率
+ */
+export const QUALITY_POWER_MULTIPLIER: Record<ImageQuality, number> = {
+    [ImageQuality.STANDARD]: 1,
+    [ImageQuality.HD]: 1.5,
+};
+
+/**
+ * 批量生成积分冻结
+ */
+export const POWER_HOLD = {
+    /** 冻结超过该时长未结算或释放（如服务中途重启）时视为失效，不再占用可用积分（毫秒） */
+    EXPIRE_AFTER: 30 * 60 * 1000,
+};
+
 /**
  * 默认积分消耗
  */
@@ -78,3 +124,190 @@ export const DEFAULT_POWER = {
     COVER: 80,
     CONTENT: 40,
 };
+
+/**
+ * 生成图片本地存储配置
+ * 文件写入插件 storage/ 目录，由主系统以 /stores 前缀对外提供访问
+ */
+export const IMAGE_STORAGE = {
+    /** 相对 storage/ 的存储目录 */
+    DIR: "static/generated",
+    /** 对外访问的 URL 前缀 */
+    PUBLIC_PREFIX: "/stores/static/generated",
+    /** 缩略图宽度（像素） */
+    THUMBNAIL_WIDTH: 360,
+    /** 远程图片下载超时（毫秒） */
+    DOWNLOAD_TIMEOUT: 60000,
+    /** 远程图片最大体积（字节） */
+    MAX_DOWNLOAD_SIZE: 20 * 1024 * 1024,
+};
+
+/**
+ * 单张图片自动重试策略默认值
+ */
+export const IMAGE_RETRY = {
+    /** 最大尝试次数（含首次） */
+    MAX_ATTEMPTS: 3,
+    /** 尝试次数上限，防止配置过大拖慢整批任务 */
+    MAX_ATTEMPTS_LIMIT: 5,
+    /** 退避基准间隔（毫秒） */
+    BASE_DELAY: 2000,
+    /** 单次退避最长等待（毫秒） */
+    MAX_DELAY: 30000,
+    /** 默认可重试错误关键字：限流、服务端错误、超时和网络中断 */
+    RETRYABLE_ERRORS: [
+        "429",
+        "500",
+        "502",
+        "503",
+        "504",
+        "rate limit",
+        "too many requests",
+        "overloaded",
+        "timeout",
+        "timed out",
+        "超时",
+        "ECONNRESET",
+        "ETIMEDOUT",
+        "ECONNREFUSED",
+        "socket hang up",
+        "network",
+    ],
+    /** 图片生成熔断器名称 */
+    CIRCUIT_NAME: "xhs-image-generation",
+    /** 熔断器单次调用超时（毫秒），需大于生成器自身的请求超时 */
+    CIRCUIT_TIMEOUT: 5 * 60 * 1000,
+};
+
+/**
+ * 合规检查规则分类
+ */
+export enum ComplianceCategory {
+    ABSOLUTE = "absolute",
+    MEDICAL = "medical",
+    FINANCIAL = "financial",
+    CONTACT = "contact",
+    CUSTOM = "custom",
+}
+
+/**
+ * 合规检查规则分类标签（中文）
+ */
+export const ComplianceCategoryLabel: Record<ComplianceCategory, string> = {
+    [ComplianceCategory.ABSOLUTE]: "极限用语",
+    [ComplianceCategory.MEDICAL]: "医疗功效",
+    [ComplianceCategory.FINANCIAL]: "金融理财",
+    [ComplianceCategory.CONTACT]: "站外联系方式",
+    [ComplianceCategory.CUSTOM]: "自定义",
+};
+
+/**
+ * 内置合规词库（后台未配置词库时使用）
+ * 单字类极限词（如“最”）容易误伤，统一以词组或正则表达
+ */
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRule[] = [
+    // 极限用语
+    { pattern: "最好", category: ComplianceCategory.ABSOLUTE, severity: "critical", replacement: "很好" },
+    { pattern: "最佳", category: ComplianceCategory.ABSOLUTE, severity: "critical", replacement: "优质" },
+    { pattern: "最强", category: ComplianceCategory.ABSOLUTE, severity: "critical", replacement: "超强" },
+    { pattern: "最便宜", category: ComplianceCategory.ABSOLUTE, severity: "critical", replacement: "很实惠" },
+    { pattern: "最低价", category: ComplianceCategory.ABSOLUTE, severity: "critical", replacement: "优惠价" },
+    { pattern: "顶级", category: ComplianceCategory.ABSOLUTE, severity: "critical", replacement: "高品质" },
+    { pattern: "国家级", category: ComplianceCategory.ABSOLUTE, severity: "critical", replacement: null },
+    {
+        pattern: "(全网|全国|全球|世界|行业|销量)第一",
+        category: ComplianceCategory.ABSOLUTE,
+        severity: "critical",
+        replacement: "热门",
+        isRegex: true,
+    },
+    { pattern: "绝对", category: ComplianceCategory.ABSOLUTE, severity: "warning", replacement: "非常" },
+    { pattern: "万能", category: ComplianceCategory.ABSOLUTE, severity: "warning", replacement: "实用" },
+    { pattern: "史无前例", category: ComplianceCategory.ABSOLUTE, severity: "warning", replacement: "少见" },
+
+    // 医疗功效
+    { pattern: "治愈", category: ComplianceCategory.MEDICAL, severity: "critical", replacement: "改善" },
+    { pattern: "根治", category: ComplianceCategory.MEDICAL, severity: "critical", replacement: "改善" },
+    { pattern: "药到病除", category: ComplianceCategory.MEDICAL, severity: "critical", replacement: null },
+    { pattern: "包治百病", category: ComplianceCategory.MEDICAL, severity: "critical", replacement: null },
+    { pattern: "抗癌", category: ComplianceCategory.MEDICAL, severity: "critical", replacement: null },
+    { pattern: "消炎", category: ComplianceCategory.MEDICAL, severity: "critical", replacement: "舒缓" },
+    {
+        pattern: "降(血压|血糖|血脂)",
+        category: ComplianceCategory.MEDICAL,
+        severity: "critical",
+        replacement: null,
+        isRegex: true,
+    },
+    {
+        pattern: "[瘦减]了?\\d+斤",
+        category: ComplianceCategory.MEDICAL,
+        severity: "warning",
+        replacement: "身材更轻盈",
+        isRegex: true,
+    },
+
+    // 金融理财
+    { pattern: "稳赚不赔", category: ComplianceCategory.FINANCIAL, severity: "critical", replacement: null },
+    { pattern: "保本", category: ComplianceCategory.FINANCIAL, severity: "critical", replacement: null },
+    { pattern: "零风险", category: ComplianceCategory.FINANCIAL, severity: "critical", replacement: "风险较低" },
+    { pattern: "躺赚", category: ComplianceCategory.FINANCIAL, severity: "critical", replacement: null },
+    {
+        pattern: "(高|稳定|保证)收益",
+        category: ComplianceCategory.FINANCIAL,
+        severity: "warning",
+        replacement: "收益",
+        isRegex: true,
+    },
+    {
+        pattern: "月入(过)?[0-9一二三四五六七八九十百千万wWkK]+",
+        category: ComplianceCategory.FINANCIAL,
+        severity: "warning",
+        replacement: null,
+        isRegex: true,
+    },
+
+    // 站外联系方式
+    {
+        pattern: "(?<!\\d)1[3-9]\\d{9}(?!\\d)",
+        category: ComplianceCategory.CONTACT,
+        severity: "critical",
+        replacement: null,
+        isRegex: true,
+    },
+    {
+        pattern: "(微信|威信|薇信|V信|vx|wx|weixin)[号:：\\s]*[a-zA-Z][-_a-zA-Z0-9]{5,19}",
+        category: ComplianceCategory.CONTACT,
+        severity: "critical",
+        replacement: null,
+        isRegex: true,
+    },
+    {
+        pattern: "(QQ|扣扣)[号群:：\\s]*\\d{5,11}",
+        category: ComplianceCategory.CONTACT,
+        severity: "critical",
+        replacement: null,
+        isRegex: true,
+    },
+    {
+        pattern: "加(我)?(微|V|薇|vx)",
+        category: ComplianceCategory.CONTACT,
+        severity: "critical",
+        replacement: "评论区交流",
+        isRegex: true,
+    },
+    {
+        pattern: "https?://\\S+",
+        category: ComplianceCategory.CONTACT,
+        severity: "critical",
+        replacement: null,
+        isRegex: true,
+    },
+    {
+        pattern: "(淘宝|拼多多|京东|抖音)",
+        category: ComplianceCategory.CONTACT,
+        severity: "warning",
+        replacement: "某平台",
+        isRegex: true,
+    },
+];
@@ -1,9 +1,10 @@
-import { Body, Controller, Get, Post, Request } from "@nestjs/common";
+import { Body, Controller, Get, Post, Put, Query, Request } from "@nestjs/common";
 import { ExtensionWebController } from "@buildingai/core/decorators";
 import { AppBillingService } from "@buildingai/core/modules";
 
 import { XhsConfigService } from "../services/xhs-config.service";
 import { BillingService } from "../services/billing.service";
+import type { FreeUsageSummary, PowerConfig, SpendLimitSummary } from "../interfaces/billing.interface";
 
 /**
  * 余额检查控制器
@@ -17,16 +18,17 @@ export class BalanceController {
     ) {}
 
     /**
-     * 获取用户使用统计（免费次数、余额等）
+     * 获取用户使用统计（当前周期的各项免费额度与重置时间、余额、批量生成冻结中的积分等）
      */
     @Get("usage")
     async getUserUsage(@Request() req: any): Promise<{
         success: boolean;
-        data?: {
-            freeUsageCount: number;
-            freeUsageLimit: number;
-            remainingFreeCount: number;
+        data?: FreeUsageSummary & {
             userPower: number;
+            /** 进行中的批量生成冻结的积分 */
+            heldPower: number;
+            /** 可用积分（余额减去冻结积分） */
+            availablePower: number;
         };
         message?: string;
     }> {
@@ -41,16 +43,104 @@ export class BalanceController {
 
         const usage = await this.billingService.getUserUsage(userId);
         const userPower = await this.appBillingService.getUserPower(userId);
+        const heldPower = await this.billingService.getHeldPower(userId);
 
         return {
             success: true,
             data: {
                 ...usage,
                 userPower,
+                heldPower,
+                availablePower: Math.max(0, userPower - heldPower),
             },
         };
     }
 
+    /**
+     * 获取当前用户适用的定价（按会员等级匹配，未匹配时为全局配置）
+     */
+    @Get("pricing")
+    async getPricing(@Request() req: any): Promise<{
+        success: boolean;
+        data?: PowerConfig;
+        message?: string;
+    }> {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return {
+                success: false,
+                message: "未登录",
+            };
+        }
+
+        const pricing = await this.billingService.getPowerConfig(userId);
+
+        return {
+            success: true,
+            data: pricing,
+        };
+    }
+
+    /**
+     * 获取消费上限（今日、本月已消费与剩余额度），传入任务ID时附带任务预算
+     */
+    @Get("spend-limits")
+    async getSpendLimits(
+        @Request() req: any,
+        @Query("taskId") taskId?: string,
+    ): Promise<{ success: boolean; data?: SpendLimitSummary; message?: string }> {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return {
+                success: false,
+                message: "未登录",
+            };
+        }
+
+        const limits = await this.billingService.getSpendLimits(userId, taskId || undefined);
+
+        return {
+            success: true,
+            data: limits,
+        };
+    }
+
+    /**
+     * 设置自己的每日/每月消费上限（为空不限制）
+     */
+    @Put("spend-limits")
+    async updateSpendLimits(
+        @Request() req: any,
+        @Body() body: { dailySpendCap?: number | null; monthlySpendCap?: number | null },
+    ): Promise<{ success: boolean; data?: SpendLimitSummary; message?: string }> {
+        const userId = req.user?.id;
+
+        if (!userId) {
+            return {
+                success: false,
+                message: "未登录",
+            };
+        }
+
+        try {
+            const limits = await this.billingService.updateUserSpendCaps(userId, {
+                dailySpendCap: body?.dailySpendCap,
+                monthlySpendCap: body?.monthlySpendCap,
+            });
+            return {
+                success: true,
+                data: limits,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                message: (error as Error).message,
+            };
+        }
+    }
+
     /**
      * 检查用户余额是否充足
      */
@@ -75,19 +165,13 @@ export class BalanceController {
             };
         }
 
-        // 检查用户余额
-        const hasSufficient = await this.appBillingService.hasSufficientPower(
-            userId,
-            requiredPower,
-        );
+        // 检查可用积分（进行中的批量生成冻结的积分不可用）
+        const availablePower = await this.billingService.getAvailablePower(userId);
 
-        if (!hasSufficient) {
-            // 获取用户当前余额
-            const userBalance = await this.appBillingService.getUserPower(userId);
-            
+        if (availablePower < requiredPower) {
             return {
                 success: false,
-                message: `余额不足，需要 ${requiredPower} 积分，当前余额 ${userBalance} 积分，请充值后重试`,
+                message: `余额不足，需要 ${requiredPower} 积分，可用 ${availablePower} 积分，请充值后重试`,
             };
         }
 
@@ -0,0 +1,51 @@
+import { ExtensionConsoleController } from "@buildingai/core/decorators";
+import { BadRequestException, Body, Get, Post, Query } from "@nestjs/common";
+
+import { BillingLedgerService } from "../../services/billing-ledger.service";
+
+/**
+ * 计费对账控制器（后台）
+ */
+@ExtensionConsoleController("billing", "计费对账")
+export class BillingConsoleController {
+    constructor(private readonly ledgerService: BillingLedgerService) {}
+
+    /**
+     * 执行对账：对比计费账本与主系统账户流水，标记不一致的记录（可重复执行）
+     * @param since 对账起点（ISO 时间），默认最近 24 小时
+     */
+    @Post("reconcile")
+    async reconcile(@Body("since") since?: string) {
+        const from = since ? new Date(since) : undefined;
+        if (from && Number.isNaN(from.getTime())) {
+            throw new BadRequestException("对账起点无效");
+        }
+
+        try {
+            const result = await this.ledgerService.reconcile(from);
+            return {
+                success: true,
+                ...result,
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * 查询对账不一致的账本记录
+     */
+    @Get("mismatches")
+    async getMismatches(@Query("page") page?: string, @Query("pageSize") pageSize?: string) {
+        const { items, total } = await this.ledgerService.getMismatches(
+            Math.max(parseInt(page || "1", 10) || 1, 1),
+            Math.min(Math.max(parseInt(pageSize || "20", 10) || 20, 1), 100),
+        );
+
+        return {
+            success: true,
+            items,
+            total,
+        };
+    }
+}
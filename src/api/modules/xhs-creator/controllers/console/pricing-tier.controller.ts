@@ -0,0 +1,89 @@
+import { ExtensionConsoleController } from "@buildingai/core/decorators";
+import { BadRequestException, Body, Delete, Get, Param, Post, Put } from "@nestjs/common";
+
+import { CreatePricingTierDto, UpdatePricingTierDto } from "../../dto";
+import { PricingTierService } from "../../services/pricing-tier.service";
+
+/**
+ * 会员等级定价控制器（后台）
+ */
+@ExtensionConsoleController("pricing-tiers", "会员等级定价")
+export class PricingTierConsoleController {
+    constructor(private readonly pricingTierService: PricingTierService) {}
+
+    /**
+     * 获取全部定价配置
+     */
+    @Get()
+    async getTiers() {
+        const tiers = await this.pricingTierService.list();
+
+        return {
+            success: true,
+            tiers,
+        };
+    }
+
+    /**
+     * 获取主系统会员等级（配置定价时选择）
+     */
+    @Get("membership-levels")
+    async getMembershipLevels() {
+        try {
+            const levels = await this.pricingTierService.listMembershipLevels();
+            return {
+                success: true,
+                levels,
+            };
+        } catch (error) {
+            throw new BadRequestException(`获取会员等级失败: ${error.message}`);
+        }
+    }
+
+    /**
+     * 创建定价配置
+     */
+    @Post()
+    async createTier(@Body() dto: CreatePricingTierDto) {
+        try {
+            const tier = await this.pricingTierService.create(dto);
+            return {
+                success: true,
+                tier,
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * 更新定价配置
+     */
+    @Put(":id")
+    async updateTier(@Param("id") id: string, @Body() dto: UpdatePricingTierDto) {
+        try {
+            const tier = await this.pricingTierService.update(id, dto);
+            return {
+                success: true,
+                tier,
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * 删除定价配置
+     */
+    @Delete(":id")
+    async deleteTier(@Param("id") id: string) {
+        try {
+            await this.pricingTierService.remove(id);
+            return {
+                success: true,
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+}
@@ -0,0 +1,25 @@
+import { ExtensionConsoleController } from "@buildingai/core/decorators";
+import { Post } from "@nestjs/common";
+
+import { ImageStorageMigrationService } from "../../services/image-storage-migration.service";
+
+/**
+ * 图片存储管理控制器（后台）
+ */
+@ExtensionConsoleController("storage", "图片存储管理")
+export class StorageConsoleController {
+    constructor(private readonly migrationService: ImageStorageMigrationService) {}
+
+    /**
+     * 将历史 base64 图片迁移为本地文件（一次性任务，可重复执行）
+     */
+    @Post("migrate-base64")
+    async migrateBase64Images() {
+        const result = await this.migrationService.migrateBase64Images();
+
+        return {
+            success: true,
+            ...result,
+        };
+    }
+}
@@ -0,0 +1,46 @@
+import { ExtensionWebController } from "@buildingai/core/decorators";
+import { Get, Query } from "@nestjs/common";
+
+import { ImageSpecificationService } from "../services";
+
+/**
+ * 图片规格控制器
+ * 提供尺寸规格与风格预设列表
+ */
+@ExtensionWebController("specs")
+export class ImageSpecController {
+    constructor(private readonly specService: ImageSpecificationService) {}
+
+    /**
+     * 获取尺寸规格列表
+     * @param recommended 为 "true" 时仅返回小红书推荐尺寸
+     */
+    @Get("sizes")
+    getSizeSpecs(@Query("recommended") recommended?: string) {
+        const sizes =
+            recommended === "true"
+                ? this.specService.getRecommendedSizeSpecs()
+                : this.specService.getAllSizeSpecs();
+
+        return {
+            success: true,
+            sizes,
+        };
+    }
+
+    /**
+     * 获取风格预设列表
+     * @param pageType 按页面类型过滤（可选）
+     */
+    @Get("styles")
+    getStylePresets(@Query("pageType") pageType?: "cover" | "content" | "summary") {
+        const styles = pageType
+            ? this.specService.getStylesByPageType(pageType)
+            : this.specService.getAllStylePresets();
+
+        return {
+            success: true,
+            styles,
+        };
+    }
+}
@@ -1,34 +1,38 @@
 import { ExtensionWebController } from "@buildingai/core/decorators";
-import { Body, Post, Sse, Req, Res } from "@nestjs/common";
+import { BadRequestException, Body, MessageEvent, Post, Sse, Req, Res } from "@nestjs/common";
 import type { Request, Response } from "express";
 import type { Subscription } from "rxjs";
-import { Observable } from "rxjs";
-import { ImageService } from "../services";
-import { GenerateImagesDto, RegenerateImageDto } from "../dto";
+import { catchError, from, Observable, of, switchMap } from "rxjs";
+import { GenerationJobService, ImageService } from "../services";
+import {
+    GenerateImagesDto,
+    PreviewImagePromptsDto,
+    RegenerateImageDto,
+    SelectCoverVariantDto,
+} from "../dto";
 
 /**
  * 图片生成控制器
  */
 @ExtensionWebController("images")
 export class ImageController {
-    constructor(private readonly imageService: ImageService) {}
+    constructor(
+        private readonly imageService: ImageService,
+        private readonly jobService: GenerationJobService,
+    ) {}
 
     /**
      * 批量生成图片（SSE流式返回）
      */
     @Sse("generate")
-    generateImages(@Body() dto: GenerateImagesDto): Observable<any> {
-        return this.imageService.generateImages(
-            dto.taskId,
-            dto.pages,
-            dto.fullOutline,
-            dto.isRegenerate,
-        );
+    generateImages(@Body() dto: GenerateImagesDto, @Req() req: Request): Observable<any> {
+        return this.startGeneration(dto, req);
     }
 
     /**
      * 批量生成图片（POST + SSE 文本流）
      * 兼容 RedInk 的实现方式，避免超长 URL 问题
+     * 生成在服务端队列中执行，连接断开不影响生成，可通过 stream 接口重新订阅
      */
     @Post("generate")
     generateImagesStream(
@@ -36,63 +40,98 @@ export class ImageController {
         @Req() req: Request,
         @Res() res: Response,
     ) {
-        res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
-        res.setHeader("Cache-Control", "no-cache, no-transform");
-        res.setHeader("Connection", "keep-alive");
-        res.flushHeaders?.();
+        this.pipeToResponse(this.startGeneration(dto, req), req, res);
+    }
 
-        const observable = this.imageService.generateImages(
-            dto.taskId,
-            dto.pages,
-            dto.fullOutline,
-            dto.isRegenerate,
+    /**
+     * 订阅任务生成进度（POST + SSE 文本流）
+     * 用于页面刷新、切后台或断线后重连，先回放已发生的事件再推送实时进度
+     */
+    @Post("stream")
+    subscribeGeneration(
+        @Body() dto: { taskId: string },
+        @Req() req: Request,
+        @Res() res: Response,
+    ) {
+        if (!dto?.taskId) {
+            throw new BadRequestException("taskId 不能为空");
+        }
+
+        const userId = (req as any).user?.id;
+        const observable = this.jobService.subscribe(userId, dto.taskId).pipe(
+            catchError((error: Error) => of(this.toErrorEvent(error))),
         );
+        this.pipeToResponse(observable, req, res);
+    }
 
-        const subscription: Subscription = observable.subscribe({
-            next: (event) => {
-                try {
-                    const dataStr = typeof event.data === "string" ? event.data : "";
-                    let eventType = "message";
-                    try {
-                        const parsed = JSON.parse(dataStr);
-                        if (parsed?.type) {
-                            eventType = parsed.type;
-                        }
-                    } catch {
-                        // ignore JSON parse error, fallback to default event type
-                    }
+    /**
+     * 重试任务中生成失败的页面（POST + SSE 文本流）
+     * 只重绘失败页面并只对这些页面计费，事件格式与批量生成一致
+     */
+    @Post("retry-failed")
+    retryFailedImages(
+        @Body() dto: { taskId: string },
+        @Req() req: Request,
+        @Res() res: Response,
+    ) {
+        if (!dto?.taskId) {
+            throw new BadRequestException("taskId 不能为空");
+        }
 
-                    res.write(`event: ${eventType}\n`);
-                    res.write(`data: ${dataStr}\n\n`);
-                } catch {
-                    // 单条事件写入失败时，忽略该事件，继续后续
-                }
-            },
-            error: (error: Error) => {
-                const payload = {
-                    type: "error",
-                    message: error.message,
-                };
-                res.write(`event: error\n`);
-                res.write(`data: ${JSON.stringify(payload)}\n\n`);
-                res.end();
-            },
-            complete: () => {
-                res.end();
-            },
-        });
+        const userId = (req as any).user?.id;
+        const observable = from(this.jobService.retryFailed(userId, dto.taskId)).pipe(
+            switchMap(() => this.jobService.subscribe(userId, dto.taskId)),
+            catchError((error: Error) => of(this.toErrorEvent(error))),
+        );
+        this.pipeToResponse(observable, req, res);
+    }
 
-        // 客户端关闭连接时，取消订阅
-        req.on("close", () => {
-            subscription.unsubscribe();
-            if (!res.writableEnded) {
-                res.end();
-            }
-        });
+    /**
+     * 选择封面候选
+     * 生成流程收到 cover_variants 事件后暂停，选择后以选中封面为参考继续生成内容页
+     */
+    @Post("cover/select")
+    async selectCover(@Body() dto: SelectCoverVariantDto, @Req() req: Request) {
+        const userId = (req as any).user?.id;
+
+        try {
+            await this.jobService.selectCover(userId, dto.taskId, dto.version);
+        } catch (error) {
+            throw new BadRequestException((error as Error).message);
+        }
+
+        return {
+            success: true,
+        };
+    }
+
+    /**
+     * 预览页面的图片提示词
+     * 返回系统组装的提示词和应用页面覆盖后的最终提示词，不扣积分
+     */
+    @Post("prompt-preview")
+    async previewPrompts(@Body() dto: PreviewImagePromptsDto, @Req() req: Request) {
+        const userId = (req as any).user?.id;
+
+        try {
+            const pages = await this.imageService.previewPrompts(
+                userId,
+                dto.taskId,
+                dto.pages,
+                dto.fullOutline,
+            );
+            return {
+                success: true,
+                pages,
+            };
+        } catch (error) {
+            throw new BadRequestException((error as Error).message);
+        }
     }
 
     /**
      * 重新生成单张图片（流式SSE响应）
+     * 任务排队、生成中或等待选择封面时拒绝，避免与批量生成同时写入图片记录
      */
     @Post("regenerate")
     regenerateImageStream(
@@ -100,16 +139,62 @@ export class ImageController {
         @Req() req: Request,
         @Res() res: Response,
     ) {
-        res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
-        res.setHeader("Cache-Control", "no-cache, no-transform");
-        res.setHeader("Connection", "keep-alive");
-        res.flushHeaders?.();
+        if (this.jobService.isActive(dto.taskId)) {
+            const error = new Error("该任务正在生成中，请等待生成结束后再重新生成");
+            this.pipeToResponse(of(this.toErrorEvent(error)), req, res);
+            return;
+        }
 
+        const userId = (req as any).user?.id;
         const observable = this.imageService.regenerateImageStream(
+            userId,
             dto.taskId,
             dto.pageIndex,
             dto.prompt,
+            {
+                aspectRatio: dto.aspectRatio,
+                model: dto.model,
+                quality: dto.quality,
+            },
+        );
+        this.pipeToResponse(observable, req, res);
+    }
+
+    /**
+     * 提交生成任务并订阅进度
+     */
+    private startGeneration(dto: GenerateImagesDto, req: Request): Observable<MessageEvent> {
+        const userId = (req as any).user?.id;
+
+        return from(
+            this.jobService.submit(userId, {
+                taskId: dto.taskId,
+                pages: dto.pages,
+                fullOutline: dto.fullOutline,
+                isRegenerate: dto.isRegenerate,
+                preferences: {
+                    aspectRatio: dto.aspectRatio,
+                    model: dto.model,
+                    quality: dto.quality,
+                },
+                coverVariants: dto.coverVariants,
+                pageIds: dto.pageIds,
+            }),
+        ).pipe(
+            switchMap(() => this.jobService.subscribe(userId, dto.taskId)),
+            catchError((error: Error) => of(this.toErrorEvent(error))),
         );
+    }
+
+    /**
+     * 将事件流以 SSE 文本格式写入响应
+     * 客户端关闭连接时只取消订阅，不影响服务端生成
+     */
+    private pipeToResponse(observable: Observable<MessageEvent>, req: Request, res: Response): void {
+        res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+        res.setHeader("Cache-Control", "no-cache, no-transform");
+        res.setHeader("Connection", "keep-alive");
+        res.flushHeaders?.();
 
         const subscription: Subscription = observable.subscribe({
             next: (event) => {
@@ -122,7 +207,7 @@ export class ImageController {
                             eventType = parsed.type;
                         }
                     } catch {
-                        // ignore JSON parse error
+                        // ignore JSON parse error, fallback to default event type
                     }
 
                     res.write(`event: ${eventType}\n`);
@@ -154,6 +239,18 @@ export class ImageController {
         });
     }
 
+    /**
+     * 构造错误事件
+     */
+    private toErrorEvent(error: Error): MessageEvent {
+        return {
+            data: JSON.stringify({
+                type: "error",
+                message: error.message,
+            }),
+        } as MessageEvent;
+    }
+
     /**
      * 获取图片的所有历史版本
      */
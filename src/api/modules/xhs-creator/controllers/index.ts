@@ -6,3 +6,8 @@ export { XhsConfigWebController } from "./xhs-config-web.controller";
 export { ProviderController } from "./provider.controller";
 export { TaskConsoleController } from "./console/task.controller";
 export { BalanceController } from "./balance.controller";
+export { ImageSpecController } from "./image-spec.controller";
+export { PromptTemplateController } from "./prompt-template.controller";
+export { StorageConsoleController } from "./console/storage.controller";
+export { BillingConsoleController } from "./console/billing.controller";
+export { PricingTierConsoleController } from "./console/pricing-tier.controller";
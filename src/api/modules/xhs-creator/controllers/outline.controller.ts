@@ -1,12 +1,17 @@
-import { Body, Post, Req, BadRequestException } from "@nestjs/common";
-import { OutlineService } from "../services";
+import { Body, Get, Post, Req, Res, BadRequestException } from "@nestjs/common";
+import { OutlineService, ImageSpecificationService } from "../services";
 import { BillingService } from "../services/billing.service";
-import { CreateOutlineDto } from "../dto";
+import { ProviderRegistryService } from "../services/provider-registry.service";
+import { OutlineHistoryService } from "../services/outline-history.service";
+import { ComplianceService } from "../services/compliance.service";
+import { PageLayoutService } from "../services/page-layout.service";
+import { GenerationJobService } from "../services/generation-job.service";
+import { CheckComplianceDto, CreateOutlineDto, RewritePageDto } from "../dto";
 import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
 import { Repository } from "@buildingai/db/typeorm";
 import { XhsTask, TaskStatus } from "../../../db/entities/xhs-task.entity";
 import { ExtensionWebController } from "@buildingai/core/decorators";
-import type { Request } from "express";
+import type { Request, Response } from "express";
 
 /**
  * 大纲生成控制器
@@ -18,85 +23,312 @@ export class OutlineController {
         @InjectRepository(XhsTask)
         private taskRepository: Repository<XhsTask>,
         private readonly billingService: BillingService,
+        private readonly specService: ImageSpecificationService,
+        private readonly providerRegistry: ProviderRegistryService,
+        private readonly outlineHistoryService: OutlineHistoryService,
+        private readonly complianceService: ComplianceService,
+        private readonly pageLayoutService: PageLayoutService,
+        private readonly jobService: GenerationJobService,
     ) {}
 
+    /**
+     * 当前文本模型能力（前端据此提示参考图片是否会被模型识别）
+     */
+    @Get("capabilities")
+    async getCapabilities() {
+        const capabilities = await this.providerRegistry.getTextCapabilities();
+
+        return {
+            success: true,
+            ...capabilities,
+        };
+    }
+
     /**
      * 生成大纲
      */
     @Post()
     async generateOutline(@Body() dto: CreateOutlineDto, @Req() req: Request) {
-        // 当前登录用户（由主系统注入）
-        const user: any = (req as any).user;
-        const userId = user?.id;
+        const userId = this.getUserId(req);
+        const { task, billing } = await this.startOutlineTask(dto, userId);
 
-        if (!userId) {
-            throw new BadRequestException("用户未登录");
+        try {
+            // 调用服务生成大纲
+            const result = await this.outlineService.generateOutline(
+                dto.topic,
+                dto.userImages,
+                userId,
+            );
+            const compliance = await this.completeOutlineTask(task, result);
+
+            return {
+                success: true,
+                taskId: task.id,
+                outline: result.outline,
+                pages: result.pages,
+                compliance,
+                billing: {
+                    isFree: billing.isFree,
+                    powerDeducted: billing.powerDeducted,
+                },
+            };
+        } catch (error) {
+            await this.failOutlineTask(task, billing, userId, error);
+            throw error;
         }
+    }
 
-        // 获取积分配置，检查是否有免费次数或足够积分
-        const config = await this.billingService.getPowerConfig();
+    /**
+     * 流式生成大纲（POST + SSE 文本流）
+     * 事件：start（任务已创建）→ delta（模型增量文本）/ page（页面块已完整）→ complete | error
+     * 计费与任务状态处理与 generateOutline 一致，客户端断开不影响任务保存
+     */
+    @Post("stream")
+    async generateOutlineStream(
+        @Body() dto: CreateOutlineDto,
+        @Req() req: Request,
+        @Res() res: Response,
+    ) {
+        const userId = this.getUserId(req);
+        const { task, billing } = await this.startOutlineTask(dto, userId);
+        const billingInfo = {
+            isFree: billing.isFree,
+            powerDeducted: billing.powerDeducted,
+        };
+
+        res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+        res.setHeader("Cache-Control", "no-cache, no-transform");
+        res.setHeader("Connection", "keep-alive");
+        res.flushHeaders?.();
+
+        const send = (payload: { type: string; [key: string]: unknown }) => {
+            if (res.writableEnded) {
+                return;
+            }
+            res.write(`event: ${payload.type}\n`);
+            res.write(`data: ${JSON.stringify(payload)}\n\n`);
+        };
+
+        send({ type: "start", taskId: task.id, billing: billingInfo });
+
+        try {
+            const result = await this.outlineService.generateOutlineStream(
+                dto.topic,
+                dto.userImages,
+                userId,
+                {
+                    onDelta: (content) => send({ type: "delta", content }),
+                    onPage: (page) => send({ type: "page", page }),
+                },
+            );
+            const compliance = await this.completeOutlineTask(task, result);
+
+            send({
+                type: "complete",
+                taskId: task.id,
+                outline: result.outline,
+                pages: result.pages,
+                compliance,
+                billing: billingInfo,
+            });
+        } catch (error) {
+            await this.failOutlineTask(task, billing, userId, error);
+            send({ type: "error", message: error.message });
+        } finally {
+            if (!res.writableEnded) {
+                res.end();
+            }
+        }
+    }
+
+    /**
+     * 按要求改写大纲中的单页（以完整大纲为上下文）
+     * 按单页改写积分计费，失败时退回
+     */
+    @Post("rewrite-page")
+    async rewritePage(@Body() dto: RewritePageDto, @Req() req: Request) {
+        const userId = this.getUserId(req);
+
+        const task = await this.taskRepository.findOne({ where: { id: dto.taskId } });
+        if (!task || task.userId !== userId) {
+            throw new BadRequestException("任务不存在");
+        }
+
+        if (this.jobService.isActive(task.id)) {
+            throw new BadRequestException("任务正在生成图片，请等待生成完成或取消后再调整大纲");
+        }
+
+        const pages = dto.pages?.length ? dto.pages : task.pages || [];
+        const target = pages.find((page) => page.index === dto.pageIndex);
+        if (!target) {
+            throw new BadRequestException("页面不存在");
+        }
+
+        const config = await this.billingService.getPowerConfig(userId);
         const hasSufficientBalance = await this.billingService.hasSufficientBalance(
             userId,
-            config.outlinePower,
+            config.pageRewritePower,
+            "outline",
         );
         if (!hasSufficientBalance) {
             throw new BadRequestException("积分不足，请充值后再试");
         }
 
-        // 消费（优先使用免费次数，否则扣积分）
-        const billing = await this.billingService.consume(userId, "outline");
-
-        // 创建任务记录
-        const task = this.taskRepository.create({
-            topic: dto.topic,
-            userImages: dto.userImages || [],
-            status: TaskStatus.GENERATING_OUTLINE,
-            totalPages: 0,
-            generatedPages: 0,
-            userId,
-        });
-        await this.taskRepository.save(task);
+        let billing: { isFree: boolean; powerDeducted: number };
+        try {
+            billing = await this.billingService.consume(userId, "page-rewrite", undefined, task.id);
+        } catch (error) {
+            throw new BadRequestException(error.message || "积分不足，请充值后再试");
+        }
 
         try {
-            // 调用服务生成大纲
-            const result = await this.outlineService.generateOutline(
-                dto.topic,
-                dto.userImages,
+            const page = await this.outlineService.rewritePage(
+                task.topic,
+                pages,
+                dto.pageIndex,
+                dto.instruction.trim(),
             );
 
-            // 更新任务
-            task.outline = result.outline;
-            task.pages = result.pages;
-            task.status = TaskStatus.OUTLINE_READY;
-            task.totalPages = result.pages.length;
+            // 保留页面级设置，仅替换文案与结构化内容
+            Object.assign(target, {
+                content: page.content,
+                structured: page.structured ?? null,
+            });
+            this.pageLayoutService.assignPageIds(pages, task.pages);
+            task.pages = [...pages];
+            task.totalPages = pages.length;
+            task.outline = this.outlineService.serializeOutline(pages);
             await this.taskRepository.save(task);
+            await this.pageLayoutService.remapImages(task.id, task.pages, true);
+            await this.outlineHistoryService.record(task, "page-rewrite", dto.pageIndex);
+            const compliance = await this.complianceService.check(task.pages);
 
             return {
                 success: true,
-                taskId: task.id,
-                outline: result.outline,
-                pages: result.pages,
+                page: target,
+                compliance,
                 billing: {
                     isFree: billing.isFree,
                     powerDeducted: billing.powerDeducted,
                 },
             };
         } catch (error) {
-            // 生成失败，回退积分（如果已扣）
             if (!billing.isFree && billing.powerDeducted > 0) {
                 await this.billingService.rollbackPower(
                     userId,
                     billing.powerDeducted,
-                    "outline",
+                    "page-rewrite",
+                    undefined,
+                    task.id,
                 );
             }
+            throw new BadRequestException(error.message || "改写失败，请重试");
+        }
+    }
 
-            // 记录错误
-            task.status = TaskStatus.FAILED;
-            task.errorMessage = error.message;
-            await this.taskRepository.save(task);
+    /**
+     * 检查大纲合规性（用于编辑中的本地大纲，不扣费）
+     */
+    @Post("compliance")
+    async checkCompliance(@Body() dto: CheckComplianceDto, @Req() req: Request) {
+        this.getUserId(req);
+        const compliance = await this.complianceService.check(dto.pages);
 
-            throw error;
+        return {
+            success: true,
+            compliance,
+        };
+    }
+
+    /**
+     * 当前登录用户（由主系统注入）
+     */
+    private getUserId(req: Request): string {
+        const user: any = (req as any).user;
+        const userId = user?.id;
+
+        if (!userId) {
+            throw new BadRequestException("用户未登录");
+        }
+        return userId;
+    }
+
+    /**
+     * 校验参数与余额，创建任务记录后扣费（扣费关联任务ID）
+     */
+    private async startOutlineTask(dto: CreateOutlineDto, userId: string) {
+        if (dto.stylePresetId && !this.specService.getStylePresetById(dto.stylePresetId)) {
+            throw new BadRequestException("风格预设不存在");
+        }
+
+        // 获取积分配置，检查是否有免费次数或足够积分
+        const config = await this.billingService.getPowerConfig(userId);
+        const hasSufficientBalance = await this.billingService.hasSufficientBalance(
+            userId,
+            config.outlinePower,
+            "outline",
+        );
+        if (!hasSufficientBalance) {
+            throw new BadRequestException("积分不足，请充值后再试");
         }
+
+        // 创建任务记录
+        const task = this.taskRepository.create({
+            topic: dto.topic,
+            userImages: dto.userImages || [],
+            stylePresetId: dto.stylePresetId || null,
+            status: TaskStatus.GENERATING_OUTLINE,
+            totalPages: 0,
+            generatedPages: 0,
+            userId,
+        });
+        await this.taskRepository.save(task);
+
+        // 消费（优先使用免费次数，否则扣积分），扣费失败时删除刚创建的任务
+        try {
+            const billing = await this.billingService.consume(userId, "outline", undefined, task.id);
+            return { task, billing };
+        } catch (error) {
+            await this.taskRepository.delete(task.id);
+            throw new BadRequestException(error.message || "积分不足，请充值后再试");
+        }
+    }
+
+    /**
+     * 保存生成结果并返回合规检查结果
+     */
+    private async completeOutlineTask(task: XhsTask, result: { outline: string; pages: XhsTask["pages"] }) {
+        task.outline = result.outline;
+        task.pages = this.pageLayoutService.assignPageIds(result.pages);
+        task.status = TaskStatus.OUTLINE_READY;
+        task.totalPages = result.pages.length;
+        await this.taskRepository.save(task);
+        await this.outlineHistoryService.record(task, "ai");
+
+        return this.complianceService.check(result.pages);
+    }
+
+    /**
+     * 生成失败：回退积分（如果已扣）并记录错误
+     */
+    private async failOutlineTask(
+        task: XhsTask,
+        billing: { isFree: boolean; powerDeducted: number },
+        userId: string,
+        error: Error,
+    ) {
+        if (!billing.isFree && billing.powerDeducted > 0) {
+            await this.billingService.rollbackPower(
+                userId,
+                billing.powerDeducted,
+                "outline",
+                undefined,
+                task.id,
+            );
+        }
+
+        task.status = TaskStatus.FAILED;
+        task.errorMessage = error.message;
+        await this.taskRepository.save(task);
     }
 }
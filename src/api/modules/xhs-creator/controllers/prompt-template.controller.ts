@@ -0,0 +1,136 @@
+import { ExtensionWebController } from "@buildingai/core/decorators";
+import {
+    BadRequestException,
+    Body,
+    Delete,
+    Get,
+    Param,
+    Post,
+    Put,
+    Query,
+    Req,
+} from "@nestjs/common";
+import type { Request } from "express";
+
+import { TemplateType } from "../../../db/entities";
+import { CreatePromptTemplateDto, UpdatePromptTemplateDto } from "../dto";
+import { CustomPromptTemplateService } from "../services";
+
+/**
+ * 用户自定义提示词模板控制器
+ */
+@ExtensionWebController("prompt-templates")
+export class PromptTemplateController {
+    constructor(private readonly templateService: CustomPromptTemplateService) {}
+
+    /**
+     * 获取当前用户的模板列表
+     * @param type 按模板类型过滤（可选）
+     */
+    @Get()
+    async getTemplates(@Req() req: Request, @Query("type") type?: TemplateType) {
+        const userId = this.getUserId(req);
+
+        if (type && !Object.values(TemplateType).includes(type)) {
+            throw new BadRequestException("模板类型无效");
+        }
+
+        const templates = await this.templateService.getUserTemplates(userId, type);
+
+        return {
+            success: true,
+            templates,
+        };
+    }
+
+    /**
+     * 创建模板
+     */
+    @Post()
+    async createTemplate(@Body() dto: CreatePromptTemplateDto, @Req() req: Request) {
+        const userId = this.getUserId(req);
+
+        const template = await this.templateService.saveUserTemplate(
+            userId,
+            dto.name,
+            dto.type,
+            dto.content,
+            dto.isDefault ?? false,
+        );
+
+        return {
+            success: true,
+            template,
+        };
+    }
+
+    /**
+     * 更新模板
+     */
+    @Put(":id")
+    async updateTemplate(
+        @Param("id") id: string,
+        @Body() dto: UpdatePromptTemplateDto,
+        @Req() req: Request,
+    ) {
+        const userId = this.getUserId(req);
+
+        try {
+            const template = await this.templateService.updateUserTemplate(userId, id, dto);
+            return {
+                success: true,
+                template,
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * 设为默认模板（同类型其他模板自动取消默认）
+     */
+    @Post(":id/default")
+    async setDefault(@Param("id") id: string, @Req() req: Request) {
+        const userId = this.getUserId(req);
+
+        try {
+            const template = await this.templateService.setDefaultTemplate(userId, id);
+            return {
+                success: true,
+                template,
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * 删除模板
+     */
+    @Delete(":id")
+    async deleteTemplate(@Param("id") id: string, @Req() req: Request) {
+        const userId = this.getUserId(req);
+
+        const deleted = await this.templateService.deleteUserTemplate(userId, id);
+        if (!deleted) {
+            throw new BadRequestException("模板不存在");
+        }
+
+        return {
+            success: true,
+        };
+    }
+
+    /**
+     * 获取当前登录用户ID（由主系统注入）
+     */
+    private getUserId(req: Request): string {
+        const user: any = (req as any).user;
+        const userId = user?.id;
+
+        if (!userId) {
+            throw new BadRequestException("用户未登录");
+        }
+        return userId;
+    }
+}
@@ -1,36 +1,33 @@
 import { ExtensionConsoleController } from "@buildingai/core/decorators";
 import { Body, Delete, Get, Param, Post, Put } from "@nestjs/common";
-import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
-import { Repository } from "@buildingai/db/typeorm";
-import { XhsProvider } from "../../../db/entities/xhs-provider.entity";
+import { ServiceType } from "../../../db/entities/xhs-provider.entity";
 import { CreateProviderDto } from "../dto";
+import { ProviderRegistryService } from "../services/provider-registry.service";
 
 /**
  * AI服务商配置控制器
  */
 @ExtensionConsoleController("providers", "AI服务商配置")
 export class ProviderController {
-    constructor(
-        @InjectRepository(XhsProvider)
-        private providerRepository: Repository<XhsProvider>,
-    ) {}
+    constructor(private readonly providerRegistry: ProviderRegistryService) {}
 
     /**
      * 获取所有服务商配置
      */
     @Get()
     async getProviders() {
-        const providers = await this.providerRepository.find();
+        const providers = await this.providerRegistry.list();
 
-        // 脱敏处理API Key
-        const sanitizedProviders = providers.map((p) => ({
-            ...p,
-            apiKey: this.maskApiKey(p.apiKey),
-        }));
+        // 各服务类型当前生效的服务商（未激活时使用系统模型）
+        const active = {
+            [ServiceType.TEXT]: providers.find((p) => p.serviceType === ServiceType.TEXT && p.isActive && p.isEnabled)?.id || null,
+            [ServiceType.IMAGE]: providers.find((p) => p.serviceType === ServiceType.IMAGE && p.isActive && p.isEnabled)?.id || null,
+        };
 
         return {
             success: true,
-            providers: sanitizedProviders,
+            providers,
+            active,
         };
     }
 
@@ -39,15 +36,11 @@ export class ProviderController {
      */
     @Post()
     async createProvider(@Body() dto: CreateProviderDto) {
-        const provider = this.providerRepository.create(dto);
-        await this.providerRepository.save(provider);
+        const provider = await this.providerRegistry.create(dto);
 
         return {
             success: true,
-            provider: {
-                ...provider,
-                apiKey: this.maskApiKey(provider.apiKey),
-            },
+            provider,
         };
     }
 
@@ -56,21 +49,11 @@ export class ProviderController {
      */
     @Put(":id")
     async updateProvider(@Param("id") id: string, @Body() dto: Partial<CreateProviderDto>) {
-        const provider = await this.providerRepository.findOne({ where: { id } });
-
-        if (!provider) {
-            throw new Error("服务商配置不存在");
-        }
-
-        Object.assign(provider, dto);
-        await this.providerRepository.save(provider);
+        const provider = await this.providerRegistry.update(id, dto);
 
         return {
             success: true,
-            provider: {
-                ...provider,
-                apiKey: this.maskApiKey(provider.apiKey),
-            },
+            provider,
         };
     }
 
@@ -79,21 +62,19 @@ export class ProviderController {
      */
     @Post(":id/activate")
     async activateProvider(@Param("id") id: string) {
-        const provider = await this.providerRepository.findOne({ where: { id } });
+        await this.providerRegistry.activate(id);
 
-        if (!provider) {
-            throw new Error("服务商配置不存在");
-        }
-
-        // 取消同类型其他服务商的激活状态
-        await this.providerRepository.update(
-            { serviceType: provider.serviceType, isActive: true },
-            { isActive: false },
-        );
+        return {
+            success: true,
+        };
+    }
 
-        // 激活当前服务商
-        provider.isActive = true;
-        await this.providerRepository.save(provider);
+    /**
+     * 取消激活服务商（该服务类型回退到系统模型）
+     */
+    @Post(":id/deactivate")
+    async deactivateProvider(@Param("id") id: string) {
+        await this.providerRegistry.deactivate(id);
 
         return {
             success: true,
@@ -101,27 +82,27 @@ export class ProviderController {
     }
 
     /**
-     * 删除服务商配置
+     * 测试服务商连接
      */
-    @Delete(":id")
-    async deleteProvider(@Param("id") id: string) {
-        await this.providerRepository.delete(id);
+    @Post(":id/test")
+    async testProvider(@Param("id") id: string) {
+        const result = await this.providerRegistry.testConnection(id);
 
         return {
             success: true,
+            ...result,
         };
     }
 
     /**
-     * API Key脱敏处理
+     * 删除服务商配置
      */
-    private maskApiKey(apiKey: string): string {
-        if (!apiKey || apiKey.length < 8) {
-            return "****";
-        }
-
-        const start = apiKey.substring(0, 4);
-        const end = apiKey.substring(apiKey.length - 4);
-        return `${start}****${end}`;
+    @Delete(":id")
+    async deleteProvider(@Param("id") id: string) {
+        await this.providerRegistry.remove(id);
+
+        return {
+            success: true,
+        };
     }
 }
@@ -1,25 +1,47 @@
 import { ExtensionWebController } from "@buildingai/core/decorators";
-import { Get, Put, Body, Param, Query, Req, Res, BadRequestException } from "@nestjs/common";
+import { Get, Put, Post, Body, Param, Query, Req, Res, BadRequestException, Logger } from "@nestjs/common";
 import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
-import { Repository } from "@buildingai/db/typeorm";
+import { DataSource, Repository } from "@buildingai/db/typeorm";
 import AdmZip from "adm-zip";
 import axios from "axios";
 import type { Request, Response } from "express";
-import { XhsTask } from "../../../db/entities/xhs-task.entity";
+import { XhsTask, StructuredOutlinePage, PagePromptOverride } from "../../../db/entities/xhs-task.entity";
 import { XhsImage } from "../../../db/entities/xhs-image.entity";
 import { EstimationService } from "../services/estimation.service";
+import { OutlineService } from "../services/outline.service";
+import { GenerationJobService } from "../services/generation-job.service";
+import { ImageSpecificationService } from "../services/image-specification.service";
+import { ImageStorageService } from "../services/image-storage.service";
+import { OutlineHistoryService } from "../services/outline-history.service";
+import { CaptionService } from "../services/caption.service";
+import { ComplianceService } from "../services/compliance.service";
+import { PageLayoutService } from "../services/page-layout.service";
+import { BillingLedgerService } from "../services/billing-ledger.service";
+import { UpdateCaptionDto } from "../dto";
 
 /**
  * 任务管理控制器
  */
 @ExtensionWebController("tasks")
 export class TaskController {
+    private readonly logger = new Logger(TaskController.name);
+
     constructor(
         @InjectRepository(XhsTask)
         private taskRepository: Repository<XhsTask>,
         @InjectRepository(XhsImage)
         private imageRepository: Repository<XhsImage>,
         private readonly estimationService: EstimationService,
+        private readonly specService: ImageSpecificationService,
+        private readonly storageService: ImageStorageService,
+        private readonly jobService: GenerationJobService,
+        private readonly outlineHistoryService: OutlineHistoryService,
+        private readonly captionService: CaptionService,
+        private readonly complianceService: ComplianceService,
+        private readonly pageLayoutService: PageLayoutService,
+        private readonly ledgerService: BillingLedgerService,
+        private readonly outlineService: OutlineService,
+        private readonly dataSource: DataSource,
     ) {}
 
     /**
@@ -117,7 +139,17 @@ export class TaskController {
     @Put(":id/outline")
     async updateOutline(
         @Param("id") id: string,
-        @Body() body: { pages: Array<{ index: number; type: "cover" | "content" | "summary"; content: string }> },
+        @Body() body: {
+            pages: Array<{
+                id?: string;
+                index: number;
+                type: "cover" | "content" | "summary";
+                content: string;
+                styleId?: string | null;
+                promptOverride?: PagePromptOverride | null;
+                structured?: StructuredOutlinePage | null;
+            }>;
+        },
         @Req() req: Request,
     ) {
         const user: any = (req as any).user;
@@ -140,17 +172,24 @@ export class TaskController {
             throw new BadRequestException("pages 参数无效");
         }
 
-        // 更新大纲页面
-        task.pages = body.pages;
+        if (this.jobService.isActive(task.id)) {
+            throw new BadRequestException("任务正在生成图片，请等待生成完成或取消后再调整大纲");
+        }
+
+        // 更新大纲页面（新页面分配ID，已有页面的图片按ID跟随新位置）
+        task.pages = this.pageLayoutService.assignPageIds(body.pages, task.pages);
         task.totalPages = body.pages.length;
         
-        // 重新生成大纲文本（从页面内容拼接）
-        task.outline = body.pages.map((p, i) => {
-            const typeLabel = p.type === "cover" ? "封面" : p.type === "summary" ? "总结" : "内容";
-            return `【第${i + 1}页 - ${typeLabel}】\n${p.content}`;
-        }).join("\n\n");
-        
-        await this.taskRepository.save(task);
+        // 重新生成大纲文本（与生成、改写时的格式一致）
+        task.outline = this.outlineService.serializeOutline(body.pages);
+
+        // 大纲、图片位置与版本记录一起提交，任一步失败时整体回滚
+        await this.dataSource.transaction(async (manager) => {
+            await manager.save(task);
+            await this.pageLayoutService.remapImages(task.id, task.pages, true, manager);
+            await this.outlineHistoryService.record(task, "user-edit", undefined, manager);
+        });
+        const compliance = await this.complianceService.check(task.pages);
 
         return {
             success: true,
@@ -160,6 +199,262 @@ export class TaskController {
                 pages: task.pages,
                 totalPages: task.totalPages,
             },
+            compliance,
+        };
+    }
+
+    /**
+     * 获取大纲版本列表（不含页面快照）
+     */
+    @Get(":id/outline/versions")
+    async getOutlineVersions(@Param("id") id: string, @Req() req: Request) {
+        const task = await this.findOwnedTask(id, req);
+        const versions = await this.outlineHistoryService.getVersions(task.id);
+
+        return {
+            success: true,
+            versions: versions.map((v) => ({
+                version: v.version,
+                source: v.source,
+                pageIndex: v.pageIndex,
+                pageCount: v.pages?.length || 0,
+                isCurrent: v.isCurrent,
+                createdAt: v.createdAt,
+            })),
+        };
+    }
+
+    /**
+     * 对比大纲版本（页面级）
+     * 未传 to 时与当前大纲对比
+     */
+    @Get(":id/outline/diff")
+    async diffOutlineVersions(
+        @Param("id") id: string,
+        @Query("from") from: string,
+        @Query("to") to: string | undefined,
+        @Req() req: Request,
+    ) {
+        const task = await this.findOwnedTask(id, req);
+        const fromVersion = parseInt(from, 10);
+        const toVersion = to ? parseInt(to, 10) : undefined;
+        if (Number.isNaN(fromVersion) || (toVersion !== undefined && Number.isNaN(toVersion))) {
+            throw new BadRequestException("版本号无效");
+        }
+
+        try {
+            const pages = await this.outlineHistoryService.diff(task, fromVersion, toVersion);
+            return {
+                success: true,
+                from: fromVersion,
+                to: toVersion ?? null,
+                pages,
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * 获取大纲版本详情
+     */
+    @Get(":id/outline/versions/:version")
+    async getOutlineVersion(
+        @Param("id") id: string,
+        @Param("version") version: string,
+        @Req() req: Request,
+    ) {
+        const task = await this.findOwnedTask(id, req);
+        const record = await this.outlineHistoryService.getVersion(task.id, parseInt(version, 10));
+        if (!record) {
+            throw new BadRequestException(`版本 v${version} 不存在`);
+        }
+
+        return {
+            success: true,
+            version: record,
+        };
+    }
+
+    /**
+     * 恢复到指定大纲版本（不创建新版本）
+     */
+    @Post(":id/outline/versions/:version/restore")
+    async restoreOutlineVersion(
+        @Param("id") id: string,
+        @Param("version") version: string,
+        @Req() req: Request,
+    ) {
+        const task = await this.findOwnedTask(id, req);
+
+        if (this.jobService.isActive(task.id)) {
+            throw new BadRequestException("任务正在生成图片，请等待生成完成或取消后再调整大纲");
+        }
+
+        try {
+            const restored = await this.outlineHistoryService.restoreVersion(task, parseInt(version, 10));
+            return {
+                success: true,
+                message: `已恢复到版本 v${version}`,
+                task: {
+                    id: restored.id,
+                    outline: restored.outline,
+                    pages: restored.pages,
+                    totalPages: restored.totalPages,
+                },
+            };
+        } catch (error) {
+            throw new BadRequestException(error.message);
+        }
+    }
+
+    /**
+     * AI 生成（或重新生成）发布文案并保存到任务
+     */
+    @Post(":id/caption")
+    async generateCaption(@Param("id") id: string, @Req() req: Request) {
+        const task = await this.findOwnedTask(id, req);
+
+        try {
+            task.caption = await this.captionService.generateCaption(task);
+        } catch (error) {
+            throw new BadRequestException(error.message || "文案生成失败，请重试");
+        }
+        await this.taskRepository.save(task);
+
+        return {
+            success: true,
+            caption: task.caption,
+        };
+    }
+
+    /**
+     * 保存编辑后的发布文案
+     */
+    @Put(":id/caption")
+    async updateCaption(
+        @Param("id") id: string,
+        @Body() dto: UpdateCaptionDto,
+        @Req() req: Request,
+    ) {
+        const task = await this.findOwnedTask(id, req);
+
+        task.caption = this.captionService.normalizeCaption(dto, task.caption);
+        await this.taskRepository.save(task);
+
+        return {
+            success: true,
+            caption: task.caption,
+        };
+    }
+
+    /**
+     * 更新任务风格预设
+     * stylePresetId 为 null 时清除任务风格
+     */
+    @Put(":id/style")
+    async updateStyle(
+        @Param("id") id: string,
+        @Body() body: { stylePresetId: string | null },
+        @Req() req: Request,
+    ) {
+        const user: any = (req as any).user;
+        const userId = user?.id;
+
+        const task = await this.taskRepository.findOne({
+            where: { id },
+        });
+
+        if (!task) {
+            throw new BadRequestException("任务不存在");
+        }
+
+        // 验证任务所有权
+        if (userId && task.userId !== userId) {
+            throw new BadRequestException("无权修改该任务");
+        }
+
+        const stylePresetId = body.stylePresetId || null;
+        if (stylePresetId && !this.specService.getStylePresetById(stylePresetId)) {
+            throw new BadRequestException("风格预设不存在");
+        }
+
+        task.stylePresetId = stylePresetId;
+        await this.taskRepository.save(task);
+
+        return {
+            success: true,
+            stylePresetId: task.stylePresetId,
+        };
+    }
+
+    /**
+     * 设置任务预算（积分），任务累计消费超出预算时停止生成
+     * budget 为 null 时不限制
+     */
+    @Put(":id/budget")
+    async updateBudget(@Param("id") id: string, @Body() body: { budget: number | null }, @Req() req: Request) {
+        const task = await this.findOwnedTask(id, req);
+
+        const budget = body?.budget ?? null;
+        if (budget !== null && (!Number.isInteger(budget) || budget <= 0)) {
+            throw new BadRequestException("任务预算需为正整数");
+        }
+
+        task.budget = budget;
+        await this.taskRepository.save(task);
+
+        return {
+            success: true,
+            budget: task.budget,
+        };
+    }
+
+    /**
+     * 获取任务费用明细（扣费、免费次数、退款，按场景和页面汇总）
+     */
+    @Get(":id/billing")
+    async getTaskBilling(@Param("id") id: string, @Req() req: Request) {
+        const task = await this.findOwnedTask(id, req);
+        const breakdown = await this.ledgerService.getTaskBreakdown(task.id);
+
+        return {
+            success: true,
+            billing: {
+                ...breakdown,
+                entries: breakdown.entries.map((entry) => ({
+                    id: entry.id,
+                    type: entry.type,
+                    scene: entry.scene,
+                    amount: entry.amount,
+                    imageId: entry.imageId,
+                    pageId: entry.pageId,
+                    pageIndex: entry.pageIndex,
+                    pageType: entry.pageType,
+                    version: entry.version,
+                    createdAt: entry.createdAt,
+                })),
+            },
+        };
+    }
+
+    /**
+     * 取消图片生成
+     * 进行中的请求会被中断，未完成页面的积分自动退回，结果通过 SSE cancelled 事件推送
+     */
+    @Post(":id/cancel")
+    async cancelGeneration(@Param("id") id: string, @Req() req: Request) {
+        const user: any = (req as any).user;
+        const userId = user?.id;
+
+        try {
+            await this.jobService.cancel(userId, id);
+        } catch (error) {
+            throw new BadRequestException((error as Error).message);
+        }
+
+        return {
+            success: true,
         };
     }
 
@@ -229,6 +524,7 @@ export class TaskController {
                 pageType: img.pageType,
                 status: img.status,
                 imageUrl: img.imageUrl,
+                thumbnailUrl: img.thumbnailUrl,
                 errorMessage: img.errorMessage,
             })),
         };
@@ -262,6 +558,21 @@ export class TaskController {
             // 依次下载图片并写入 ZIP（参照 RedInk 思路，但使用 URL 源）
             for (const image of validImages) {
                 const rawUrl = image.imageUrl!;
+                const index = image.pageIndex ?? 0;
+
+                // 本地存储的图片直接读取文件
+                if (this.storageService.isLocalUrl(rawUrl)) {
+                    try {
+                        const buffer = await this.storageService.readLocal(rawUrl);
+                        if (buffer) {
+                            const extension = rawUrl.split(".").pop() || "png";
+                            zip.addFile(`page_${index + 1}.${extension}`, buffer);
+                        }
+                    } catch (error) {
+                        this.logger.warn(`读取本地图片失败，已跳过: ${rawUrl}，${error.message}`);
+                    }
+                    continue;
+                }
 
                 // 支持相对路径和绝对 URL
                 const isAbsolute = /^https?:\/\//i.test(rawUrl);
@@ -276,13 +587,11 @@ export class TaskController {
                         responseType: "arraybuffer",
                     });
                     const buffer = Buffer.from(response.data);
-                    const index = image.pageIndex ?? 0;
                     const fileName = `page_${index + 1}.png`;
                     zip.addFile(fileName, buffer);
                 } catch (error) {
                     // 单张图片下载失败时记录日志并跳过，继续处理其他图片
-                    // eslint-disable-next-line no-console
-                    console.error("[XHS Creator] 下载图片失败，已跳过:", url, error);
+                    this.logger.warn(`下载图片失败，已跳过: ${url}，${error.message}`);
                 }
             }
         } catch (error) {
@@ -314,4 +623,26 @@ export class TaskController {
         );
         res.end(zipBuffer);
     }
+
+    /**
+     * 获取当前用户的任务（不存在或无权访问时抛出异常）
+     */
+    private async findOwnedTask(id: string, req: Request): Promise<XhsTask> {
+        const user: any = (req as any).user;
+        const userId = user?.id;
+
+        const task = await this.taskRepository.findOne({
+            where: { id },
+        });
+
+        if (!task) {
+            throw new BadRequestException("任务不存在");
+        }
+
+        if (userId && task.userId !== userId) {
+            throw new BadRequestException("无权访问该任务");
+        }
+
+        return task;
+    }
 }
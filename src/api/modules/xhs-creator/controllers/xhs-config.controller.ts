@@ -1,6 +1,7 @@
 import { ExtensionConsoleController } from "@buildingai/core/decorators";
 import { Body, Get, Param, Patch } from "@nestjs/common";
 
+import { ComplianceCategoryLabel, DEFAULT_COMPLIANCE_RULES } from "../constants";
 import { UpdateXhsConfigDto } from "../dto";
 import { XhsConfigService } from "../services/xhs-config.service";
 
@@ -13,6 +14,18 @@ export class XhsConfigController {
         return await this.xhsConfigService.getConfig();
     }
 
+    /**
+     * 内置合规词库与分类（后台词库为空时生效，可作为编辑起点）
+     */
+    @Get("compliance/default-rules")
+    async getDefaultComplianceRules() {
+        return {
+            success: true,
+            rules: DEFAULT_COMPLIANCE_RULES,
+            categories: ComplianceCategoryLabel,
+        };
+    }
+
     @Patch(":id")
     async updateConfig(@Param("id") id: string, @Body() dto: UpdateXhsConfigDto) {
         return await this.xhsConfigService.updateConfig(id, dto);
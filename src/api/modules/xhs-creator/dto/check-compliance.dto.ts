@@ -0,0 +1,11 @@
+import { IsArray } from "class-validator";
+
+import { XhsTask } from "../../../db/entities/xhs-task.entity";
+
+export class CheckComplianceDto {
+    /**
+     * 待检查的大纲页面（可为未保存的本地修改）
+     */
+    @IsArray()
+    pages: XhsTask["pages"];
+}
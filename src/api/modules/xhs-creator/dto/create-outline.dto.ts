@@ -9,4 +9,9 @@ export class CreateOutlineDto {
     @IsOptional()
     @IsString({ each: true })
     userImages?: string[]; // URLs of uploaded images
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(64)
+    stylePresetId?: string; // 风格预设ID
 }
@@ -1,15 +1,25 @@
-import { IsArray, IsBoolean, IsNotEmpty, IsOptional, IsString, IsUUID } from "class-validator";
+import { IsArray, IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, IsUUID, Max, Min } from "class-validator";
 
-export class GenerateImagesDto {
+import type { PagePromptOverride } from "../../../db/entities/xhs-task.entity";
+import { COVER_VARIANTS } from "../constants";
+import { GenerationPreferencesDto } from "./generation-preferences.dto";
+
+export class GenerateImagesDto extends GenerationPreferencesDto {
     @IsUUID()
     @IsNotEmpty()
     taskId: string;
 
     @IsArray()
     pages: Array<{
+        /** 页面ID（可选，对应任务页面的 id） */
+        id?: string;
         index: number;
         type: "cover" | "content" | "summary";
         content: string;
+        /** 页面级风格预设ID（可选） */
+        styleId?: string | null;
+        /** 图片提示词覆盖（可选） */
+        promptOverride?: PagePromptOverride | null;
     }>;
 
     @IsString()
@@ -23,4 +33,34 @@ export class GenerateImagesDto {
     @IsBoolean()
     @IsOptional()
     isRegenerate?: boolean;
+
+    /**
+     * 封面候选数（默认 1）
+     * 大于 1 时并行生成多张封面，用户选择后再以选中封面为参考生成内容页
+     */
+    @IsInt()
+    @Min(1)
+    @Max(COVER_VARIANTS.MAX)
+    @IsOptional()
+    coverVariants?: number;
+
+    /**
+     * 当前大纲的页面ID顺序（可选）
+     * 大纲调整过页面顺序或删除页面后未保存时，已有图片按页面ID跟随新位置
+     */
+    @IsArray()
+    @IsString({ each: true })
+    @IsOptional()
+    pageIds?: string[];
+}
+
+export class SelectCoverVariantDto {
+    @IsUUID()
+    @IsNotEmpty()
+    taskId: string;
+
+    @IsInt()
+    @Min(1)
+    @IsNotEmpty()
+    version: number;
 }
@@ -0,0 +1,21 @@
+import { IsEnum, IsIn, IsOptional, IsString } from "class-validator";
+
+import { IMAGE_ASPECT_RATIOS, ImageQuality } from "../constants";
+
+/**
+ * 图片生成偏好（比例、模型、清晰度）
+ * 未传时沿用任务上保存的偏好
+ */
+export class GenerationPreferencesDto {
+    @IsIn(IMAGE_ASPECT_RATIOS)
+    @IsOptional()
+    aspectRatio?: string;
+
+    @IsString()
+    @IsOptional()
+    model?: string;
+
+    @IsEnum(ImageQuality)
+    @IsOptional()
+    quality?: ImageQuality;
+}
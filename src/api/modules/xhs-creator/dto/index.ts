@@ -1,6 +1,13 @@
 export { CreateOutlineDto } from "./create-outline.dto";
-export { GenerateImagesDto } from "./generate-images.dto";
+export { RewritePageDto } from "./rewrite-page.dto";
+export { CheckComplianceDto } from "./check-compliance.dto";
+export { UpdateCaptionDto } from "./update-caption.dto";
+export { GenerationPreferencesDto } from "./generation-preferences.dto";
+export { GenerateImagesDto, SelectCoverVariantDto } from "./generate-images.dto";
+export { PreviewImagePromptsDto } from "./preview-image-prompts.dto";
 export { RegenerateImageDto } from "./regenerate-image.dto";
 export { CreateProviderDto } from "./create-provider.dto";
 export { UpdateXhsConfigDto } from "./update-xhs-config.dto";
 export { QueryTaskDto } from "./query-task.dto";
+export { CreatePromptTemplateDto, UpdatePromptTemplateDto } from "./prompt-template.dto";
+export { CreatePricingTierDto, UpdatePricingTierDto } from "./pricing-tier.dto";
@@ -0,0 +1,17 @@
+import { IsArray, IsNotEmpty, IsOptional, IsString, IsUUID } from "class-validator";
+
+import { GenerateImagesDto } from "./generate-images.dto";
+
+export class PreviewImagePromptsDto {
+    @IsUUID()
+    @IsNotEmpty()
+    taskId: string;
+
+    /** 与批量生成相同格式的页面（未传 promptOverride 时使用任务上保存的覆盖） */
+    @IsArray()
+    pages: GenerateImagesDto["pages"];
+
+    @IsString()
+    @IsOptional()
+    fullOutline?: string;
+}
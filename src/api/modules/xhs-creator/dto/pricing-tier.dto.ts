@@ -0,0 +1,104 @@
+import { IsBoolean, IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength } from "class-validator";
+
+export class CreatePricingTierDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(64)
+    membershipLevelId: string;
+
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @IsNumber()
+    outlinePower: number;
+
+    @IsNumber()
+    pageRewritePower: number;
+
+    @IsNumber()
+    coverImagePower: number;
+
+    @IsNumber()
+    contentImagePower: number;
+
+    @IsNumber()
+    summaryImagePower: number;
+
+    @IsNumber()
+    @IsOptional()
+    freeUsageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeOutlineLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeCoverImageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeContentImageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    maxPages?: number | null;
+
+    @IsBoolean()
+    @IsOptional()
+    isEnabled?: boolean;
+}
+
+export class UpdatePricingTierDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    @IsOptional()
+    name?: string;
+
+    @IsNumber()
+    @IsOptional()
+    outlinePower?: number;
+
+    @IsNumber()
+    @IsOptional()
+    pageRewritePower?: number;
+
+    @IsNumber()
+    @IsOptional()
+    coverImagePower?: number;
+
+    @IsNumber()
+    @IsOptional()
+    contentImagePower?: number;
+
+    @IsNumber()
+    @IsOptional()
+    summaryImagePower?: number;
+
+    @IsNumber()
+    @IsOptional()
+    freeUsageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeOutlineLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeCoverImageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeContentImageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    maxPages?: number | null;
+
+    @IsBoolean()
+    @IsOptional()
+    isEnabled?: boolean;
+}
@@ -0,0 +1,46 @@
+import {
+    IsBoolean,
+    IsEnum,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+} from "class-validator";
+import { TemplateType } from "../../../db/entities";
+
+export class CreatePromptTemplateDto {
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    @IsEnum(TemplateType)
+    type: TemplateType;
+
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(10000)
+    content: string;
+
+    @IsOptional()
+    @IsBoolean()
+    isDefault?: boolean;
+}
+
+export class UpdatePromptTemplateDto {
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name?: string;
+
+    @IsOptional()
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(10000)
+    content?: string;
+
+    @IsOptional()
+    @IsBoolean()
+    isDefault?: boolean;
+}
@@ -1,6 +1,8 @@
 import { IsInt, IsNotEmpty, IsString, IsUUID } from "class-validator";
 
-export class RegenerateImageDto {
+import { GenerationPreferencesDto } from "./generation-preferences.dto";
+
+export class RegenerateImageDto extends GenerationPreferencesDto {
     @IsUUID()
     @IsNotEmpty()
     taskId: string;
@@ -0,0 +1,25 @@
+import { IsArray, IsInt, IsNotEmpty, IsOptional, IsString, IsUUID, MaxLength, Min } from "class-validator";
+
+import { XhsTask } from "../../../db/entities/xhs-task.entity";
+
+export class RewritePageDto {
+    @IsUUID()
+    @IsNotEmpty()
+    taskId: string;
+
+    @IsInt()
+    @Min(0)
+    pageIndex: number;
+
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    instruction: string; // 改写要求，如“更简洁”“加一个小贴士”
+
+    /**
+     * 编辑中的大纲（可选，未保存的本地修改作为改写上下文，缺省使用任务已保存的大纲）
+     */
+    @IsArray()
+    @IsOptional()
+    pages?: XhsTask["pages"];
+}
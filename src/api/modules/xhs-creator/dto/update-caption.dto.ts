@@ -0,0 +1,24 @@
+import { ArrayMaxSize, IsArray, IsOptional, IsString, MaxLength } from "class-validator";
+
+export class UpdateCaptionDto {
+    @IsString()
+    @IsOptional()
+    @MaxLength(20)
+    title?: string; // 小红书标题上限 20 字
+
+    @IsArray()
+    @IsString({ each: true })
+    @IsOptional()
+    titles?: string[];
+
+    @IsString()
+    @IsOptional()
+    @MaxLength(1000)
+    body?: string; // 小红书正文上限 1000 字
+
+    @IsArray()
+    @IsString({ each: true })
+    @ArrayMaxSize(10)
+    @IsOptional()
+    hashtags?: string[];
+}
@@ -1,4 +1,6 @@
-import { IsBoolean, IsNumber, IsOptional, IsString } from "class-validator";
+import { IsArray, IsBoolean, IsIn, IsNumber, IsOptional, IsString } from "class-validator";
+
+import type { ComplianceRule, FreeQuotaPeriod, ImageModelRoute } from "../../../db/entities/xhs-config.entity";
 
 /**
  * 更新小红书配置 DTO
@@ -20,6 +22,10 @@ export class UpdateXhsConfigDto {
     @IsOptional()
     contentImagePower?: number;
 
+    @IsNumber()
+    @IsOptional()
+    summaryImagePower?: number;
+
     @IsString()
     @IsOptional()
     textModel?: string;
@@ -52,18 +58,67 @@ export class UpdateXhsConfigDto {
     @IsOptional()
     imageEndpointUrl?: string | null;
 
+    @IsArray()
+    @IsOptional()
+    imageFallbackModels?: ImageModelRoute[] | null;
+
     @IsBoolean()
     @IsOptional()
     highConcurrency?: boolean;
 
+    @IsNumber()
+    @IsOptional()
+    imageRetryMaxAttempts?: number;
+
+    @IsNumber()
+    @IsOptional()
+    imageRetryBaseDelay?: number;
+
+    @IsArray()
+    @IsString({ each: true })
+    @IsOptional()
+    imageRetryableErrors?: string[] | null;
+
     @IsNumber()
     @IsOptional()
     outlinePower?: number;
 
+    @IsNumber()
+    @IsOptional()
+    pageRewritePower?: number;
+
     @IsNumber()
     @IsOptional()
     freeUsageLimit?: number;
 
+    @IsIn(["none", "daily", "weekly", "monthly"])
+    @IsOptional()
+    freeQuotaPeriod?: FreeQuotaPeriod;
+
+    @IsNumber()
+    @IsOptional()
+    freeOutlineLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeCoverImageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    freeContentImageLimit?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    dailySpendCap?: number | null;
+
+    @IsNumber()
+    @IsOptional()
+    monthlySpendCap?: number | null;
+
+    @IsBoolean()
+    @IsOptional()
+    allowUserSpendCap?: boolean;
+
     @IsString()
     @IsOptional()
     homeTitle?: string;
@@ -75,8 +130,24 @@ export class UpdateXhsConfigDto {
     @IsOptional()
     outlinePrompt?: string | null;
 
+    @IsIn(["text", "json"])
+    @IsOptional()
+    outlineOutputMode?: "text" | "json";
+
     @IsString()
     @IsOptional()
     imagePrompt?: string | null;
+
+    @IsBoolean()
+    @IsOptional()
+    complianceEnabled?: boolean;
+
+    @IsBoolean()
+    @IsOptional()
+    complianceBlockCritical?: boolean;
+
+    @IsArray()
+    @IsOptional()
+    complianceRules?: ComplianceRule[] | null;
 }
 
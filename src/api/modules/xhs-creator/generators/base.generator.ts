@@ -1,3 +1,20 @@
+/**
+ * 图片生成选项
+ */
+export interface ImageGenerateOptions {
+    referenceImages?: string[];
+    /** 显式指定尺寸（优先于 aspectRatio） */
+    size?: string;
+    /** 清晰度偏好："1k" | "2k" */
+    quality?: string;
+    /** 画面比例，如 "3:4" */
+    aspectRatio?: string;
+    /** 模型版本偏好 */
+    modelVersion?: string;
+    /** 取消信号，任务被用户取消时中断请求 */
+    signal?: AbortSignal;
+}
+
 /**
  * AI生成器基类
  * 定义文本和图片生成的统一接口
@@ -31,13 +48,84 @@ export abstract class BaseGenerator {
      * 生成图片
      * @param prompt 提示词
      * @param options 额外选项（如参考图片、尺寸等）
+     * aspectRatio / quality("1k" | "2k") / modelVersion 为用户偏好，由各生成器映射到端点支持的参数
      */
     abstract generateImage(
         prompt: string,
-        options?: {
-            referenceImages?: string[];
-            size?: string;
-            quality?: string;
-        },
+        options?: ImageGenerateOptions,
     ): Promise<string>;
+
+    /**
+     * 是否支持用户选择的模型版本
+     * 默认按生成器配置的 modelVersions（模型版本 → 模型名称）判断
+     */
+    supportsModelVersion(modelVersion: string): boolean {
+        return typeof this.config?.modelVersions?.[modelVersion] === "string";
+    }
+
+    /**
+     * 按模型版本偏好解析本次请求使用的模型名称
+     * 未选择版本时使用配置的模型，选择了未映射的版本时抛出异常，不静默忽略用户的选择
+     */
+    protected resolveModel(modelVersion: string | undefined, fallback: string): string {
+        const model = this.model || fallback;
+        if (!modelVersion) {
+            return model;
+        }
+
+        const mapped = this.config?.modelVersions?.[modelVersion];
+        if (typeof mapped !== "string" || !mapped) {
+            throw new Error(
+                `图片模型 "${model}" 不支持选择模型版本 ${modelVersion}，请使用自动模式，或在服务商配置的 modelVersions 中设置该版本对应的模型`,
+            );
+        }
+        return mapped;
+    }
+
+    /**
+     * 解析比例字符串（如 "3:4"），返回宽/高比值
+     */
+    protected parseAspectRatio(aspectRatio?: string): number | null {
+        const match = aspectRatio?.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+        if (!match) {
+            return null;
+        }
+        const width = parseFloat(match[1]);
+        const height = parseFloat(match[2]);
+        return width > 0 && height > 0 ? width / height : null;
+    }
+
+    /**
+     * 从候选尺寸（"宽x高"）中选出与目标比例最接近的一项
+     */
+    protected pickClosestSize(aspectRatio: string | undefined, candidates: string[], fallback: string): string {
+        const target = this.parseAspectRatio(aspectRatio);
+        if (target === null || candidates.length === 0) {
+            return fallback;
+        }
+
+        let closest = fallback;
+        let minDiff = Infinity;
+        for (const size of candidates) {
+            const [width, height] = size.split("x").map(Number);
+            // 使用对数差值，保证横竖方向的偏差同等对待
+            const diff = Math.abs(Math.log(width / height) - Math.log(target));
+            if (diff < minDiff) {
+                minDiff = diff;
+                closest = size;
+            }
+        }
+        return closest;
+    }
+
+    /**
+     * 按比例和长边计算尺寸，宽高对齐到 64 的倍数
+     */
+    protected computeSize(aspectRatio: string | undefined, longEdge: number): string {
+        const ratio = this.parseAspectRatio(aspectRatio) ?? 1;
+        const align = (value: number) => Math.max(64, Math.round(value / 64) * 64);
+        const width = ratio >= 1 ? longEdge : longEdge * ratio;
+        const height = ratio >= 1 ? longEdge / ratio : longEdge;
+        return `${align(width)}x${align(height)}`;
+    }
 }
@@ -1,6 +1,6 @@
 import OpenAI from "openai";
 import axios from "axios";
-import { BaseGenerator } from "./base.generator";
+import { BaseGenerator, ImageGenerateOptions } from "./base.generator";
 
 /**
  * Chat Completions API 生成器
@@ -93,18 +93,17 @@ export class ChatCompletionsGenerator extends BaseGenerator {
      */
     async generateImage(
         prompt: string,
-        options?: {
-            referenceImages?: string[];
-            size?: string;
-            quality?: string;
-        },
+        options?: ImageGenerateOptions,
     ): Promise<string> {
+        // 模型版本偏好映射为具体模型，未映射的版本直接拒绝
+        const model = this.resolveModel(options?.modelVersion, "gpt-4-vision-preview");
+
         try {
             // 构建消息内容
             const content: any[] = [
                 {
                     type: "text",
-                    text: `请根据以下描述生成一张图片：${prompt}`,
+                    text: `请根据以下描述生成一张图片：${prompt}${this.buildSpecHint(options)}`,
                 },
             ];
 
@@ -154,12 +153,12 @@ export class ChatCompletionsGenerator extends BaseGenerator {
 
                 console.log("[ChatCompletionsGenerator] 流式请求配置:");
                 console.log("  baseUrl:", this.baseUrl);
-                console.log("  model:", this.model);
+                console.log("  model:", model);
                 console.log("  最终URL:", apiUrl);
                 const response = await axios.post(
                     apiUrl,
                     {
-                        model: this.model || "gpt-4-vision-preview",
+                        model,
                         messages: [
                             {
                                 role: "user",
@@ -176,6 +175,7 @@ export class ChatCompletionsGenerator extends BaseGenerator {
                         },
                         responseType: "stream",
                         timeout: 180000, // 3分钟超时
+                        signal: options?.signal,
                     },
                 );
 
@@ -316,7 +316,7 @@ export class ChatCompletionsGenerator extends BaseGenerator {
             // 非流式请求（回退方案，仅在流式响应未找到图片URL时使用）
             try {
                 const response = await this.client.chat.completions.create({
-                    model: this.model || "gpt-4-vision-preview",
+                    model,
                     messages: [
                         {
                             role: "user",
@@ -325,7 +325,7 @@ export class ChatCompletionsGenerator extends BaseGenerator {
                     ],
                     max_tokens: 1000,
                     stream: false,
-                });
+                }, { signal: options?.signal });
 
                 const messageContent = response.choices[0]?.message?.content;
 
@@ -374,7 +374,7 @@ export class ChatCompletionsGenerator extends BaseGenerator {
 
             if (errorMessage.includes("not supported") || errorMessage.includes("unsupported")) {
                 throw new Error(
-                    `图片生成失败: 模型 "${this.model}" 不支持图片生成。\n` +
+                    `图片生成失败: 模型 "${model}" 不支持图片生成。\n` +
                         `请确保使用支持多模态图片生成的模型，例如:\n` +
                         `- OpenAI: gpt-4-vision-preview, gpt-4o\n` +
                         `- Anthropic: claude-3-opus, claude-3-sonnet\n` +
@@ -386,5 +386,21 @@ export class ChatCompletionsGenerator extends BaseGenerator {
             throw new Error(`图片生成失败: ${errorMessage}`);
         }
     }
-}
 
+    /**
+     * 构建画面规格提示
+     * Chat 端点没有尺寸参数，只能通过提示词约束比例和清晰度
+     */
+    private buildSpecHint(options?: ImageGenerateOptions): string {
+        const hints: string[] = [];
+        if (options?.aspectRatio && this.parseAspectRatio(options.aspectRatio) !== null) {
+            hints.push(`画面比例 ${options.aspectRatio}`);
+        } else if (options?.size) {
+            hints.push(`尺寸 ${options.size}`);
+        }
+        if (options?.quality === "2k") {
+            hints.push("2K 高清分辨率");
+        }
+        return hints.length > 0 ? `\n\n画面规格：${hints.join("，")}` : "";
+    }
+}
@@ -1,4 +1,4 @@
-import { BaseGenerator } from "./base.generator";
+import { BaseGenerator, ImageGenerateOptions } from "./base.generator";
 
 /**
  * 自定义端点生成器
@@ -21,6 +21,13 @@ export class CustomEndpointGenerator extends BaseGenerator {
         this.endpointUrl = config.endpointUrl;
     }
 
+    /**
+     * 自定义端点将模型版本原样传给服务端（model_version），由服务端自行取用
+     */
+    supportsModelVersion(): boolean {
+        return true;
+    }
+
     /**
      * 使用自定义端点生成文本
      */
@@ -55,11 +62,7 @@ export class CustomEndpointGenerator extends BaseGenerator {
      */
     async generateImage(
         prompt: string,
-        options?: {
-            referenceImages?: string[];
-            size?: string;
-            quality?: string;
-        },
+        options?: ImageGenerateOptions,
     ): Promise<string> {
         try {
             const requestBody: any = {
@@ -67,14 +70,28 @@ export class CustomEndpointGenerator extends BaseGenerator {
                 model: this.model,
             };
 
+            // 自定义端点同时传比例和按清晰度换算的尺寸，由服务端自行取用
+            if (options?.aspectRatio) {
+                requestBody.aspect_ratio = options.aspectRatio;
+            }
+
             if (options?.size) {
                 requestBody.size = options.size;
+            } else if (options?.aspectRatio) {
+                requestBody.size = this.computeSize(
+                    options.aspectRatio,
+                    options.quality === "2k" ? 2048 : 1024,
+                );
             }
 
             if (options?.quality) {
                 requestBody.quality = options.quality;
             }
 
+            if (options?.modelVersion) {
+                requestBody.model_version = options.modelVersion;
+            }
+
             if (options?.referenceImages && options.referenceImages.length > 0) {
                 requestBody.reference_images = options.referenceImages;
             }
@@ -91,6 +108,7 @@ export class CustomEndpointGenerator extends BaseGenerator {
                     Authorization: `Bearer ${this.apiKey}`,
                 },
                 body: JSON.stringify(requestBody),
+                signal: options?.signal,
             });
 
             if (!response.ok) {
@@ -1,4 +1,5 @@
 export { BaseGenerator } from "./base.generator";
+export type { ImageGenerateOptions } from "./base.generator";
 export { OpenAIGenerator } from "./openai.generator";
 export { ChatCompletionsGenerator } from "./chat-completions.generator";
 export { CustomEndpointGenerator } from "./custom-endpoint.generator";
@@ -1,5 +1,8 @@
 import OpenAI from "openai";
-import { BaseGenerator } from "./base.generator";
+import { BaseGenerator, ImageGenerateOptions } from "./base.generator";
+
+type ImageSize = NonNullable<OpenAI.Images.ImageGenerateParams["size"]>;
+type ImageQualityParam = NonNullable<OpenAI.Images.ImageGenerateParams["quality"]>;
 
 /**
  * OpenAI生成器
@@ -23,6 +26,7 @@ export class OpenAIGenerator extends BaseGenerator {
 
     /**
      * 使用GPT模型生成文本
+     * options.images 传入时以多模态消息附带图片（需模型支持视觉输入）
      */
     async generateText(prompt: string, options?: any): Promise<string> {
         const response = await this.client.chat.completions.create({
@@ -30,7 +34,7 @@ export class OpenAIGenerator extends BaseGenerator {
             messages: [
                 {
                     role: "user",
-                    content: prompt,
+                    content: this.buildUserContent(prompt, options?.images),
                 },
             ],
             temperature: options?.temperature || 0.7,
@@ -40,25 +44,74 @@ export class OpenAIGenerator extends BaseGenerator {
         return response.choices[0]?.message?.content || "";
     }
 
+    /**
+     * 流式生成文本，每收到一段增量回调一次
+     * @returns 完整文本
+     */
+    async streamText(
+        prompt: string,
+        onDelta: (delta: string) => void,
+        options?: any,
+    ): Promise<string> {
+        const stream = await this.client.chat.completions.create({
+            model: this.model || "gpt-4",
+            messages: [
+                {
+                    role: "user",
+                    content: this.buildUserContent(prompt, options?.images),
+                },
+            ],
+            temperature: options?.temperature || 0.7,
+            max_tokens: options?.maxTokens || 4000,
+            stream: true,
+        });
+
+        let text = "";
+        for await (const chunk of stream) {
+            const delta = chunk.choices[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onDelta(delta);
+            }
+        }
+        return text;
+    }
+
+    /**
+     * 构建用户消息内容，有图片时拼接为文本 + 图片的多模态内容
+     */
+    private buildUserContent(prompt: string, images?: string[]): any {
+        if (!images || images.length === 0) {
+            return prompt;
+        }
+
+        return [
+            { type: "text", text: prompt },
+            ...images.map((url) => ({
+                type: "image_url",
+                image_url: { url },
+            })),
+        ];
+    }
+
     /**
      * 使用DALL-E生成图片
      */
     async generateImage(
         prompt: string,
-        options?: {
-            referenceImages?: string[];
-            size?: string;
-            quality?: string;
-        },
+        options?: ImageGenerateOptions,
     ): Promise<string> {
+        // 模型版本偏好映射为具体模型，未映射的版本直接拒绝
+        const model = this.resolveModel(options?.modelVersion, "dall-e-3");
+
         try {
             const response = await this.client.images.generate({
-                model: this.model || "dall-e-3",
+                model,
                 prompt: prompt,
-                size: (options?.size as any) || "1024x1024",
-                quality: (options?.quality as any) || "standard",
+                size: this.resolveSize(model, options?.aspectRatio, options?.size),
+                quality: this.resolveQuality(model, options?.quality),
                 n: 1,
-            });
+            }, { signal: options?.signal });
 
             return response.data?.[0]?.url || "";
         } catch (error) {
@@ -67,7 +120,7 @@ export class OpenAIGenerator extends BaseGenerator {
             
             if (errorMessage.includes("not supported") || errorMessage.includes("unsupported")) {
                 throw new Error(
-                    `图片生成失败: 模型 "${this.model}" 不支持图片生成。\n` +
+                    `图片生成失败: 模型 "${model}" 不支持图片生成。\n` +
                     `请在后台配置中选择支持图片生成的模型，例如:\n` +
                     `- OpenAI: dall-e-2, dall-e-3\n` +
                     `- Stability AI: stable-diffusion-xl-1024-v1-0\n` +
@@ -78,4 +131,37 @@ export class OpenAIGenerator extends BaseGenerator {
             throw new Error(`图片生成失败: ${errorMessage}`);
         }
     }
+
+    /**
+     * 将比例映射为模型支持的最接近尺寸（显式指定的尺寸须在支持列表中）
+     * - dall-e-2 仅支持正方形
+     * - dall-e-3 支持 1792 横竖版
+     * - gpt-image 系列支持 1536 横竖版
+     */
+    private resolveSize(model: string, aspectRatio?: string, size?: string): ImageSize {
+        const name = model.toLowerCase();
+        const candidates: ImageSize[] = name.includes("dall-e-2")
+            ? ["1024x1024"]
+            : name.includes("dall-e-3")
+              ? ["1024x1024", "1792x1024", "1024x1792"]
+              : ["1024x1024", "1536x1024", "1024x1536"];
+
+        const explicit = candidates.find((candidate) => candidate === size);
+        if (explicit) {
+            return explicit;
+        }
+        const closest = this.pickClosestSize(aspectRatio, candidates, "1024x1024");
+        return candidates.find((candidate) => candidate === closest) ?? "1024x1024";
+    }
+
+    /**
+     * 将清晰度偏好映射为 Images API 的 quality 参数
+     */
+    private resolveQuality(model: string, quality?: string): ImageQualityParam {
+        const isHd = quality === "2k" || quality === "hd";
+        if (model.toLowerCase().includes("gpt-image")) {
+            return isHd ? "high" : "medium";
+        }
+        return isHd ? "hd" : "standard";
+    }
 }
@@ -1,3 +1,5 @@
+import type { FreeQuotaPeriod } from "../../../db/entities/xhs-config.entity";
+
 /**
  * 计费服务通用接口
  * 定义统一的计费操作规范
@@ -7,13 +9,14 @@ export interface IBillingService {
      * 检查用户是否有足够余额
      * @param userId 用户ID
      * @param requiredPower 需要的积分数
+     * @param quota 操作对应的免费额度，不传时任一额度有剩余即可
      */
-    hasSufficientBalance(userId: string, requiredPower: number): Promise<boolean>;
+    hasSufficientBalance(userId: string, requiredPower: number, quota?: FreeQuotaType): Promise<boolean>;
 
     /**
      * 检查用户是否有免费次数
      */
-    hasFreeUsage(userId: string): Promise<boolean>;
+    hasFreeUsage(userId: string, quota?: FreeQuotaType): Promise<boolean>;
 
     /**
      * 消费一次（优先使用免费次数）
@@ -40,7 +43,86 @@ export interface IBillingService {
 /**
  * 消费类型
  */
-export type ConsumeType = "outline" | "image";
+export type ConsumeType = "outline" | "image" | "page-rewrite";
+
+/**
+ * 免费额度类型
+ * - outline: 大纲生成与单页改写
+ * - cover: 封面图
+ * - content: 内容图（含总结页）
+ */
+export type FreeQuotaType = "outline" | "cover" | "content";
+
+/**
+ * 单项免费额度使用情况
+ */
+export interface FreeQuotaUsage {
+    used: number;
+    limit: number;
+    remaining: number;
+    /** 是否使用共用次数（未单独设置额度） */
+    shared: boolean;
+}
+
+/**
+ * 用户免费次数使用统计
+ */
+export interface FreeUsageSummary {
+    /** 已使用共用次数 */
+    freeUsageCount: number;
+    /** 共用次数上限 */
+    freeUsageLimit: number;
+    /** 剩余共用次数 */
+    remainingFreeCount: number;
+    /** 重置周期 */
+    freeQuotaPeriod: FreeQuotaPeriod;
+    /** 当前周期开始时间（不重置时为空） */
+    periodStart: Date | null;
+    /** 下次重置时间（不重置时为空） */
+    resetAt: Date | null;
+    /** 各类操作的免费额度 */
+    quotas: Record<FreeQuotaType, FreeQuotaUsage>;
+}
+
+/**
+ * 消费上限范围
+ * - daily: 每日消费上限
+ * - monthly: 每月消费上限
+ * - task: 任务预算
+ */
+export type SpendLimitScope = "daily" | "monthly" | "task";
+
+/**
+ * 单项消费上限使用情况
+ */
+export interface SpendLimitUsage {
+    /** 生效的上限（后台上限与用户上限取较小值），为空不限制 */
+    limit: number | null;
+    /** 已消费积分（扣费减退款，含进行中的批量生成冻结的积分） */
+    spent: number;
+    /** 剩余可消费积分，不限制时为空 */
+    remaining: number | null;
+    /** 下次重置时间（任务预算为空） */
+    resetAt: Date | null;
+}
+
+/**
+ * 用户消费上限汇总
+ */
+export interface SpendLimitSummary {
+    daily: SpendLimitUsage;
+    monthly: SpendLimitUsage;
+    /** 任务预算（未指定任务时为空） */
+    task: SpendLimitUsage | null;
+    /** 后台设置的上限 */
+    adminDailyCap: number | null;
+    adminMonthlyCap: number | null;
+    /** 用户自行设置的上限 */
+    userDailyCap: number | null;
+    userMonthlyCap: number | null;
+    /** 是否允许用户自行设置上限 */
+    allowUserSpendCap: boolean;
+}
 
 /**
  * 消费结果
@@ -95,11 +177,25 @@ export interface BillingRecord {
 export interface PowerConfig {
     /** 大纲生成积分 */
     outlinePower: number;
+    /** 大纲单页改写积分 */
+    pageRewritePower: number;
     /** 封面图积分 */
     coverImagePower: number;
     /** 内容图积分 */
     contentImagePower: number;
-    /** 免费使用次数 */
+    /** 总结页图片积分 */
+    summaryImagePower: number;
+    /** 共用免费次数 */
     freeUsageLimit: number;
+    /** 免费次数重置周期 */
+    freeQuotaPeriod: FreeQuotaPeriod;
+    /** 各类操作单独的免费次数，为空使用共用次数 */
+    freeQuotaLimits: Record<FreeQuotaType, number | null>;
+    /** 每个任务最大页数，为空不限制 */
+    maxPages: number | null;
+    /** 匹配到的会员等级定价ID，为空表示使用全局配置 */
+    tierId: string | null;
+    /** 匹配到的会员等级定价名称 */
+    tierName: string | null;
 }
 
@@ -0,0 +1,416 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
+import { DataSource, EntityManager, In, IsNull, Repository } from "@buildingai/db/typeorm";
+import { AccountLog } from "@buildingai/db/entities";
+import {
+    ACCOUNT_LOG_TYPE,
+    ACCOUNT_LOG_SOURCE,
+    ACTION,
+} from "@buildingai/constants/shared/account-log.constants";
+
+import {
+    XhsBillingLedger,
+    BillingLedgerType,
+    ReconcileStatus,
+} from "../../../db/entities/xhs-billing-ledger.entity";
+import { XhsImage } from "../../../db/entities/xhs-image.entity";
+import { PLUGIN_IDENTIFIER } from "../constants";
+import type { ConsumeType } from "../interfaces/billing.interface";
+
+/**
+ * 账本记录参数
+ * 传入 imageId 时任务、页面引用从图片记录补全
+ */
+export interface LedgerEntryInput {
+    userId: string;
+    type: BillingLedgerType;
+    scene: ConsumeType;
+    amount: number;
+    taskId?: string | null;
+    imageId?: string | null;
+    pageType?: string | null;
+    associationNo?: string | null;
+    remark?: string | null;
+}
+
+/**
+ * 费用汇总
+ */
+export interface CostSummary {
+    charged: number;
+    refunded: number;
+    /** 实际花费（扣费减退款） */
+    net: number;
+    freeUses: number;
+}
+
+/**
+ * 任务费用明细
+ */
+export interface TaskCostBreakdown extends CostSummary {
+    /** 按消费场景汇总 */
+    scenes: Array<CostSummary & { scene: string }>;
+    /** 按页面汇总（图片费用） */
+    pages: Array<CostSummary & { pageId: string | null; pageIndex: number | null; pageType: string | null }>;
+    entries: XhsBillingLedger[];
+}
+
+/**
+ * 对账不一致的关联单号
+ */
+export interface ReconcileMismatch {
+    associationNo: string;
+    userId: string;
+    taskId: string | null;
+    ledgerCharged: number;
+    hostCharged: number;
+    ledgerRefunded: number;
+    hostRefunded: number;
+}
+
+/**
+ * 对账结果
+ */
+export interface ReconcileResult {
+    checked: number;
+    matched: number;
+    mismatched: number;
+    mismatches: ReconcileMismatch[];
+}
+
+const BATCH_SIZE = 200;
+
+/** 未指定对账起点时默认核对最近 24 小时 */
+const DEFAULT_RECONCILE_WINDOW = 24 * 60 * 60 * 1000;
+
+/** 定时对账间隔（每小时核对最近 24 小时，窗口重叠保证每笔记录被多次核对） */
+const RECONCILE_INTERVAL = 60 * 60 * 1000;
+
+/** 主系统流水早于账本首条记录的容差，早于该时间的流水视为账本上线前的历史数据 */
+const HOST_LOG_TOLERANCE = 60 * 1000;
+
+/**
+ * 计费账本服务
+ * 记录每一笔扣费、免费次数使用和退回、积分退款，提供任务费用明细，并与主系统账户流水对账
+ * 对账每小时自动执行一次，也可在后台手动触发
+ */
+@Injectable()
+export class BillingLedgerService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(BillingLedgerService.name);
+    private reconciling = false;
+    /** 定时对账定时器 */
+    private reconcileTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        @InjectRepository(XhsBillingLedger)
+        private readonly ledgerRepository: Repository<XhsBillingLedger>,
+        private readonly dataSource: DataSource,
+    ) {}
+
+    onModuleInit(): void {
+        this.reconcileTimer = setInterval(() => this.runScheduledReconcile(), RECONCILE_INTERVAL);
+    }
+
+    onModuleDestroy(): void {
+        if (this.reconcileTimer) {
+            clearInterval(this.reconcileTimer);
+            this.reconcileTimer = null;
+        }
+    }
+
+    /**
+     * 写入一条账本记录
+     * 与扣费、退款在同一事务内写入（传入 manager 时），写入失败时抛出异常使整笔操作回滚，账本不会漏记
+     */
+    async record(input: LedgerEntryInput, manager?: EntityManager): Promise<void> {
+        const execManager = manager || this.ledgerRepository.manager;
+
+        const entry = execManager.create(XhsBillingLedger, {
+            userId: input.userId,
+            type: input.type,
+            scene: input.scene,
+            amount: input.amount,
+            taskId: input.taskId ?? null,
+            imageId: input.imageId ?? null,
+            pageType: input.pageType ?? null,
+            associationNo: input.associationNo || null,
+            remark: input.remark ?? null,
+        });
+
+        if (input.imageId) {
+            const image = await execManager.findOne(XhsImage, { where: { id: input.imageId } });
+            if (image) {
+                entry.taskId = image.taskId;
+                entry.pageId = image.pageId;
+                entry.pageIndex = image.pageIndex;
+                entry.pageType = entry.pageType || image.pageType;
+            }
+        }
+
+        await execManager.save(entry);
+    }
+
+    /**
+     * 图片版本保存后回填最近一笔尚未关联版本的扣费（或免费次数）记录
+     */
+    async attachVersion(imageId: string, version: number): Promise<void> {
+        const entry = await this.ledgerRepository.findOne({
+            where: {
+                imageId,
+                version: IsNull(),
+                type: In([BillingLedgerType.CHARGE, BillingLedgerType.FREE_USE]),
+            },
+            order: { createdAt: "DESC" },
+        });
+
+        if (entry) {
+            await this.ledgerRepository.update(entry.id, { version });
+        }
+    }
+
+    /**
+     * 实际消费积分合计（扣费减退款），用于消费上限、任务预算和取消生成时的退款
+     * @param since 只统计该时间之后的记录
+     */
+    async getNetSpent(
+        filter: { userId?: string; taskId?: string; imageId?: string; since?: Date },
+        manager?: EntityManager,
+    ): Promise<number> {
+        const execManager = manager || this.ledgerRepository.manager;
+        const query = execManager
+            .createQueryBuilder(XhsBillingLedger, "ledger")
+            .select(
+                "COALESCE(SUM(CASE WHEN ledger.type = :charge THEN ledger.amount WHEN ledger.type = :refund THEN -ledger.amount ELSE 0 END), 0)",
+                "net",
+            )
+            .setParameters({ charge: BillingLedgerType.CHARGE, refund: BillingLedgerType.REFUND });
+
+        if (filter.userId) {
+            query.andWhere("ledger.userId = :userId", { userId: filter.userId });
+        }
+        if (filter.taskId) {
+            query.andWhere("ledger.taskId = :taskId", { taskId: filter.taskId });
+        }
+        if (filter.imageId) {
+            query.andWhere("ledger.imageId = :imageId", { imageId: filter.imageId });
+        }
+        if (filter.since) {
+            query.andWhere("ledger.createdAt >= :since", { since: filter.since });
+        }
+
+        const result = await query.getRawOne();
+        return Math.max(0, Number(result?.net || 0));
+    }
+
+    /**
+     * 任务费用明细
+     */
+    async getTaskBreakdown(taskId: string): Promise<TaskCostBreakdown> {
+        const entries = await this.ledgerRepository.find({
+            where: { taskId },
+            order: { createdAt: "ASC" },
+        });
+
+        const scenes = new Map<string, CostSummary & { scene: string }>();
+        const pages = new Map<
+            string,
+            CostSummary & { pageId: string | null; pageIndex: number | null; pageType: string | null }
+        >();
+
+        for (const entry of entries) {
+            if (!scenes.has(entry.scene)) {
+                scenes.set(entry.scene, { scene: entry.scene, ...this.emptySummary() });
+            }
+            this.accumulate(scenes.get(entry.scene)!, entry);
+
+            if (entry.imageId) {
+                const key = entry.pageId || entry.imageId;
+                if (!pages.has(key)) {
+                    pages.set(key, {
+                        pageId: entry.pageId,
+                        pageIndex: entry.pageIndex,
+                        pageType: entry.pageType,
+                        ...this.emptySummary(),
+                    });
+                }
+                this.accumulate(pages.get(key)!, entry);
+            }
+        }
+
+        const total = this.emptySummary();
+        entries.forEach((entry) => this.accumulate(total, entry));
+
+        return {
+            ...total,
+            scenes: [...scenes.values()],
+            pages: [...pages.values()].sort((a, b) => (a.pageIndex ?? 0) - (b.pageIndex ?? 0)),
+            entries,
+        };
+    }
+
+    /**
+     * 查询对账不一致的账本记录（后台）
+     */
+    async getMismatches(page = 1, pageSize = 20): Promise<{ items: XhsBillingLedger[]; total: number }> {
+        const [items, total] = await this.ledgerRepository.findAndCount({
+            where: { reconcileStatus: ReconcileStatus.MISMATCHED },
+            order: { createdAt: "DESC" },
+            skip: (page - 1) * pageSize,
+            take: pageSize,
+        });
+        return { items, total };
+    }
+
+    /**
+     * 与主系统账户流水对账（可重复执行）
+     * 取起点之后有扣费或退款的关联单号，按单号对比账本与主系统流水的扣费、退款合计，标记一致或不一致
+     * @param since 对账起点，默认最近 24 小时
+     */
+    async reconcile(since?: Date): Promise<ReconcileResult> {
+        if (this.reconciling) {
+            throw new Error("对账任务正在执行中");
+        }
+
+        this.reconciling = true;
+        const result: ReconcileResult = { checked: 0, matched: 0, mismatched: 0, mismatches: [] };
+
+        try {
+            const from = since || new Date(Date.now() - DEFAULT_RECONCILE_WINDOW);
+            const rows: Array<{ associationNo: string }> = await this.ledgerRepository
+                .createQueryBuilder("ledger")
+                .select("DISTINCT ledger.associationNo", "associationNo")
+                .where("ledger.createdAt >= :from", { from })
+                .andWhere("ledger.associationNo IS NOT NULL")
+                .andWhere("ledger.type IN (:...types)", {
+                    types: [BillingLedgerType.CHARGE, BillingLedgerType.REFUND],
+                })
+                .getRawMany();
+
+            const associationNos = rows.map((row) => row.associationNo);
+            for (let i = 0; i < associationNos.length; i += BATCH_SIZE) {
+                await this.reconcileBatch(associationNos.slice(i, i + BATCH_SIZE), result);
+            }
+        } finally {
+            this.reconciling = false;
+        }
+
+        this.logger.log(
+            `计费对账完成：核对 ${result.checked} 个关联单号，一致 ${result.matched}，不一致 ${result.mismatched}`,
+        );
+        return result;
+    }
+
+    /**
+     * 定时对账：上一次对账（含手动触发）未结束时跳过本轮，异常只记录日志
+     */
+    private async runScheduledReconcile(): Promise<void> {
+        if (this.reconciling) {
+            return;
+        }
+
+        try {
+            await this.reconcile();
+        } catch (error) {
+            this.logger.error(`定时计费对账失败: ${error.message}`);
+        }
+    }
+
+    /**
+     * 对账一批关联单号
+     */
+    private async reconcileBatch(associationNos: string[], result: ReconcileResult): Promise<void> {
+        const entries = await this.ledgerRepository.find({
+            where: {
+                associationNo: In(associationNos),
+                type: In([BillingLedgerType.CHARGE, BillingLedgerType.REFUND]),
+            },
+        });
+        // 只取本插件写入的流水，避免其他插件或业务恰好使用相同关联单号
+        const hostLogs: AccountLog[] = await this.dataSource
+            .getRepository(AccountLog)
+            .createQueryBuilder("log")
+            .where("log.associationNo IN (:...associationNos)", { associationNos })
+            .andWhere("log.accountType = :accountType", { accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC })
+            .andWhere("log.sourceInfo ->> 'type' = :sourceType", { sourceType: String(ACCOUNT_LOG_SOURCE.PLUGIN) })
+            .andWhere("log.sourceInfo ->> 'source' = :source", { source: PLUGIN_IDENTIFIER })
+            .getMany();
+
+        const matchedIds: string[] = [];
+        const mismatchedIds: string[] = [];
+
+        for (const associationNo of associationNos) {
+            const group = entries.filter((entry) => entry.associationNo === associationNo);
+            if (group.length === 0) {
+                continue;
+            }
+
+            // 账本上线前的历史流水不参与对账
+            const ledgerStart = Math.min(...group.map((entry) => entry.createdAt.getTime())) - HOST_LOG_TOLERANCE;
+            const logs = hostLogs.filter(
+                (log) =>
+                    log.associationNo === associationNo && new Date(log.createdAt).getTime() >= ledgerStart,
+            );
+
+            const sum = (items: Array<{ amount: number }>) => items.reduce((total, item) => total + item.amount, 0);
+            const ledgerCharged = sum(group.filter((entry) => entry.type === BillingLedgerType.CHARGE));
+            const ledgerRefunded = sum(group.filter((entry) => entry.type === BillingLedgerType.REFUND));
+            const hostAmount = (action: number) =>
+                logs
+                    .filter((log) => Number(log.action) === action)
+                    .reduce((total, log) => total + Math.abs(Number(log.changeAmount) || 0), 0);
+            const hostCharged = hostAmount(ACTION.DEC);
+            const hostRefunded = hostAmount(ACTION.INC);
+
+            result.checked++;
+            if (ledgerCharged === hostCharged && ledgerRefunded === hostRefunded) {
+                result.matched++;
+                matchedIds.push(...group.map((entry) => entry.id));
+                continue;
+            }
+
+            result.mismatched++;
+            mismatchedIds.push(...group.map((entry) => entry.id));
+            result.mismatches.push({
+                associationNo,
+                userId: group[0].userId,
+                taskId: group[0].taskId,
+                ledgerCharged,
+                hostCharged,
+                ledgerRefunded,
+                hostRefunded,
+            });
+        }
+
+        const reconciledAt = new Date();
+        if (matchedIds.length > 0) {
+            await this.ledgerRepository.update(
+                { id: In(matchedIds) },
+                { reconcileStatus: ReconcileStatus.MATCHED, reconciledAt },
+            );
+        }
+        if (mismatchedIds.length > 0) {
+            await this.ledgerRepository.update(
+                { id: In(mismatchedIds) },
+                { reconcileStatus: ReconcileStatus.MISMATCHED, reconciledAt },
+            );
+            this.logger.warn(`计费对账发现 ${mismatchedIds.length} 条账本记录与主系统流水不一致`);
+        }
+    }
+
+    private emptySummary(): CostSummary {
+        return { charged: 0, refunded: 0, net: 0, freeUses: 0 };
+    }
+
+    private accumulate(summary: CostSummary, entry: XhsBillingLedger): void {
+        if (entry.type === BillingLedgerType.CHARGE) {
+            summary.charged += entry.amount;
+        } else if (entry.type === BillingLedgerType.REFUND) {
+            summary.refunded += entry.amount;
+        } else if (entry.type === BillingLedgerType.FREE_REFUND) {
+            summary.freeUses--;
+        } else {
+            summary.freeUses++;
+        }
+        summary.net = summary.charged - summary.refunded;
+    }
+}
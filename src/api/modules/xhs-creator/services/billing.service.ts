@@ -8,9 +8,26 @@ import {
 } from "@buildingai/constants/shared/account-log.constants";
 
 import { XhsUserUsage } from "../../../db/entities/xhs-user-usage.entity";
+import { XhsTask } from "../../../db/entities/xhs-task.entity";
 import { XhsImage, ImageStatus } from "../../../db/entities/xhs-image.entity";
+import { XhsPowerHold, PowerHoldStatus } from "../../../db/entities/xhs-power-hold.entity";
+import { BillingLedgerType } from "../../../db/entities/xhs-billing-ledger.entity";
+import type { FreeQuotaPeriod } from "../../../db/entities/xhs-config.entity";
 import { XhsConfigService } from "./xhs-config.service";
-import { IBillingService, ConsumeType, ConsumeResult, PowerConfig } from "../interfaces/billing.interface";
+import { BillingLedgerService } from "./billing-ledger.service";
+import { PricingTierService } from "./pricing-tier.service";
+import { ImageQuality, POWER_HOLD, QUALITY_POWER_MULTIPLIER } from "../constants";
+import {
+    IBillingService,
+    ConsumeType,
+    ConsumeResult,
+    FreeQuotaType,
+    FreeUsageSummary,
+    PowerConfig,
+    SpendLimitScope,
+    SpendLimitSummary,
+    SpendLimitUsage,
+} from "../interfaces/billing.interface";
 
 /**
  * 积分扣减选项
@@ -19,13 +36,66 @@ export interface DeductOptions {
     userId: string;
     imageId?: string;
     pageType?: "cover" | "content" | "summary";
+    /** 图片清晰度，影响积分倍率 */
+    quality?: string;
     remark?: string;
 }
 
+/** 消费上限名称（错误提示用） */
+const SPEND_LIMIT_LABELS: Record<SpendLimitScope, string> = {
+    daily: "今日消费上限",
+    monthly: "本月消费上限",
+    task: "任务预算",
+};
+
+/**
+ * 超出每日/每月消费上限或任务预算
+ * 图片生成流程据此推送 budget_exceeded 事件并停止生成
+ */
+export class SpendLimitExceededError extends Error {
+    constructor(
+        readonly scope: SpendLimitScope,
+        readonly limit: number,
+        readonly spent: number,
+        readonly required: number,
+    ) {
+        super(
+            `已达${SPEND_LIMIT_LABELS[scope]}：上限 ${limit} 积分，已消费 ${spent} 积分，本次需要 ${required} 积分` +
+                (scope === "task" ? "，可调高任务预算后继续" : ""),
+        );
+        this.name = "SpendLimitExceededError";
+    }
+}
+
+/**
+ * 使用记录中的免费次数计数字段
+ */
+type UsageCountField = "freeUsageCount" | "outlineFreeCount" | "coverFreeCount" | "contentFreeCount";
+
+/** 计数字段对应的数据库列名（条件更新使用） */
+const USAGE_COUNT_COLUMNS: Record<UsageCountField, string> = {
+    freeUsageCount: "free_usage_count",
+    outlineFreeCount: "outline_free_count",
+    coverFreeCount: "cover_free_count",
+    contentFreeCount: "content_free_count",
+};
+
+/** 单独设置了额度的操作使用的计数字段 */
+const FREE_QUOTA_COUNT_FIELDS: Record<FreeQuotaType, UsageCountField> = {
+    outline: "outlineFreeCount",
+    cover: "coverFreeCount",
+    content: "contentFreeCount",
+};
+
 /**
  * 统一计费服务
  * 合并 XhsBillingService 和 ImageBillingService
  * 管理大纲生成和图片生成的免费次数与积分扣减
+ * 免费次数按周期重置，大纲、封面图、内容图可分别设置额度，未设置的共用一个额度
+ * 积分单价、免费次数和最大页数按用户会员等级匹配定价，未匹配时使用全局配置
+ * 批量生成图片时先冻结整批积分，每页成功后结算为实际扣费，其他扣费只能使用未冻结的积分
+ * 每次扣费和冻结前检查每日/每月消费上限与任务预算
+ * 每一笔扣费、免费次数使用和退款都写入计费账本
  */
 @Injectable()
 export class BillingService implements IBillingService {
@@ -36,17 +106,23 @@ export class BillingService implements IBillingService {
         private readonly usageRepository: Repository<XhsUserUsage>,
         @InjectRepository(XhsImage)
         private readonly imageRepository: Repository<XhsImage>,
+        @InjectRepository(XhsPowerHold)
+        private readonly holdRepository: Repository<XhsPowerHold>,
         private readonly configService: XhsConfigService,
         private readonly appBillingService: AppBillingService,
         private readonly dataSource: DataSource,
+        private readonly ledgerService: BillingLedgerService,
+        private readonly pricingTierService: PricingTierService,
     ) {}
 
     // ========== 用户使用记录管理 ==========
 
     /**
      * 获取或创建用户使用记录
+     * 进入新的免费周期时清零各项计数
      */
-    private async getOrCreateUsage(userId: string): Promise<XhsUserUsage> {
+    private async getOrCreateUsage(userId: string, period: FreeQuotaPeriod): Promise<XhsUserUsage> {
+        const periodStart = this.getPeriodStart(period);
         let usage = await this.usageRepository.findOne({
             where: { userId },
         });
@@ -56,67 +132,178 @@ export class BillingService implements IBillingService {
                 this.usageRepository.create({
                     userId,
                     freeUsageCount: 0,
+                    outlineFreeCount: 0,
+                    coverFreeCount: 0,
+                    contentFreeCount: 0,
+                    periodStart,
                 }),
             );
             this.logger.debug(`创建用户使用记录: ${userId}`);
+            return usage;
+        }
+
+        if (periodStart && (!usage.periodStart || usage.periodStart < periodStart)) {
+            const reset = {
+                freeUsageCount: 0,
+                outlineFreeCount: 0,
+                coverFreeCount: 0,
+                contentFreeCount: 0,
+                periodStart,
+            };
+            // 条件更新，并发请求只清零一次
+            await this.usageRepository
+                .createQueryBuilder()
+                .update(XhsUserUsage)
+                .set(reset)
+                .where("id = :id", { id: usage.id })
+                .andWhere("(period_start IS NULL OR period_start < :periodStart)", { periodStart })
+                .execute();
+            Object.assign(usage, reset);
+            this.logger.debug(`用户 ${userId} 进入新的免费周期: ${periodStart.toISOString()}`);
         }
 
         return usage;
     }
 
+    /**
+     * 当前免费周期的开始时间（按服务器时区，每周从周一开始），不重置时返回 null
+     */
+    private getPeriodStart(period: FreeQuotaPeriod, now = new Date()): Date | null {
+        const year = now.getFullYear();
+        const month = now.getMonth();
+        const date = now.getDate();
+
+        switch (period) {
+            case "daily":
+                return new Date(year, month, date);
+            case "weekly":
+                return new Date(year, month, date - ((now.getDay() + 6) % 7));
+            case "monthly":
+                return new Date(year, month, 1);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * 下一个免费周期的开始时间
+     */
+    private getNextPeriodStart(period: FreeQuotaPeriod, periodStart: Date): Date | null {
+        const year = periodStart.getFullYear();
+        const month = periodStart.getMonth();
+        const date = periodStart.getDate();
+
+        switch (period) {
+            case "daily":
+                return new Date(year, month, date + 1);
+            case "weekly":
+                return new Date(year, month, date + 7);
+            case "monthly":
+                return new Date(year, month + 1, 1);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * 操作对应的免费额度
+     */
+    private getFreeQuotaType(type: ConsumeType, pageType?: "cover" | "content" | "summary"): FreeQuotaType {
+        if (type !== "image") {
+            return "outline";
+        }
+        return pageType === "cover" ? "cover" : "content";
+    }
+
+    /**
+     * 解析免费额度：单独设置了额度的使用各自的计数，否则使用共用计数
+     */
+    private resolveFreeQuota(
+        config: PowerConfig,
+        quota: FreeQuotaType,
+    ): { field: UsageCountField; limit: number; shared: boolean } {
+        const limit = config.freeQuotaLimits[quota];
+        if (limit === null || limit === undefined) {
+            return { field: "freeUsageCount", limit: config.freeUsageLimit, shared: true };
+        }
+        return { field: FREE_QUOTA_COUNT_FIELDS[quota], limit, shared: false };
+    }
+
     // ========== 配置与余额查询 ==========
 
     /**
      * 获取积分配置
+     * 传入用户ID时按会员等级定价覆盖单价、免费次数和最大页数（定价中为空的免费次数沿用全局配置）
      */
-    async getPowerConfig(): Promise<PowerConfig> {
-        const config = await this.configService.getConfig();
+    async getPowerConfig(userId?: string): Promise<PowerConfig> {
+        const [config, tier] = await Promise.all([
+            this.configService.getConfig(),
+            userId ? this.pricingTierService.getUserTier(userId) : Promise.resolve(null),
+        ]);
+
         return {
-            outlinePower: config.outlinePower,
-            coverImagePower: config.coverImagePower,
-            contentImagePower: config.contentImagePower,
-            freeUsageLimit: config.freeUsageLimit,
+            outlinePower: tier?.outlinePower ?? config.outlinePower,
+            pageRewritePower: tier?.pageRewritePower ?? config.pageRewritePower ?? 0,
+            coverImagePower: tier?.coverImagePower ?? config.coverImagePower,
+            contentImagePower: tier?.contentImagePower ?? config.contentImagePower,
+            summaryImagePower: tier?.summaryImagePower ?? config.summaryImagePower ?? config.contentImagePower,
+            freeUsageLimit: tier?.freeUsageLimit ?? config.freeUsageLimit,
+            freeQuotaPeriod: config.freeQuotaPeriod || "none",
+            freeQuotaLimits: {
+                outline: tier?.freeOutlineLimit ?? config.freeOutlineLimit ?? null,
+                cover: tier?.freeCoverImageLimit ?? config.freeCoverImageLimit ?? null,
+                content: tier?.freeContentImageLimit ?? config.freeContentImageLimit ?? null,
+            },
+            maxPages: tier?.maxPages ?? null,
+            tierId: tier?.id ?? null,
+            tierName: tier?.name ?? null,
         };
     }
 
     /**
      * 检查用户是否有免费次数
+     * @param quota 操作对应的免费额度，不传时任一额度有剩余即可
      */
-    async hasFreeUsage(userId: string): Promise<boolean> {
-        const [usage, config] = await Promise.all([
-            this.getOrCreateUsage(userId),
-            this.getPowerConfig(),
-        ]);
-        return usage.freeUsageCount < config.freeUsageLimit;
+    async hasFreeUsage(userId: string, quota?: FreeQuotaType): Promise<boolean> {
+        const { quotas } = await this.getUserUsage(userId);
+        return quota
+            ? quotas[quota].remaining > 0
+            : Object.values(quotas).some((item) => item.remaining > 0);
     }
 
     /**
-     * 获取用户剩余免费次数
+     * 获取用户某项操作的剩余免费次数
      */
-    async getRemainingFreeCount(userId: string): Promise<number> {
-        const [usage, config] = await Promise.all([
-            this.getOrCreateUsage(userId),
-            this.getPowerConfig(),
-        ]);
-        return Math.max(0, config.freeUsageLimit - usage.freeUsageCount);
+    async getRemainingFreeCount(userId: string, quota: FreeQuotaType): Promise<number> {
+        const { quotas } = await this.getUserUsage(userId);
+        return quotas[quota].remaining;
     }
 
     /**
-     * 获取用户使用统计
+     * 获取用户使用统计（当前周期内的共用次数与各项额度）
      */
-    async getUserUsage(userId: string): Promise<{
-        freeUsageCount: number;
-        freeUsageLimit: number;
-        remainingFreeCount: number;
-    }> {
-        const [usage, config] = await Promise.all([
-            this.getOrCreateUsage(userId),
-            this.getPowerConfig(),
-        ]);
+    async getUserUsage(userId: string): Promise<FreeUsageSummary> {
+        const config = await this.getPowerConfig(userId);
+        const usage = await this.getOrCreateUsage(userId, config.freeQuotaPeriod);
+        const periodStart = this.getPeriodStart(config.freeQuotaPeriod);
+
+        const quotaUsage = (quota: FreeQuotaType) => {
+            const { field, limit, shared } = this.resolveFreeQuota(config, quota);
+            return { used: usage[field], limit, remaining: Math.max(0, limit - usage[field]), shared };
+        };
+
         return {
             freeUsageCount: usage.freeUsageCount,
             freeUsageLimit: config.freeUsageLimit,
             remainingFreeCount: Math.max(0, config.freeUsageLimit - usage.freeUsageCount),
+            freeQuotaPeriod: config.freeQuotaPeriod,
+            periodStart,
+            resetAt: periodStart ? this.getNextPeriodStart(config.freeQuotaPeriod, periodStart) : null,
+            quotas: {
+                outline: quotaUsage("outline"),
+                cover: quotaUsage("cover"),
+                content: quotaUsage("content"),
+            },
         };
     }
 
@@ -124,45 +311,288 @@ export class BillingService implements IBillingService {
      * 检查用户余额是否足够
      * 
      * 逻辑说明：
-     * 1. 如果用户还有免费次数，允许进行操作（免费次数覆盖整套图文生成流程）
+     * 1. 如果操作对应的免费额度还有剩余，允许进行操作
      * 2. 如果无免费次数，则检查用户积分余额是否足够
      * 
-     * 注意：对于图片生成，如果有免费次数，整批图片都免费（不是每张单独扣免费次数）
+     * 注意：批量生成图片时只要封面图或内容图额度有剩余就不冻结积分，逐张优先使用免费次数
      */
-    async hasSufficientBalance(userId: string, requiredPower: number): Promise<boolean> {
-        const hasFree = await this.hasFreeUsage(userId);
+    async hasSufficientBalance(userId: string, requiredPower: number, quota?: FreeQuotaType): Promise<boolean> {
+        const hasFree = await this.hasFreeUsage(userId, quota);
         if (hasFree) {
             // 有免费次数时，直接允许操作
             return true;
         }
         
-        // 无免费次数，检查实际积分余额
-        const userPower = await this.appBillingService.getUserPower(userId);
-        return userPower >= requiredPower;
+        // 无免费次数，检查可用积分（余额减去进行中任务冻结的积分）
+        const availablePower = await this.getAvailablePower(userId);
+        return availablePower >= requiredPower;
     }
 
-    // ========== 积分计算 ==========
+    /**
+     * 获取用户冻结中的积分（进行中的批量生成尚未结算的部分，失效的冻结不计入）
+     * @param taskId 只统计该任务的冻结
+     */
+    async getHeldPower(userId: string, manager?: EntityManager, taskId?: string): Promise<number> {
+        const execManager = manager || this.holdRepository.manager;
+        const query = execManager
+            .createQueryBuilder(XhsPowerHold, "hold")
+            .select("COALESCE(SUM(GREATEST(hold.amount - hold.settledAmount - hold.releasedAmount, 0)), 0)", "held")
+            .where("hold.userId = :userId", { userId })
+            .andWhere("hold.status = :status", { status: PowerHoldStatus.ACTIVE })
+            .andWhere("hold.updatedAt > :expiredAt", {
+                expiredAt: new Date(Date.now() - POWER_HOLD.EXPIRE_AFTER),
+            });
+        if (taskId) {
+            query.andWhere("hold.taskId = :taskId", { taskId });
+        }
+        const result = await query.getRawOne();
+        return Number(result?.held || 0);
+    }
+
+    /**
+     * 获取用户可用积分（余额减去冻结中的积分）
+     */
+    async getAvailablePower(userId: string, manager?: EntityManager): Promise<number> {
+        const [userPower, heldPower] = await Promise.all([
+            this.appBillingService.getUserPower(userId),
+            this.getHeldPower(userId, manager),
+        ]);
+        return Math.max(0, userPower - heldPower);
+    }
+
+    /**
+     * 可用积分不足时抛出异常，需在 withUserLock 内调用
+     */
+    private async assertAvailablePower(userId: string, amount: number, manager: EntityManager): Promise<void> {
+        const [userPower, heldPower] = await Promise.all([
+            this.appBillingService.getUserPower(userId),
+            this.getHeldPower(userId, manager),
+        ]);
+        const availablePower = Math.max(0, userPower - heldPower);
+
+        if (availablePower < amount) {
+            throw new Error(
+                heldPower > 0
+                    ? `余额不足，需要 ${amount} 积分，可用 ${availablePower} 积分（进行中的生成任务已冻结 ${heldPower} 积分），请充值后重试`
+                    : `余额不足，需要 ${amount} 积分，当前余额 ${userPower} 积分，请充值后重试`,
+            );
+        }
+    }
+
+    // ========== 消费上限与任务预算 ==========
 
     /**
-     * 获取单张图片所需积分
+     * 获取用户的消费上限与当前消费
+     * 后台上限与用户自行设置的上限同时生效（取较小值），已消费积分包含进行中的批量生成冻结的积分
+     * @param taskId 同时返回该任务（须属于该用户）的预算
      */
-    async getPowerForPage(pageType: "cover" | "content" | "summary"): Promise<number> {
+    async getSpendLimits(userId: string, taskId?: string, manager?: EntityManager): Promise<SpendLimitSummary> {
+        const execManager = manager || this.usageRepository.manager;
         const config = await this.configService.getConfig();
-        return pageType === "cover" ? config.coverImagePower : config.contentImagePower;
+        const usage = await execManager.findOne(XhsUserUsage, { where: { userId } });
+
+        const adminDailyCap = config.dailySpendCap ?? null;
+        const adminMonthlyCap = config.monthlySpendCap ?? null;
+        const allowUserSpendCap = config.allowUserSpendCap ?? true;
+        const userDailyCap = allowUserSpendCap ? usage?.dailySpendCap ?? null : null;
+        const userMonthlyCap = allowUserSpendCap ? usage?.monthlySpendCap ?? null : null;
+
+        const dayStart = this.getPeriodStart("daily")!;
+        const monthStart = this.getPeriodStart("monthly")!;
+        const [heldPower, dailySpent, monthlySpent] = await Promise.all([
+            this.getHeldPower(userId, execManager),
+            this.ledgerService.getNetSpent({ userId, since: dayStart }, execManager),
+            this.ledgerService.getNetSpent({ userId, since: monthStart }, execManager),
+        ]);
+
+        let task: SpendLimitUsage | null = null;
+        if (taskId) {
+            const record = await execManager.findOne(XhsTask, { where: { id: taskId, userId } });
+            if (record) {
+                const [taskSpent, taskHeld] = await Promise.all([
+                    this.ledgerService.getNetSpent({ taskId }, execManager),
+                    this.getHeldPower(userId, execManager, taskId),
+                ]);
+                task = this.buildSpendLimitUsage(record.budget ?? null, taskSpent + taskHeld, null);
+            }
+        }
+
+        return {
+            daily: this.buildSpendLimitUsage(
+                this.resolveSpendCap(adminDailyCap, userDailyCap),
+                dailySpent + heldPower,
+                this.getNextPeriodStart("daily", dayStart),
+            ),
+            monthly: this.buildSpendLimitUsage(
+                this.resolveSpendCap(adminMonthlyCap, userMonthlyCap),
+                monthlySpent + heldPower,
+                this.getNextPeriodStart("monthly", monthStart),
+            ),
+            task,
+            adminDailyCap,
+            adminMonthlyCap,
+            userDailyCap,
+            userMonthlyCap,
+            allowUserSpendCap,
+        };
+    }
+
+    /**
+     * 用户自行设置每日/每月消费上限（为空不限制），后台关闭该功能时不可设置
+     */
+    async updateUserSpendCaps(
+        userId: string,
+        caps: { dailySpendCap?: number | null; monthlySpendCap?: number | null },
+    ): Promise<SpendLimitSummary> {
+        const config = await this.configService.getConfig();
+        if (config.allowUserSpendCap === false) {
+            throw new Error("当前不支持自行设置消费上限");
+        }
+
+        const values = [caps.dailySpendCap, caps.monthlySpendCap];
+        if (values.some((value) => value !== undefined && value !== null && (!Number.isInteger(value) || value < 0))) {
+            throw new Error("消费上限需为不小于 0 的整数");
+        }
+
+        const usage = await this.getOrCreateUsage(userId, config.freeQuotaPeriod || "none");
+        await this.usageRepository.update(usage.id, {
+            ...(caps.dailySpendCap !== undefined && { dailySpendCap: caps.dailySpendCap }),
+            ...(caps.monthlySpendCap !== undefined && { monthlySpendCap: caps.monthlySpendCap }),
+        });
+
+        return this.getSpendLimits(userId);
+    }
+
+    /**
+     * 超出任务预算或每日/每月消费上限时抛出 SpendLimitExceededError，需在 withUserLock 内调用
+     */
+    private async assertSpendLimits(
+        userId: string,
+        amount: number,
+        taskId: string | null | undefined,
+        manager: EntityManager,
+    ): Promise<void> {
+        if (amount <= 0) {
+            return;
+        }
+
+        const limits = await this.getSpendLimits(userId, taskId || undefined, manager);
+        const checks: Array<[SpendLimitScope, SpendLimitUsage | null]> = [
+            ["task", limits.task],
+            ["daily", limits.daily],
+            ["monthly", limits.monthly],
+        ];
+        for (const [scope, usage] of checks) {
+            if (usage?.limit !== null && usage?.limit !== undefined && usage.spent + amount > usage.limit) {
+                throw new SpendLimitExceededError(scope, usage.limit, usage.spent, amount);
+            }
+        }
+    }
+
+    /**
+     * 图片所属任务（消费上限检查用）
+     */
+    private async getImageTaskId(imageId: string, manager: EntityManager): Promise<string | null> {
+        const image = await manager.findOne(XhsImage, { where: { id: imageId } });
+        return image?.taskId ?? null;
+    }
+
+    /**
+     * 后台上限与用户上限取较小值，都为空时不限制
+     */
+    private resolveSpendCap(adminCap: number | null, userCap: number | null): number | null {
+        if (adminCap === null) {
+            return userCap;
+        }
+        return userCap === null ? adminCap : Math.min(adminCap, userCap);
+    }
+
+    /**
+     * 单项消费上限使用情况
+     */
+    private buildSpendLimitUsage(limit: number | null, spent: number, resetAt: Date | null): SpendLimitUsage {
+        return {
+            limit,
+            spent,
+            remaining: limit === null ? null : Math.max(0, limit - spent),
+            resetAt,
+        };
+    }
+
+    /**
+     * 在用户级事务锁内执行积分操作
+     * 同一用户的冻结、结算和扣费串行执行，避免并发任务同时通过可用积分检查
+     */
+    private async withUserLock<T>(userId: string, operation: (manager: EntityManager) => Promise<T>): Promise<T> {
+        return this.dataSource.transaction(async (manager) => {
+            await this.lockUser(manager, userId);
+            return operation(manager);
+        });
     }
 
     /**
-     * 计算所需积分总数
+     * 获取用户级事务锁（事务结束时自动释放）
+     */
+    private async lockUser(manager: EntityManager, userId: string): Promise<void> {
+        await manager.query("SELECT pg_advisory_xact_lock(hashtext($1))", [`xhs-power:${userId}`]);
+    }
+
+    // ========== 积分计算 ==========
+
+    /**
+     * 获取单张图片所需积分（按用户定价）
+     * @param quality 清晰度，2K 按倍率加价
+     */
+    async getPowerForPage(
+        userId: string,
+        pageType: "cover" | "content" | "summary",
+        quality?: string,
+    ): Promise<number> {
+        const config = await this.getPowerConfig(userId);
+        return this.applyQualityMultiplier(this.getPagePower(config, pageType), quality);
+    }
+
+    /**
+     * 计算所需积分总数（按用户定价）
      */
     async calculateTotalPower(
+        userId: string,
         pages: Array<{ type: "cover" | "content" | "summary" }>,
+        quality?: string,
     ): Promise<number> {
-        const config = await this.configService.getConfig();
-        return pages.reduce((sum, page) => {
-            const power =
-                page.type === "cover" ? config.coverImagePower : config.contentImagePower;
-            return sum + power;
-        }, 0);
+        const config = await this.getPowerConfig(userId);
+        return pages.reduce(
+            (sum, page) => sum + this.applyQualityMultiplier(this.getPagePower(config, page.type), quality),
+            0,
+        );
+    }
+
+    /**
+     * 页面类型对应的图片单价
+     */
+    private getPagePower(config: PowerConfig, pageType?: "cover" | "content" | "summary"): number {
+        if (pageType === "cover") {
+            return config.coverImagePower;
+        }
+        return pageType === "summary" ? config.summaryImagePower : config.contentImagePower;
+    }
+
+    /**
+     * 页面类型中文名（计费备注用）
+     */
+    private getPageLabel(pageType?: "cover" | "content" | "summary"): string {
+        if (pageType === "cover") {
+            return "封面";
+        }
+        return pageType === "summary" ? "总结" : "内容";
+    }
+
+    /**
+     * 按清晰度倍率计算积分（向上取整）
+     */
+    private applyQualityMultiplier(power: number, quality?: string): number {
+        const multiplier = QUALITY_POWER_MULTIPLIER[quality as ImageQuality] ?? 1;
+        return Math.ceil(power * multiplier);
     }
 
     // ========== 消费与回退 ==========
@@ -176,46 +606,54 @@ export class BillingService implements IBillingService {
         pageType?: "cover" | "content" | "summary",
         associationNo?: string,
     ): Promise<ConsumeResult> {
-        const [usage, config] = await Promise.all([
-            this.getOrCreateUsage(userId),
-            this.getPowerConfig(),
-        ]);
+        // 优先使用免费次数
+        if (await this.useFreeUsage(userId, type, pageType, associationNo)) {
+            return { isFree: true, powerDeducted: 0 };
+        }
+
+        const config = await this.getPowerConfig(userId);
 
         // 计算所需积分
         let powerAmount = 0;
         if (type === "outline") {
             powerAmount = config.outlinePower;
+        } else if (type === "page-rewrite") {
+            powerAmount = config.pageRewritePower;
         } else if (type === "image") {
-            powerAmount = pageType === "cover" ? config.coverImagePower : config.contentImagePower;
-        }
-
-        // 检查是否有免费次数
-        if (usage.freeUsageCount < config.freeUsageLimit) {
-            await this.usageRepository.increment(
-                { id: usage.id },
-                "freeUsageCount",
-                1,
-            );
-            this.logger.log(
-                `用户 ${userId} 使用免费次数 (${type})，已使用: ${usage.freeUsageCount + 1}/${config.freeUsageLimit}`,
-            );
-            return { isFree: true, powerDeducted: 0 };
+            powerAmount = this.getPagePower(config, pageType);
         }
 
         // 无免费次数，扣积分
         if (powerAmount > 0) {
-            await this.appBillingService.deductUserPower({
-                userId,
-                amount: powerAmount,
-                accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC,
-                source: {
-                    type: ACCOUNT_LOG_SOURCE.PLUGIN,
-                    source: "buildingai-xhs-creator",
-                },
-                remark: type === "outline"
-                    ? "小红书大纲生成"
-                    : `小红书图片生成 - ${pageType === "cover" ? "封面" : "内容"}页`,
-                associationNo: associationNo || "",
+            await this.withUserLock(userId, async (manager) => {
+                // 图片场景的关联单号为图片ID，按图片所属任务检查预算
+                const taskId =
+                    type === "image" && associationNo ? await this.getImageTaskId(associationNo, manager) : associationNo;
+                await this.assertSpendLimits(userId, powerAmount, taskId, manager);
+                await this.assertAvailablePower(userId, powerAmount, manager);
+                await this.appBillingService.deductUserPower(
+                    {
+                        userId,
+                        amount: powerAmount,
+                        accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC,
+                        source: {
+                            type: ACCOUNT_LOG_SOURCE.PLUGIN,
+                            source: "buildingai-xhs-creator",
+                        },
+                        remark: this.getConsumeRemark(type, pageType),
+                        associationNo: associationNo || "",
+                    },
+                    manager,
+                );
+                await this.recordLedger(
+                    userId,
+                    BillingLedgerType.CHARGE,
+                    type,
+                    powerAmount,
+                    associationNo,
+                    pageType,
+                    manager,
+                );
             });
             this.logger.log(
                 `用户 ${userId} 扣减积分 ${powerAmount} (${type})`,
@@ -239,40 +677,155 @@ export class BillingService implements IBillingService {
             return;
         }
 
-        await this.appBillingService.addUserPower({
-            userId,
-            amount: powerAmount,
-            accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC,
-            source: {
-                type: ACCOUNT_LOG_SOURCE.PLUGIN,
-                source: "buildingai-xhs-creator",
-            },
-            remark: type === "outline"
-                ? "小红书大纲生成失败回退"
-                : `小红书图片生成失败回退 - ${pageType === "cover" ? "封面" : "内容"}页`,
-            associationNo: associationNo || "",
+        await this.withUserLock(userId, async (manager) => {
+            await this.appBillingService.addUserPower(
+                {
+                    userId,
+                    amount: powerAmount,
+                    accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC,
+                    source: {
+                        type: ACCOUNT_LOG_SOURCE.PLUGIN,
+                        source: "buildingai-xhs-creator",
+                    },
+                    remark: type === "image"
+                        ? `小红书图片生成失败回退 - ${this.getPageLabel(pageType)}页`
+                        : `${this.getConsumeRemark(type)}失败回退`,
+                    associationNo: associationNo || "",
+                },
+                manager,
+            );
+            await this.recordLedger(userId, BillingLedgerType.REFUND, type, powerAmount, associationNo, pageType, manager);
         });
 
         this.logger.log(`用户 ${userId} 回退积分 ${powerAmount} (${type})`);
     }
 
+    /**
+     * 占用一次免费次数并写入账本
+     * 条件更新计数，额度已用完（含并发请求抢占）时返回 false
+     */
+    private async useFreeUsage(
+        userId: string,
+        type: ConsumeType,
+        pageType?: "cover" | "content" | "summary",
+        associationNo?: string,
+    ): Promise<boolean> {
+        const config = await this.getPowerConfig(userId);
+        const usage = await this.getOrCreateUsage(userId, config.freeQuotaPeriod);
+        const quota = this.getFreeQuotaType(type, pageType);
+        const { field, limit, shared } = this.resolveFreeQuota(config, quota);
+
+        if (usage[field] >= limit) {
+            return false;
+        }
+
+        const column = USAGE_COUNT_COLUMNS[field];
+        const result = await this.usageRepository
+            .createQueryBuilder()
+            .update(XhsUserUsage)
+            .set({ [field]: () => `${column} + 1` })
+            .where("id = :id", { id: usage.id })
+            .andWhere(`${column} < :limit`, { limit })
+            .execute();
+        if (!result.affected) {
+            return false;
+        }
+
+        this.logger.log(
+            `用户 ${userId} 使用免费次数 (${type}/${shared ? "共用" : quota})，已使用: ${usage[field] + 1}/${limit}`,
+        );
+        await this.recordLedger(userId, BillingLedgerType.FREE_USE, type, 0, associationNo, pageType);
+        return true;
+    }
+
+    /**
+     * 退回一次免费次数（免费生成失败时调用）
+     */
+    async refundFreeUsage(
+        userId: string,
+        type: ConsumeType,
+        pageType?: "cover" | "content" | "summary",
+        associationNo?: string,
+    ): Promise<void> {
+        const config = await this.getPowerConfig(userId);
+        const usage = await this.getOrCreateUsage(userId, config.freeQuotaPeriod);
+        const { field } = this.resolveFreeQuota(config, this.getFreeQuotaType(type, pageType));
+        const column = USAGE_COUNT_COLUMNS[field];
+
+        await this.usageRepository
+            .createQueryBuilder()
+            .update(XhsUserUsage)
+            .set({ [field]: () => `GREATEST(${column} - 1, 0)` })
+            .where("id = :id", { id: usage.id })
+            .execute();
+        await this.recordLedger(userId, BillingLedgerType.FREE_REFUND, type, 0, associationNo, pageType);
+
+        this.logger.log(`用户 ${userId} 退回免费次数 (${type})`);
+    }
+
+    /**
+     * 消费记录备注
+     */
+    private getConsumeRemark(type: ConsumeType, pageType?: "cover" | "content" | "summary"): string {
+        if (type === "outline") {
+            return "小红书大纲生成";
+        }
+        if (type === "page-rewrite") {
+            return "小红书大纲单页改写";
+        }
+        return `小红书图片生成 - ${this.getPageLabel(pageType)}页`;
+    }
+
+    /**
+     * 写入计费账本
+     * @param associationNo 账户流水关联单号：图片场景为图片ID，大纲和单页改写为任务ID
+     */
+    private async recordLedger(
+        userId: string,
+        type: BillingLedgerType,
+        scene: ConsumeType,
+        amount: number,
+        associationNo?: string,
+        pageType?: "cover" | "content" | "summary",
+        manager?: EntityManager,
+    ): Promise<void> {
+        await this.ledgerService.record(
+            {
+                userId,
+                type,
+                scene,
+                amount,
+                taskId: scene === "image" ? null : associationNo,
+                imageId: scene === "image" ? associationNo : null,
+                pageType,
+                associationNo,
+            },
+            manager,
+        );
+    }
+
     // ========== 图片专用方法 ==========
 
     /**
      * 图片积分扣减（事务化）
      */
     async deductImagePower(options: DeductOptions, manager?: EntityManager): Promise<number> {
-        const { userId, imageId, pageType, remark } = options;
+        const { powerDeducted } = await this.chargeImage(options, manager);
+        return powerDeducted;
+    }
+
+    /**
+     * 图片计费：优先使用对应额度的免费次数，否则扣积分
+     */
+    private async chargeImage(options: DeductOptions, manager?: EntityManager): Promise<ConsumeResult> {
+        const { userId, imageId, pageType, quality, remark } = options;
 
         if (!imageId || !pageType) {
             throw new Error("图片扣减积分需要 imageId 和 pageType");
         }
 
         // 先检查是否有免费次数
-        const hasFree = await this.hasFreeUsage(userId);
-        if (hasFree) {
-            await this.consume(userId, "image", pageType, imageId);
-            
+        if (await this.useFreeUsage(userId, "image", pageType, imageId)) {
             const execManager = manager || this.imageRepository.manager;
             await execManager.update(XhsImage, imageId, {
                 status: ImageStatus.GENERATING,
@@ -281,14 +834,17 @@ export class BillingService implements IBillingService {
             });
             
             this.logger.debug(`图片 ${imageId} 使用免费次数`);
-            return 0;
+            return { isFree: true, powerDeducted: 0 };
         }
 
         // 无免费次数，扣积分
-        const powerAmount = await this.getPowerForPage(pageType);
+        const powerAmount = await this.getPowerForPage(userId, pageType, quality);
         const execManager = manager || this.imageRepository.manager;
 
         await execManager.transaction(async (txManager) => {
+            await this.lockUser(txManager, userId);
+            await this.assertSpendLimits(userId, powerAmount, await this.getImageTaskId(imageId, txManager), txManager);
+            await this.assertAvailablePower(userId, powerAmount, txManager);
             await this.appBillingService.deductUserPower(
                 {
                     userId,
@@ -298,11 +854,12 @@ export class BillingService implements IBillingService {
                         type: ACCOUNT_LOG_SOURCE.PLUGIN,
                         source: "buildingai-xhs-creator",
                     },
-                    remark: remark || `小红书图片生成 - ${pageType === "cover" ? "封面" : "内容"}页`,
+                    remark: remark || `小红书图片生成 - ${this.getPageLabel(pageType)}页`,
                     associationNo: imageId,
                 },
                 txManager,
             );
+            await this.recordLedger(userId, BillingLedgerType.CHARGE, "image", powerAmount, imageId, pageType, txManager);
 
             await txManager.update(XhsImage, imageId, {
                 status: ImageStatus.GENERATING,
@@ -312,7 +869,7 @@ export class BillingService implements IBillingService {
         });
 
         this.logger.debug(`图片 ${imageId} 扣减积分成功: ${powerAmount}`);
-        return powerAmount;
+        return { isFree: false, powerDeducted: powerAmount };
     }
 
     /**
@@ -343,11 +900,12 @@ export class BillingService implements IBillingService {
                         type: ACCOUNT_LOG_SOURCE.PLUGIN,
                         source: "buildingai-xhs-creator",
                     },
-                    remark: `图片生成失败回退 - ${pageType === "cover" ? "封面" : "内容"}页`,
+                    remark: `图片生成失败回退 - ${this.getPageLabel(pageType)}页`,
                     associationNo: imageId,
                 },
                 txManager,
             );
+            await this.recordLedger(userId, BillingLedgerType.REFUND, "image", powerAmount, imageId, pageType, txManager);
 
             await txManager.update(XhsImage, imageId, {
                 status: ImageStatus.FAILED,
@@ -362,7 +920,81 @@ export class BillingService implements IBillingService {
     }
 
     /**
-     * 执行带积分扣减的操作，失败自动回退
+     * 退回图片在指定时间之后扣除且尚未退回的积分（取消生成时调用）
+     * 按账本统计，图片之前版本的扣费不受影响
+     * @returns 退回的积分
+     */
+    async refundImageChargesSince(
+        userId: string,
+        imageId: string,
+        pageType: "cover" | "content" | "summary",
+        since: Date,
+        errorMessage: string,
+    ): Promise<number> {
+        const amount = await this.ledgerService.getNetSpent({ imageId, since });
+        if (amount <= 0) {
+            return 0;
+        }
+
+        await this.rollbackImagePower(userId, imageId, amount, pageType, errorMessage);
+        return amount;
+    }
+
+    /**
+     * 执行额外计费的图片操作（如同一页面的多张封面候选），失败自动回退积分或免费次数
+     * 与 executeWithBilling 不同，不读写图片记录的扣费标记，每次调用单独计费
+     */
+    async executeWithExtraBilling<T>(
+        options: DeductOptions,
+        operation: () => Promise<T>,
+    ): Promise<{ result: T; powerAmount: number }> {
+        const { userId, imageId, pageType, quality, remark } = options;
+
+        if (!imageId || !pageType) {
+            throw new Error("executeWithExtraBilling 需要 imageId 和 pageType");
+        }
+
+        let powerAmount = 0;
+        const isFree = await this.useFreeUsage(userId, "image", pageType, imageId);
+        if (!isFree) {
+            powerAmount = await this.getPowerForPage(userId, pageType, quality);
+            const amount = powerAmount;
+            await this.withUserLock(userId, async (manager) => {
+                await this.assertSpendLimits(userId, amount, await this.getImageTaskId(imageId, manager), manager);
+                await this.assertAvailablePower(userId, amount, manager);
+                await this.appBillingService.deductUserPower(
+                    {
+                        userId,
+                        amount,
+                        accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC,
+                        source: {
+                            type: ACCOUNT_LOG_SOURCE.PLUGIN,
+                            source: "buildingai-xhs-creator",
+                        },
+                        remark: remark || this.getConsumeRemark("image", pageType),
+                        associationNo: imageId,
+                    },
+                    manager,
+                );
+                await this.recordLedger(userId, BillingLedgerType.CHARGE, "image", amount, imageId, pageType, manager);
+            });
+        }
+
+        try {
+            const result = await operation();
+            return { result, powerAmount };
+        } catch (error) {
+            if (isFree) {
+                await this.refundFreeUsage(userId, "image", pageType, imageId);
+            } else {
+                await this.rollbackPower(userId, powerAmount, "image", pageType, imageId);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * 执行带积分扣减的操作，失败自动回退积分或免费次数
      */
     async executeWithBilling<T>(
         options: DeductOptions,
@@ -383,21 +1015,22 @@ export class BillingService implements IBillingService {
             throw new Error(`图片记录不存在: ${imageId}`);
         }
 
-        let powerAmount = 0;
+        let billing: ConsumeResult;
 
         // 如果尚未扣减，则进行扣减
         if (!imageRecord.powerDeducted) {
-            powerAmount = await this.deductImagePower(options);
+            billing = await this.chargeImage(options);
         } else {
-            powerAmount = imageRecord.powerAmount;
+            billing = { isFree: false, powerDeducted: imageRecord.powerAmount };
             this.logger.warn(`图片 ${imageId} 已扣减积分，跳过重复扣减`);
         }
+        const powerAmount = billing.powerDeducted;
 
         try {
             const result = await operation();
             return { result, powerAmount };
         } catch (error) {
-            // 操作失败，回退积分
+            // 操作失败，回退积分或免费次数
             if (powerAmount > 0) {
                 await this.rollbackImagePower(
                     userId,
@@ -406,8 +1039,243 @@ export class BillingService implements IBillingService {
                     pageType,
                     (error as Error).message,
                 );
+            } else {
+                if (billing.isFree) {
+                    await this.refundFreeUsage(userId, "image", pageType, imageId);
+                }
+                await this.markImageFailed(imageId, (error as Error).message);
             }
             throw error;
         }
     }
+
+    // ========== 批量冻结与结算 ==========
+
+    /**
+     * 冻结批量生成所需积分
+     * 只冻结剩余免费次数之外需付费的部分，全部可用免费次数时不冻结（返回 null）；可用积分不足或超出消费上限、任务预算时抛出异常
+     * 同一任务未结束的旧冻结（如中断后续跑）和已失效的冻结先释放
+     * @param extraCovers 多出的封面候选数，按封面计费
+     */
+    async reserveBatch(
+        userId: string,
+        taskId: string,
+        pages: Array<{ type: "cover" | "content" | "summary" }>,
+        quality?: string,
+        extraCovers = 0,
+    ): Promise<XhsPowerHold | null> {
+        const amount = await this.calculatePaidBatchPower(userId, pages, quality, extraCovers);
+        if (amount <= 0) {
+            return null;
+        }
+
+        return this.withUserLock(userId, async (manager) => {
+            await manager
+                .createQueryBuilder()
+                .update(XhsPowerHold)
+                .set({
+                    releasedAmount: () => "GREATEST(amount - settled_amount, 0)",
+                    status: PowerHoldStatus.RELEASED,
+                })
+                .where("user_id = :userId AND status = :status", { userId, status: PowerHoldStatus.ACTIVE })
+                .andWhere("(task_id = :taskId OR updated_at <= :expiredAt)", {
+                    taskId,
+                    expiredAt: new Date(Date.now() - POWER_HOLD.EXPIRE_AFTER),
+                })
+                .execute();
+
+            await this.assertSpendLimits(userId, amount, taskId, manager);
+            await this.assertAvailablePower(userId, amount, manager);
+
+            const hold = await manager.save(manager.create(XhsPowerHold, { userId, taskId, amount }));
+            this.logger.log(`用户 ${userId} 冻结积分 ${amount}（任务 ${taskId}）`);
+            return hold;
+        });
+    }
+
+    /**
+     * 批量生成中需付费的积分：各项额度的剩余免费次数抵扣对应页面的单价
+     * 免费次数按生成顺序用于同一额度的任意页面，这里按单价最低的页面抵扣，保证冻结额度足够结算
+     */
+    private async calculatePaidBatchPower(
+        userId: string,
+        pages: Array<{ type: "cover" | "content" | "summary" }>,
+        quality?: string,
+        extraCovers = 0,
+    ): Promise<number> {
+        const config = await this.getPowerConfig(userId);
+        const usage = await this.getOrCreateUsage(userId, config.freeQuotaPeriod);
+        const pageTypes = [...pages.map((page) => page.type), ...Array(Math.max(extraCovers, 0)).fill("cover")];
+
+        // 按免费次数计数字段分组（共用额度的页面在同一组）
+        const groups = new Map<UsageCountField, { remaining: number; prices: number[] }>();
+        for (const pageType of pageTypes) {
+            const { field, limit } = this.resolveFreeQuota(config, this.getFreeQuotaType("image", pageType));
+            const group = groups.get(field) ?? { remaining: Math.max(0, limit - usage[field]), prices: [] };
+            group.prices.push(this.applyQualityMultiplier(this.getPagePower(config, pageType), quality));
+            groups.set(field, group);
+        }
+
+        let amount = 0;
+        for (const { remaining, prices } of groups.values()) {
+            prices.sort((a, b) => a - b);
+            amount += prices.slice(remaining).reduce((sum, price) => sum + price, 0);
+        }
+        return amount;
+    }
+
+    /**
+     * 将单张图片的冻结份额结算为实际扣费
+     * 冻结已结束或剩余额度不足时抛出异常，不扣费
+     * @param markImage 是否在图片记录上标记已扣费（封面候选等额外计费的图片不标记）
+     * @returns 实际扣减的积分
+     */
+    async settleHold(holdId: string, options: DeductOptions, markImage = true): Promise<number> {
+        const { userId, imageId, pageType, quality, remark } = options;
+
+        if (!imageId || !pageType) {
+            throw new Error("结算冻结积分需要 imageId 和 pageType");
+        }
+
+        const powerAmount = await this.getPowerForPage(userId, pageType, quality);
+        if (powerAmount <= 0) {
+            return 0;
+        }
+
+        await this.withUserLock(userId, async (manager) => {
+            // 结算与扣费在同一事务内，冻结额度与余额同步减少，可用积分不变
+            // 结算总额不能超过冻结额度，超出部分没有冻结保障
+            const settled = await manager
+                .createQueryBuilder()
+                .update(XhsPowerHold)
+                .set({
+                    settledAmount: () => "settled_amount + :powerAmount",
+                    settledCount: () => "settled_count + 1",
+                })
+                .where("id = :holdId AND status = :status", { holdId, status: PowerHoldStatus.ACTIVE })
+                .andWhere("settled_amount + :powerAmount <= amount")
+                .setParameters({ powerAmount })
+                .execute();
+            if (!settled.affected) {
+                throw new Error(`冻结积分不足或已结束，无法结算本页 ${powerAmount} 积分`);
+            }
+
+            await this.appBillingService.deductUserPower(
+                {
+                    userId,
+                    amount: powerAmount,
+                    accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC,
+                    source: {
+                        type: ACCOUNT_LOG_SOURCE.PLUGIN,
+                        source: "buildingai-xhs-creator",
+                    },
+                    remark: remark || this.getConsumeRemark("image", pageType),
+                    associationNo: imageId,
+                },
+                manager,
+            );
+            await this.recordLedger(userId, BillingLedgerType.CHARGE, "image", powerAmount, imageId, pageType, manager);
+
+            if (markImage) {
+                await manager.update(XhsImage, imageId, {
+                    powerDeducted: true,
+                    powerAmount,
+                });
+            }
+        });
+
+        this.logger.debug(`图片 ${imageId} 结算冻结积分: ${powerAmount}`);
+        return powerAmount;
+    }
+
+    /**
+     * 结束冻结，释放未结算的剩余额度（批量生成完成、失败或取消时调用）
+     */
+    async releaseHold(holdId: string): Promise<void> {
+        const hold = await this.holdRepository.findOne({
+            where: { id: holdId, status: PowerHoldStatus.ACTIVE },
+        });
+        if (!hold) {
+            return;
+        }
+
+        const remaining = Math.max(0, hold.amount - hold.settledAmount);
+        await this.holdRepository.update(
+            { id: holdId, status: PowerHoldStatus.ACTIVE },
+            {
+                releasedAmount: remaining,
+                status: remaining > 0 ? PowerHoldStatus.RELEASED : PowerHoldStatus.SETTLED,
+            },
+        );
+
+        this.logger.log(
+            `任务 ${hold.taskId} 积分冻结结束：结算 ${hold.settledAmount}（${hold.settledCount} 张），释放 ${remaining}`,
+        );
+    }
+
+    /**
+     * 在冻结额度内执行图片操作：成功后结算该图片的份额，失败不扣费（份额在冻结结束时释放）
+     * 未冻结、对应额度还有免费次数或图片已扣费时按 executeWithBilling / executeWithExtraBilling 处理
+     * 图片生成失败或结算失败时该页标记为失败；operation 只负责生成，调用方在结算成功后再落盘并写入图片记录，避免保留未结算的图片
+     * @param extra 是否为额外计费的图片（如封面候选），不读写图片记录的扣费标记和状态
+     */
+    async executeWithHold<T>(
+        holdId: string | undefined,
+        options: DeductOptions,
+        operation: () => Promise<T>,
+        extra = false,
+    ): Promise<{ result: T; powerAmount: number }> {
+        if (!holdId) {
+            return extra
+                ? this.executeWithExtraBilling(options, operation)
+                : this.executeWithBilling(options, operation);
+        }
+
+        const { userId, imageId, pageType } = options;
+        if (!imageId || !pageType) {
+            throw new Error("executeWithHold 需要 imageId 和 pageType");
+        }
+
+        // 冻结只覆盖免费次数之外的部分，有免费次数时优先使用
+        if (await this.hasFreeUsage(userId, this.getFreeQuotaType("image", pageType))) {
+            return extra
+                ? this.executeWithExtraBilling(options, operation)
+                : this.executeWithBilling(options, operation);
+        }
+
+        if (!extra) {
+            const imageRecord = await this.imageRepository.findOne({
+                where: { id: imageId },
+            });
+            if (imageRecord?.powerDeducted) {
+                return this.executeWithBilling(options, operation);
+            }
+            await this.imageRepository.update(imageId, { status: ImageStatus.GENERATING });
+        }
+
+        let result: T;
+        let powerAmount: number;
+        try {
+            result = await operation();
+            powerAmount = await this.settleHold(holdId, options, !extra);
+        } catch (error) {
+            this.logger.warn(`图片 ${imageId} 生成或结算冻结积分失败: ${(error as Error).message}`);
+            if (!extra) {
+                await this.markImageFailed(imageId, (error as Error).message);
+            }
+            throw error;
+        }
+        return { result, powerAmount };
+    }
+
+    /**
+     * 标记图片生成失败（未扣费或扣费已回退时调用）
+     */
+    private async markImageFailed(imageId: string, errorMessage: string): Promise<void> {
+        await this.imageRepository.update(imageId, {
+            status: ImageStatus.FAILED,
+            errorMessage,
+            retryCount: () => "retry_count + 1",
+        });
+    }
 }
@@ -0,0 +1,150 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+
+import { XhsCaption, XhsTask } from "../../../db/entities/xhs-task.entity";
+import { OutlineService } from "./outline.service";
+
+/**
+ * 小红书标题字数上限
+ */
+export const CAPTION_TITLE_MAX_LENGTH = 20;
+
+/**
+ * 话题标签数量上限
+ */
+const CAPTION_HASHTAG_LIMIT = 10;
+
+/**
+ * 发布文案服务
+ * 根据任务大纲生成标题候选、正文和话题标签
+ */
+@Injectable()
+export class CaptionService {
+    private readonly logger = new Logger(CaptionService.name);
+
+    /**
+     * 文案 Prompt 模板，从 prompts/caption_prompt.txt 加载
+     */
+    private readonly captionPromptTemplate: string;
+
+    constructor(private readonly outlineService: OutlineService) {
+        this.captionPromptTemplate = this.loadPromptTemplate();
+    }
+
+    /**
+     * 根据任务大纲生成发布文案
+     * 模型输出无法解析时重试一次
+     */
+    async generateCaption(task: XhsTask): Promise<XhsCaption> {
+        if (!task.pages?.length) {
+            throw new Error("任务没有大纲，无法生成文案");
+        }
+
+        const prompt = this.buildPrompt(task);
+        let lastError: Error | null = null;
+
+        for (let attempt = 1; attempt <= 2; attempt++) {
+            const text = await this.outlineService.generateText(prompt);
+            try {
+                return this.parseCaption(text, task.topic);
+            } catch (error) {
+                lastError = error as Error;
+                this.logger.warn(`第 ${attempt} 次文案解析失败: ${lastError.message}`);
+            }
+        }
+
+        throw lastError || new Error("文案生成失败，请重试");
+    }
+
+    /**
+     * 规范化用户编辑的文案（标题截断到字数上限，话题去 # 去重）
+     */
+    normalizeCaption(caption: Partial<XhsCaption>, previous?: XhsCaption | null): XhsCaption {
+        return {
+            titles: this.normalizeTitles(caption.titles ?? previous?.titles ?? []),
+            title: this.truncateTitle((caption.title ?? previous?.title ?? "").trim()),
+            body: (caption.body ?? previous?.body ?? "").trim(),
+            hashtags: this.normalizeHashtags(caption.hashtags ?? previous?.hashtags ?? []),
+            generatedAt: previous?.generatedAt ?? null,
+        };
+    }
+
+    private buildPrompt(task: XhsTask): string {
+        const outline = task.pages
+            .map((page, i) => `第${i + 1}页：\n${page.content}`)
+            .join("\n\n");
+
+        return this.captionPromptTemplate
+            .replace("{topic}", task.topic)
+            .replace("{outline}", outline);
+    }
+
+    /**
+     * 解析模型输出的 JSON 文案
+     */
+    private parseCaption(text: string, topic: string): XhsCaption {
+        const cleaned = (text || "").replace(/```(?:json)?/gi, "").trim();
+        const start = cleaned.indexOf("{");
+        const end = cleaned.lastIndexOf("}");
+        if (start === -1 || end <= start) {
+            throw new Error("输出中没有 JSON 对象");
+        }
+
+        const data = JSON.parse(cleaned.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1"));
+        const body = typeof data.body === "string" ? data.body.trim() : "";
+        if (!body) {
+            throw new Error("正文为空");
+        }
+
+        // 超长标题截断而不是丢弃，保证至少有一个候选
+        let titles = this.normalizeTitles(Array.isArray(data.titles) ? data.titles : []);
+        if (titles.length === 0) {
+            titles = [this.truncateTitle(topic)];
+        }
+
+        return {
+            titles,
+            title: titles[0],
+            body,
+            hashtags: this.normalizeHashtags(Array.isArray(data.hashtags) ? data.hashtags : []),
+            generatedAt: new Date().toISOString(),
+        };
+    }
+
+    private normalizeTitles(titles: unknown[]): string[] {
+        const result = titles
+            .filter((title): title is string => typeof title === "string")
+            .map((title) => this.truncateTitle(title.trim()))
+            .filter(Boolean);
+        return [...new Set(result)];
+    }
+
+    private normalizeHashtags(hashtags: unknown[]): string[] {
+        const result = hashtags
+            .filter((tag): tag is string => typeof tag === "string")
+            .map((tag) => tag.replace(/^#+/, "").replace(/\s+/g, "").trim())
+            .filter(Boolean);
+        return [...new Set(result)].slice(0, CAPTION_HASHTAG_LIMIT);
+    }
+
+    /**
+     * 按字符（含 emoji）截断到标题字数上限
+     */
+    private truncateTitle(title: string): string {
+        const chars = Array.from(title);
+        return chars.length > CAPTION_TITLE_MAX_LENGTH
+            ? chars.slice(0, CAPTION_TITLE_MAX_LENGTH).join("")
+            : title;
+    }
+
+    private loadPromptTemplate(): string {
+        const promptPath = join(__dirname, "..", "prompts", "caption_prompt.txt");
+        try {
+            return readFileSync(promptPath, "utf-8");
+        } catch (error) {
+            this.logger.error("读取 caption_prompt.txt 失败:", error);
+            return "请为主题「{topic}」的小红书笔记写发布文案，大纲如下：\n{outline}\n\n只输出 JSON：{\"titles\":[\"不超过20字的标题\"],\"body\":\"正文\",\"hashtags\":[\"话题\"]}";
+        }
+    }
+}
@@ -97,11 +97,13 @@ export class CircuitBreakerService {
 
     /**
      * 执行受保护的操作
+     * @param signal 取消信号，用户取消导致的失败不计入熔断
      */
     async execute<T>(
         serviceName: string,
         operation: () => Promise<T>,
         config?: Partial<CircuitBreakerConfig>,
+        signal?: AbortSignal,
     ): Promise<T> {
         const mergedConfig = { ...this.defaultConfig, ...config };
         const circuit = this.getCircuit(serviceName);
@@ -122,7 +124,9 @@ export class CircuitBreakerService {
             this.recordSuccess(serviceName, mergedConfig);
             return result;
         } catch (error) {
-            this.recordFailure(serviceName, mergedConfig);
+            if (!signal?.aborted) {
+                this.recordFailure(serviceName, mergedConfig);
+            }
             throw error;
         }
     }
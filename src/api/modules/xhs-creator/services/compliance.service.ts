@@ -0,0 +1,167 @@
+import { Injectable, Logger } from "@nestjs/common";
+
+import type { ComplianceRule } from "../../../db/entities/xhs-config.entity";
+import { XhsTask } from "../../../db/entities/xhs-task.entity";
+import { DEFAULT_COMPLIANCE_RULES } from "../constants";
+import { XhsConfigService } from "./xhs-config.service";
+
+/**
+ * 单条违规命中
+ */
+export interface ComplianceFinding {
+    category: string;
+    severity: ComplianceRule["severity"];
+    /** 命中的原文 */
+    match: string;
+    /** 命中位置（页面内容中的字符偏移） */
+    start: number;
+    /** 建议替换词，为空表示建议删除 */
+    replacement: string | null;
+    /** 命中的规则 */
+    pattern: string;
+}
+
+/**
+ * 单页检查结果
+ */
+export interface CompliancePageReport {
+    index: number;
+    findings: ComplianceFinding[];
+}
+
+/**
+ * 大纲合规检查结果（只包含有命中的页面）
+ */
+export interface ComplianceReport {
+    enabled: boolean;
+    /** 存在严重违规时是否阻止图片生成 */
+    blockCritical: boolean;
+    criticalCount: number;
+    warningCount: number;
+    pages: CompliancePageReport[];
+}
+
+/**
+ * 大纲合规检查服务
+ * 按后台词库（未配置时使用内置词库）逐页匹配极限用语、医疗金融承诺、站外联系方式等
+ */
+@Injectable()
+export class ComplianceService {
+    private readonly logger = new Logger(ComplianceService.name);
+
+    constructor(private readonly configService: XhsConfigService) {}
+
+    /**
+     * 检查大纲页面
+     */
+    async check(pages: Pick<XhsTask["pages"][number], "index" | "content">[]): Promise<ComplianceReport> {
+        const config = await this.configService.getConfig();
+        const report: ComplianceReport = {
+            enabled: config.complianceEnabled,
+            blockCritical: config.complianceBlockCritical,
+            criticalCount: 0,
+            warningCount: 0,
+            pages: [],
+        };
+
+        if (!config.complianceEnabled) {
+            return report;
+        }
+
+        const matchers = this.compileRules(
+            config.complianceRules?.length ? config.complianceRules : DEFAULT_COMPLIANCE_RULES,
+        );
+
+        for (const page of pages || []) {
+            const findings = this.checkText(page.content || "", matchers);
+            if (findings.length === 0) {
+                continue;
+            }
+
+            report.pages.push({ index: page.index, findings });
+            for (const finding of findings) {
+                if (finding.severity === "critical") {
+                    report.criticalCount++;
+                } else {
+                    report.warningCount++;
+                }
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * 开启阻止策略且存在严重违规时拒绝生成图片
+     */
+    async assertImageGenerationAllowed(
+        pages: Pick<XhsTask["pages"][number], "index" | "content">[],
+    ): Promise<void> {
+        const report = await this.check(pages);
+        if (!report.blockCritical || report.criticalCount === 0) {
+            return;
+        }
+
+        const first = report.pages.find((page) => page.findings.some((f) => f.severity === "critical"));
+        const finding = first?.findings.find((f) => f.severity === "critical");
+        throw new Error(
+            `大纲包含 ${report.criticalCount} 处严重违规内容（第 ${(first?.index ?? 0) + 1} 页「${finding?.match}」），请修改后再生成图片`,
+        );
+    }
+
+    /**
+     * 编译启用的规则，无效正则跳过并记录日志
+     */
+    private compileRules(rules: ComplianceRule[]): Array<{ rule: ComplianceRule; regex: RegExp }> {
+        const matchers: Array<{ rule: ComplianceRule; regex: RegExp }> = [];
+
+        for (const rule of rules) {
+            if (rule.enabled === false || !rule.pattern?.trim()) {
+                continue;
+            }
+
+            const source = rule.isRegex ? rule.pattern : rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            try {
+                matchers.push({ rule, regex: new RegExp(source, "gi") });
+            } catch (error) {
+                this.logger.warn(`合规规则正则无效，已跳过: ${rule.pattern} (${error.message})`);
+            }
+        }
+
+        return matchers;
+    }
+
+    /**
+     * 匹配单段文本，同一位置只保留最先命中的规则
+     */
+    private checkText(text: string, matchers: Array<{ rule: ComplianceRule; regex: RegExp }>): ComplianceFinding[] {
+        const findings: ComplianceFinding[] = [];
+        const covered = new Set<number>();
+
+        for (const { rule, regex } of matchers) {
+            regex.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            while ((match = regex.exec(text)) !== null) {
+                if (match[0].length === 0) {
+                    regex.lastIndex++;
+                    continue;
+                }
+                if (covered.has(match.index)) {
+                    continue;
+                }
+
+                covered.add(match.index);
+                findings.push({
+                    category: rule.category,
+                    severity: rule.severity,
+                    match: match[0],
+                    start: match.index,
+                    replacement: rule.replacement ?? null,
+                    pattern: rule.pattern,
+                });
+            }
+        }
+
+        return findings.sort((a, b) => a.start - b.start);
+    }
+}
@@ -4,7 +4,12 @@ import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
 import * as fs from "fs";
 import * as path from "path";
 
-import { XhsConfig } from "../../../db/entities/xhs-config.entity";
+import {
+    TemplateType,
+    XhsPromptTemplate,
+} from "../../../db/entities/xhs-prompt-template.entity";
+
+export { TemplateType };
 
 /**
  * Prompt 模板变量
@@ -21,27 +26,12 @@ export interface PromptVariables {
 }
 
 /**
- * 预设模板类型
+ * 用户模板可更新字段
  */
-export enum TemplateType {
-    OUTLINE = "outline",
-    IMAGE_COVER = "image_cover",
-    IMAGE_CONTENT = "image_content",
-    IMAGE_SUMMARY = "image_summary",
-}
-
-/**
- * 用户自定义模板
- */
-export interface CustomTemplate {
-    id: string;
-    userId: string;
-    name: string;
-    type: TemplateType;
-    content: string;
-    isDefault: boolean;
-    createdAt: Date;
-    updatedAt: Date;
+export interface UpdateTemplateData {
+    name?: string;
+    content?: string;
+    isDefault?: boolean;
 }
 
 /**
@@ -49,7 +39,7 @@ export interface CustomTemplate {
  * 
  * 支持：
  * - 系统预设模板
- * - 用户自定义模板
+ * - 用户自定义模板（持久化到 xhs_creator_prompt_templates）
  * - 模板变量替换
  * - 模板继承和扩展
  */
@@ -57,9 +47,11 @@ export interface CustomTemplate {
 export class CustomPromptTemplateService {
     private readonly logger = new Logger(CustomPromptTemplateService.name);
     private readonly systemTemplates = new Map<TemplateType, string>();
-    private readonly userTemplates = new Map<string, CustomTemplate[]>();
 
-    constructor() {
+    constructor(
+        @InjectRepository(XhsPromptTemplate)
+        private templateRepository: Repository<XhsPromptTemplate>,
+    ) {
         this.loadSystemTemplates();
     }
 
@@ -93,21 +85,30 @@ export class CustomPromptTemplateService {
     /**
      * 获取模板（优先用户自定义，否则系统预设）
      */
-    getTemplate(userId: string, type: TemplateType): string {
-        // 查找用户默认模板
-        const userTemplateList = this.userTemplates.get(userId) || [];
-        const defaultTemplate = userTemplateList.find(
-            (t) => t.type === type && t.isDefault,
-        );
-
-        if (defaultTemplate) {
-            return defaultTemplate.content;
+    async getTemplate(userId: string, type: TemplateType): Promise<string> {
+        const userTemplate = await this.getUserDefaultTemplate(userId, type);
+        if (userTemplate) {
+            return userTemplate;
         }
 
         // 返回系统模板
         return this.systemTemplates.get(type) || "";
     }
 
+    /**
+     * 获取用户某类型的默认模板内容，未设置时返回 null
+     */
+    async getUserDefaultTemplate(userId: string | undefined, type: TemplateType): Promise<string | null> {
+        if (!userId) {
+            return null;
+        }
+
+        const template = await this.templateRepository.findOne({
+            where: { userId, type, isDefault: true },
+        });
+        return template?.content || null;
+    }
+
     /**
      * 构建 Prompt（变量替换）
      */
@@ -136,38 +137,26 @@ export class CustomPromptTemplateService {
     /**
      * 保存用户自定义模板
      */
-    saveUserTemplate(
+    async saveUserTemplate(
         userId: string,
         name: string,
         type: TemplateType,
         content: string,
         isDefault: boolean = false,
-    ): CustomTemplate {
-        const template: CustomTemplate = {
-            id: `template_${Date.now()}`,
+    ): Promise<XhsPromptTemplate> {
+        // 如果设为默认，取消其他同类型模板的默认状态
+        if (isDefault) {
+            await this.clearDefault(userId, type);
+        }
+
+        const template = this.templateRepository.create({
             userId,
             name,
             type,
             content,
             isDefault,
-            createdAt: new Date(),
-            updatedAt: new Date(),
-        };
-
-        // 如果设为默认，取消其他同类型模板的默认状态
-        if (isDefault) {
-            const userList = this.userTemplates.get(userId) || [];
-            for (const t of userList) {
-                if (t.type === type) {
-                    t.isDefault = false;
-                }
-            }
-        }
-
-        // 保存到内存（实际应持久化到数据库）
-        const userList = this.userTemplates.get(userId) || [];
-        userList.push(template);
-        this.userTemplates.set(userId, userList);
+        });
+        await this.templateRepository.save(template);
 
         this.logger.log(`用户 ${userId} 保存自定义模板: ${name}`);
         return template;
@@ -176,30 +165,86 @@ export class CustomPromptTemplateService {
     /**
      * 获取用户所有模板
      */
-    getUserTemplates(userId: string, type?: TemplateType): CustomTemplate[] {
-        const userList = this.userTemplates.get(userId) || [];
-        if (type) {
-            return userList.filter((t) => t.type === type);
+    async getUserTemplates(userId: string, type?: TemplateType): Promise<XhsPromptTemplate[]> {
+        return this.templateRepository.find({
+            where: type ? { userId, type } : { userId },
+            order: { type: "ASC", createdAt: "DESC" },
+        });
+    }
+
+    /**
+     * 更新用户模板
+     */
+    async updateUserTemplate(
+        userId: string,
+        templateId: string,
+        data: UpdateTemplateData,
+    ): Promise<XhsPromptTemplate> {
+        const template = await this.findUserTemplate(userId, templateId);
+
+        if (data.isDefault && !template.isDefault) {
+            await this.clearDefault(userId, template.type);
         }
-        return userList;
+
+        if (data.name !== undefined) template.name = data.name;
+        if (data.content !== undefined) template.content = data.content;
+        if (data.isDefault !== undefined) template.isDefault = data.isDefault;
+        await this.templateRepository.save(template);
+
+        return template;
+    }
+
+    /**
+     * 设为该类型的默认模板
+     */
+    async setDefaultTemplate(userId: string, templateId: string): Promise<XhsPromptTemplate> {
+        const template = await this.findUserTemplate(userId, templateId);
+
+        await this.clearDefault(userId, template.type);
+        template.isDefault = true;
+        await this.templateRepository.save(template);
+
+        this.logger.log(`用户 ${userId} 设置默认模板: ${template.name} (${template.type})`);
+        return template;
     }
 
     /**
      * 删除用户模板
      */
-    deleteUserTemplate(userId: string, templateId: string): boolean {
-        const userList = this.userTemplates.get(userId) || [];
-        const index = userList.findIndex((t) => t.id === templateId);
-        
-        if (index !== -1) {
-            userList.splice(index, 1);
-            this.userTemplates.set(userId, userList);
+    async deleteUserTemplate(userId: string, templateId: string): Promise<boolean> {
+        const result = await this.templateRepository.delete({ id: templateId, userId });
+
+        if (result.affected) {
             this.logger.log(`用户 ${userId} 删除模板: ${templateId}`);
             return true;
         }
         return false;
     }
 
+    /**
+     * 查找用户自己的模板，不存在则抛错
+     */
+    private async findUserTemplate(userId: string, templateId: string): Promise<XhsPromptTemplate> {
+        const template = await this.templateRepository.findOne({
+            where: { id: templateId, userId },
+        });
+
+        if (!template) {
+            throw new Error("模板不存在");
+        }
+        return template;
+    }
+
+    /**
+     * 取消用户同类型模板的默认状态
+     */
+    private async clearDefault(userId: string, type: TemplateType): Promise<void> {
+        await this.templateRepository.update(
+            { userId, type, isDefault: true },
+            { isDefault: false },
+        );
+    }
+
     /**
      * 获取预设提示词增强
      */
@@ -10,6 +10,8 @@ const AUTH_TAG_LENGTH = 16;
 const SALT_LENGTH = 32;
 const KEY_LENGTH = 32;
 const ITERATIONS = 100000;
+/** 派生密钥缓存上限（按盐值缓存） */
+const KEY_CACHE_SIZE = 100;
 
 /**
  * 加密结果
@@ -37,6 +39,8 @@ export interface EncryptionResult {
 export class EncryptionService {
     private readonly logger = new Logger(EncryptionService.name);
     private readonly masterKey: Buffer;
+    /** 盐值（Base64） -> 派生密钥 */
+    private readonly keyCache = new Map<string, Buffer>();
 
     constructor() {
         // 从环境变量获取主密钥
@@ -59,7 +63,7 @@ export class EncryptionService {
         const iv = crypto.randomBytes(IV_LENGTH);
 
         // 派生加密密钥
-        const key = crypto.pbkdf2Sync(this.masterKey, salt, ITERATIONS, KEY_LENGTH, "sha256");
+        const key = this.deriveKey(salt);
 
         // 使用 AES-256-GCM 加密
         const cipher = crypto.createCipheriv(ALGORITHM, key, iv, {
@@ -91,7 +95,7 @@ export class EncryptionService {
         const authTagBuffer = Buffer.from(authTag, "base64");
 
         // 派生解密密钥
-        const key = crypto.pbkdf2Sync(this.masterKey, saltBuffer, ITERATIONS, KEY_LENGTH, "sha256");
+        const key = this.deriveKey(saltBuffer);
 
         // 使用 AES-256-GCM 解密
         const decipher = crypto.createDecipheriv(ALGORITHM, key, ivBuffer, {
@@ -106,6 +110,29 @@ export class EncryptionService {
         return decrypted;
     }
 
+    /**
+     * 按盐值派生密钥
+     * PBKDF2 同步计算会阻塞事件循环，同一密文每次解密的盐值相同，派生结果按盐值缓存复用
+     */
+    private deriveKey(salt: Buffer): Buffer {
+        const cacheKey = salt.toString("base64");
+        const cached = this.keyCache.get(cacheKey);
+        if (cached) {
+            return cached;
+        }
+
+        const key = crypto.pbkdf2Sync(this.masterKey, salt, ITERATIONS, KEY_LENGTH, "sha256");
+        if (this.keyCache.size >= KEY_CACHE_SIZE) {
+            // 超出上限时淘汰最早缓存的密钥
+            const oldest = this.keyCache.keys().next().value;
+            if (oldest !== undefined) {
+                this.keyCache.delete(oldest);
+            }
+        }
+        this.keyCache.set(cacheKey, key);
+        return key;
+    }
+
     /**
      * 加密为单一字符串（方便存储）
      */
@@ -0,0 +1,404 @@
+import { Injectable, Logger, MessageEvent, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
+import { Repository } from "@buildingai/db/typeorm";
+import { EMPTY, from, Observable, Subject, switchMap } from "rxjs";
+
+import { ImageStatus } from "../../../db/entities/xhs-image.entity";
+import { GenerationPreferences, PagePromptOverride, TaskStatus, XhsTask } from "../../../db/entities/xhs-task.entity";
+import { ComplianceService } from "./compliance.service";
+import { COVER_VARIANTS } from "../constants";
+import { ImageService, PendingCoverSelection } from "./image.service";
+import { QueryBuilderService } from "./query-builder.service";
+import { SseConnectionPoolService } from "./sse-connection-pool.service";
+import {
+    QueuedTask,
+    QueueTaskType,
+    TaskPersistenceQueueService,
+} from "./task-persistence-queue.service";
+
+/**
+ * 图片生成任务参数
+ */
+export interface GenerationJobParams {
+    taskId: string;
+    pages: Array<{
+        id?: string;
+        index: number;
+        type: "cover" | "content" | "summary";
+        content: string;
+        styleId?: string | null;
+        promptOverride?: PagePromptOverride | null;
+    }>;
+    fullOutline: string;
+    isRegenerate?: boolean;
+    preferences?: GenerationPreferences;
+    /** 封面候选数，大于 1 时生成多张封面等待用户选择 */
+    coverVariants?: number;
+    /** 当前大纲的页面ID顺序，用于重新映射已有图片的页面位置 */
+    pageIds?: string[];
+}
+
+/**
+ * 图片生成任务服务
+ *
+ * 生成流程在服务端队列中执行，不依赖发起请求的 HTTP 连接：
+ * - 请求只负责入队，进度通过 SseConnectionPoolService 广播给所有订阅者
+ * - 客户端断开后可重新订阅，先回放已发生的事件再接收实时进度
+ * - 服务重启后由队列恢复任务，根据剩余的待生成图片记录续跑
+ * - 用户可随时取消，进行中的请求会被中断，未完成页面的积分自动退回
+ * - 等待选择封面候选时不占用队列名额，选定（或超时自动选用第一张）后内容页重新入队
+ */
+@Injectable()
+export class GenerationJobService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(GenerationJobService.name);
+    /** 执行中任务的取消控制器：taskId -> AbortController */
+    private readonly abortControllers = new Map<string, AbortController>();
+    /** 等待选择封面候选的任务：taskId -> 候选与超时定时器 */
+    private readonly coverSelections = new Map<
+        string,
+        PendingCoverSelection & { timer: NodeJS.Timeout }
+    >();
+
+    constructor(
+        @InjectRepository(XhsTask)
+        private readonly taskRepository: Repository<XhsTask>,
+        private readonly queueService: TaskPersistenceQueueService,
+        private readonly poolService: SseConnectionPoolService,
+        private readonly imageService: ImageService,
+        private readonly queryBuilder: QueryBuilderService,
+        private readonly complianceService: ComplianceService,
+    ) {}
+
+    onModuleInit(): void {
+        this.queueService.registerHandler(QueueTaskType.IMAGE_GENERATION, (job, signal) => this.runJob(job, signal));
+    }
+
+    onModuleDestroy(): void {
+        for (const selection of this.coverSelections.values()) {
+            clearTimeout(selection.timer);
+        }
+        this.coverSelections.clear();
+    }
+
+    /**
+     * 提交图片生成任务
+     * 后台开启合规阻止策略时，任务已保存的大纲或提交的页面存在严重违规内容会拒绝提交
+     */
+    async submit(userId: string, params: GenerationJobParams): Promise<string> {
+        const task = await this.findOwnedTask(userId, params.taskId);
+        this.assertNotActive(task);
+        await this.complianceService.assertImageGenerationAllowed(task.pages || []);
+        await this.complianceService.assertImageGenerationAllowed(params.pages);
+        this.discardCoverSelection(task.id);
+
+        return this.enqueueJob(task, params.pages.length, { ...params });
+    }
+
+    /**
+     * 重试任务中生成失败的页面
+     * 失败页面重置为待生成后按续跑流程执行：沿用任务已有封面作为参考图，只为这些页面计费
+     * 与提交生成一样先检查任务大纲的合规性
+     */
+    async retryFailed(userId: string, taskId: string): Promise<string> {
+        const task = await this.findOwnedTask(userId, taskId);
+        this.assertNotActive(task);
+        await this.complianceService.assertImageGenerationAllowed(task.pages || []);
+        this.discardCoverSelection(taskId);
+
+        const failedImages = await this.queryBuilder.findFailedImages(taskId);
+        if (failedImages.length === 0) {
+            throw new Error("没有生成失败的页面需要重试");
+        }
+
+        await this.queryBuilder.bulkUpdateImageStatus(
+            failedImages.map((image) => image.id),
+            ImageStatus.PENDING,
+            { errorMessage: null },
+        );
+
+        return this.enqueueJob(task, failedImages.length, { taskId, retryFailed: true });
+    }
+
+    /**
+     * 订阅任务生成进度
+     * 任务已结束且没有可回放的事件时直接完成，客户端应改为查询进度接口
+     */
+    subscribe(userId: string, taskId: string): Observable<MessageEvent> {
+        return from(this.findOwnedTask(userId, taskId)).pipe(
+            switchMap((task) => {
+                if (!this.isGenerating(task) && !this.poolService.hasTaskEvents(taskId)) {
+                    return EMPTY;
+                }
+                return this.poolService.subscribe(userId, taskId);
+            }),
+        );
+    }
+
+    /**
+     * 选择封面候选，内容页以选中的封面为参考重新入队生成
+     */
+    async selectCover(userId: string, taskId: string, version: number): Promise<void> {
+        await this.findOwnedTask(userId, taskId);
+
+        const selection = this.coverSelections.get(taskId);
+        if (!selection) {
+            throw new Error("当前没有等待选择的封面候选");
+        }
+        if (!selection.versions.includes(version)) {
+            throw new Error(`封面候选 v${version} 不存在`);
+        }
+
+        await this.continueAfterCover(taskId, version);
+    }
+
+    /**
+     * 取消生成任务
+     * - 执行中：中断进行中的请求，由生成流程退回积分并推送 cancelled 事件
+     * - 排队中：直接移出队列，将待生成页面标记为已取消
+     * - 等待选择封面：将待生成的内容页标记为已取消
+     */
+    async cancel(userId: string, taskId: string): Promise<void> {
+        const task = await this.findOwnedTask(userId, taskId);
+
+        // 等待选择封面：封面已生成，内容页尚未扣费，直接标记为已取消
+        const selection = this.discardCoverSelection(taskId);
+        if (selection) {
+            await this.imageService.cancelGeneration(
+                taskId,
+                selection.pages.map((page) => page.index),
+                this.createPublisher(taskId),
+            );
+            this.logger.log(`等待选择封面的任务 ${taskId} 已取消`);
+            return;
+        }
+
+        const controller = this.abortControllers.get(taskId);
+        if (controller) {
+            controller.abort();
+            this.logger.log(`任务 ${taskId} 已请求取消`);
+            return;
+        }
+
+        const queued = await this.queueService.cancelPending(taskId);
+        if (!queued) {
+            throw new Error("任务当前不在生成中");
+        }
+
+        const params = queued.payload as unknown as Partial<GenerationJobParams>;
+        const pageIndexes = (params.pages || task.pages || []).map((page) => page.index);
+        await this.imageService.cancelGeneration(taskId, pageIndexes, this.createPublisher(taskId), queued.createdAt);
+        this.logger.log(`排队中的任务 ${taskId} 已取消`);
+    }
+
+    /**
+     * 选定封面候选并将内容页重新入队（用户选择或等待超时）
+     */
+    private async continueAfterCover(taskId: string, version: number): Promise<void> {
+        const selection = this.discardCoverSelection(taskId);
+        if (!selection) {
+            return;
+        }
+
+        const imageUrl = await this.imageService.selectCoverVariant(taskId, selection.pageIndex, version);
+        this.poolService.publish(taskId, this.toEvent({
+            type: "complete",
+            pageIndex: selection.pageIndex,
+            imageUrl,
+        }));
+
+        const task = await this.taskRepository.findOne({ where: { id: taskId } });
+        if (!task) {
+            throw new Error("任务不存在");
+        }
+
+        // 沿用本轮事件缓冲，重连的订阅者可回放封面候选与选择结果
+        await this.enqueueJob(
+            task,
+            selection.pages.length,
+            {
+                taskId,
+                pages: selection.pages,
+                fullOutline: selection.fullOutline,
+                isRegenerate: selection.isRegenerate,
+                coverSelected: true,
+            },
+            false,
+        );
+    }
+
+    /**
+     * 记录等待选择的封面候选，超时未选择时自动选用第一张
+     */
+    private awaitCoverSelection(taskId: string, selection: PendingCoverSelection): void {
+        this.discardCoverSelection(taskId);
+
+        const timer = setTimeout(() => {
+            this.continueAfterCover(taskId, selection.versions[0]).catch((error) => {
+                this.logger.error(`任务 ${taskId} 自动选用封面失败: ${error.message}`);
+            });
+        }, COVER_VARIANTS.SELECTION_TIMEOUT);
+
+        this.coverSelections.set(taskId, { ...selection, timer });
+    }
+
+    /**
+     * 移除等待中的封面选择
+     * @returns 被移除的封面选择，不存在时返回 undefined
+     */
+    private discardCoverSelection(taskId: string): PendingCoverSelection | undefined {
+        const selection = this.coverSelections.get(taskId);
+        if (selection) {
+            clearTimeout(selection.timer);
+            this.coverSelections.delete(taskId);
+        }
+        return selection;
+    }
+
+    /**
+     * 重置事件缓冲并加入生成队列
+     * @param resetEvents 是否清空上一轮的事件缓冲（选定封面后继续生成时保留）
+     */
+    private async enqueueJob(
+        task: XhsTask,
+        total: number,
+        payload: Record<string, unknown>,
+        resetEvents = true,
+    ): Promise<string> {
+        // 重置事件缓冲，避免新订阅者回放上一轮的事件
+        if (resetEvents) {
+            this.poolService.beginTask(task.id);
+        }
+        this.poolService.publish(task.id, this.toEvent({
+            type: "progress",
+            stage: "queued",
+            current: 0,
+            total,
+            message: "已加入生成队列，请稍候...",
+        }));
+
+        const queueId = await this.queueService.enqueue(task.id, task.userId, {
+            type: QueueTaskType.IMAGE_GENERATION,
+            ...payload,
+        });
+
+        this.logger.log(`任务 ${task.id} 已提交生成队列: ${queueId}`);
+        return queueId;
+    }
+
+    /**
+     * 队列处理器：执行或续跑生成流程
+     * @param signal 队列的中断信号（任务超时），与用户取消共用同一个取消控制器
+     */
+    private async runJob(job: QueuedTask, signal: AbortSignal): Promise<void> {
+        const subject = this.createPublisher(job.taskId);
+        const controller = new AbortController();
+        this.abortControllers.set(job.taskId, controller);
+
+        const abortOnTimeout = () => controller.abort();
+        if (signal.aborted) {
+            controller.abort();
+        } else {
+            signal.addEventListener("abort", abortOnTimeout, { once: true });
+        }
+
+        const params = job.payload as unknown as GenerationJobParams & {
+            recovered?: boolean;
+            retryFailed?: boolean;
+            coverSelected?: boolean;
+        };
+
+        try {
+            let selection: PendingCoverSelection | null;
+
+            // 服务重启恢复、队列重试时部分页面可能已完成，失败页重试时只有重置后的页面待生成，均按剩余页面续跑
+            // 有提交的页面时按提交的页面续跑，提交时间之后未生成新图片的页面视为剩余页面
+            // 选定封面后的内容页同样按续跑执行（保留任务总页数，以任务封面为参考）
+            if (params.recovered || params.retryFailed || params.coverSelected || job.retryCount > 0) {
+                selection = await this.imageService.resumeGeneration(
+                    job.taskId,
+                    subject,
+                    controller.signal,
+                    params.pages?.length ? params : undefined,
+                    job.createdAt,
+                );
+            } else {
+                selection = await this.imageService.runGeneration(
+                    job.taskId,
+                    params.pages,
+                    params.fullOutline,
+                    subject,
+                    params.isRegenerate,
+                    params.preferences,
+                    controller.signal,
+                    params.coverVariants,
+                    params.pageIds,
+                    job.createdAt,
+                );
+            }
+
+            if (selection) {
+                this.awaitCoverSelection(job.taskId, selection);
+            }
+        } finally {
+            signal.removeEventListener("abort", abortOnTimeout);
+            this.abortControllers.delete(job.taskId);
+        }
+    }
+
+    /**
+     * 创建事件输出：事件广播给订阅者，完成时结束任务的事件流
+     */
+    private createPublisher(taskId: string): Subject<MessageEvent> {
+        const subject = new Subject<MessageEvent>();
+        subject.subscribe({
+            next: (event) => this.poolService.publish(taskId, event),
+            complete: () => this.poolService.finishTask(taskId),
+        });
+        return subject;
+    }
+
+    /**
+     * 查询任务并校验所有权
+     */
+    private async findOwnedTask(userId: string | undefined, taskId: string): Promise<XhsTask> {
+        const task = await this.taskRepository.findOne({ where: { id: taskId } });
+        if (!task) {
+            throw new Error("任务不存在");
+        }
+        if (userId && task.userId !== userId) {
+            throw new Error("无权访问该任务");
+        }
+        return task;
+    }
+
+    /**
+     * 任务是否在排队、生成中或等待选择封面
+     * 此期间图片按当前页面位置写入，不能调整大纲页面
+     */
+    isActive(taskId: string): boolean {
+        return this.queueService.hasActiveTask(taskId) || this.coverSelections.has(taskId);
+    }
+
+    /**
+     * 校验任务不在排队或生成中
+     */
+    private assertNotActive(task: XhsTask): void {
+        if (this.queueService.hasActiveTask(task.id)) {
+            throw new Error("该任务正在生成中，请勿重复提交");
+        }
+    }
+
+    /**
+     * 任务是否处于排队或生成中
+     */
+    private isGenerating(task: XhsTask): boolean {
+        return task.status === TaskStatus.PENDING || task.status === TaskStatus.GENERATING_IMAGES;
+    }
+
+    /**
+     * 构造 SSE 事件
+     */
+    private toEvent(payload: Record<string, unknown>): MessageEvent {
+        return { data: JSON.stringify(payload) } as MessageEvent;
+    }
+}
@@ -1,5 +1,4 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { PublicAiModelService } from "@buildingai/extension-sdk";
 
 import {
     BaseGenerator,
@@ -7,11 +6,32 @@ import {
     ChatCompletionsGenerator,
     CustomEndpointGenerator,
 } from "../generators";
+import { ImageModelRoute } from "../../../db/entities/xhs-config.entity";
+import { ServiceType } from "../../../db/entities/xhs-provider.entity";
+import { IMAGE_RETRY } from "../constants";
 import { XhsConfigService } from "./xhs-config.service";
+import { ProviderRegistryService, ResolvedModelCredential } from "./provider-registry.service";
+
+/**
+ * 已解析的图片生成器（故障转移链中的一项）
+ */
+export interface ResolvedImageGenerator {
+    generator: BaseGenerator;
+    /** 模型来源：系统模型或插件服务商配置 */
+    source: ResolvedModelCredential["source"];
+    /** 系统AI模型ID或服务商配置ID */
+    modelId: string;
+    /** 模型名称（记录到图片上） */
+    modelName: string;
+    endpointType: ImageModelRoute["endpointType"];
+    /** 熔断器名称，按模型和端点隔离 */
+    circuitName: string;
+}
 
 /**
  * 生成器解析服务
- * 根据配置返回对应的图片生成器
+ * 根据配置返回对应的图片生成器，支持主模型 + 备用模型的有序故障转移链
+ * 已激活的图片服务商优先于后台选择的系统图片模型
  */
 @Injectable()
 export class GeneratorResolverService {
@@ -19,38 +39,123 @@ export class GeneratorResolverService {
 
     constructor(
         private readonly configService: XhsConfigService,
-        private readonly aiModelService: PublicAiModelService,
+        private readonly providerRegistry: ProviderRegistryService,
     ) {}
 
     /**
-     * 解析并返回图片生成器
+     * 解析并返回主图片生成器
      */
     async resolve(): Promise<BaseGenerator> {
+        const [primary] = await this.resolveChain();
+        return primary.generator;
+    }
+
+    /**
+     * 解析图片生成器故障转移链：主模型在前，备用模型按配置顺序排列
+     * 存在已激活的图片服务商时由其替代主模型
+     * 单个模型解析失败（如未绑定密钥）时跳过，全部失败时抛出首个错误
+     */
+    async resolveChain(): Promise<ResolvedImageGenerator[]> {
         const config = await this.configService.getConfig();
-        if (!config.imageModelId) {
+        const activeProvider = await this.providerRegistry.getActiveProvider(ServiceType.IMAGE);
+        if (!activeProvider && !config.imageModelId) {
             throw new Error("尚未选择图片生成模型，请先在后台配置模型");
         }
 
-        const [model, providerSecret] = await Promise.all([
-            this.aiModelService.getModelInfo(config.imageModelId),
-            this.aiModelService.getProviderConfig(config.imageModelId),
-        ]);
+        const routes: ImageModelRoute[] = [
+            ...(activeProvider
+                ? []
+                : [
+                      {
+                          modelId: config.imageModelId,
+                          endpointType: config.imageEndpointType || "images",
+                          endpointUrl: config.imageEndpointUrl,
+                      } as ImageModelRoute,
+                  ]),
+            ...(config.imageFallbackModels || []),
+        ];
+
+        const chain: ResolvedImageGenerator[] = [];
+        const seen = new Set<string>();
+        let firstError: Error | null = null;
+
+        if (activeProvider) {
+            try {
+                chain.push(this.toResolvedGenerator(this.providerRegistry.resolveProvider(activeProvider)));
+            } catch (error) {
+                firstError = error as Error;
+                this.logger.warn(`图片服务商 ${activeProvider.name} 解析失败，已跳过: ${firstError.message}`);
+            }
+        }
+
+        for (const route of routes) {
+            const key = `${route.modelId}:${route.endpointType}:${route.endpointUrl || ""}`;
+            if (!route.modelId || seen.has(key)) {
+                continue;
+            }
+            seen.add(key);
 
-        const apiKey = providerSecret["apiKey"]?.value;
-        if (!apiKey) {
-            throw new Error("所选图片模型未绑定密钥，请检查AI供应商配置");
+            try {
+                chain.push(await this.resolveRoute(route, config.imageModel));
+            } catch (error) {
+                firstError = firstError || (error as Error);
+                this.logger.warn(`图片模型 ${route.modelId} 解析失败，已跳过: ${(error as Error).message}`);
+            }
         }
 
-        const baseUrl = providerSecret["baseUrl"]?.value;
-        const modelName = model.model || config.imageModel || "gpt-image-1";
-        const endpointType = config.imageEndpointType || "images";
-        const customEndpointUrl = config.imageEndpointUrl;
+        if (chain.length === 0) {
+            throw firstError || new Error("没有可用的图片生成模型");
+        }
+
+        return chain;
+    }
+
+    /**
+     * 解析单个系统图片模型
+     */
+    private async resolveRoute(
+        route: ImageModelRoute,
+        fallbackModelName: string,
+    ): Promise<ResolvedImageGenerator> {
+        const credential = await this.providerRegistry.resolveSystemModel(
+            route.modelId,
+            fallbackModelName || "gpt-image-1",
+        );
+
+        return this.toResolvedGenerator({
+            ...credential,
+            endpointType: route.endpointType || "images",
+            endpointUrl: route.endpointUrl,
+            modelVersions: route.modelVersions,
+        });
+    }
+
+    /**
+     * 根据模型凭据创建生成器
+     */
+    private toResolvedGenerator(credential: ResolvedModelCredential): ResolvedImageGenerator {
+        const { apiKey, baseUrl, modelName, endpointUrl } = credential;
+        const endpointType = credential.endpointType || "images";
 
         // 打印使用的图片模型信息
-        this.logModelInfo(model.provider.provider, modelName, baseUrl, config.imageModelId, endpointType, customEndpointUrl);
+        this.logModelInfo(credential.providerName, modelName, baseUrl, credential.sourceId, endpointType, endpointUrl);
 
-        // 根据端点类型选择生成器
-        return this.createGenerator(endpointType, apiKey, baseUrl, modelName, customEndpointUrl);
+        return {
+            // 根据端点类型选择生成器
+            generator: this.createGenerator(
+                endpointType,
+                apiKey,
+                baseUrl,
+                modelName,
+                endpointUrl,
+                credential.modelVersions,
+            ),
+            source: credential.source,
+            modelId: credential.sourceId,
+            modelName,
+            endpointType,
+            circuitName: `${IMAGE_RETRY.CIRCUIT_NAME}:${credential.sourceId}:${endpointType}`,
+        };
     }
 
     /**
@@ -79,6 +184,7 @@ export class GeneratorResolverService {
 
     /**
      * 根据端点类型创建生成器
+     * @param modelVersions 模型版本映射，images/chat 端点按此将用户选择的模型版本换成具体模型
      */
     private createGenerator(
         endpointType: string,
@@ -86,6 +192,7 @@ export class GeneratorResolverService {
         baseUrl: string | undefined,
         modelName: string,
         customEndpointUrl?: string | null,
+        modelVersions?: Record<string, string> | null,
     ): BaseGenerator {
         switch (endpointType) {
             case "images":
@@ -94,6 +201,7 @@ export class GeneratorResolverService {
                     apiKey,
                     baseUrl,
                     model: modelName,
+                    config: modelVersions ? { modelVersions } : undefined,
                 });
 
             case "chat":
@@ -102,6 +210,7 @@ export class GeneratorResolverService {
                     apiKey,
                     baseUrl,
                     model: modelName,
+                    config: modelVersions ? { modelVersions } : undefined,
                 });
 
             case "custom":
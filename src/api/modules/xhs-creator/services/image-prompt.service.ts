@@ -1,7 +1,10 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { readFileSync, existsSync } from "node:fs";
 import { join } from "node:path";
+import type { PagePromptOverride } from "../../../db/entities/xhs-task.entity";
 import { XhsConfigService } from "./xhs-config.service";
+import { ImageSpecificationService } from "./image-specification.service";
+import { CustomPromptTemplateService, TemplateType } from "./custom-prompt-template.service";
 
 /**
  * 图片提示词服务
@@ -26,7 +29,11 @@ export class ImagePromptService {
      */
     private templatesLoaded = false;
 
-    constructor(private readonly configService: XhsConfigService) {
+    constructor(
+        private readonly configService: XhsConfigService,
+        private readonly specService: ImageSpecificationService,
+        private readonly templateService: CustomPromptTemplateService,
+    ) {
         // 延迟加载模板，避免启动时阻塞
         this.loadTemplatesIfNeeded();
     }
@@ -79,6 +86,27 @@ export class ImagePromptService {
         return this.imagePromptTemplateShort;
     }
 
+    /**
+     * 解析自定义模板
+     * 优先级：用户该页面类型的默认模板 > 后台配置的 imagePrompt，都没有时返回 null（使用文件模板）
+     */
+    async resolveCustomTemplate(userId: string | undefined, pageType: string): Promise<string | null> {
+        const type =
+            pageType === "cover"
+                ? TemplateType.IMAGE_COVER
+                : pageType === "summary"
+                  ? TemplateType.IMAGE_SUMMARY
+                  : TemplateType.IMAGE_CONTENT;
+
+        const userTemplate = await this.templateService.getUserDefaultTemplate(userId, type);
+        if (userTemplate) {
+            return userTemplate;
+        }
+
+        const config = await this.configService.getConfig();
+        return config.imagePrompt || null;
+    }
+
     /**
      * 构建图片生成的完整提示词
      * @param pageContent 页面内容
@@ -86,6 +114,7 @@ export class ImagePromptService {
      * @param fullOutline 完整大纲（可选）
      * @param userTopic 用户主题（可选）
      * @param customTemplate 自定义模板（可选，优先使用）
+     * @param styleId 风格预设ID（可选，追加风格修饰语和主色调）
      */
     buildImagePrompt(
         pageContent: string,
@@ -93,6 +122,7 @@ export class ImagePromptService {
         fullOutline?: string,
         userTopic?: string,
         customTemplate?: string | null,
+        styleId?: string | null,
     ): string {
         const typeLabel =
             pageType === "cover" ? "封面" : pageType === "summary" ? "总结" : "内容";
@@ -103,11 +133,47 @@ export class ImagePromptService {
         // 优先使用自定义模板，否则使用文件模板
         const template = customTemplate || this.getFullTemplate();
 
-        return template
+        const prompt = template
             .replace("{page_content}", pageContent)
             .replace("{page_type}", typeLabel)
             .replace("{full_outline}", safeOutline)
             .replace("{user_topic}", safeTopic);
+
+        return this.applyStylePreset(prompt, styleId);
+    }
+
+    /**
+     * 追加风格预设的修饰语和主色调
+     * 未找到预设时原样返回
+     */
+    applyStylePreset(prompt: string, styleId?: string | null): string {
+        if (!styleId) {
+            return prompt;
+        }
+
+        const preset = this.specService.getStylePresetById(styleId);
+        if (!preset) {
+            this.logger.warn(`风格预设不存在: ${styleId}`);
+            return prompt;
+        }
+
+        const parts = [`风格：${preset.name}，${preset.promptModifier}`];
+        if (preset.colorTheme.length > 0) {
+            parts.push(`主色调：${preset.colorTheme.join("、")}`);
+        }
+        return `${prompt}\n\n${parts.join("\n")}`;
+    }
+
+    /**
+     * 应用页面级提示词覆盖
+     * replace 直接使用覆盖文本，append 追加到组装好的提示词之后；覆盖文本为空时原样返回
+     */
+    applyPromptOverride(prompt: string, override?: PagePromptOverride | null): string {
+        const text = override?.text?.trim();
+        if (!text) {
+            return prompt;
+        }
+        return override!.mode === "replace" ? text : `${prompt}\n\n${text}`;
     }
 
     /**
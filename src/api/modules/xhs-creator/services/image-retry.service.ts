@@ -0,0 +1,207 @@
+import { Injectable, Logger } from "@nestjs/common";
+
+import { XhsConfig } from "../../../db/entities/xhs-config.entity";
+import { IMAGE_RETRY } from "../constants";
+import { CircuitBreakerService } from "./circuit-breaker.service";
+
+/**
+ * 图片重试策略
+ */
+export interface ImageRetryPolicy {
+    /** 最大尝试次数（含首次） */
+    maxAttempts: number;
+    /** 退避基准间隔（毫秒） */
+    baseDelay: number;
+    /** 可重试错误关键字 */
+    retryableErrors: string[];
+}
+
+/**
+ * 重试回调参数
+ */
+export interface ImageRetryAttempt {
+    /** 即将进行的尝试序号（从 2 开始） */
+    attempt: number;
+    maxAttempts: number;
+    /** 本次重试前的等待时间（毫秒） */
+    delay: number;
+    /** 上一次失败的错误 */
+    error: Error;
+}
+
+/**
+ * 单张图片生成重试服务
+ *
+ * 包裹一次生成调用：
+ * - 仅对限流、服务端错误、超时等临时错误按指数退避重试
+ * - 所有调用经过熔断器，熔断打开后立即停止重试
+ * - 收到取消信号时不再重试，等待中的退避也会被中断
+ * - 配置了多个模型时，当前模型重试耗尽或熔断后按顺序切换到下一个模型
+ */
+@Injectable()
+export class ImageRetryService {
+    private readonly logger = new Logger(ImageRetryService.name);
+
+    constructor(private readonly circuitBreaker: CircuitBreakerService) {}
+
+    /**
+     * 从插件配置解析重试策略
+     */
+    resolvePolicy(config: XhsConfig): ImageRetryPolicy {
+        const maxAttempts = Math.min(
+            Math.max(1, Math.floor(config.imageRetryMaxAttempts ?? IMAGE_RETRY.MAX_ATTEMPTS)),
+            IMAGE_RETRY.MAX_ATTEMPTS_LIMIT,
+        );
+        const baseDelay = Math.max(0, config.imageRetryBaseDelay ?? IMAGE_RETRY.BASE_DELAY);
+        const retryableErrors = config.imageRetryableErrors?.length
+            ? config.imageRetryableErrors
+            : IMAGE_RETRY.RETRYABLE_ERRORS;
+
+        return { maxAttempts, baseDelay, retryableErrors };
+    }
+
+    /**
+     * 按顺序在多个模型间故障转移执行生成操作
+     * 每个模型内部按重试策略重试；熔断中的模型直接跳过
+     * @returns 生成结果和实际产出结果的模型
+     */
+    async executeWithFailover<R extends { circuitName: string; modelName: string }, T>(
+        routes: R[],
+        operation: (route: R) => Promise<T>,
+        policy: ImageRetryPolicy,
+        options?: {
+            signal?: AbortSignal;
+            onRetry?: (retry: ImageRetryAttempt) => void | Promise<void>;
+            onFailover?: (from: R, to: R, error: Error) => void;
+        },
+    ): Promise<{ result: T; route: R }> {
+        let lastError: Error | null = null;
+
+        for (let i = 0; i < routes.length; i++) {
+            const route = routes[i];
+
+            if (!this.circuitBreaker.isAvailable(route.circuitName)) {
+                lastError = new Error(`图片模型 ${route.modelName} 暂时不可用（熔断中）`);
+            } else {
+                try {
+                    const result = await this.execute(() => operation(route), policy, {
+                        signal: options?.signal,
+                        onRetry: options?.onRetry,
+                        circuitName: route.circuitName,
+                    });
+                    return { result, route };
+                } catch (error) {
+                    lastError = error as Error;
+                    if (options?.signal?.aborted) {
+                        throw lastError;
+                    }
+                }
+            }
+
+            const next = routes[i + 1];
+            if (next) {
+                this.logger.warn(
+                    `图片模型 ${route.modelName} 生成失败，切换到备用模型 ${next.modelName}: ${lastError.message}`,
+                );
+                options?.onFailover?.(route, next, lastError);
+            }
+        }
+
+        throw lastError || new Error("没有可用的图片生成模型");
+    }
+
+    /**
+     * 按策略执行生成操作
+     * @param operation 单次生成调用
+     * @param onRetry 每次重试前回调（用于更新重试次数、推送 retrying 事件）
+     * @param circuitName 熔断器名称，默认所有模型共用
+     */
+    async execute<T>(
+        operation: () => Promise<T>,
+        policy: ImageRetryPolicy,
+        options?: {
+            signal?: AbortSignal;
+            onRetry?: (retry: ImageRetryAttempt) => void | Promise<void>;
+            circuitName?: string;
+        },
+    ): Promise<T> {
+        const signal = options?.signal;
+        const circuitName = options?.circuitName || IMAGE_RETRY.CIRCUIT_NAME;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.circuitBreaker.execute(
+                    circuitName,
+                    operation,
+                    { timeout: IMAGE_RETRY.CIRCUIT_TIMEOUT },
+                    signal,
+                );
+            } catch (error) {
+                const lastError = error as Error;
+
+                if (
+                    signal?.aborted ||
+                    attempt >= policy.maxAttempts ||
+                    !this.isRetryable(lastError, policy.retryableErrors) ||
+                    !this.circuitBreaker.isAvailable(circuitName)
+                ) {
+                    throw lastError;
+                }
+
+                const delay = this.getBackoffDelay(attempt, policy.baseDelay);
+                this.logger.warn(
+                    `图片生成失败，${delay}ms 后进行第 ${attempt + 1}/${policy.maxAttempts} 次尝试: ${lastError.message}`,
+                );
+
+                await options?.onRetry?.({
+                    attempt: attempt + 1,
+                    maxAttempts: policy.maxAttempts,
+                    delay,
+                    error: lastError,
+                });
+                await this.wait(delay, signal);
+
+                if (signal?.aborted) {
+                    throw lastError;
+                }
+            }
+        }
+    }
+
+    /**
+     * 判断错误是否可重试（错误信息包含任一关键字，忽略大小写）
+     */
+    isRetryable(error: Error, retryableErrors: string[]): boolean {
+        const message = (error?.message || String(error)).toLowerCase();
+        return retryableErrors.some((keyword) => keyword && message.includes(keyword.toLowerCase()));
+    }
+
+    /**
+     * 计算第 n 次失败后的退避时间：base * 2^(n-1)，叠加最多 20% 的随机抖动
+     */
+    getBackoffDelay(failedAttempt: number, baseDelay: number): number {
+        const delay = Math.min(baseDelay * 2 ** (failedAttempt - 1), IMAGE_RETRY.MAX_DELAY);
+        return Math.round(delay * (1 + Math.random() * 0.2));
+    }
+
+    /**
+     * 等待退避时间，收到取消信号时提前结束
+     */
+    private wait(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve) => {
+            if (signal?.aborted) {
+                resolve();
+                return;
+            }
+            const timer = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, ms);
+            const onAbort = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+}
@@ -0,0 +1,136 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
+import { Repository } from "@buildingai/db/typeorm";
+import type { QueryDeepPartialEntity } from "@buildingai/db/typeorm";
+import { createHash } from "node:crypto";
+
+import { XhsTask } from "../../../db/entities/xhs-task.entity";
+import { XhsImage } from "../../../db/entities/xhs-image.entity";
+import { XhsImageHistory } from "../../../db/entities/xhs-image-history.entity";
+import { ImageStorageService, StoredImage } from "./image-storage.service";
+
+/**
+ * 迁移结果统计
+ */
+export interface ImageMigrationResult {
+    images: number;
+    histories: number;
+    tasks: number;
+    failed: number;
+}
+
+const BATCH_SIZE = 50;
+
+/**
+ * 历史 base64 图片迁移服务（一次性任务）
+ *
+ * 将 imageUrl / coverImageUrl 中的 data URL 落盘并改写为稳定地址，
+ * 同一张图片在历史版本、主记录、任务封面间只存储一次
+ */
+@Injectable()
+export class ImageStorageMigrationService {
+    private readonly logger = new Logger(ImageStorageMigrationService.name);
+    private running = false;
+
+    constructor(
+        @InjectRepository(XhsTask)
+        private readonly taskRepository: Repository<XhsTask>,
+        @InjectRepository(XhsImage)
+        private readonly imageRepository: Repository<XhsImage>,
+        @InjectRepository(XhsImageHistory)
+        private readonly imageHistoryRepository: Repository<XhsImageHistory>,
+        private readonly storageService: ImageStorageService,
+    ) {}
+
+    /**
+     * 执行迁移
+     */
+    async migrateBase64Images(): Promise<ImageMigrationResult> {
+        if (this.running) {
+            throw new Error("迁移任务正在执行中");
+        }
+
+        this.running = true;
+        const stored = new Map<string, StoredImage>();
+        const result: ImageMigrationResult = { images: 0, histories: 0, tasks: 0, failed: 0 };
+
+        try {
+            // 先迁移历史版本，主记录与封面通常与某个历史版本相同，可直接复用
+            result.histories = await this.migrateRepository<XhsImageHistory>(this.imageHistoryRepository, {
+                column: "imageUrl",
+                locate: (row) => ({ taskId: row.taskId, name: `page_${row.pageIndex}_v${row.version}` }),
+                patch: (image) => ({ imageUrl: image.url }),
+            }, stored, result);
+            result.images = await this.migrateRepository<XhsImage>(this.imageRepository, {
+                column: "imageUrl",
+                locate: (row) => ({ taskId: row.taskId, name: `page_${row.pageIndex}_v${row.currentVersion}` }),
+                patch: (image) => ({ imageUrl: image.url, thumbnailUrl: image.thumbnailUrl }),
+            }, stored, result);
+            result.tasks = await this.migrateRepository<XhsTask>(this.taskRepository, {
+                column: "coverImageUrl",
+                locate: (row) => ({ taskId: row.id, name: "cover" }),
+                patch: (image) => ({ coverImageUrl: image.url }),
+            }, stored, result);
+        } finally {
+            this.running = false;
+        }
+
+        this.logger.log(
+            `base64 图片迁移完成：历史 ${result.histories}，图片 ${result.images}，任务 ${result.tasks}，失败 ${result.failed}`,
+        );
+        return result;
+    }
+
+    /**
+     * 按 ID 游标分批迁移某张表的图片字段，返回迁移行数
+     */
+    private async migrateRepository<T extends { id: string }>(
+        repository: Repository<T>,
+        options: {
+            column: keyof T & string;
+            locate: (row: T) => { taskId: string; name: string };
+            /** 落盘后写回的字段 */
+            patch: (image: StoredImage) => QueryDeepPartialEntity<T>;
+        },
+        stored: Map<string, StoredImage>,
+        result: ImageMigrationResult,
+    ): Promise<number> {
+        const { column, locate, patch } = options;
+        let lastId: string | null = null;
+        let migrated = 0;
+
+        while (true) {
+            const qb = repository
+                .createQueryBuilder("row")
+                .where(`row.${column} LIKE :prefix`, { prefix: "data:image/%" })
+                .orderBy("row.id", "ASC")
+                .take(BATCH_SIZE);
+            if (lastId) {
+                qb.andWhere("row.id > :lastId", { lastId });
+            }
+
+            const rows = await qb.getMany();
+            if (rows.length === 0) {
+                return migrated;
+            }
+
+            for (const row of rows) {
+                const dataUrl = row[column] as unknown as string;
+                const hash = createHash("sha1").update(dataUrl).digest("hex");
+                const { taskId, name } = locate(row);
+
+                const image = stored.get(hash) || (await this.storageService.store(dataUrl, taskId, name));
+                if (this.storageService.isDataUrl(image.url)) {
+                    result.failed++;
+                    continue;
+                }
+                stored.set(hash, image);
+
+                await repository.update(row.id, patch(image));
+                migrated++;
+            }
+
+            lastId = rows[rows.length - 1].id;
+        }
+    }
+}
@@ -0,0 +1,212 @@
+import { Injectable, Logger } from "@nestjs/common";
+import axios from "axios";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import sharp from "sharp";
+
+import { IMAGE_STORAGE } from "../constants";
+
+/**
+ * 存储后的图片地址
+ */
+export interface StoredImage {
+    /** 原图稳定URL */
+    url: string;
+    /** 缩略图URL（生成失败时为 null） */
+    thumbnailUrl: string | null;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    "image/png": "png",
+    "image/jpeg": "jpg",
+    "image/jpg": "jpg",
+    "image/webp": "webp",
+    "image/gif": "gif",
+};
+
+/**
+ * 图片存储服务
+ *
+ * 将生成器返回的 base64 data URL 或服务商临时 URL 落盘到插件 storage/ 目录，
+ * 并生成缩略图，返回稳定的访问地址
+ */
+@Injectable()
+export class ImageStorageService {
+    private readonly logger = new Logger(ImageStorageService.name);
+    private readonly storageRoot = this.resolveStorageRoot();
+
+    /**
+     * 存储图片
+     * 已是本地地址时直接返回；下载或写入失败时回退为原始地址，避免影响已计费的生成结果
+     * @param source data URL 或远程 URL
+     * @param taskId 所属任务ID（作为子目录）
+     * @param name 文件名（不含扩展名）
+     */
+    async store(source: string, taskId: string, name: string): Promise<StoredImage> {
+        if (this.isLocalUrl(source)) {
+            return { url: source, thumbnailUrl: this.getThumbnailUrl(source) };
+        }
+
+        try {
+            const { buffer, extension } = this.isDataUrl(source)
+                ? this.decodeDataUrl(source)
+                : await this.download(source);
+
+            const fileName = `${name}-${Date.now().toString(36)}`;
+            const relativePath = `${taskId}/${fileName}.${extension}`;
+            await this.writeFile(relativePath, buffer);
+
+            const url = `${IMAGE_STORAGE.PUBLIC_PREFIX}/${relativePath}`;
+            const thumbnailUrl = await this.createThumbnail(buffer, `${taskId}/${fileName}_thumb.webp`);
+
+            return { url, thumbnailUrl };
+        } catch (error) {
+            this.logger.warn(`图片存储失败，保留原始地址: ${error.message}`);
+            return { url: source, thumbnailUrl: null };
+        }
+    }
+
+    /**
+     * 是否为 base64 data URL
+     */
+    isDataUrl(url: string | null | undefined): boolean {
+        return !!url && url.startsWith("data:image/");
+    }
+
+    /**
+     * 是否为本服务存储的地址
+     */
+    isLocalUrl(url: string | null | undefined): boolean {
+        return !!url && url.startsWith(`${IMAGE_STORAGE.PUBLIC_PREFIX}/`);
+    }
+
+    /**
+     * 获取本地图片对应的缩略图地址（不存在时返回 null）
+     */
+    getThumbnailUrl(url: string): string | null {
+        if (!this.isLocalUrl(url)) {
+            return null;
+        }
+
+        const thumbnailUrl = url.replace(/\.[a-z]+$/i, "_thumb.webp");
+        return existsSync(this.toFilePath(thumbnailUrl)) ? thumbnailUrl : null;
+    }
+
+    /**
+     * 读取本地图片内容（非本地地址返回 null）
+     */
+    async readLocal(url: string): Promise<Buffer | null> {
+        if (!this.isLocalUrl(url)) {
+            return null;
+        }
+        return readFile(this.toFilePath(url));
+    }
+
+    /**
+     * 转换为生成器可用的参考图
+     * 本地地址对外部服务商不可访问，转为 data URL 传递
+     */
+    async toReferenceImages(urls: string[]): Promise<string[]> {
+        return Promise.all(
+            urls.map(async (url) => {
+                if (!this.isLocalUrl(url)) {
+                    return url;
+                }
+
+                try {
+                    const buffer = await readFile(this.toFilePath(url));
+                    const extension = url.split(".").pop()?.toLowerCase() || "png";
+                    const mime = extension === "jpg" ? "image/jpeg" : `image/${extension}`;
+                    return `data:${mime};base64,${buffer.toString("base64")}`;
+                } catch (error) {
+                    this.logger.warn(`读取参考图失败: ${url}`);
+                    return url;
+                }
+            }),
+        );
+    }
+
+    /**
+     * 解码 data URL
+     */
+    private decodeDataUrl(dataUrl: string): { buffer: Buffer; extension: string } {
+        const match = dataUrl.match(/^data:(image\/[a-z+]+);base64,(.+)$/i);
+        if (!match) {
+            throw new Error("无效的图片 data URL");
+        }
+
+        return {
+            buffer: Buffer.from(match[2], "base64"),
+            extension: MIME_EXTENSIONS[match[1].toLowerCase()] || "png",
+        };
+    }
+
+    /**
+     * 下载远程图片
+     */
+    private async download(url: string): Promise<{ buffer: Buffer; extension: string }> {
+        const response = await axios.get<ArrayBuffer>(url, {
+            responseType: "arraybuffer",
+            timeout: IMAGE_STORAGE.DOWNLOAD_TIMEOUT,
+            maxContentLength: IMAGE_STORAGE.MAX_DOWNLOAD_SIZE,
+        });
+
+        const contentType = String(response.headers["content-type"] || "").split(";")[0].trim();
+        return {
+            buffer: Buffer.from(response.data),
+            extension: MIME_EXTENSIONS[contentType.toLowerCase()] || "png",
+        };
+    }
+
+    /**
+     * 生成缩略图，失败时返回 null
+     */
+    private async createThumbnail(buffer: Buffer, relativePath: string): Promise<string | null> {
+        try {
+            const thumbnail = await sharp(buffer)
+                .resize({ width: IMAGE_STORAGE.THUMBNAIL_WIDTH, withoutEnlargement: true })
+                .webp({ quality: 80 })
+                .toBuffer();
+            await this.writeFile(relativePath, thumbnail);
+            return `${IMAGE_STORAGE.PUBLIC_PREFIX}/${relativePath}`;
+        } catch (error) {
+            this.logger.warn(`缩略图生成失败: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * 写入存储目录
+     */
+    private async writeFile(relativePath: string, buffer: Buffer): Promise<void> {
+        const filePath = join(this.storageRoot, IMAGE_STORAGE.DIR, relativePath);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, buffer);
+    }
+
+    /**
+     * 本地访问地址转换为文件路径
+     */
+    private toFilePath(url: string): string {
+        const relativePath = url.slice(IMAGE_STORAGE.PUBLIC_PREFIX.length + 1).split("?")[0];
+        if (relativePath.split("/").includes("..")) {
+            throw new Error("非法的图片路径");
+        }
+        return join(this.storageRoot, IMAGE_STORAGE.DIR, relativePath);
+    }
+
+    /**
+     * 定位插件 storage/ 目录（向上查找 manifest.json 所在的插件根目录）
+     */
+    private resolveStorageRoot(): string {
+        let dir = __dirname;
+        while (dir !== dirname(dir)) {
+            if (existsSync(join(dir, "manifest.json"))) {
+                return join(dir, "storage");
+            }
+            dir = dirname(dir);
+        }
+        return join(process.cwd(), "storage");
+    }
+}
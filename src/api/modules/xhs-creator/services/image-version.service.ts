@@ -1,14 +1,16 @@
 import { Injectable, Logger } from "@nestjs/common";
-import { Repository, EntityManager } from "@buildingai/db/typeorm";
+import { IsNull, Repository, EntityManager } from "@buildingai/db/typeorm";
 import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
 
 import { XhsImage, ImageStatus } from "../../../db/entities/xhs-image.entity";
 import { XhsImageHistory } from "../../../db/entities/xhs-image-history.entity";
+import { ImageStorageService } from "./image-storage.service";
+import { BillingLedgerService } from "./billing-ledger.service";
 
 /**
  * 版本生成类型
  */
-export type GeneratedBy = "initial" | "single-regenerate" | "batch-regenerate";
+export type GeneratedBy = "initial" | "single-regenerate" | "batch-regenerate" | "cover-variant";
 
 /**
  * 保存版本选项
@@ -20,6 +22,16 @@ export interface SaveVersionOptions {
     prompt: string;
     generatedBy: GeneratedBy;
     powerAmount: number;
+    /** 生成该版本的模型 */
+    generatedModel?: string | null;
+}
+
+/**
+ * 页面定位：优先按页面ID关联图片，未关联页面ID的旧图片按页面索引
+ */
+export interface PageRef {
+    index: number;
+    id?: string | null;
 }
 
 /**
@@ -35,13 +47,15 @@ export class ImageVersionService {
         private readonly imageRepository: Repository<XhsImage>,
         @InjectRepository(XhsImageHistory)
         private readonly imageHistoryRepository: Repository<XhsImageHistory>,
+        private readonly storageService: ImageStorageService,
+        private readonly ledgerService: BillingLedgerService,
     ) {}
 
     /**
      * 保存图片版本记录
      */
     async saveVersion(options: SaveVersionOptions): Promise<void> {
-        const { imageRecord, taskId, imageUrl, prompt, generatedBy, powerAmount } = options;
+        const { imageRecord, taskId, imageUrl, prompt, generatedBy, powerAmount, generatedModel } = options;
 
         try {
             // 将之前的版本设置为非当前版本
@@ -54,15 +68,20 @@ export class ImageVersionService {
             await this.imageHistoryRepository.save({
                 imageId: imageRecord.id,
                 taskId,
+                pageId: imageRecord.pageId,
                 pageIndex: imageRecord.pageIndex,
                 version: imageRecord.currentVersion,
                 imageUrl,
                 prompt,
                 generatedBy,
                 powerAmount,
+                generatedModel: generatedModel || null,
                 isCurrent: true,
             });
 
+            // 计费账本关联到生成的版本
+            await this.ledgerService.attachVersion(imageRecord.id, imageRecord.currentVersion);
+
             this.logger.debug(
                 `保存图片版本: imageId=${imageRecord.id}, version=${imageRecord.currentVersion}, generatedBy=${generatedBy}`,
             );
@@ -72,12 +91,32 @@ export class ImageVersionService {
         }
     }
 
+    /**
+     * 查找页面的图片记录
+     * 传入页面ID时按ID查找（调整页面顺序后索引可能尚未重新映射），找不到时按索引查找未关联页面ID的旧图片
+     */
+    async findImage(taskId: string, page: PageRef): Promise<XhsImage | null> {
+        if (!page.id) {
+            return await this.imageRepository.findOne({ where: { taskId, pageIndex: page.index } });
+        }
+
+        return (
+            (await this.imageRepository.findOne({ where: { taskId, pageId: page.id } })) ||
+            (await this.imageRepository.findOne({ where: { taskId, pageIndex: page.index, pageId: IsNull() } }))
+        );
+    }
+
     /**
      * 获取图片的所有历史版本
      */
-    async getVersions(taskId: string, pageIndex: number): Promise<XhsImageHistory[]> {
+    async getVersions(taskId: string, page: PageRef): Promise<XhsImageHistory[]> {
+        const imageRecord = await this.findImage(taskId, page);
+        if (!imageRecord) {
+            return [];
+        }
+
         return await this.imageHistoryRepository.find({
-            where: { taskId, pageIndex },
+            where: { imageId: imageRecord.id },
             order: { version: "DESC" },
         });
     }
@@ -87,11 +126,16 @@ export class ImageVersionService {
      */
     async getVersion(
         taskId: string,
-        pageIndex: number,
+        page: PageRef,
         version: number,
     ): Promise<XhsImageHistory | null> {
+        const imageRecord = await this.findImage(taskId, page);
+        if (!imageRecord) {
+            return null;
+        }
+
         return await this.imageHistoryRepository.findOne({
-            where: { taskId, pageIndex, version },
+            where: { imageId: imageRecord.id, version },
         });
     }
 
@@ -101,23 +145,23 @@ export class ImageVersionService {
      */
     async restoreVersion(
         taskId: string,
-        pageIndex: number,
+        page: PageRef,
         version: number,
     ): Promise<string> {
-        // 获取要恢复的版本
-        const versionRecord = await this.getVersion(taskId, pageIndex, version);
-        if (!versionRecord) {
-            throw new Error(`版本 v${version} 不存在`);
-        }
-
         // 获取当前图片记录
-        const imageRecord = await this.imageRepository.findOne({
-            where: { taskId, pageIndex },
-        });
+        const imageRecord = await this.findImage(taskId, page);
         if (!imageRecord) {
             throw new Error("图片记录不存在");
         }
 
+        // 获取要恢复的版本
+        const versionRecord = await this.imageHistoryRepository.findOne({
+            where: { imageId: imageRecord.id, version },
+        });
+        if (!versionRecord) {
+            throw new Error(`版本 v${version} 不存在`);
+        }
+
         // 在事务中执行版本切换
         await this.imageRepository.manager.transaction(async (manager) => {
             // 1. 将该图片的所有版本的 isCurrent 设为 false
@@ -135,7 +179,9 @@ export class ImageVersionService {
             // 3. 更新主记录，指向恢复的版本
             await manager.update(this.imageRepository.target, imageRecord.id, {
                 imageUrl: versionRecord.imageUrl,
+                thumbnailUrl: this.storageService.getThumbnailUrl(versionRecord.imageUrl),
                 currentVersion: version,
+                generatedModel: versionRecord.generatedModel,
                 status: ImageStatus.COMPLETED,
             });
         });
@@ -150,10 +196,8 @@ export class ImageVersionService {
     /**
      * 获取当前版本号
      */
-    async getCurrentVersion(taskId: string, pageIndex: number): Promise<number> {
-        const imageRecord = await this.imageRepository.findOne({
-            where: { taskId, pageIndex },
-        });
+    async getCurrentVersion(taskId: string, page: PageRef): Promise<number> {
+        const imageRecord = await this.findImage(taskId, page);
         return imageRecord?.currentVersion || 0;
     }
 
@@ -1,17 +1,57 @@
 import { Injectable, Logger, MessageEvent } from "@nestjs/common";
 import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
-import { Repository } from "@buildingai/db/typeorm";
+import { In, Repository } from "@buildingai/db/typeorm";
 import { Observable, Subject } from "rxjs";
 
-import { XhsTask, TaskStatus } from "../../../db/entities/xhs-task.entity";
+import {
+    XhsTask,
+    TaskStatus,
+    GenerationPreferences,
+    PagePromptOverride,
+} from "../../../db/entities/xhs-task.entity";
 import { XhsImage, ImageStatus } from "../../../db/entities/xhs-image.entity";
 import { XhsImageHistory } from "../../../db/entities/xhs-image-history.entity";
-import { BaseGenerator } from "../generators";
+import { COVER_VARIANTS } from "../constants";
+import { ImageGenerateOptions } from "../generators";
 import { XhsConfigService } from "./xhs-config.service";
-import { BillingService } from "./billing.service";
-import { ImageVersionService } from "./image-version.service";
-import { GeneratorResolverService } from "./generator-resolver.service";
+import { BillingService, SpendLimitExceededError } from "./billing.service";
+import { ImageVersionService, PageRef } from "./image-version.service";
+import { GeneratorResolverService, ResolvedImageGenerator } from "./generator-resolver.service";
 import { ImagePromptService } from "./image-prompt.service";
+import { ImageStorageService } from "./image-storage.service";
+import { ImageRetryAttempt, ImageRetryService } from "./image-retry.service";
+import { PageLayoutService } from "./page-layout.service";
+import { ComplianceService } from "./compliance.service";
+
+/**
+ * 单张图片生成过程中的重试 / 故障转移通知
+ */
+interface ImageAttemptListener {
+    onRetry?: (retry: ImageRetryAttempt) => void;
+    onFailover?: (from: ResolvedImageGenerator, to: ResolvedImageGenerator, error: Error) => void;
+}
+
+/**
+ * 等待用户选择的封面候选
+ * 生成流程在推送 cover_variants 后结束，选定封面后内容页重新入队生成
+ */
+export interface PendingCoverSelection {
+    /** 封面页面索引 */
+    pageIndex: number;
+    /** 候选版本号 */
+    versions: number[];
+    /** 选定封面后继续生成的内容页 */
+    pages: Array<{
+        id?: string;
+        index: number;
+        type: "cover" | "content" | "summary";
+        content: string;
+        styleId?: string | null;
+        promptOverride?: PagePromptOverride | null;
+    }>;
+    fullOutline: string;
+    isRegenerate?: boolean;
+}
 
 /**
  * 图片生成服务
@@ -21,6 +61,8 @@ import { ImagePromptService } from "./image-prompt.service";
 @Injectable()
 export class ImageService {
     private readonly logger = new Logger(ImageService.name);
+    /** 批量生成中的积分冻结：taskId -> 冻结记录ID */
+    private readonly batchHolds = new Map<string, string>();
 
     constructor(
         @InjectRepository(XhsTask)
@@ -34,223 +76,577 @@ export class ImageService {
         private readonly versionService: ImageVersionService,
         private readonly generatorResolver: GeneratorResolverService,
         private readonly promptService: ImagePromptService,
+        private readonly storageService: ImageStorageService,
+        private readonly retryService: ImageRetryService,
+        private readonly pageLayoutService: PageLayoutService,
+        private readonly complianceService: ComplianceService,
     ) {}
 
 
 
     /**
-     * 批量生成图片（SSE流式返回）
+     * 批量生成图片（由 GenerationJobService 在后台队列中调用）
+     * 进度事件写入 subject，异常时推送错误事件并将任务标记为失败
      * @param taskId 任务ID
      * @param pages 页面列表
      * @param fullOutline 完整大纲文本
+     * @param subject 事件输出
      * @param isRegenerate 是否为批量重绘（全部重绘）
+     * @param preferences 图片生成偏好（比例、模型、清晰度），会保存到任务上
+     * @param signal 取消信号
+     * @param coverVariants 封面候选数，大于 1 时并行生成多张封面供用户选择
+     * @param pageIds 当前大纲的页面ID顺序，传入时先按ID重新映射已有图片的页面位置
+     * @param submittedAt 提交时间，取消时只退回此后扣除的积分
+     * @returns 生成了多张封面候选时返回等待选择的候选，内容页由调用方在选定封面后重新入队
      */
-    generateImages(
+    async runGeneration(
         taskId: string,
         pages: Array<{
+            id?: string;
             index: number;
             type: "cover" | "content" | "summary";
             content: string;
+            styleId?: string | null;
+            promptOverride?: PagePromptOverride | null;
         }>,
         fullOutline: string,
+        subject: Subject<MessageEvent>,
         isRegenerate?: boolean,
-    ): Observable<any> {
-        const subject = new Subject<any>();
+        preferences?: GenerationPreferences,
+        signal?: AbortSignal,
+        coverVariants?: number,
+        pageIds?: string[],
+        submittedAt?: Date,
+    ): Promise<PendingCoverSelection | null> {
+        try {
+            return await this.executeGeneration(
+                taskId,
+                pages,
+                fullOutline,
+                subject,
+                isRegenerate,
+                preferences,
+                false,
+                signal,
+                coverVariants,
+                pageIds,
+                submittedAt,
+            );
+        } catch (error) {
+            await this.failGeneration(taskId, subject, error);
+            return null;
+        }
+    }
 
-        // 异步执行生成流程
-        this.executeGeneration(taskId, pages, fullOutline, subject, isRegenerate).catch((error) => {
-            subject.next({
-                data: JSON.stringify({
-                    type: "error",
-                    message: error.message,
-                }),
-            } as MessageEvent);
-            subject.complete();
+    /**
+     * 续跑中断的生成任务（服务重启或任务重试）
+     * 只生成尚未完成的页面，已完成和已失败的页面保持不变
+     * @param submitted 入队时提交的生成参数，传入时按提交的页面续跑（而不是任务当前保存的页面）
+     * @param submittedAt 提交时间，提交的页面在此之后没有生成新图片的同样需要生成
+     * @returns 同 runGeneration
+     */
+    async resumeGeneration(
+        taskId: string,
+        subject: Subject<MessageEvent>,
+        signal?: AbortSignal,
+        submitted?: {
+            pages: Array<{
+                id?: string;
+                index: number;
+                type: "cover" | "content" | "summary";
+                content: string;
+                styleId?: string | null;
+                promptOverride?: PagePromptOverride | null;
+            }>;
+            fullOutline?: string;
+            isRegenerate?: boolean;
+            preferences?: GenerationPreferences;
+            coverVariants?: number;
+            pageIds?: string[];
+        },
+        submittedAt?: Date,
+    ): Promise<PendingCoverSelection | null> {
+        try {
+            const task = await this.taskRepository.findOne({ where: { id: taskId } });
+            if (!task) {
+                throw new Error("任务不存在");
+            }
+
+            const images = await this.imageRepository.find({ where: { taskId } });
+            const remainingPages = (submitted?.pages || task.pages || []).filter((page) => {
+                const image = images.find((img) =>
+                    page.id && img.pageId ? img.pageId === page.id : img.pageIndex === page.index,
+                );
+                if (!image || image.status === ImageStatus.PENDING || image.status === ImageStatus.GENERATING) {
+                    return true;
+                }
+                // 提交后尚未开始生成就中断（如服务重启）的页面仍是旧图片
+                return (
+                    !!submitted &&
+                    !!submittedAt &&
+                    image.status === ImageStatus.COMPLETED &&
+                    (!image.generatedAt || image.generatedAt < submittedAt)
+                );
+            });
+
+            this.logger.log(`续跑任务 ${taskId}，剩余 ${remainingPages.length} 页`);
+
+            return await this.executeGeneration(
+                taskId,
+                remainingPages,
+                submitted?.fullOutline ?? (task.outline || ""),
+                subject,
+                submitted?.isRegenerate ?? false,
+                submitted?.preferences,
+                true,
+                signal,
+                submitted?.coverVariants,
+                submitted?.pageIds,
+                submittedAt,
+            );
+        } catch (error) {
+            await this.failGeneration(taskId, subject, error);
+            return null;
+        }
+    }
+
+    /**
+     * 生成流程异常：推送错误事件并标记任务失败
+     */
+    private async failGeneration(taskId: string, subject: Subject<MessageEvent>, error: Error): Promise<void> {
+        this.logger.error(`任务 ${taskId} 图片生成失败: ${error.message}`);
+
+        await this.taskRepository.update(taskId, {
+            status: TaskStatus.FAILED,
+            errorMessage: error.message,
         });
 
-        return subject.asObservable();
+        subject.next(
+            error instanceof SpendLimitExceededError
+                ? this.createBudgetExceededEvent(error)
+                : ({
+                      data: JSON.stringify({
+                          type: "error",
+                          message: error.message,
+                      }),
+                  } as MessageEvent),
+        );
+        subject.complete();
+    }
+
+    /**
+     * 超出消费上限或任务预算：本轮未生成的页面标记为失败（调高预算后可重试失败页面），推送 budget_exceeded 事件
+     * @param pageIndexes 本轮生成的页面索引
+     */
+    private async stopForBudget(
+        task: XhsTask,
+        pageIndexes: number[],
+        subject: Subject<MessageEvent>,
+        error: SpendLimitExceededError,
+    ): Promise<void> {
+        const images = await this.imageRepository.find({ where: { taskId: task.id, pageIndex: In(pageIndexes) } });
+        const stoppedImages = images.filter(
+            (image) => image.status === ImageStatus.PENDING || image.status === ImageStatus.GENERATING,
+        );
+
+        if (stoppedImages.length > 0) {
+            await this.imageRepository.update(
+                { id: In(stoppedImages.map((image) => image.id)) },
+                { status: ImageStatus.FAILED, errorMessage: error.message },
+            );
+        }
+
+        task.status = TaskStatus.FAILED;
+        task.errorMessage = error.message;
+        await this.taskRepository.save(task);
+
+        this.logger.warn(`任务 ${task.id} 停止生成（${error.message}），${stoppedImages.length} 页未生成`);
+
+        subject.next(
+            this.createBudgetExceededEvent(
+                error,
+                stoppedImages.map((image) => image.pageIndex),
+            ),
+        );
+        subject.complete();
+    }
+
+    /**
+     * 构造超出消费上限或任务预算的事件
+     * @param pageIndexes 因此未生成的页面
+     */
+    private createBudgetExceededEvent(error: SpendLimitExceededError, pageIndexes: number[] = []): MessageEvent {
+        return {
+            data: JSON.stringify({
+                type: "budget_exceeded",
+                scope: error.scope,
+                limit: error.limit,
+                spent: error.spent,
+                required: error.required,
+                pageIndexes,
+                message: error.message,
+            }),
+        } as MessageEvent;
+    }
+
+    /**
+     * 取消生成的收尾：退回未完成页面本轮已扣的积分，并标记为已取消
+     * @param pageIndexes 本轮生成的页面索引
+     * @param since 本轮提交时间，只退回此后扣除且未退回的积分（之前版本的扣费不退），未传时不退积分
+     */
+    async cancelGeneration(
+        taskId: string,
+        pageIndexes: number[],
+        subject: Subject<MessageEvent>,
+        since?: Date,
+    ): Promise<void> {
+        const task = await this.taskRepository.findOne({ where: { id: taskId } });
+        if (!task) {
+            throw new Error("任务不存在");
+        }
+
+        const cancelMessage = "用户已取消生成";
+        const images = pageIndexes.length > 0
+            ? await this.imageRepository.find({ where: { taskId, pageIndex: In(pageIndexes) } })
+            : [];
+        const cancelledImages = images.filter((image) => image.status !== ImageStatus.COMPLETED);
+
+        let refundedPower = 0;
+        if (since) {
+            for (const image of cancelledImages) {
+                // 进行中的请求被中断时 executeWithBilling 已回退，这里兜底处理本轮已扣费但尚未发起请求的页面
+                refundedPower += await this.billingService.refundImageChargesSince(
+                    task.userId,
+                    image.id,
+                    image.pageType,
+                    since,
+                    cancelMessage,
+                );
+            }
+        }
+
+        if (cancelledImages.length > 0) {
+            await this.imageRepository.update(
+                { id: In(cancelledImages.map((image) => image.id)) },
+                { status: ImageStatus.CANCELLED, errorMessage: cancelMessage },
+            );
+        }
+
+        await this.taskRepository.update(taskId, {
+            status: TaskStatus.FAILED,
+            errorMessage: cancelMessage,
+        });
+
+        this.logger.log(`任务 ${taskId} 已取消，${cancelledImages.length} 页未生成，补充退回积分 ${refundedPower}`);
+
+        subject.next({
+            data: JSON.stringify({
+                type: "cancelled",
+                pageIndexes: cancelledImages.map((image) => image.pageIndex),
+                message: "已取消生成，未完成页面的积分已退回",
+            }),
+        } as MessageEvent);
+        subject.complete();
     }
 
     /**
      * 执行图片生成流程
+     * @param resumed 是否为续跑（保留任务原有总页数）
+     * @param signal 取消信号，触发后不再发起新的请求，结束时统一收尾
+     * @param coverVariants 封面候选数
+     * @param pageIds 当前大纲的页面ID顺序
+     * @param submittedAt 提交时间，取消时只退回此后扣除的积分，未传时按本次执行开始时间
+     * @returns 等待用户选择的封面候选，此时内容页尚未生成，事件流保持打开
      */
     private async executeGeneration(
         taskId: string,
         pages: Array<{
+            id?: string;
             index: number;
             type: "cover" | "content" | "summary";
             content: string;
+            styleId?: string | null;
+            promptOverride?: PagePromptOverride | null;
         }>,
         fullOutline: string,
         subject: Subject<MessageEvent>,
         isRegenerate?: boolean,
-    ) {
+        preferences?: GenerationPreferences,
+        resumed?: boolean,
+        signal?: AbortSignal,
+        coverVariants?: number,
+        pageIds?: string[],
+        submittedAt?: Date,
+    ): Promise<PendingCoverSelection | null> {
+        const runSince = submittedAt || new Date();
+
         // 获取任务
         const task = await this.taskRepository.findOne({ where: { id: taskId } });
         if (!task) {
             throw new Error("任务不存在");
         }
 
+        // 大纲调整过页面顺序（未保存）时，已有图片按页面ID跟随新位置
+        if (pageIds?.length) {
+            await this.applyPageLayout(task, pageIds);
+        }
+
+        // 合并本次传入的生成偏好、页面风格和提示词覆盖，随任务状态一起保存
+        this.mergePreferences(task, preferences);
+        this.syncPageSettings(task, pages);
+
         // 获取配置
         const config = await this.configService.getConfig();
 
-        // 计算总积分需求
-        const totalPowerRequired = await this.billingService.calculateTotalPower(pages);
-
-        this.logger.debug(
-            `任务 ${taskId} 总积分需求: ${totalPowerRequired}，共 ${pages.length} 张图片`,
-        );
+        // 封面候选数（多出的候选按封面单价计费）
+        const coverPage = pages.find((p) => p.type === "cover");
+        const variantCount = coverPage ? Math.min(Math.max(coverVariants || 1, 1), COVER_VARIANTS.MAX) : 1;
+
+        // 冻结整批需付费的积分（扣除剩余免费次数），避免其他任务在生成中途消耗余额
+        let holdId: string | undefined;
+        let generators: ResolvedImageGenerator[];
+        try {
+            // 获取图片生成服务商（主模型 + 备用模型故障转移链），选择了模型版本时只保留支持该版本的模型
+            generators = this.filterByModelVersion(
+                await this.generatorResolver.resolveChain(),
+                task.generationPreferences?.model,
+            );
 
-        // 验证用户余额
-        const hasSufficient = await this.billingService.hasSufficientBalance(
-            task.userId,
-            totalPowerRequired,
-        );
+            // 会员等级限制每个任务的最大页数（按大纲总页数计，重绘部分页面也不能超出）
+            const { maxPages } = await this.billingService.getPowerConfig(task.userId);
+            const pageCount = pageIds?.length || Math.max(pages.length, task.totalPages || 0);
+            if (maxPages && pageCount > maxPages) {
+                throw new Error(`当前会员等级每个任务最多生成 ${maxPages} 页，请删减大纲页面后重试`);
+            }
 
-        if (!hasSufficient) {
-            const errorMsg = `余额不足，需要 ${totalPowerRequired} 积分，请充值后重试`;
+            holdId = (
+                await this.billingService.reserveBatch(
+                    task.userId,
+                    taskId,
+                    pages,
+                    task.generationPreferences?.quality,
+                    variantCount - 1,
+                )
+            )?.id;
+        } catch (error) {
+            const errorMsg = error.message;
             task.status = TaskStatus.FAILED;
             task.errorMessage = errorMsg;
             await this.taskRepository.save(task);
 
-            subject.next({
-                data: JSON.stringify({
-                    type: "error",
-                    message: errorMsg,
-                }),
-            } as MessageEvent);
+            subject.next(
+                error instanceof SpendLimitExceededError
+                    ? this.createBudgetExceededEvent(error)
+                    : ({
+                          data: JSON.stringify({
+                              type: "error",
+                              message: errorMsg,
+                          }),
+                      } as MessageEvent),
+            );
             subject.complete();
 
-            this.logger.warn(`任务 ${taskId} 余额不足: ${errorMsg}`);
-            return;
+            this.logger.warn(`任务 ${taskId} 无法开始生成: ${errorMsg}`);
+            return null;
         }
 
-        // 更新任务状态
-        task.status = TaskStatus.GENERATING_IMAGES;
-        task.totalPages = pages.length;
-        await this.taskRepository.save(task);
-
-        // 获取图片生成服务商
-        const generator: BaseGenerator = await this.generatorResolver.resolve();
-
-        // 创建或更新图片记录
-        for (const page of pages) {
-            let imageRecord = await this.imageRepository.findOne({
-                where: { taskId, pageIndex: page.index },
-            });
+        if (holdId) {
+            this.batchHolds.set(taskId, holdId);
+        }
 
-            if (isRegenerate && imageRecord) {
-                // 批量重绘：重置状态，保留版本号
-                imageRecord.status = ImageStatus.PENDING;
-                imageRecord.errorMessage = null as any;  // nullable column
-                await this.imageRepository.save(imageRecord);
-            } else if (!imageRecord) {
-                // 首次生成：创建新记录
-                imageRecord = this.imageRepository.create({
-                    taskId,
-                    pageIndex: page.index,
-                    pageType: page.type,
-                    prompt: this.extractImagePrompt(page.content),
-                    status: ImageStatus.PENDING,
-                });
-                await this.imageRepository.save(imageRecord);
+        try {
+            // 更新任务状态
+            task.status = TaskStatus.GENERATING_IMAGES;
+            if (!resumed) {
+                task.totalPages = pages.length;
             }
-        }
+            await this.taskRepository.save(task);
 
-        // 第一阶段：生成封面
-        const coverPage = pages.find((p) => p.type === "cover");
-        let coverImageUrl: string | null = null;
+            // 创建或更新图片记录
+            for (const page of pages) {
+                const pageRef = this.toPageRef(task, page.index, page.id);
+                let imageRecord = await this.versionService.findImage(taskId, pageRef);
 
-        if (coverPage) {
-            subject.next({
-                data: JSON.stringify({
-                    type: "progress",
-                    stage: "cover",
-                    current: 0,
-                    total: pages.length,
-                    message: "正在生成封面...",
-                }),
-            } as MessageEvent);
+                if (imageRecord && this.resetImageCharge(imageRecord)) {
+                    await this.imageRepository.save(imageRecord);
+                }
 
-            try {
-                coverImageUrl = await this.generateSingleImage(
-                    task,
-                    coverPage,
-                    generator,
-                    task.userImages,
-                    task.outline,
-                    undefined,
-                    isRegenerate,
-                );
+                if (isRegenerate && imageRecord) {
+                    // 批量重绘：重置状态，保留版本号
+                    imageRecord.status = ImageStatus.PENDING;
+                    imageRecord.errorMessage = null;
+                    await this.imageRepository.save(imageRecord);
+                } else if (!imageRecord) {
+                    // 首次生成：创建新记录
+                    imageRecord = this.imageRepository.create({
+                        taskId,
+                        pageId: pageRef.id,
+                        pageIndex: page.index,
+                        pageType: page.type,
+                        prompt: this.extractImagePrompt(page.content),
+                        status: ImageStatus.PENDING,
+                    });
+                    await this.imageRepository.save(imageRecord);
+                }
+            }
 
-                // 保存封面URL到任务
-                task.coverImageUrl = coverImageUrl;
-                task.generatedPages = 1;
-                await this.taskRepository.save(task);
+            // 第一阶段：生成封面
+            let coverImageUrl: string | null = null;
+            let pendingVersions: number[] | null = null;
 
+            if (coverPage && !signal?.aborted) {
                 subject.next({
                     data: JSON.stringify({
-                        type: "complete",
-                        pageIndex: coverPage.index,
-                        imageUrl: coverImageUrl,
-                    }),
-                } as MessageEvent);
-            } catch (error) {
-                subject.next({
-                    data: JSON.stringify({
-                        type: "error",
-                        pageIndex: coverPage.index,
-                        message: error.message,
+                        type: "progress",
+                        stage: "cover",
+                        current: 0,
+                        total: pages.length,
+                        message: "正在生成封面...",
                     }),
                 } as MessageEvent);
+
+                try {
+                    if (variantCount > 1) {
+                        const cover = await this.generateCoverVariants(
+                            task,
+                            coverPage,
+                            generators,
+                            variantCount,
+                            subject,
+                            isRegenerate,
+                            signal,
+                        );
+                        coverImageUrl = cover.imageUrl;
+                        pendingVersions = cover.pendingVersions;
+                    } else {
+                        coverImageUrl = await this.generateSingleImage(
+                            task,
+                            coverPage,
+                            generators,
+                            task.userImages,
+                            task.outline,
+                            undefined,
+                            isRegenerate,
+                            signal,
+                            this.createAttemptListener(subject, coverPage.index, "封面"),
+                        );
+                    }
+
+                    // 保存封面URL到任务（等待选择时先使用第一张候选）
+                    task.coverImageUrl = coverImageUrl;
+                    task.generatedPages = 1;
+                    await this.taskRepository.save(task);
+
+                    // 等待选择时在选定后推送封面完成事件
+                    if (!pendingVersions) {
+                        subject.next({
+                            data: JSON.stringify({
+                                type: "complete",
+                                pageIndex: coverPage.index,
+                                imageUrl: coverImageUrl,
+                            }),
+                        } as MessageEvent);
+                    }
+                } catch (error) {
+                    // 超出消费上限时停止整个生成流程
+                    if (error instanceof SpendLimitExceededError) {
+                        throw error;
+                    }
+                    // 取消导致的失败不推送错误，由取消收尾统一通知
+                    if (!signal?.aborted) {
+                        subject.next({
+                            data: JSON.stringify({
+                                type: "error",
+                                pageIndex: coverPage.index,
+                                message: error.message,
+                            }),
+                        } as MessageEvent);
+                    }
+                }
             }
-        }
 
-        // 第二阶段：生成内容页
-        const contentPages = pages.filter((p) => p.type !== "cover");
-        const referenceImages = coverImageUrl ? [coverImageUrl] : task.userImages;
+            // 第二阶段：生成内容页
+            const contentPages = pages.filter((p) => p.type !== "cover");
 
-        // 读取配置，决定是否启用高并发模式（参照 RedInk）
-        const highConcurrency = !!config.highConcurrency;
+            // 等待用户选择封面：结束本次执行以释放队列并发名额，选定后内容页重新入队生成
+            if (coverPage && pendingVersions && !signal?.aborted) {
+                this.logger.log(`任务 ${taskId} 等待选择封面候选，${contentPages.length} 页内容页待选定后生成`);
+                return {
+                    pageIndex: coverPage.index,
+                    versions: pendingVersions,
+                    pages: contentPages,
+                    fullOutline,
+                    isRegenerate,
+                };
+            }
+            // 本轮未生成封面时（续跑、增量重绘）沿用任务已有封面
+            const referenceCover = coverImageUrl || (coverPage ? null : task.coverImageUrl);
+            const referenceImages = referenceCover
+                ? await this.storageService.toReferenceImages([referenceCover])
+                : task.userImages;
+
+            // 读取配置，决定是否启用高并发模式（参照 RedInk）
+            const highConcurrency = !!config.highConcurrency;
+
+            if (highConcurrency) {
+                // 高并发模式：并行生成所有内容页
+                await this.executeHighConcurrencyGeneration(
+                    taskId,
+                    contentPages,
+                    generators,
+                    referenceImages,
+                    fullOutline,
+                    task,
+                    subject,
+                    isRegenerate,
+                    signal,
+                );
+            } else {
+                // 顺序模式：逐页生成（当前默认行为）
+                await this.executeSequentialGeneration(
+                    taskId,
+                    contentPages,
+                    generators,
+                    referenceImages,
+                    fullOutline,
+                    task,
+                    subject,
+                    isRegenerate,
+                    signal,
+                );
+            }
 
-        if (highConcurrency) {
-            // 高并发模式：并行生成所有内容页
-            await this.executeHighConcurrencyGeneration(
-                taskId,
-                contentPages,
-                generator,
-                referenceImages,
-                fullOutline,
-                task,
-                subject,
-                isRegenerate,
-            );
-        } else {
-            // 顺序模式：逐页生成（当前默认行为）
-            await this.executeSequentialGeneration(
-                taskId,
-                contentPages,
-                generator,
-                referenceImages,
-                fullOutline,
-                task,
-                subject,
-                isRegenerate,
-            );
-        }
+            if (signal?.aborted) {
+                await this.cancelGeneration(taskId, pages.map((page) => page.index), subject, runSince);
+                return null;
+            }
 
-        // 完成
-        task.status = TaskStatus.COMPLETED;
-        await this.taskRepository.save(task);
+            // 完成
+            task.status = TaskStatus.COMPLETED;
+            await this.taskRepository.save(task);
 
-        subject.next({
-            data: JSON.stringify({
-                type: "finish",
-                message: "所有图片生成完成",
-            }),
-        } as MessageEvent);
+            subject.next({
+                data: JSON.stringify({
+                    type: "finish",
+                    message: "所有图片生成完成",
+                }),
+            } as MessageEvent);
 
-        subject.complete();
+            subject.complete();
+            return null;
+        } catch (error) {
+            if (!(error instanceof SpendLimitExceededError)) {
+                throw error;
+            }
+            await this.stopForBudget(task, pages.map((page) => page.index), subject, error);
+            return null;
+        } finally {
+            // 结束冻结：已成功的页面均已结算，失败、取消和未生成页面的份额释放
+            if (holdId) {
+                this.batchHolds.delete(taskId);
+                await this.billingService.releaseHold(holdId);
+            }
+        }
     }
 
     /**
@@ -260,12 +656,13 @@ export class ImageService {
     private async executeHighConcurrencyGeneration(
         taskId: string,
         contentPages: Array<{ index: number; type: "cover" | "content" | "summary"; content: string }>,
-        generator: BaseGenerator,
+        generators: ResolvedImageGenerator[],
         referenceImages: string[],
         fullOutline: string,
         task: XhsTask,
         subject: Subject<MessageEvent>,
         isRegenerate?: boolean,
+        signal?: AbortSignal,
     ): Promise<void> {
         // 并发限制：最多同时生成 3 张图片
         const MAX_CONCURRENCY = 3;
@@ -284,6 +681,8 @@ export class ImageService {
 
         let completedCount = 0;
         let successCount = 0;
+        // 超出消费上限后不再派发新页面
+        let budgetError: SpendLimitExceededError | null = null;
 
         // 使用简单的并发限制器
         const results: Array<{ page: typeof contentPages[0]; imageUrl?: string; error?: Error }> = [];
@@ -295,11 +694,13 @@ export class ImageService {
                 const imageUrl = await this.generateSingleImage(
                     task,
                     page,
-                    generator,
+                    generators,
                     referenceImages,
                     fullOutline,
                     undefined,
                     isRegenerate,
+                    signal,
+                    this.createAttemptListener(subject, page.index, `第${idx + 1}页`),
                 );
 
                 completedCount++;
@@ -329,6 +730,15 @@ export class ImageService {
                 completedCount++;
                 results.push({ page, error: error as Error });
 
+                if (error instanceof SpendLimitExceededError) {
+                    budgetError = budgetError || error;
+                    return;
+                }
+
+                if (signal?.aborted) {
+                    return;
+                }
+
                 this.logger.error(`第${idx + 1}页生成失败:`, error);
 
                 subject.next({
@@ -341,10 +751,10 @@ export class ImageService {
             }
         };
 
-        // 并发控制循环
-        while (queue.length > 0 || executing.size > 0) {
+        // 并发控制循环（取消后不再派发新页面，只等待进行中的请求结束）
+        while ((queue.length > 0 && !signal?.aborted && !budgetError) || executing.size > 0) {
             // 填充执行队列到最大并发数
-            while (queue.length > 0 && executing.size < MAX_CONCURRENCY) {
+            while (queue.length > 0 && executing.size < MAX_CONCURRENCY && !signal?.aborted && !budgetError) {
                 const [idx, page] = queue.shift()!;
                 const promise = runTask(idx, page).finally(() => {
                     executing.delete(promise);
@@ -365,6 +775,10 @@ export class ImageService {
             task.generatedPages += successCount;
             await this.taskRepository.save(task);
         }
+
+        if (budgetError) {
+            throw budgetError;
+        }
     }
 
     /**
@@ -374,17 +788,23 @@ export class ImageService {
     private async executeSequentialGeneration(
         taskId: string,
         contentPages: Array<{ index: number; type: "cover" | "content" | "summary"; content: string }>,
-        generator: BaseGenerator,
+        generators: ResolvedImageGenerator[],
         referenceImages: string[],
         fullOutline: string,
         task: XhsTask,
         subject: Subject<MessageEvent>,
         isRegenerate?: boolean,
+        signal?: AbortSignal,
     ): Promise<void> {
         // 本地计数器，避免每次循环都写数据库
         let successCount = 0;
+        let budgetError: SpendLimitExceededError | null = null;
 
         for (let i = 0; i < contentPages.length; i++) {
+            if (signal?.aborted) {
+                break;
+            }
+
             const page = contentPages[i];
 
             subject.next({
@@ -401,11 +821,13 @@ export class ImageService {
                 const imageUrl = await this.generateSingleImage(
                     task,
                     page,
-                    generator,
+                    generators,
                     referenceImages,
                     fullOutline,
                     undefined,
                     isRegenerate,
+                    signal,
+                    this.createAttemptListener(subject, page.index, `第${i + 1}页`),
                 );
 
                 // 本地累计成功数，不再每次保存
@@ -419,6 +841,15 @@ export class ImageService {
                     }),
                 } as MessageEvent);
             } catch (error) {
+                // 超出消费上限时停止生成剩余页面
+                if (error instanceof SpendLimitExceededError) {
+                    budgetError = error;
+                    break;
+                }
+                if (signal?.aborted) {
+                    break;
+                }
+
                 subject.next({
                     data: JSON.stringify({
                         type: "error",
@@ -434,29 +865,38 @@ export class ImageService {
             task.generatedPages += successCount;
             await this.taskRepository.save(task);
         }
+
+        if (budgetError) {
+            throw budgetError;
+        }
     }
 
     /**
      * 生成单张图片（使用积分计费服务）
      * @param task 任务对象（直接传入避免重复查询）
      * @param isRegenerate 是否为批量重绘
+     * @param signal 取消信号，中断时由计费服务自动回退积分
+     * @param listener 自动重试、切换备用模型时的回调
      */
     private async generateSingleImage(
         task: XhsTask,
         page: {
+            id?: string;
             index: number;
             type: string;
             content: string;
+            styleId?: string | null;
+            promptOverride?: PagePromptOverride | null;
         },
-        generator: BaseGenerator,
+        generators: ResolvedImageGenerator[],
         referenceImages?: string[],
         fullOutline?: string,
         userTopic?: string,
         isRegenerate?: boolean,
+        signal?: AbortSignal,
+        listener?: ImageAttemptListener,
     ): Promise<string> {
-        const imageRecord = await this.imageRepository.findOne({
-            where: { taskId: task.id, pageIndex: page.index },
-        });
+        const imageRecord = await this.versionService.findImage(task.id, this.toPageRef(task, page.index, page.id));
 
         if (!imageRecord) {
             throw new Error(`图片记录不存在: ${page.index}`);
@@ -465,51 +905,101 @@ export class ImageService {
         // 使用计费服务执行带积分扣减的操作
         const pageType = page.type as "cover" | "content" | "summary";
         
-        // 预先计算 prompt，避免重复调用
-        const prompt = await this.buildImagePrompt(page.content, page.type, fullOutline, userTopic);
+        // 预先计算 prompt，避免重复调用（页面设置了提示词覆盖时使用覆盖后的提示词）
+        const prompt = this.promptService.applyPromptOverride(
+            await this.buildImagePrompt(
+                task.userId,
+                page.content,
+                page.type,
+                fullOutline,
+                userTopic,
+                this.resolveStyleId(task, page.index, page.styleId),
+            ),
+            this.resolvePromptOverride(task, page.index, page.promptOverride),
+        );
         
         // 版本号逻辑：
         // - 如果是重绘(isRegenerate=true)，在当前版本基础上 +1
         // - 如果是首次生成且 currentVersion 为 0 或 1，使用版本 1
         // - 如果是首次生成但已有版本(currentVersion > 1)，也需要递增
+        // - 续跑或增量重绘时，已有图片的记录同样需要递增
         const currentVer = imageRecord.currentVersion || 0;
-        const nextVersion = isRegenerate || currentVer > 1 ? currentVer + 1 : 1;
+        const nextVersion = isRegenerate || currentVer > 1 || imageRecord.imageUrl ? currentVer + 1 : 1;
         const generatedBy = isRegenerate ? "batch-regenerate" : "initial";
         
         // 记录开始时间（用于计算生成耗时）
         const startTime = Date.now();
+
+        const retryPolicy = this.retryService.resolvePolicy(await this.configService.getConfig());
         
-        const { result: imageUrl, powerAmount } = await this.billingService.executeWithBilling(
+        // 批量生成中在冻结额度内结算，否则逐张扣费
+        // 结算或扣费成功后才落盘并写入图片记录，结算失败时不保留未付费的图片
+        const { result: generated, powerAmount } = await this.billingService.executeWithHold(
+            this.batchHolds.get(task.id),
             {
                 userId: task.userId,
                 imageId: imageRecord.id,
                 pageType,
+                quality: task.generationPreferences?.quality,
             },
-            async () => {
-                const url = await generator.generateImage(prompt, {
-                    referenceImages,
-                    size: "1024x1024",
-                    quality: "standard",
-                });
-
-                // 计算生成耗时
-                const duration = Date.now() - startTime;
-
-                // 生成成功：更新记录（包含耗时统计）
-                imageRecord.imageUrl = url;
-                imageRecord.status = ImageStatus.COMPLETED;
-                imageRecord.currentVersion = nextVersion;
-                imageRecord.generationDuration = duration;
-                imageRecord.generatedAt = new Date();
-                if (isRegenerate) {
-                    imageRecord.retryCount++;
-                }
-                await this.imageRepository.save(imageRecord);
+            () =>
+                // 临时错误（限流、5xx、超时）按策略退避重试，失败后切换备用模型，只计费一次
+                this.retryService.executeWithFailover(
+                    generators,
+                    ({ generator }) =>
+                        generator.generateImage(prompt, {
+                            referenceImages,
+                            ...this.buildImageOptions(task.generationPreferences),
+                            signal,
+                        }),
+                    retryPolicy,
+                    {
+                        signal,
+                        onRetry: async (retry) => {
+                            imageRecord.retryCount++;
+                            await this.imageRepository.update(imageRecord.id, {
+                                retryCount: imageRecord.retryCount,
+                            });
+                            listener?.onRetry?.(retry);
+                        },
+                        onFailover: listener?.onFailover,
+                    },
+                ),
+        );
 
-                return url;
-            },
+        // 落盘为稳定地址（data URL / 服务商临时 URL）
+        const { url: imageUrl, thumbnailUrl } = await this.storageService.store(
+            generated.result,
+            task.id,
+            `page_${page.index}_v${nextVersion}`,
         );
 
+        // 计算生成耗时
+        const duration = Date.now() - startTime;
+
+        // 生成成功：更新记录（包含耗时统计）
+        imageRecord.imageUrl = imageUrl;
+        imageRecord.thumbnailUrl = thumbnailUrl;
+        imageRecord.status = ImageStatus.COMPLETED;
+        imageRecord.currentVersion = nextVersion;
+        imageRecord.generationDuration = duration;
+        imageRecord.generatedAt = new Date();
+        imageRecord.generatedModel = generated.route.modelName;
+        if (isRegenerate) {
+            imageRecord.retryCount++;
+        }
+        // 只写入生成结果，扣费标记已由计费服务在结算时写入，不能用加载时的旧值覆盖
+        await this.imageRepository.update(imageRecord.id, {
+            imageUrl,
+            thumbnailUrl,
+            status: ImageStatus.COMPLETED,
+            currentVersion: nextVersion,
+            generationDuration: duration,
+            generatedAt: imageRecord.generatedAt,
+            generatedModel: imageRecord.generatedModel,
+            retryCount: imageRecord.retryCount,
+        });
+
         // 保存版本记录
         await this.versionService.saveVersion({
             imageRecord,
@@ -518,6 +1008,7 @@ export class ImageService {
             prompt,
             generatedBy,
             powerAmount,
+            generatedModel: imageRecord.generatedModel,
         });
 
         this.logger.debug(`图片 ${imageRecord.id} 生成成功，版本: v${nextVersion}，模式: ${generatedBy}，耗时: ${imageRecord.generationDuration}ms`);
@@ -525,19 +1016,350 @@ export class ImageService {
         return imageUrl;
     }
 
+    /**
+     * 并行生成多张封面候选
+     * 每张候选单独计费并保存为封面的历史版本，先将第一张成功的候选设为当前版本；
+     * 两张以上成功时推送 cover_variants 事件并返回候选版本，由用户选择（selectCoverVariant）
+     */
+    private async generateCoverVariants(
+        task: XhsTask,
+        page: {
+            id?: string;
+            index: number;
+            type: string;
+            content: string;
+            styleId?: string | null;
+            promptOverride?: PagePromptOverride | null;
+        },
+        generators: ResolvedImageGenerator[],
+        count: number,
+        subject: Subject<MessageEvent>,
+        isRegenerate?: boolean,
+        signal?: AbortSignal,
+    ): Promise<{ imageUrl: string; pendingVersions: number[] | null }> {
+        const imageRecord = await this.versionService.findImage(task.id, this.toPageRef(task, page.index, page.id));
+
+        if (!imageRecord) {
+            throw new Error(`图片记录不存在: ${page.index}`);
+        }
+
+        const prompt = this.promptService.applyPromptOverride(
+            await this.buildImagePrompt(
+                task.userId,
+                page.content,
+                page.type,
+                task.outline,
+                undefined,
+                this.resolveStyleId(task, page.index, page.styleId),
+            ),
+            this.resolvePromptOverride(task, page.index, page.promptOverride),
+        );
+
+        // 候选版本号从下一个版本开始连续分配，版本号规则同 generateSingleImage
+        const currentVer = imageRecord.currentVersion || 0;
+        const baseVersion = isRegenerate || currentVer > 1 || imageRecord.imageUrl ? currentVer + 1 : 1;
+        const retryPolicy = this.retryService.resolvePolicy(await this.configService.getConfig());
+        const billingOptions = {
+            userId: task.userId,
+            imageId: imageRecord.id,
+            pageType: "cover" as const,
+            quality: task.generationPreferences?.quality,
+        };
+        const holdId = this.batchHolds.get(task.id);
+
+        const results = await Promise.allSettled(
+            Array.from({ length: count }, async (_, i) => {
+                const version = baseVersion + i;
+                const generate = () =>
+                    this.retryService.executeWithFailover(
+                        generators,
+                        ({ generator }) =>
+                            generator.generateImage(prompt, {
+                                referenceImages: task.userImages,
+                                ...this.buildImageOptions(task.generationPreferences),
+                                signal,
+                            }),
+                        retryPolicy,
+                        {
+                            signal,
+                            ...this.createAttemptListener(subject, page.index, `封面候选 ${i + 1}`),
+                        },
+                    );
+
+                // 第一张沿用图片记录的扣费标记（取消时按记录退回），其余候选单独计费；结算成功后才落盘
+                const { result: generated, powerAmount } = await (i === 0
+                    ? this.billingService.executeWithHold(holdId, billingOptions, generate)
+                    : this.billingService.executeWithHold(
+                          holdId,
+                          { ...billingOptions, remark: "小红书图片生成 - 封面候选" },
+                          generate,
+                          true,
+                      ));
+                const { url, thumbnailUrl } = await this.storageService.store(
+                    generated.result,
+                    task.id,
+                    `page_${page.index}_v${version}`,
+                );
+
+                return {
+                    result: { version, url, thumbnailUrl, model: generated.route.modelName },
+                    powerAmount,
+                };
+            }),
+        );
+
+        const variants = results
+            .filter((r) => r.status === "fulfilled")
+            .map((r) => {
+                const { result, powerAmount } = (r as PromiseFulfilledResult<{
+                    result: { version: number; url: string; thumbnailUrl: string; model: string };
+                    powerAmount: number;
+                }>).value;
+                return { ...result, powerAmount };
+            });
+
+        if (variants.length === 0) {
+            const failure = results.find((r) => r.status === "rejected") as PromiseRejectedResult | undefined;
+            throw failure?.reason instanceof Error ? failure.reason : new Error("封面候选全部生成失败");
+        }
+
+        // 所有候选都保存为历史版本，便于之后在版本历史中切换
+        for (const variant of variants) {
+            imageRecord.currentVersion = variant.version;
+            await this.versionService.saveVersion({
+                imageRecord,
+                taskId: task.id,
+                imageUrl: variant.url,
+                prompt,
+                generatedBy: "cover-variant",
+                powerAmount: variant.powerAmount,
+                generatedModel: variant.model,
+            });
+        }
+
+        // 先选用第一张候选，用户选择后再切换
+        const imageUrl = await this.versionService.restoreVersion(
+            task.id,
+            this.toPageRef(task, page.index, page.id),
+            variants[0].version,
+        );
+        await this.imageRepository.update(imageRecord.id, { generatedAt: new Date() });
+
+        this.logger.debug(`图片 ${imageRecord.id} 生成 ${variants.length}/${count} 张封面候选`);
+
+        if (variants.length < 2 || signal?.aborted) {
+            return { imageUrl, pendingVersions: null };
+        }
+
+        subject.next({
+            data: JSON.stringify({
+                type: "cover_variants",
+                pageIndex: page.index,
+                variants: variants.map((v) => ({
+                    version: v.version,
+                    imageUrl: v.url,
+                    thumbnailUrl: v.thumbnailUrl,
+                })),
+                message: `已生成 ${variants.length} 张封面候选，请选择一张继续生成`,
+            }),
+        } as MessageEvent);
+
+        return { imageUrl, pendingVersions: variants.map((v) => v.version) };
+    }
+
+    /**
+     * 选定封面候选：切换为当前版本并更新任务封面
+     * @returns 选中封面的图片地址
+     */
+    async selectCoverVariant(taskId: string, pageIndex: number, version: number): Promise<string> {
+        const pageRef = await this.findPageRef(taskId, pageIndex);
+        const imageUrl = await this.versionService.restoreVersion(taskId, pageRef, version);
+        const imageRecord = await this.versionService.findImage(taskId, pageRef);
+        if (imageRecord) {
+            await this.imageRepository.update(imageRecord.id, { generatedAt: new Date() });
+        }
+        await this.taskRepository.update(taskId, { coverImageUrl: imageUrl });
+
+        this.logger.debug(`任务 ${taskId} 选用封面候选 v${version}`);
+        return imageUrl;
+    }
+
+    /**
+     * 创建单张图片的重试 / 故障转移通知：推送 retrying、failover 事件，前端显示“第 2/3 次尝试”
+     */
+    private createAttemptListener(
+        subject: Subject<MessageEvent>,
+        pageIndex: number,
+        label: string,
+    ): ImageAttemptListener {
+        return {
+            onRetry: (retry) => {
+                subject.next({
+                    data: JSON.stringify({
+                        type: "retrying",
+                        pageIndex,
+                        attempt: retry.attempt,
+                        maxAttempts: retry.maxAttempts,
+                        delay: retry.delay,
+                        message: `${label}生成失败（${retry.error.message}），正在进行第 ${retry.attempt}/${retry.maxAttempts} 次尝试...`,
+                    }),
+                } as MessageEvent);
+            },
+            onFailover: (from, to) => {
+                subject.next({
+                    data: JSON.stringify({
+                        type: "failover",
+                        pageIndex,
+                        fromModel: from.modelName,
+                        toModel: to.modelName,
+                        message: `${label}使用 ${from.modelName} 生成失败，已切换到备用模型 ${to.modelName}`,
+                    }),
+                } as MessageEvent);
+            },
+        };
+    }
+
     /**
      * 构建图片生成的完整提示词
-     * 委托给 ImagePromptService，优先使用配置的自定义模板
+     * 委托给 ImagePromptService，优先使用用户默认模板，其次为配置的自定义模板
      */
     private async buildImagePrompt(
+        userId: string,
         pageContent: string,
         pageType: string,
         fullOutline?: string,
         userTopic?: string,
+        styleId?: string | null,
     ): Promise<string> {
-        // 读取配置获取自定义模板
-        const config = await this.configService.getConfig();
-        return this.promptService.buildImagePrompt(pageContent, pageType, fullOutline, userTopic, config.imagePrompt);
+        const customTemplate = await this.promptService.resolveCustomTemplate(userId, pageType);
+        return this.promptService.buildImagePrompt(
+            pageContent,
+            pageType,
+            fullOutline,
+            userTopic,
+            customTemplate,
+            styleId,
+        );
+    }
+
+    /**
+     * 解析页面使用的风格预设
+     * 优先级：请求中的页面风格 > 任务页面风格 > 任务风格
+     */
+    private resolveStyleId(task: XhsTask, pageIndex: number, pageStyleId?: string | null): string | null {
+        if (pageStyleId) {
+            return pageStyleId;
+        }
+        const taskPage = task.pages?.find((p) => p.index === pageIndex);
+        return taskPage?.styleId || task.stylePresetId || null;
+    }
+
+    /**
+     * 按当前大纲的页面ID顺序更新任务页面位置，并重新映射已有图片
+     * 任务中不在顺序里的页面视为已删除，与保存大纲一致删除其图片
+     */
+    private async applyPageLayout(task: XhsTask, pageIds: string[]): Promise<void> {
+        // 与任务页面没有任何交集时视为无效顺序（如旧客户端），不做处理
+        if (!pageIds.some((id) => task.pages?.some((page) => page.id === id))) {
+            return;
+        }
+
+        const layout = pageIds.map((id, index) => ({ id, index }));
+        await this.pageLayoutService.remapImages(task.id, layout, true);
+
+        if (!task.pages?.every((page) => page.id)) {
+            return;
+        }
+        task.pages = task.pages
+            .filter((page) => page.id && pageIds.includes(page.id))
+            .map((page) => ({ ...page, index: pageIds.indexOf(page.id!) }))
+            .sort((a, b) => a.index - b.index);
+    }
+
+    /**
+     * 解析页面的提示词覆盖
+     * 优先级：请求中的页面覆盖 > 任务页面覆盖；请求中显式传 null 表示不使用覆盖
+     */
+    private resolvePromptOverride(
+        task: XhsTask,
+        pageIndex: number,
+        pageOverride?: PagePromptOverride | null,
+    ): PagePromptOverride | null {
+        if (pageOverride !== undefined) {
+            return pageOverride;
+        }
+        const taskPage = task.pages?.find((p) => p.index === pageIndex);
+        return taskPage?.promptOverride || null;
+    }
+
+    /**
+     * 将请求中的页面风格和提示词覆盖同步到任务页面
+     */
+    private syncPageSettings(
+        task: XhsTask,
+        pages: Array<{ index: number; styleId?: string | null; promptOverride?: PagePromptOverride | null }>,
+    ): void {
+        if (!task.pages) {
+            return;
+        }
+        for (const page of pages) {
+            const taskPage = task.pages.find((p) => p.index === page.index);
+            if (!taskPage) {
+                continue;
+            }
+            if (page.styleId !== undefined) {
+                taskPage.styleId = page.styleId;
+            }
+            if (page.promptOverride !== undefined) {
+                taskPage.promptOverride = page.promptOverride?.text?.trim() ? page.promptOverride : null;
+            }
+        }
+    }
+
+    /**
+     * 合并生成偏好到任务（未传的字段保留任务原有偏好）
+     */
+    private mergePreferences(task: XhsTask, preferences?: GenerationPreferences): void {
+        if (!preferences) {
+            return;
+        }
+        const defined = Object.fromEntries(
+            Object.entries(preferences).filter(([, value]) => value !== undefined && value !== null),
+        ) as GenerationPreferences;
+        if (Object.keys(defined).length === 0) {
+            return;
+        }
+        task.generationPreferences = { ...(task.generationPreferences || {}), ...defined };
+    }
+
+    /**
+     * 将生成偏好转换为生成器选项
+     * 具体尺寸由各生成器按端点能力映射
+     */
+    private buildImageOptions(preferences?: GenerationPreferences | null): ImageGenerateOptions {
+        return {
+            aspectRatio: preferences?.aspectRatio,
+            quality: preferences?.quality,
+            modelVersion: preferences?.model,
+        };
+    }
+
+    /**
+     * 选择了模型版本时只保留支持该版本的模型，都不支持时在计费前拒绝
+     */
+    private filterByModelVersion(
+        generators: ResolvedImageGenerator[],
+        modelVersion?: string,
+    ): ResolvedImageGenerator[] {
+        if (!modelVersion) {
+            return generators;
+        }
+
+        const supported = generators.filter(({ generator }) => generator.supportsModelVersion(modelVersion));
+        if (supported.length === 0) {
+            throw new Error(`当前图片模型不支持选择模型版本 ${modelVersion}，请使用自动模式生成`);
+        }
+        return supported;
     }
 
     /**
@@ -548,31 +1370,115 @@ export class ImageService {
         return this.promptService.extractImagePrompt(content);
     }
 
+    /**
+     * 预览页面的图片提示词
+     * 按批量生成相同的规则组装（模板、页面内容、大纲、风格），同时返回应用提示词覆盖后的最终提示词
+     * @param pages 与批量生成相同格式的页面
+     * @param fullOutline 内容页使用的大纲片段（封面使用任务完整大纲）
+     */
+    async previewPrompts(
+        userId: string | undefined,
+        taskId: string,
+        pages: Array<{
+            index: number;
+            type: "cover" | "content" | "summary";
+            content: string;
+            styleId?: string | null;
+            promptOverride?: PagePromptOverride | null;
+        }>,
+        fullOutline?: string,
+    ): Promise<
+        Array<{
+            index: number;
+            compiledPrompt: string;
+            prompt: string;
+            promptOverride: PagePromptOverride | null;
+        }>
+    > {
+        const task = await this.taskRepository.findOne({ where: { id: taskId } });
+        if (!task) {
+            throw new Error("任务不存在");
+        }
+        if (userId && task.userId !== userId) {
+            throw new Error("无权访问该任务");
+        }
+
+        return Promise.all(
+            pages.map(async (page) => {
+                const compiledPrompt = await this.buildImagePrompt(
+                    task.userId,
+                    page.content,
+                    page.type,
+                    page.type === "cover" ? task.outline : (fullOutline ?? task.outline),
+                    undefined,
+                    this.resolveStyleId(task, page.index, page.styleId),
+                );
+                const promptOverride = this.resolvePromptOverride(task, page.index, page.promptOverride);
+
+                return {
+                    index: page.index,
+                    compiledPrompt,
+                    prompt: this.promptService.applyPromptOverride(compiledPrompt, promptOverride),
+                    promptOverride,
+                };
+            }),
+        );
+    }
+
     /**
      * 重新生成单张图片
+     * 后台开启合规阻止策略时，任务大纲或本次提交的提示词存在严重违规内容会拒绝生成
+     * @param userId 当前用户ID，传入时校验任务归属
+     * @param preferences 图片生成偏好，未传则沿用任务上保存的偏好
      */
     async regenerateImage(
+        userId: string | undefined,
         taskId: string,
         pageIndex: number,
         prompt: string,
+        preferences?: GenerationPreferences,
     ): Promise<string> {
         const task = await this.taskRepository.findOne({ where: { id: taskId } });
         if (!task) {
             throw new Error("任务不存在");
         }
+        if (userId && task.userId !== userId) {
+            throw new Error("无权访问该任务");
+        }
+        await this.complianceService.assertImageGenerationAllowed([
+            ...(task.pages || []),
+            { index: pageIndex, content: prompt },
+        ]);
 
-        const generator: BaseGenerator = await this.generatorResolver.resolve();
-        const referenceImages = task.coverImageUrl ? [task.coverImageUrl] : task.userImages;
+        if (preferences) {
+            this.mergePreferences(task, preferences);
+            await this.taskRepository.save(task);
+        }
 
-        const imageRecord = await this.imageRepository.findOne({
-            where: { taskId, pageIndex },
-        });
+        const generators = this.filterByModelVersion(
+            await this.generatorResolver.resolveChain(),
+            task.generationPreferences?.model,
+        );
+        const retryPolicy = this.retryService.resolvePolicy(await this.configService.getConfig());
+        const referenceImages = task.coverImageUrl
+            ? await this.storageService.toReferenceImages([task.coverImageUrl])
+            : task.userImages;
+
+        const imageRecord = await this.versionService.findImage(taskId, this.toPageRef(task, pageIndex));
 
         if (!imageRecord) {
             throw new Error("图片记录不存在");
         }
 
+        if (this.resetImageCharge(imageRecord)) {
+            await this.imageRepository.save(imageRecord);
+        }
+
         const pageType = imageRecord.pageType;
+        const styledPrompt = this.promptService.applyStylePreset(
+            prompt,
+            this.resolveStyleId(task, pageIndex),
+        );
 
         // 使用计费服务执行带积分扣减的操作
         const { result: imageUrl, powerAmount } = await this.billingService.executeWithBilling(
@@ -580,21 +1486,33 @@ export class ImageService {
                 userId: task.userId,
                 imageId: imageRecord.id,
                 pageType,
+                quality: task.generationPreferences?.quality,
                 remark: `小红书图片重新生成 - ${pageType === "cover" ? "封面" : "内容"}页`,
             },
             async () => {
-                const url = await generator.generateImage(prompt, {
-                    referenceImages,
-                    size: "1024x1024",
-                    quality: "standard",
-                });
+                const { result: generatedUrl, route } = await this.retryService.executeWithFailover(
+                    generators,
+                    ({ generator }) =>
+                        generator.generateImage(styledPrompt, {
+                            referenceImages,
+                            ...this.buildImageOptions(task.generationPreferences),
+                        }),
+                    retryPolicy,
+                );
 
                 // 生成成功，更新记录并递增版本号
                 const nextVersion = imageRecord.currentVersion + 1;
+                const { url, thumbnailUrl } = await this.storageService.store(
+                    generatedUrl,
+                    task.id,
+                    `page_${pageIndex}_v${nextVersion}`,
+                );
                 imageRecord.imageUrl = url;
+                imageRecord.thumbnailUrl = thumbnailUrl;
                 imageRecord.status = ImageStatus.COMPLETED;
                 imageRecord.retryCount++;
                 imageRecord.currentVersion = nextVersion;
+                imageRecord.generatedModel = route.modelName;
                 await this.imageRepository.save(imageRecord);
 
                 return url;
@@ -606,9 +1524,10 @@ export class ImageService {
             imageRecord,
             taskId,
             imageUrl,
-            prompt,
+            prompt: styledPrompt,
             generatedBy: "single-regenerate",
             powerAmount,
+            generatedModel: imageRecord.generatedModel,
         });
 
         this.logger.debug(
@@ -622,9 +1541,11 @@ export class ImageService {
      * 重新生成单张图片（流式SSE）
      */
     regenerateImageStream(
+        userId: string | undefined,
         taskId: string,
         pageIndex: number,
         prompt: string,
+        preferences?: GenerationPreferences,
     ): Observable<MessageEvent> {
         return new Observable<MessageEvent>((subscriber) => {
             (async () => {
@@ -639,7 +1560,7 @@ export class ImageService {
                     } as MessageEvent);
 
                     // 执行生成
-                    const imageUrl = await this.regenerateImage(taskId, pageIndex, prompt);
+                    const imageUrl = await this.regenerateImage(userId, taskId, pageIndex, prompt, preferences);
 
                     // 推送完成事件
                     subscriber.next({
@@ -663,14 +1584,18 @@ export class ImageService {
                 } catch (error) {
                     this.logger.error(`重新生成图片失败: ${error.message}`);
 
-                    // 推送错误事件
-                    subscriber.next({
-                        data: JSON.stringify({
-                            type: "error",
-                            pageIndex,
-                            message: error.message || "重新生成失败",
-                        }),
-                    } as MessageEvent);
+                    // 推送错误事件（超出消费上限时推送 budget_exceeded）
+                    subscriber.next(
+                        error instanceof SpendLimitExceededError
+                            ? this.createBudgetExceededEvent(error, [pageIndex])
+                            : ({
+                                  data: JSON.stringify({
+                                      type: "error",
+                                      pageIndex,
+                                      message: error.message || "重新生成失败",
+                                  }),
+                              } as MessageEvent),
+                    );
 
                     subscriber.complete();
                 }
@@ -683,7 +1608,7 @@ export class ImageService {
      * 委托给版本服务
      */
     async getImageVersions(taskId: string, pageIndex: number): Promise<XhsImageHistory[]> {
-        return this.versionService.getVersions(taskId, pageIndex);
+        return this.versionService.getVersions(taskId, await this.findPageRef(taskId, pageIndex));
     }
 
     /**
@@ -695,7 +1620,7 @@ export class ImageService {
         pageIndex: number,
         version: number,
     ): Promise<XhsImageHistory | null> {
-        return this.versionService.getVersion(taskId, pageIndex, version);
+        return this.versionService.getVersion(taskId, await this.findPageRef(taskId, pageIndex), version);
     }
 
     /**
@@ -707,6 +1632,45 @@ export class ImageService {
         pageIndex: number,
         version: number,
     ): Promise<string> {
-        return this.versionService.restoreVersion(taskId, pageIndex, version);
+        return this.versionService.restoreVersion(taskId, await this.findPageRef(taskId, pageIndex), version);
+    }
+
+    /**
+     * 生成新版本前清除上一版本的扣费标记，新版本重新计费
+     * 排队或生成中的记录保留标记（续跑时沿用本轮已扣的积分）
+     * @returns 是否有改动
+     */
+    private resetImageCharge(imageRecord: XhsImage): boolean {
+        if (
+            imageRecord.status === ImageStatus.PENDING ||
+            imageRecord.status === ImageStatus.GENERATING ||
+            (!imageRecord.powerDeducted && !imageRecord.powerAmount)
+        ) {
+            return false;
+        }
+        imageRecord.powerDeducted = false;
+        imageRecord.powerAmount = 0;
+        return true;
+    }
+
+    /**
+     * 按任务已保存的大纲定位页面，图片按页面ID查找
+     */
+    private toPageRef(task: XhsTask, pageIndex: number, pageId?: string | null): PageRef {
+        return {
+            index: pageIndex,
+            id: pageId || task.pages?.find((p) => p.index === pageIndex)?.id || null,
+        };
+    }
+
+    /**
+     * 查询任务并定位页面
+     */
+    private async findPageRef(taskId: string, pageIndex: number): Promise<PageRef> {
+        const task = await this.taskRepository.findOne({ where: { id: taskId } });
+        if (!task) {
+            throw new Error("任务不存在");
+        }
+        return this.toPageRef(task, pageIndex);
     }
 }
@@ -6,3 +6,21 @@ export { ImageVersionService } from "./image-version.service";
 export { GeneratorResolverService } from "./generator-resolver.service";
 export { ImagePromptService } from "./image-prompt.service";
 export { EstimationService } from "./estimation.service";
+export { ImageSpecificationService } from "./image-specification.service";
+export { CustomPromptTemplateService, TemplateType } from "./custom-prompt-template.service";
+export { ImageStorageService } from "./image-storage.service";
+export { ImageStorageMigrationService } from "./image-storage-migration.service";
+export { TaskPersistenceQueueService } from "./task-persistence-queue.service";
+export { SseConnectionPoolService } from "./sse-connection-pool.service";
+export { GenerationJobService } from "./generation-job.service";
+export { QueryBuilderService } from "./query-builder.service";
+export { CircuitBreakerService } from "./circuit-breaker.service";
+export { ImageRetryService } from "./image-retry.service";
+export { EncryptionService } from "./encryption.service";
+export { ProviderRegistryService } from "./provider-registry.service";
+export { OutlineHistoryService } from "./outline-history.service";
+export { CaptionService } from "./caption.service";
+export { ComplianceService } from "./compliance.service";
+export { PageLayoutService } from "./page-layout.service";
+export { BillingLedgerService } from "./billing-ledger.service";
+export { PricingTierService } from "./pricing-tier.service";
@@ -0,0 +1,193 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
+import { EntityManager, Repository } from "@buildingai/db/typeorm";
+
+import { XhsTask } from "../../../db/entities/xhs-task.entity";
+import {
+    OutlineHistorySource,
+    XhsOutlineHistory,
+} from "../../../db/entities/xhs-outline-history.entity";
+import { PageLayoutService } from "./page-layout.service";
+
+/**
+ * 页面级差异
+ */
+export interface OutlinePageDiff {
+    /** 页面位置（从0开始） */
+    index: number;
+    status: "added" | "removed" | "modified" | "unchanged";
+    before: XhsTask["pages"][number] | null;
+    after: XhsTask["pages"][number] | null;
+}
+
+/**
+ * 大纲版本管理服务
+ * 负责大纲版本历史的保存、查询、对比、恢复
+ */
+@Injectable()
+export class OutlineHistoryService {
+    private readonly logger = new Logger(OutlineHistoryService.name);
+
+    constructor(
+        @InjectRepository(XhsTask)
+        private readonly taskRepository: Repository<XhsTask>,
+        @InjectRepository(XhsOutlineHistory)
+        private readonly historyRepository: Repository<XhsOutlineHistory>,
+        private readonly pageLayoutService: PageLayoutService,
+    ) {}
+
+    /**
+     * 记录任务当前大纲为新版本
+     * @param pageIndex 单页改写的页面索引
+     * @param manager 调用方的事务，传入时失败会抛出错误，由调用方回滚整个保存
+     */
+    async record(
+        task: XhsTask,
+        source: OutlineHistorySource,
+        pageIndex?: number,
+        manager?: EntityManager,
+    ): Promise<void> {
+        if (!task.pages?.length) {
+            return;
+        }
+
+        const repository = manager ? manager.getRepository(XhsOutlineHistory) : this.historyRepository;
+        try {
+            const latest = await repository.findOne({
+                where: { taskId: task.id },
+                order: { version: "DESC" },
+            });
+
+            await repository.update(
+                { taskId: task.id, isCurrent: true },
+                { isCurrent: false },
+            );
+
+            await repository.save({
+                taskId: task.id,
+                version: (latest?.version || 0) + 1,
+                source,
+                pageIndex: pageIndex ?? null,
+                outline: task.outline || "",
+                pages: task.pages,
+                isCurrent: true,
+            });
+        } catch (error) {
+            if (manager) {
+                throw error;
+            }
+            this.logger.error(`保存大纲版本失败: ${error.message}`);
+            // 不抛出错误，避免影响主流程
+        }
+    }
+
+    /**
+     * 获取任务的所有大纲版本（按版本号倒序）
+     */
+    async getVersions(taskId: string): Promise<XhsOutlineHistory[]> {
+        return await this.historyRepository.find({
+            where: { taskId },
+            order: { version: "DESC" },
+        });
+    }
+
+    /**
+     * 获取特定版本
+     */
+    async getVersion(taskId: string, version: number): Promise<XhsOutlineHistory | null> {
+        return await this.historyRepository.findOne({
+            where: { taskId, version },
+        });
+    }
+
+    /**
+     * 对比两个版本的页面差异
+     * @param to 目标版本，未传时与任务当前大纲对比
+     */
+    async diff(task: XhsTask, from: number, to?: number): Promise<OutlinePageDiff[]> {
+        const fromRecord = await this.getVersion(task.id, from);
+        if (!fromRecord) {
+            throw new Error(`版本 v${from} 不存在`);
+        }
+
+        let toPages = task.pages || [];
+        if (to !== undefined) {
+            const toRecord = await this.getVersion(task.id, to);
+            if (!toRecord) {
+                throw new Error(`版本 v${to} 不存在`);
+            }
+            toPages = toRecord.pages;
+        }
+
+        return this.diffPages(fromRecord.pages || [], toPages);
+    }
+
+    /**
+     * 恢复到指定版本
+     * 与图片版本一致，恢复不创建新版本，只切换当前版本并回写任务大纲
+     */
+    async restoreVersion(task: XhsTask, version: number): Promise<XhsTask> {
+        const record = await this.getVersion(task.id, version);
+        if (!record) {
+            throw new Error(`版本 v${version} 不存在`);
+        }
+
+        // 早期版本的页面没有ID，沿用当前大纲同位置页面的ID
+        const pages = this.pageLayoutService.assignPageIds(
+            record.pages.map((page) => ({ ...page })),
+            task.pages,
+        );
+
+        task.outline = record.outline;
+        task.pages = pages;
+        task.totalPages = pages.length;
+
+        await this.taskRepository.manager.transaction(async (manager) => {
+            await manager.update(
+                this.historyRepository.target,
+                { taskId: task.id },
+                { isCurrent: false },
+            );
+            await manager.update(this.historyRepository.target, record.id, { isCurrent: true });
+            await manager.save(task);
+            // 图片按页面ID跟随恢复后的位置，该版本中不存在的页面图片一并删除
+            await this.pageLayoutService.remapImages(task.id, pages, true, manager);
+        });
+
+        this.logger.log(`任务 ${task.id} 大纲已切换到版本 v${version}`);
+
+        return task;
+    }
+
+    /**
+     * 按页面位置逐页对比（页型、文案、页面风格任一变化视为修改）
+     */
+    private diffPages(before: XhsTask["pages"], after: XhsTask["pages"]): OutlinePageDiff[] {
+        const length = Math.max(before.length, after.length);
+        const diffs: OutlinePageDiff[] = [];
+
+        for (let i = 0; i < length; i++) {
+            const prev = before[i] || null;
+            const next = after[i] || null;
+
+            let status: OutlinePageDiff["status"];
+            if (!prev) {
+                status = "added";
+            } else if (!next) {
+                status = "removed";
+            } else if (
+                prev.type !== next.type ||
+                prev.content !== next.content ||
+                (prev.styleId ?? null) !== (next.styleId ?? null)
+            ) {
+                status = "modified";
+            } else {
+                status = "unchanged";
+            }
+
+            diffs.push({ index: i, status, before: prev, after: next });
+        }
+
+        return diffs;
+    }
+}
@@ -1,10 +1,45 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, Logger } from "@nestjs/common";
 import { readFileSync } from "node:fs";
 import { join } from "node:path";
-import { PublicAiModelService } from "@buildingai/extension-sdk";
 import { getProvider, textGenerator } from "@buildingai/ai-sdk";
-import { getProviderSecret } from "@buildingai/utils";
+import { StructuredOutlinePage } from "../../../db/entities/xhs-task.entity";
+import { OpenAIGenerator } from "../generators";
 import { XhsConfigService } from "./xhs-config.service";
+import { ProviderRegistryService } from "./provider-registry.service";
+import { ImageStorageService } from "./image-storage.service";
+import { CustomPromptTemplateService, TemplateType } from "./custom-prompt-template.service";
+
+/**
+ * 大纲页面
+ */
+export interface OutlinePage {
+    index: number;
+    type: "cover" | "content" | "summary";
+    content: string;
+    /** 结构化内容（仅 JSON 输出模式解析成功时有值） */
+    structured?: StructuredOutlinePage | null;
+}
+
+/**
+ * 结构化大纲的 JSON 结构说明（用于自定义模板追加和修复提示词）
+ */
+const OUTLINE_JSON_SCHEMA = `{"pages":[{"type":"cover | content | summary","title":"页面标题（必填）","subtitle":"副标题（可为空字符串）","bullets":["正文要点"],"imageDescription":"配图描述（必填）"}]}`;
+
+const PAGE_TYPE_LABELS: Record<StructuredOutlinePage["type"], string> = {
+    cover: "封面",
+    content: "内容",
+    summary: "总结",
+};
+
+/**
+ * 流式生成回调
+ */
+export interface OutlineStreamHandlers {
+    /** 收到模型输出的增量文本 */
+    onDelta?: (delta: string) => void;
+    /** 一个页面块已完整输出 */
+    onPage?: (page: OutlinePage) => void;
+}
 
 /**
  * 小红书大纲生成服务
@@ -12,11 +47,16 @@ import { XhsConfigService } from "./xhs-config.service";
  */
 @Injectable()
 export class OutlineService {
+    private readonly logger = new Logger(OutlineService.name);
+
     constructor(
         private readonly configService: XhsConfigService,
-        private readonly aiModelService: PublicAiModelService,
+        private readonly providerRegistry: ProviderRegistryService,
+        private readonly templateService: CustomPromptTemplateService,
+        private readonly storageService: ImageStorageService,
     ) {
-        this.outlinePromptTemplate = this.loadOutlinePromptTemplate();
+        this.outlinePromptTemplate = this.loadOutlinePromptTemplate("outline_prompt.txt");
+        this.outlineJsonPromptTemplate = this.loadOutlinePromptTemplate("outline_json_prompt.txt");
     }
 
     /**
@@ -26,22 +66,27 @@ export class OutlineService {
     private outlinePromptTemplate: string;
 
     /**
-     * 从 prompts/outline_prompt.txt 读取模板
+     * JSON 输出模式的大纲 Prompt 模板
+     */
+    private outlineJsonPromptTemplate: string;
+
+    /**
+     * 从 prompts 目录读取模板
      */
-    private loadOutlinePromptTemplate(): string {
+    private loadOutlinePromptTemplate(fileName: string): string {
         try {
             const promptPath = join(
                 __dirname,
                 "..",
                 "prompts",
-                "outline_prompt.txt",
+                fileName,
             );
             return readFileSync(promptPath, "utf-8");
         } catch (error) {
             // 严格模式：必须存在外部提示词文件
-            console.error("[OutlineService] 读取 outline_prompt.txt 失败:", error);
+            console.error(`[OutlineService] 读取 ${fileName} 失败:`, error);
             throw new Error(
-                "[XHS Creator] 无法读取 outline_prompt.txt，请检查路径 src/api/modules/xhs-creator/prompts/outline_prompt.txt 是否存在且可读。",
+                `[XHS Creator] 无法读取 ${fileName}，请检查路径 src/api/modules/xhs-creator/prompts/${fileName} 是否存在且可读。`,
             );
         }
     }
@@ -50,26 +95,90 @@ export class OutlineService {
      * 生成大纲
      * @param topic 用户输入的主题
      * @param userImages 用户上传的参考图片URL（可选）
+     * @param userId 用户ID（可选，用于读取用户默认大纲模板）
      */
     async generateOutline(
         topic: string,
         userImages?: string[],
+        userId?: string,
     ): Promise<{
         outline: string;
-        pages: Array<{
-            index: number;
-            type: "cover" | "content" | "summary";
-            content: string;
-        }>;
+        pages: OutlinePage[];
     }> {
+        const config = await this.configService.getConfig();
+        const jsonMode = config.outlineOutputMode === "json";
+
+        // 支持视觉输入的模型直接附带参考图片
+        const images = await this.resolveVisionImages(userImages);
+
         // 构建提示词（与 RedInk 逻辑一致）
-        const prompt = await this.buildOutlinePrompt(topic, userImages);
+        const prompt = await this.buildOutlinePrompt(topic, userImages, userId, jsonMode, images.length > 0);
 
-        // 调用系统统一 AI 模型生成大纲（与主页对话相同调用链）
-        const outlineText = await this.generateOutlineWithSystemModel(prompt);
+        // 调用文本模型生成大纲（系统模型与主页对话相同调用链，或已激活的文本服务商）
+        const outlineText = await this.generateOutlineText(prompt, undefined, images);
 
         // 解析大纲为页面结构
+        if (jsonMode) {
+            return this.resolveStructuredOutline(outlineText);
+        }
+
+        const pages = this.parseOutline(outlineText);
+
+        return {
+            outline: outlineText,
+            pages,
+        };
+    }
+
+    /**
+     * 流式生成大纲
+     * 边接收模型输出边按 <page> 分隔符解析，每当一个页面块完整时立即回调 onPage；
+     * 最后一页在输出结束后回调，返回值与 generateOutline 一致。
+     * JSON 输出模式无法逐页解析，输出结束并校验后一次性回调所有页面
+     */
+    async generateOutlineStream(
+        topic: string,
+        userImages: string[] | undefined,
+        userId: string | undefined,
+        handlers: OutlineStreamHandlers,
+    ): Promise<{ outline: string; pages: OutlinePage[] }> {
+        const config = await this.configService.getConfig();
+        const jsonMode = config.outlineOutputMode === "json";
+        const images = await this.resolveVisionImages(userImages);
+        const prompt = await this.buildOutlinePrompt(topic, userImages, userId, jsonMode, images.length > 0);
+
+        if (jsonMode) {
+            const outlineText = await this.generateOutlineText(prompt, handlers.onDelta, images);
+            const result = await this.resolveStructuredOutline(outlineText);
+            result.pages.forEach((page) => handlers.onPage?.(page));
+            return result;
+        }
+
+        let text = "";
+        let emitted = 0;
+        let lastSeparator = -1;
+
+        const outlineText = await this.generateOutlineText(prompt, (delta) => {
+            text += delta;
+            handlers.onDelta?.(delta);
+
+            // 仅在出现新的分隔符时重新解析，分隔符之前的页面已完整
+            const separator = text.lastIndexOf("<page>");
+            if (separator <= lastSeparator) {
+                return;
+            }
+            lastSeparator = separator;
+
+            const completed = this.parseOutline(text.slice(0, separator + "<page>".length));
+            for (; emitted < completed.length; emitted++) {
+                handlers.onPage?.(completed[emitted]);
+            }
+        }, images);
+
         const pages = this.parseOutline(outlineText);
+        for (; emitted < pages.length; emitted++) {
+            handlers.onPage?.(pages[emitted]);
+        }
 
         return {
             outline: outlineText,
@@ -78,70 +187,430 @@ export class OutlineService {
     }
 
     /**
-     * 使用系统 AI 模型服务生成大纲
-     * 调用链与主系统对话完全一致，避免密钥处理差异
+     * 按要求改写大纲中的单页
+     * 以完整大纲为上下文，只输出目标页，页面类型保持不变；
+     * JSON 输出模式下按结构化格式输出并校验，校验失败时按文本处理
      */
-    private async generateOutlineWithSystemModel(prompt: string): Promise<string> {
+    async rewritePage(
+        topic: string,
+        pages: OutlinePage[],
+        pageIndex: number,
+        instruction: string,
+    ): Promise<OutlinePage> {
+        const target = pages.find((page) => page.index === pageIndex);
+        if (!target) {
+            throw new Error("页面不存在");
+        }
+
         const config = await this.configService.getConfig();
-        if (!config.textModelId) {
-            throw new Error("尚未选择文本生成模型，请先在后台配置模型");
+        const jsonMode = config.outlineOutputMode === "json";
+        const text = await this.generateOutlineText(
+            this.buildRewritePrompt(topic, pages, target, instruction, jsonMode),
+        );
+
+        if (jsonMode) {
+            const parsed = this.parseStructuredOutline(text);
+            if (parsed.pages) {
+                const structured = { ...parsed.pages[0], type: target.type };
+                return {
+                    index: target.index,
+                    type: target.type,
+                    content: this.renderStructuredPage(structured),
+                    structured,
+                };
+            }
+            this.logger.warn(`单页改写结构化校验失败，按文本处理: ${parsed.errors.join("；")}`);
+        }
+
+        // 去除代码块和分隔符，统一页面类型标记
+        const body = (text || "")
+            .replace(/```[a-z]*/gi, "")
+            .replace(/<\/?page>/gi, "")
+            .trim()
+            .replace(/^\[(封面|内容|总结)\]\s*/, "");
+        if (!body) {
+            throw new Error("改写结果为空，请重试");
         }
 
-        // 获取模型与供应商密钥配置（与主系统一致）
-        const [model, providerSecret] = await Promise.all([
-            this.aiModelService.getModelInfo(config.textModelId),
-            this.aiModelService.getProviderConfig(config.textModelId),
-        ]);
+        return {
+            index: target.index,
+            type: target.type,
+            content: `[${PAGE_TYPE_LABELS[target.type]}]\n${body}`,
+            structured: null,
+        };
+    }
+
+    /**
+     * 将页面序列化为保存在任务上的大纲文本（与模型输出一致的 <page> 分隔格式，可由 parseOutline 还原）
+     */
+    serializeOutline(pages: Array<Pick<OutlinePage, "content">>): string {
+        return pages.map((page) => page.content).join("\n\n<page>\n\n");
+    }
+
+    /**
+     * 调用当前文本模型生成文本（发布文案等其他文本步骤复用同一调用链）
+     */
+    async generateText(prompt: string): Promise<string> {
+        return this.generateOutlineText(prompt);
+    }
 
-        const apiKey = getProviderSecret("apiKey", providerSecret);
-        const baseURL = getProviderSecret("baseUrl", providerSecret);
+    /**
+     * 生成大纲文本
+     * 系统模型的调用链与主系统对话完全一致，避免密钥处理差异；
+     * 插件服务商按 OpenAI 兼容接口调用
+     * @param onDelta 传入时以流式方式调用模型
+     * @param images 随提示词一起发送的图片（仅用于支持视觉输入的模型）
+     */
+    private async generateOutlineText(
+        prompt: string,
+        onDelta?: (delta: string) => void,
+        images?: string[],
+    ): Promise<string> {
+        const credential = await this.providerRegistry.resolveText();
 
         // 打印使用的文本模型信息
         console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
         console.log("📝 [XHS Creator] 大纲生成 - 使用的文本模型信息:");
-        console.log(`   供应商: ${model.provider.provider}`);
-        console.log(`   模型名称: ${model.model || config.textModel || "gpt-4o-mini"}`);
-        console.log(`   Base URL: ${baseURL || "默认"}`);
-        console.log(`   模型ID: ${config.textModelId}`);
+        console.log(`   来源: ${credential.source === "provider" ? "插件服务商" : "系统模型"}`);
+        console.log(`   供应商: ${credential.providerName}`);
+        console.log(`   模型名称: ${credential.modelName}`);
+        console.log(`   Base URL: ${credential.baseUrl || "默认"}`);
+        console.log(`   模型ID: ${credential.sourceId}`);
+        console.log(`   附带图片: ${images?.length || 0} 张`);
         console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 
-        const adapter = getProvider(model.provider.provider, {
-            apiKey,
-            baseURL,
+        if (credential.source === "provider") {
+            const providerGenerator = new OpenAIGenerator({
+                apiKey: credential.apiKey,
+                baseUrl: credential.baseUrl,
+                model: credential.modelName,
+            });
+            return onDelta
+                ? providerGenerator.streamText(prompt, onDelta, { images })
+                : providerGenerator.generateText(prompt, { images });
+        }
+
+        const adapter = getProvider(credential.providerName, {
+            apiKey: credential.apiKey,
+            baseURL: credential.baseUrl,
         });
         const generator = textGenerator(adapter);
 
-        const completion = await generator.chat.create({
-            model: model.model || config.textModel || "gpt-4o-mini",
-            messages: [
-                {
-                    role: "user",
-                    content: prompt,
-                },
-            ],
+        const messages = [
+            {
+                role: "user",
+                content: images?.length
+                    ? [
+                          { type: "text", text: prompt },
+                          ...images.map((url) => ({ type: "image_url", image_url: { url } })),
+                      ]
+                    : prompt,
+            },
+        ];
+
+        if (!onDelta) {
+            const completion = await generator.chat.create({
+                model: credential.modelName,
+                messages,
+            });
+            return completion.choices?.[0]?.message?.content || "";
+        }
+
+        const stream = await generator.chat.create({
+            model: credential.modelName,
+            messages,
+            stream: true,
         });
 
-        return completion.choices?.[0]?.message?.content || "";
+        // 适配器不支持流式时会直接返回完整结果，按一次增量处理
+        if (!stream?.[Symbol.asyncIterator]) {
+            const content = stream?.choices?.[0]?.message?.content || "";
+            if (content) {
+                onDelta(content);
+            }
+            return content;
+        }
+
+        let text = "";
+        for await (const chunk of stream) {
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onDelta(delta);
+            }
+        }
+        return text;
+    }
+
+    /**
+     * 获取需要随提示词发送的参考图片
+     * 当前文本模型不支持视觉输入时返回空数组，由提示词中的文字说明兜底
+     */
+    private async resolveVisionImages(userImages?: string[]): Promise<string[]> {
+        if (!userImages || userImages.length === 0) {
+            return [];
+        }
+
+        const credential = await this.providerRegistry.resolveText();
+        if (!credential.supportsVision) {
+            return [];
+        }
+
+        // 本地存储的图片外部模型无法访问，转为 data URL
+        return this.storageService.toReferenceImages(userImages);
     }
 
     /**
      * 构建大纲生成的提示词
-     * 优先使用后台配置的自定义提示词，为空则使用默认模板文件
+     * 优先级：用户默认模板 > 后台配置的自定义提示词 > 默认模板文件
+     * @param withImages 参考图片是否已作为多模态内容发送
      */
-    private async buildOutlinePrompt(topic: string, userImages?: string[]): Promise<string> {
-        // 优先从配置读取自定义提示词
+    private async buildOutlinePrompt(
+        topic: string,
+        userImages?: string[],
+        userId?: string,
+        jsonMode = false,
+        withImages = false,
+    ): Promise<string> {
+        const userTemplate = await this.templateService.getUserDefaultTemplate(
+            userId,
+            TemplateType.OUTLINE,
+        );
         const config = await this.configService.getConfig();
-        const template = config.outlinePrompt || this.outlinePromptTemplate;
+        const customTemplate = userTemplate || config.outlinePrompt;
+        const template = customTemplate || (jsonMode ? this.outlineJsonPromptTemplate : this.outlinePromptTemplate);
         
         let prompt = template.replace("{topic}", topic);
 
-        if (userImages && userImages.length > 0) {
+        // 自定义模板按文本格式编写，JSON 模式下追加输出格式要求
+        if (jsonMode && customTemplate) {
+            prompt += `\n\n【输出格式】忽略上文中的输出格式要求，只输出一个 JSON 对象（不要使用 markdown 代码块），结构如下：\n${OUTLINE_JSON_SCHEMA}\n第一页 type 必须为 cover。`;
+        }
+
+        if (withImages) {
+            prompt += `\n\n注意：用户附上了 ${userImages.length} 张参考图片（见消息中的图片），请先识别图片中的主体（如产品外观、包装、人物、场景）和整体风格，再让大纲的内容、卖点和配图建议与图片保持一致。`;
+        } else if (userImages && userImages.length > 0) {
             prompt += `\n\n注意：用户提供了 ${userImages.length} 张参考图片，请在生成大纲时考虑这些图片的内容和风格。这些图片可能是产品图、个人照片或场景图，请根据图片内容来优化大纲，使生成的内容与图片相关联。`;
         }
 
         return prompt;
     }
 
+    /**
+     * 解析 JSON 输出模式的大纲
+     * 校验失败时先让模型修复一次，仍失败则回退到文本解析器
+     */
+    private async resolveStructuredOutline(outlineText: string): Promise<{
+        outline: string;
+        pages: OutlinePage[];
+    }> {
+        const first = this.parseStructuredOutline(outlineText);
+        if (first.pages) {
+            return this.toStructuredResult(first.pages);
+        }
+
+        this.logger.warn(`结构化大纲校验失败，尝试修复: ${first.errors.join("；")}`);
+
+        try {
+            const repairedText = await this.generateOutlineText(this.buildRepairPrompt(outlineText, first.errors));
+            const repaired = this.parseStructuredOutline(repairedText);
+            if (repaired.pages) {
+                return this.toStructuredResult(repaired.pages);
+            }
+            this.logger.warn(`结构化大纲修复失败，回退文本解析: ${repaired.errors.join("；")}`);
+        } catch (error) {
+            this.logger.warn(`结构化大纲修复请求失败，回退文本解析: ${(error as Error).message}`);
+        }
+
+        return {
+            outline: outlineText,
+            pages: this.parseOutline(outlineText),
+        };
+    }
+
+    /**
+     * 将结构化页面渲染为与文本模式一致的 <page> 大纲和页面文案
+     */
+    private toStructuredResult(structuredPages: StructuredOutlinePage[]): {
+        outline: string;
+        pages: OutlinePage[];
+    } {
+        const pages = structuredPages.map((structured, index) => ({
+            index,
+            type: structured.type,
+            content: this.renderStructuredPage(structured),
+            structured,
+        }));
+
+        return {
+            outline: this.serializeOutline(pages),
+            pages,
+        };
+    }
+
+    /**
+     * 渲染单页文案：[类型] + 标题/副标题 + 要点 + 配图建议
+     */
+    private renderStructuredPage(page: StructuredOutlinePage): string {
+        const lines = [`[${PAGE_TYPE_LABELS[page.type]}]`, `标题：${page.title}`];
+        if (page.subtitle) {
+            lines.push(`副标题：${page.subtitle}`);
+        }
+        if (page.bullets.length > 0) {
+            lines.push("", ...page.bullets.map((bullet) => `• ${bullet}`));
+        }
+        lines.push("", `配图建议：${page.imageDescription}`);
+        return lines.join("\n");
+    }
+
+    /**
+     * 解析并校验结构化大纲
+     * 先做启发式修正（去除代码块、尾逗号，归一化类型与要点），再按结构校验
+     * @returns 校验通过时返回 pages，否则返回错误列表
+     */
+    private parseStructuredOutline(text: string): {
+        pages?: StructuredOutlinePage[];
+        errors: string[];
+    } {
+        const raw = (text || "").replace(/```(?:json)?/gi, "");
+        const start = raw.search(/[[{]/);
+        const end = Math.max(raw.lastIndexOf("}"), raw.lastIndexOf("]"));
+        if (start === -1 || end <= start) {
+            return { errors: ["输出中没有 JSON 内容"] };
+        }
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(raw.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1"));
+        } catch (error) {
+            return { errors: [`JSON 解析失败: ${(error as Error).message}`] };
+        }
+
+        const rawPages = Array.isArray(parsed) ? parsed : parsed?.pages;
+        if (!Array.isArray(rawPages) || rawPages.length === 0) {
+            return { errors: ["pages 必须是非空数组"] };
+        }
+
+        const typeMapping: Record<string, StructuredOutlinePage["type"]> = {
+            cover: "cover",
+            content: "content",
+            summary: "summary",
+            封面: "cover",
+            内容: "content",
+            总结: "summary",
+        };
+        const errors: string[] = [];
+        const pages: StructuredOutlinePage[] = [];
+
+        rawPages.forEach((item: any, index: number) => {
+            const label = `第${index + 1}页`;
+            if (!item || typeof item !== "object") {
+                errors.push(`${label}不是对象`);
+                return;
+            }
+
+            const type = typeMapping[String(item.type ?? "").trim().toLowerCase()];
+            if (!type) {
+                errors.push(`${label} type 无效: ${item.type}`);
+            }
+
+            const title = typeof item.title === "string" ? item.title.trim() : "";
+            if (!title) {
+                errors.push(`${label}缺少 title`);
+            }
+
+            const imageDescription = typeof item.imageDescription === "string" ? item.imageDescription.trim() : "";
+            if (!imageDescription) {
+                errors.push(`${label}缺少 imageDescription`);
+            }
+
+            let bullets: unknown = item.bullets ?? [];
+            if (typeof bullets === "string") {
+                bullets = bullets.split("\n");
+            }
+            if (!Array.isArray(bullets) || bullets.some((bullet) => typeof bullet !== "string")) {
+                errors.push(`${label} bullets 必须是字符串数组`);
+                bullets = [];
+            }
+
+            pages.push({
+                type: type || "content",
+                title,
+                subtitle: typeof item.subtitle === "string" ? item.subtitle.trim() : "",
+                bullets: (bullets as string[])
+                    .map((bullet) => bullet.replace(/^\s*(?:[-*•]|\d+[.、])\s*/, "").trim())
+                    .filter(Boolean),
+                imageDescription,
+            });
+        });
+
+        if (errors.length > 0) {
+            return { errors };
+        }
+
+        // 缺少封面时将第一页作为封面
+        if (!pages.some((page) => page.type === "cover")) {
+            pages[0].type = "cover";
+        }
+
+        return { pages, errors };
+    }
+
+    /**
+     * 构建结构化大纲修复提示词
+     */
+    private buildRepairPrompt(outlineText: string, errors: string[]): string {
+        return [
+            "下面是一份小红书图文大纲，需要转换为符合结构要求的 JSON。",
+            `结构要求：${OUTLINE_JSON_SCHEMA}`,
+            "第一页 type 必须为 cover，所有页面必须有 title 和 imageDescription。",
+            `当前存在的问题：${errors.join("；")}`,
+            "请保留原有内容，只修正结构，直接输出 JSON 对象，不要使用 markdown 代码块，不要有任何说明。",
+            "",
+            "原始输出：",
+            outlineText,
+        ].join("\n");
+    }
+
+    /**
+     * 构建单页改写提示词
+     */
+    private buildRewritePrompt(
+        topic: string,
+        pages: OutlinePage[],
+        target: OutlinePage,
+        instruction: string,
+        jsonMode: boolean,
+    ): string {
+        const pageNumber = pages.indexOf(target) + 1;
+        const label = PAGE_TYPE_LABELS[target.type];
+        const outline = this.serializeOutline(pages);
+        const format = jsonMode
+            ? `只输出一个 JSON 对象（不要使用 markdown 代码块），结构如下：\n${OUTLINE_JSON_SCHEMA}\npages 中只包含改写后的这一页，type 为 ${target.type}。`
+            : `第一行为页面类型标记 [${label}]，随后是改写后的页面内容，保留“配图建议：”一行；不要输出其他页面、<page> 标签或任何说明。`;
+
+        return [
+            "你是一个小红书内容创作专家。下面是一份小红书图文大纲，请按用户要求改写其中的一页。",
+            "",
+            `主题：${topic}`,
+            "",
+            "完整大纲（页面之间用 <page> 分隔）：",
+            outline,
+            "",
+            `需要改写的是第 ${pageNumber} 页（${label}）：`,
+            target.content,
+            "",
+            `改写要求：${instruction}`,
+            "",
+            "注意：",
+            `1. 只改写第 ${pageNumber} 页，与前后页面保持衔接，整体风格一致`,
+            "2. 页面类型保持不变，不要重复其他页面已有的内容",
+            "3. 避免使用竖线符号 |",
+            "",
+            `输出格式：${format}`,
+        ].join("\n");
+    }
+
     /**
      * 解析大纲文本为页面结构
      */
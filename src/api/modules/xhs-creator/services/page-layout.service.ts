@@ -0,0 +1,111 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
+import { EntityManager, In, Repository } from "@buildingai/db/typeorm";
+import { randomUUID } from "node:crypto";
+
+import { XhsImage } from "../../../db/entities/xhs-image.entity";
+import { XhsImageHistory } from "../../../db/entities/xhs-image-history.entity";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * 页面布局服务
+ * 大纲页面使用稳定的页面ID，图片和版本历史按页面ID关联；
+ * 调整顺序、插入或删除页面后按ID重新映射图片的页面索引，无需重新生成
+ */
+@Injectable()
+export class PageLayoutService {
+    private readonly logger = new Logger(PageLayoutService.name);
+
+    constructor(
+        @InjectRepository(XhsImage)
+        private readonly imageRepository: Repository<XhsImage>,
+    ) {}
+
+    /**
+     * 为缺少ID（或ID无效、重复）的页面分配ID，直接修改传入的页面
+     * @param previousPages 原页面列表，传入时缺少ID的页面沿用原列表同位置页面的ID（兼容未携带ID的旧客户端和旧版本大纲）
+     */
+    assignPageIds<T extends { index: number; id?: string }>(
+        pages: T[],
+        previousPages?: Array<{ index: number; id?: string }> | null,
+    ): T[] {
+        const used = new Set<string>();
+
+        for (const page of pages) {
+            let id = page.id && UUID_PATTERN.test(page.id) && !used.has(page.id) ? page.id : undefined;
+
+            if (!id && previousPages) {
+                const fallback = previousPages.find((p) => p.index === page.index)?.id;
+                // 其他页面显式携带该ID时不能沿用
+                if (fallback && !used.has(fallback) && !pages.some((p) => p !== page && p.id === fallback)) {
+                    id = fallback;
+                }
+            }
+
+            page.id = id || randomUUID();
+            used.add(page.id);
+        }
+
+        return pages;
+    }
+
+    /**
+     * 按页面ID重新映射任务图片及版本历史的页面索引，图片同时更新为页面当前的页型
+     * 未关联页面ID的旧图片按当前位置关联；所有更新在同一事务中完成，失败时不会留下部分移动的图片
+     * @param pages 页面ID、新位置与页型
+     * @param removeMissing 是否删除已不在页面列表中的图片（传入完整大纲时使用，版本历史随图片级联删除）
+     * @param manager 调用方的事务，传入时与调用方的其他写入一起提交或回滚
+     */
+    async remapImages(
+        taskId: string,
+        pages: Array<{ id?: string; index: number; type?: XhsImage["pageType"] }>,
+        removeMissing = false,
+        manager?: EntityManager,
+    ): Promise<void> {
+        const remap = async (execManager: EntityManager) => {
+            const images = await execManager.find(XhsImage, { where: { taskId } });
+            const removedIds: string[] = [];
+            let moved = 0;
+
+            for (const image of images) {
+                const page = image.pageId
+                    ? pages.find((p) => p.id === image.pageId)
+                    : pages.find((p) => p.index === image.pageIndex);
+
+                if (!page) {
+                    if (removeMissing) {
+                        removedIds.push(image.id);
+                    }
+                    continue;
+                }
+
+                const pageId = page.id ?? image.pageId;
+                const pageType = page.type ?? image.pageType;
+                if (image.pageId === pageId && image.pageIndex === page.index && image.pageType === pageType) {
+                    continue;
+                }
+
+                await execManager.update(XhsImage, image.id, { pageId, pageIndex: page.index, pageType });
+                await execManager.update(XhsImageHistory, { imageId: image.id }, { pageId, pageIndex: page.index });
+                moved++;
+            }
+
+            if (removedIds.length > 0) {
+                await execManager.delete(XhsImage, { id: In(removedIds) });
+            }
+
+            return { movedCount: moved, removedCount: removedIds.length };
+        };
+
+        const { movedCount, removedCount } = manager
+            ? await remap(manager)
+            : await this.imageRepository.manager.transaction(remap);
+
+        if (movedCount > 0 || removedCount > 0) {
+            this.logger.log(
+                `任务 ${taskId} 页面布局已更新：重新映射 ${movedCount} 张图片，删除 ${removedCount} 张已删除页面的图片`,
+            );
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
+import { DataSource, Repository } from "@buildingai/db/typeorm";
+import { MembershipLevels, UserSubscription } from "@buildingai/db/entities";
+
+import { XhsPricingTier } from "../../../db/entities/xhs-pricing-tier.entity";
+import { CreatePricingTierDto, UpdatePricingTierDto } from "../dto";
+
+/**
+ * 主系统会员等级（定价配置选择用）
+ */
+export interface MembershipLevelOption {
+    id: string;
+    name: string;
+    level: number;
+}
+
+/** 用户定价缓存 TTL（毫秒） */
+const USER_TIER_CACHE_TTL = 60 * 1000;
+
+/**
+ * 会员等级定价服务
+ * 按主系统会员等级维护积分单价、免费次数和最大页数，计费时按用户当前有效的最高会员等级匹配
+ */
+@Injectable()
+export class PricingTierService {
+    private readonly logger = new Logger(PricingTierService.name);
+
+    /** 用户匹配到的定价缓存（未匹配时缓存 null） */
+    private readonly userTierCache = new Map<string, { tier: XhsPricingTier | null; expiresAt: number }>();
+
+    constructor(
+        @InjectRepository(XhsPricingTier)
+        private readonly tierRepository: Repository<XhsPricingTier>,
+        private readonly dataSource: DataSource,
+    ) {}
+
+    /**
+     * 获取全部定价配置
+     */
+    async list(): Promise<XhsPricingTier[]> {
+        return this.tierRepository.find({ order: { createdAt: "ASC" } });
+    }
+
+    /**
+     * 创建定价配置（每个会员等级只能配置一次）
+     */
+    async create(dto: CreatePricingTierDto): Promise<XhsPricingTier> {
+        const existing = await this.tierRepository.findOne({
+            where: { membershipLevelId: dto.membershipLevelId },
+        });
+        if (existing) {
+            throw new Error("该会员等级已配置定价");
+        }
+
+        const tier = await this.tierRepository.save(
+            this.tierRepository.create({
+                ...dto,
+                freeUsageLimit: dto.freeUsageLimit ?? null,
+                freeOutlineLimit: dto.freeOutlineLimit ?? null,
+                freeCoverImageLimit: dto.freeCoverImageLimit ?? null,
+                freeContentImageLimit: dto.freeContentImageLimit ?? null,
+                maxPages: dto.maxPages ?? null,
+            }),
+        );
+        this.invalidateCache();
+        return tier;
+    }
+
+    /**
+     * 更新定价配置
+     */
+    async update(id: string, dto: UpdatePricingTierDto): Promise<XhsPricingTier> {
+        const tier = await this.tierRepository.findOne({ where: { id } });
+        if (!tier) {
+            throw new Error("定价配置不存在");
+        }
+
+        Object.assign(tier, dto);
+        const saved = await this.tierRepository.save(tier);
+        this.invalidateCache();
+        return saved;
+    }
+
+    /**
+     * 删除定价配置（该等级用户回到全局配置）
+     */
+    async remove(id: string): Promise<void> {
+        const result = await this.tierRepository.delete(id);
+        if (!result.affected) {
+            throw new Error("定价配置不存在");
+        }
+        this.invalidateCache();
+    }
+
+    /**
+     * 主系统会员等级列表
+     */
+    async listMembershipLevels(): Promise<MembershipLevelOption[]> {
+        const levels: MembershipLevels[] = await this.dataSource.getRepository(MembershipLevels).find({
+            order: { level: "ASC" },
+        });
+        return levels.map((level) => ({
+            id: level.id,
+            name: level.name,
+            level: Number(level.level) || 0,
+        }));
+    }
+
+    /**
+     * 获取用户适用的定价（带缓存）
+     * 取用户当前有效订阅中最高的会员等级，该等级未配置或未启用定价时返回 null
+     */
+    async getUserTier(userId: string): Promise<XhsPricingTier | null> {
+        const now = Date.now();
+        const cached = this.userTierCache.get(userId);
+        if (cached && cached.expiresAt > now) {
+            return cached.tier;
+        }
+
+        const tier = await this.resolveUserTier(userId);
+        this.userTierCache.set(userId, { tier, expiresAt: now + USER_TIER_CACHE_TTL });
+        return tier;
+    }
+
+    /**
+     * 手动失效用户定价缓存（定价配置变更后调用）
+     */
+    invalidateCache(): void {
+        this.userTierCache.clear();
+    }
+
+    /**
+     * 按用户当前有效的会员订阅匹配定价，查询主系统会员失败时按未匹配处理
+     */
+    private async resolveUserTier(userId: string): Promise<XhsPricingTier | null> {
+        let levelIds: string[];
+        try {
+            const subscriptions: UserSubscription[] = await this.dataSource
+                .getRepository(UserSubscription)
+                .createQueryBuilder("subscription")
+                .leftJoinAndSelect("subscription.level", "level")
+                .where("subscription.userId = :userId", { userId })
+                .andWhere("subscription.endTime > :now", { now: new Date() })
+                .orderBy("level.level", "DESC")
+                .getMany();
+            levelIds = subscriptions.map((subscription) => subscription.levelId || subscription.level?.id);
+        } catch (error) {
+            this.logger.warn(`查询用户 ${userId} 会员等级失败，使用全局定价: ${error.message}`);
+            return null;
+        }
+
+        if (levelIds.length === 0) {
+            return null;
+        }
+
+        const tiers = await this.tierRepository.find({ where: { isEnabled: true } });
+        for (const levelId of levelIds) {
+            const tier = tiers.find((item) => item.membershipLevelId === levelId);
+            if (tier) {
+                return tier;
+            }
+        }
+        return null;
+    }
+}
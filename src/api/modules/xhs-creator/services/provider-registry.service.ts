@@ -0,0 +1,399 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
+import { Repository } from "@buildingai/db/typeorm";
+import { PublicAiModelService } from "@buildingai/extension-sdk";
+import { getProviderSecret } from "@buildingai/utils";
+import OpenAI from "openai";
+
+import { XhsProvider, ProviderType, ServiceType } from "../../../db/entities/xhs-provider.entity";
+import { ImageModelRoute } from "../../../db/entities/xhs-config.entity";
+import { OpenAIGenerator } from "../generators";
+import { CreateProviderDto } from "../dto";
+import { EncryptionService } from "./encryption.service";
+import { XhsConfigService } from "./xhs-config.service";
+
+/**
+ * Gemini 的 OpenAI 兼容端点
+ */
+const GEMINI_OPENAI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/openai/";
+
+/**
+ * 系统模型能力列表中表示支持图片输入的标识
+ */
+const VISION_FEATURE = "vision";
+
+/**
+ * 接口返回的 API Key 脱敏值（列表不解密密钥，更新时传回该值保持原密钥不变）
+ */
+const API_KEY_MASK = "********";
+
+/**
+ * 已解析的模型凭据（来自系统模型或插件服务商配置）
+ */
+export interface ResolvedModelCredential {
+    source: "system" | "provider";
+    /** 系统模型ID或服务商配置ID */
+    sourceId: string;
+    /** 供应商名称（用于日志） */
+    providerName: string;
+    apiKey: string;
+    baseUrl?: string;
+    modelName: string;
+    /** 图片端点类型（仅服务商配置提供，系统模型沿用插件配置） */
+    endpointType?: ImageModelRoute["endpointType"];
+    endpointUrl?: string | null;
+    /** 是否支持图片输入（系统模型取模型能力，服务商取 config.vision） */
+    supportsVision: boolean;
+    /** 模型版本偏好 → 模型名称映射（服务商取 config.modelVersions，系统模型取故障转移路由配置） */
+    modelVersions?: Record<string, string> | null;
+}
+
+/**
+ * 当前文本模型的能力
+ */
+export interface TextModelCapabilities {
+    /** 未配置文本模型时为 null */
+    modelName: string | null;
+    vision: boolean;
+}
+
+/**
+ * 连接测试结果
+ */
+export interface ProviderTestResult {
+    ok: boolean;
+    /** 耗时（毫秒） */
+    latency: number;
+    message: string;
+}
+
+/**
+ * 服务商注册中心
+ *
+ * 统一解析文本/图片生成使用的模型凭据：
+ * - 某服务类型存在已激活且启用的服务商配置时优先使用，否则使用后台选择的系统模型
+ * - 服务商 API Key 使用 EncryptionService 加密存储，启动时自动加密历史明文密钥，只在调用模型时解密
+ * - 每种服务类型同时只能激活一个服务商
+ */
+@Injectable()
+export class ProviderRegistryService implements OnModuleInit {
+    private readonly logger = new Logger(ProviderRegistryService.name);
+
+    constructor(
+        @InjectRepository(XhsProvider)
+        private readonly providerRepository: Repository<XhsProvider>,
+        private readonly encryptionService: EncryptionService,
+        private readonly aiModelService: PublicAiModelService,
+        private readonly configService: XhsConfigService,
+    ) {}
+
+    async onModuleInit(): Promise<void> {
+        await this.encryptLegacyApiKeys();
+    }
+
+    /**
+     * 获取服务商列表（API Key 脱敏）
+     */
+    async list(): Promise<XhsProvider[]> {
+        const providers = await this.providerRepository.find({ order: { createdAt: "ASC" } });
+        return providers.map((provider) => this.sanitize(provider));
+    }
+
+    /**
+     * 创建服务商配置
+     */
+    async create(dto: CreateProviderDto): Promise<XhsProvider> {
+        const provider = this.providerRepository.create({
+            ...dto,
+            apiKey: this.encryptionService.encryptToString(dto.apiKey),
+            isActive: false,
+        });
+        await this.providerRepository.save(provider);
+
+        if (dto.isActive) {
+            await this.activate(provider.id);
+            provider.isActive = true;
+        }
+
+        return this.sanitize(provider);
+    }
+
+    /**
+     * 更新服务商配置
+     * 未传或传回脱敏值的 API Key 保持不变
+     */
+    async update(id: string, dto: Partial<CreateProviderDto>): Promise<XhsProvider> {
+        const provider = await this.findOrFail(id);
+        const { apiKey, isActive, ...rest } = dto;
+
+        Object.assign(provider, rest);
+        if (apiKey && !apiKey.includes("****")) {
+            provider.apiKey = this.encryptionService.encryptToString(apiKey);
+        }
+        await this.providerRepository.save(provider);
+
+        if (isActive === true && !provider.isActive) {
+            await this.activate(id);
+            provider.isActive = true;
+        } else if (isActive === false && provider.isActive) {
+            await this.deactivate(id);
+            provider.isActive = false;
+        }
+
+        return this.sanitize(provider);
+    }
+
+    /**
+     * 激活服务商，同服务类型的其他服务商自动取消激活
+     */
+    async activate(id: string): Promise<void> {
+        const provider = await this.findOrFail(id);
+        if (!provider.isEnabled) {
+            throw new Error("服务商已停用，无法激活");
+        }
+
+        await this.providerRepository.update(
+            { serviceType: provider.serviceType, isActive: true },
+            { isActive: false },
+        );
+        await this.providerRepository.update(id, { isActive: true });
+    }
+
+    /**
+     * 取消激活，该服务类型回退到系统模型
+     */
+    async deactivate(id: string): Promise<void> {
+        await this.findOrFail(id);
+        await this.providerRepository.update(id, { isActive: false });
+    }
+
+    /**
+     * 删除服务商配置
+     */
+    async remove(id: string): Promise<void> {
+        await this.providerRepository.delete(id);
+    }
+
+    /**
+     * 获取某服务类型当前激活的服务商
+     */
+    async getActiveProvider(serviceType: ServiceType): Promise<XhsProvider | null> {
+        return this.providerRepository.findOne({
+            where: { serviceType, isActive: true, isEnabled: true },
+        });
+    }
+
+    /**
+     * 解析文本生成模型：已激活的文本服务商优先，否则使用后台配置的文本模型
+     */
+    async resolveText(): Promise<ResolvedModelCredential> {
+        const provider = await this.getActiveProvider(ServiceType.TEXT);
+        if (provider) {
+            return this.resolveProvider(provider);
+        }
+
+        const config = await this.configService.getConfig();
+        if (!config.textModelId) {
+            throw new Error("尚未选择文本生成模型，请先在后台配置模型");
+        }
+        return this.resolveSystemModel(config.textModelId, config.textModel || "gpt-4o-mini");
+    }
+
+    /**
+     * 获取当前文本模型的能力（未配置时视为不支持）
+     * 服务商配置直接读取，不解密 API Key
+     */
+    async getTextCapabilities(): Promise<TextModelCapabilities> {
+        try {
+            const provider = await this.getActiveProvider(ServiceType.TEXT);
+            if (provider) {
+                return { modelName: this.getProviderModelName(provider), vision: provider.config?.vision === true };
+            }
+
+            const credential = await this.resolveText();
+            return { modelName: credential.modelName, vision: credential.supportsVision };
+        } catch (error) {
+            this.logger.warn(`获取文本模型能力失败: ${(error as Error)?.message || error}`);
+            return { modelName: null, vision: false };
+        }
+    }
+
+    /**
+     * 解析系统AI模型的凭据
+     */
+    async resolveSystemModel(modelId: string, fallbackModelName: string): Promise<ResolvedModelCredential> {
+        const [model, providerSecret] = await Promise.all([
+            this.aiModelService.getModelInfo(modelId),
+            this.aiModelService.getProviderConfig(modelId),
+        ]);
+
+        const apiKey = getProviderSecret("apiKey", providerSecret);
+        if (!apiKey) {
+            throw new Error("所选模型未绑定密钥，请检查AI供应商配置");
+        }
+
+        return {
+            source: "system",
+            sourceId: modelId,
+            providerName: model.provider.provider,
+            apiKey,
+            baseUrl: getProviderSecret("baseUrl", providerSecret) || undefined,
+            modelName: model.model || fallbackModelName,
+            supportsVision: Array.isArray(model.features) && model.features.includes(VISION_FEATURE),
+        };
+    }
+
+    /**
+     * 解析服务商配置的凭据（解密 API Key，补全默认端点）
+     */
+    resolveProvider(provider: XhsProvider): ResolvedModelCredential {
+        const apiKey = this.decryptApiKey(provider.apiKey);
+        if (!apiKey) {
+            throw new Error(`服务商 ${provider.name} 未配置 API Key`);
+        }
+
+        const endpointUrl = provider.config?.endpointUrl || null;
+        let endpointType: ImageModelRoute["endpointType"] = provider.config?.endpointType;
+        if (!endpointType) {
+            if (provider.type === ProviderType.GEMINI) {
+                endpointType = "chat";
+            } else if (provider.type === ProviderType.CUSTOM && endpointUrl) {
+                endpointType = "custom";
+            } else {
+                endpointType = "images";
+            }
+        }
+
+        return {
+            source: "provider",
+            sourceId: provider.id,
+            providerName: provider.name,
+            apiKey,
+            baseUrl:
+                provider.baseUrl ||
+                (provider.type === ProviderType.GEMINI ? GEMINI_OPENAI_BASE_URL : undefined),
+            modelName: this.getProviderModelName(provider),
+            endpointType,
+            endpointUrl,
+            supportsVision: provider.config?.vision === true,
+            modelVersions: provider.config?.modelVersions || null,
+        };
+    }
+
+    /**
+     * 服务商使用的模型名称，未配置时按服务类型使用默认模型
+     */
+    private getProviderModelName(provider: XhsProvider): string {
+        return provider.model || (provider.serviceType === ServiceType.IMAGE ? "gpt-image-1" : "gpt-4o-mini");
+    }
+
+    /**
+     * 测试服务商连接（空跑调用，不生成图片、不计费）
+     * - 文本服务商：发送一条极短的对话请求
+     * - 图片服务商：查询模型信息，自定义端点仅校验地址可达
+     */
+    async testConnection(id: string): Promise<ProviderTestResult> {
+        const provider = await this.findOrFail(id);
+        const startedAt = Date.now();
+
+        try {
+            const credential = this.resolveProvider(provider);
+
+            if (provider.serviceType === ServiceType.TEXT) {
+                const generator = new OpenAIGenerator({
+                    apiKey: credential.apiKey,
+                    baseUrl: credential.baseUrl,
+                    model: credential.modelName,
+                });
+                await generator.generateText("ping", { maxTokens: 1 });
+            } else if (credential.endpointType === "custom") {
+                if (!credential.endpointUrl) {
+                    throw new Error("自定义端点类型需要在配置中填写 endpointUrl");
+                }
+                const response = await fetch(credential.endpointUrl, {
+                    method: "OPTIONS",
+                    headers: { Authorization: `Bearer ${credential.apiKey}` },
+                    signal: AbortSignal.timeout(15000),
+                });
+                if (response.status === 401 || response.status === 403) {
+                    throw new Error(`鉴权失败（HTTP ${response.status}）`);
+                }
+            } else {
+                const client = new OpenAI({
+                    apiKey: credential.apiKey,
+                    baseURL: credential.baseUrl,
+                    timeout: 15000,
+                });
+                await client.models.retrieve(credential.modelName);
+            }
+
+            return {
+                ok: true,
+                latency: Date.now() - startedAt,
+                message: `连接成功，模型 ${credential.modelName} 可用`,
+            };
+        } catch (error) {
+            const message = (error as Error)?.message || String(error);
+            this.logger.warn(`服务商 ${provider.name} 连接测试失败: ${message}`);
+            return {
+                ok: false,
+                latency: Date.now() - startedAt,
+                message: `连接失败: ${message}`,
+            };
+        }
+    }
+
+    /**
+     * 解密 API Key，兼容尚未加密的历史明文
+     */
+    private decryptApiKey(stored: string): string {
+        if (!this.isEncrypted(stored)) {
+            return stored;
+        }
+        return this.encryptionService.decryptFromString(stored);
+    }
+
+    /**
+     * 是否为 encryptToString 产出的格式（salt:iv:authTag:data）
+     */
+    private isEncrypted(value: string): boolean {
+        return !!value && value.split(":").length === 4;
+    }
+
+    /**
+     * 加密历史明文 API Key
+     */
+    private async encryptLegacyApiKeys(): Promise<void> {
+        try {
+            const providers = await this.providerRepository.find();
+            const legacy = providers.filter((provider) => provider.apiKey && !this.isEncrypted(provider.apiKey));
+
+            for (const provider of legacy) {
+                await this.providerRepository.update(provider.id, {
+                    apiKey: this.encryptionService.encryptToString(provider.apiKey),
+                });
+            }
+
+            if (legacy.length > 0) {
+                this.logger.log(`已加密 ${legacy.length} 个服务商的历史明文 API Key`);
+            }
+        } catch (error) {
+            this.logger.error("加密历史服务商 API Key 失败:", error);
+        }
+    }
+
+    private async findOrFail(id: string): Promise<XhsProvider> {
+        const provider = await this.providerRepository.findOne({ where: { id } });
+        if (!provider) {
+            throw new Error("服务商配置不存在");
+        }
+        return provider;
+    }
+
+    /**
+     * 脱敏：不解密密钥，已配置时统一返回掩码，掩码值回传更新时会被忽略
+     */
+    private sanitize(provider: XhsProvider): XhsProvider {
+        return { ...provider, apiKey: provider.apiKey ? API_KEY_MASK : "" };
+    }
+}
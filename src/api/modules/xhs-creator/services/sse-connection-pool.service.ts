@@ -1,5 +1,5 @@
 import { Injectable, Logger, OnModuleDestroy } from "@nestjs/common";
-import { Subject } from "rxjs";
+import { Observable, Subject } from "rxjs";
 
 /**
  * SSE 连接信息
@@ -21,9 +21,19 @@ interface SseConnection {
     heartbeatTimer?: NodeJS.Timeout;
 }
 
+/**
+ * 任务事件缓冲（供重连的订阅者回放）
+ */
+interface TaskEventBuffer {
+    events: MessageEvent[];
+    finished: boolean;
+    expireTimer?: NodeJS.Timeout;
+}
+
 /**
  * SSE 连接池管理服务
  * 管理 SSE 连接生命周期，支持心跳和自动清理
+ * 按任务广播事件，同一任务可有多个订阅者，新订阅者会先回放已发生的事件
  */
 @Injectable()
 export class SseConnectionPoolService implements OnModuleDestroy {
@@ -38,6 +48,15 @@ export class SseConnectionPoolService implements OnModuleDestroy {
     /** 连接超时（毫秒） */
     private readonly CONNECTION_TIMEOUT = 10 * 60 * 1000;
 
+    /** 单个任务最多缓冲的事件数 */
+    private readonly MAX_BUFFERED_EVENTS = 500;
+
+    /** 任务结束后事件缓冲保留时间（毫秒） */
+    private readonly REPLAY_TTL = 5 * 60 * 1000;
+
+    /** 任务事件缓冲 */
+    private readonly taskEvents = new Map<string, TaskEventBuffer>();
+
     /** 清理定时器 */
     private cleanupTimer: NodeJS.Timeout | null = null;
 
@@ -56,6 +75,12 @@ export class SseConnectionPoolService implements OnModuleDestroy {
         for (const conn of this.connections.values()) {
             this.closeConnection(conn.id);
         }
+        for (const buffer of this.taskEvents.values()) {
+            if (buffer.expireTimer) {
+                clearTimeout(buffer.expireTimer);
+            }
+        }
+        this.taskEvents.clear();
     }
 
     /**
@@ -114,6 +139,98 @@ export class SseConnectionPoolService implements OnModuleDestroy {
         );
     }
 
+    /**
+     * 获取任务的所有连接
+     */
+    getTaskConnections(taskId: string): SseConnection[] {
+        return Array.from(this.connections.values()).filter(
+            (conn) => conn.taskId === taskId,
+        );
+    }
+
+    /**
+     * 订阅任务事件
+     * 先回放已缓冲的事件，任务已结束时回放后立即完成；取消订阅时自动关闭连接
+     */
+    subscribe(userId: string, taskId: string): Observable<MessageEvent> {
+        return new Observable<MessageEvent>((subscriber) => {
+            const buffer = this.taskEvents.get(taskId);
+            for (const event of buffer?.events || []) {
+                subscriber.next(event);
+            }
+            if (buffer?.finished) {
+                subscriber.complete();
+                return;
+            }
+
+            const { id, subject } = this.createConnection(userId, taskId);
+            const subscription = subject.subscribe(subscriber);
+
+            return () => {
+                subscription.unsubscribe();
+                this.closeConnection(id);
+            };
+        });
+    }
+
+    /**
+     * 开始新一轮任务事件（清空上一轮的缓冲）
+     */
+    beginTask(taskId: string): void {
+        const previous = this.taskEvents.get(taskId);
+        if (previous?.expireTimer) {
+            clearTimeout(previous.expireTimer);
+        }
+        this.taskEvents.set(taskId, { events: [], finished: false });
+    }
+
+    /**
+     * 向任务的所有订阅者广播事件
+     */
+    publish(taskId: string, event: MessageEvent): void {
+        let buffer = this.taskEvents.get(taskId);
+        if (!buffer || buffer.finished) {
+            this.beginTask(taskId);
+            buffer = this.taskEvents.get(taskId)!;
+        }
+
+        buffer.events.push(event);
+        if (buffer.events.length > this.MAX_BUFFERED_EVENTS) {
+            buffer.events.shift();
+        }
+
+        for (const conn of this.getTaskConnections(taskId)) {
+            conn.subject.next(event);
+            conn.lastActiveAt = new Date();
+        }
+    }
+
+    /**
+     * 结束任务：关闭所有订阅者，缓冲保留一段时间供晚到的重连回放
+     */
+    finishTask(taskId: string): void {
+        const buffer = this.taskEvents.get(taskId);
+        if (buffer) {
+            buffer.finished = true;
+            buffer.expireTimer = setTimeout(() => {
+                if (this.taskEvents.get(taskId) === buffer) {
+                    this.taskEvents.delete(taskId);
+                }
+            }, this.REPLAY_TTL);
+        }
+
+        for (const conn of this.getTaskConnections(taskId)) {
+            this.closeConnection(conn.id);
+        }
+    }
+
+    /**
+     * 任务是否有可回放的事件（进行中，或结束后仍在保留期内）
+     */
+    hasTaskEvents(taskId: string): boolean {
+        return this.taskEvents.has(taskId);
+    }
+
     /**
      * 发送心跳
      */
@@ -143,11 +260,12 @@ export class SseConnectionPoolService implements OnModuleDestroy {
             clearInterval(conn.heartbeatTimer);
         }
 
+        // 先移除再完成，避免订阅者的 teardown 重入
+        this.connections.delete(id);
+
         try {
             conn.subject.complete();
         } catch {}
-
-        this.connections.delete(id);
         this.logger.log(`关闭 SSE 连接: ${id}`);
         return true;
     }
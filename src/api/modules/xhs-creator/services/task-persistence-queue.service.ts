@@ -1,4 +1,4 @@
-import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from "@nestjs/common";
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy, Optional } from "@nestjs/common";
 import { Repository } from "@buildingai/db/typeorm";
 import { InjectRepository } from "@buildingai/db/@nestjs/typeorm";
 
@@ -15,6 +15,13 @@ export enum QueueTaskStatus {
     CANCELLED = "cancelled",
 }
 
+/**
+ * 队列任务类型（对应 registerHandler 注册的处理器）
+ */
+export enum QueueTaskType {
+    IMAGE_GENERATION = "image-generation",
+}
+
 /**
  * 队列任务项
  */
@@ -49,11 +56,27 @@ export interface TaskQueueConfig {
     pollingInterval: number;
 }
 
+/**
+ * 处理中任务的超时定时器与取消控制器
+ */
+interface ProcessingTask {
+    timer: NodeJS.Timeout;
+    controller: AbortController;
+}
+
+/**
+ * 队列任务处理器，signal 在任务超时或被取消时中断
+ */
+export type QueueTaskHandler = (task: QueuedTask, signal: AbortSignal) => Promise<void>;
+
+/** 任务超时的错误信息 */
+const TIMEOUT_MESSAGE = "任务执行超时";
+
 const DEFAULT_CONFIG: TaskQueueConfig = {
     maxConcurrency: 3,
     maxRetries: 3,
     retryDelay: 5000,
-    taskTimeout: 300000, // 5分钟
+    taskTimeout: 30 * 60 * 1000, // 30分钟（整批图片生成）
     pollingInterval: 1000,
 };
 
@@ -61,19 +84,19 @@ const DEFAULT_CONFIG: TaskQueueConfig = {
  * 任务持久化队列服务
  * 
  * 使用数据库持久化任务队列，防止服务重启丢失：
- * - 任务入队时写入数据库
+ * - 任务入队时写入数据库（任务状态与入队参数）
  * - 定期轮询处理待执行任务
  * - 服务重启时自动恢复未完成任务
- * - 支持优先级、重试、超时取消
+ * - 支持优先级、重试、超时取消（超时时中断处理器，处理器退出后才释放并发名额）
  */
 @Injectable()
 export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestroy {
     private readonly logger = new Logger(TaskPersistenceQueueService.name);
     private readonly config: TaskQueueConfig;
-    private readonly processingTasks = new Map<string, NodeJS.Timeout>();
+    private readonly processingTasks = new Map<string, ProcessingTask>();
     private pollingTimer: NodeJS.Timeout | null = null;
     private currentConcurrency = 0;
-    private taskHandlers = new Map<string, (task: QueuedTask) => Promise<void>>();
+    private taskHandlers = new Map<string, QueueTaskHandler>();
 
     // 内存队列（同时持久化到数据库）
     private queue: QueuedTask[] = [];
@@ -81,7 +104,7 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
     constructor(
         @InjectRepository(XhsTask)
         private readonly taskRepository: Repository<XhsTask>,
-        config?: Partial<TaskQueueConfig>,
+        @Optional() config?: Partial<TaskQueueConfig>,
     ) {
         this.config = { ...DEFAULT_CONFIG, ...config };
     }
@@ -97,7 +120,7 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
     onModuleDestroy(): void {
         this.stopPolling();
         // 取消所有正在处理的任务
-        for (const [taskId, timer] of this.processingTasks.entries()) {
+        for (const [taskId, { timer }] of this.processingTasks.entries()) {
             clearTimeout(timer);
             this.logger.warn(`服务关闭，取消任务超时监控: ${taskId}`);
         }
@@ -108,10 +131,7 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
     /**
      * 注册任务处理器
      */
-    registerHandler(
-        taskType: string,
-        handler: (task: QueuedTask) => Promise<void>,
-    ): void {
+    registerHandler(taskType: string, handler: QueueTaskHandler): void {
         this.taskHandlers.set(taskType, handler);
         this.logger.debug(`已注册任务处理器: ${taskType}`);
     }
@@ -137,9 +157,10 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
             createdAt: new Date(),
         };
 
-        // 持久化到数据库（更新任务状态）
+        // 持久化到数据库（更新任务状态并保存入队参数，服务重启后按原参数恢复）
         await this.taskRepository.update(taskId, {
             status: TaskStatus.PENDING,
+            queuePayload: { ...payload, enqueuedAt: queuedTask.createdAt.toISOString() },
         });
 
         // 加入内存队列
@@ -164,25 +185,39 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
                 this.queue.splice(index, 1);
                 await this.taskRepository.update(task.taskId, {
                     status: TaskStatus.FAILED,
+                    queuePayload: null,
                 });
                 this.logger.log(`任务已取消: ${queueId}`);
                 return true;
             }
         }
 
-        // 尝试取消正在处理的任务
-        const timer = this.processingTasks.get(queueId);
-        if (timer) {
-            clearTimeout(timer);
-            this.processingTasks.delete(queueId);
-            this.currentConcurrency--;
-            this.logger.log(`处理中任务已取消: ${queueId}`);
+        // 尝试取消正在处理的任务：中断处理器，并发名额在处理器退出后由 processNextTask 释放
+        const processing = this.processingTasks.get(queueId);
+        if (processing) {
+            processing.controller.abort();
+            this.logger.log(`处理中任务已请求取消: ${queueId}`);
             return true;
         }
 
         return false;
     }
 
+    /**
+     * 按业务任务ID取消排队中的任务
+     * @returns 被取消的队列任务，任务不在排队中时返回 null
+     */
+    async cancelPending(taskId: string): Promise<QueuedTask | null> {
+        const queued = this.queue.find(
+            (t) => t.taskId === taskId && t.status === QueueTaskStatus.PENDING,
+        );
+        if (!queued) {
+            return null;
+        }
+
+        return (await this.cancel(queued.id)) ? queued : null;
+    }
+
     /**
      * 获取队列状态
      */
@@ -198,31 +233,44 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
         };
     }
 
+    /**
+     * 任务是否在队列中（排队或处理中）
+     */
+    hasActiveTask(taskId: string): boolean {
+        return this.queue.some(
+            (t) =>
+                t.taskId === taskId &&
+                (t.status === QueueTaskStatus.PENDING || t.status === QueueTaskStatus.PROCESSING),
+        );
+    }
+
     /**
      * 恢复未完成的任务
+     * 大纲生成在请求内同步完成，无法恢复，这里只恢复图片生成任务
      */
     private async recoverPendingTasks(): Promise<void> {
         try {
-            // 查找所有处于 PENDING 或 GENERATING 状态的任务
+            // 查找所有处于排队或图片生成中的任务
             const pendingTasks = await this.taskRepository.find({
                 where: [
                     { status: TaskStatus.PENDING },
-                    { status: TaskStatus.GENERATING_OUTLINE },
                     { status: TaskStatus.GENERATING_IMAGES },
                 ],
             });
 
             for (const task of pendingTasks) {
+                // 使用入队时保存的参数（提交的页面等），旧数据没有参数时由处理器按任务页面和剩余图片记录续跑
+                const { enqueuedAt, ...payload } = task.queuePayload || {};
                 const queuedTask: QueuedTask = {
                     id: `recovered_${task.id}`,
                     taskId: task.id,
                     userId: task.userId,
                     priority: 0,
                     status: QueueTaskStatus.PENDING,
-                    payload: {},
+                    payload: { type: QueueTaskType.IMAGE_GENERATION, ...payload, recovered: true },
                     retryCount: 0,
                     maxRetries: this.config.maxRetries,
-                    createdAt: task.createdAt,
+                    createdAt: typeof enqueuedAt === "string" ? new Date(enqueuedAt) : task.createdAt,
                 };
                 this.queue.push(queuedTask);
             }
@@ -263,8 +311,12 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
             return;
         }
 
-        // 获取下一个待处理任务
-        const task = this.queue.find((t) => t.status === QueueTaskStatus.PENDING);
+        // 获取下一个待处理任务（处理器尚未注册的任务继续等待）
+        const task = this.queue.find(
+            (t) =>
+                t.status === QueueTaskStatus.PENDING &&
+                this.taskHandlers.has((t.payload.type as string) || "default"),
+        );
         if (!task) {
             return;
         }
@@ -274,32 +326,37 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
         task.startedAt = new Date();
         this.currentConcurrency++;
 
-        // 设置超时
+        // 设置超时：超时后中断处理器
+        const controller = new AbortController();
         const timeoutTimer = setTimeout(() => {
-            this.handleTaskTimeout(task);
+            this.handleTaskTimeout(task, controller);
         }, this.config.taskTimeout);
-        this.processingTasks.set(task.id, timeoutTimer);
+        this.processingTasks.set(task.id, { timer: timeoutTimer, controller });
 
         try {
             // 获取处理器
             const taskType = (task.payload.type as string) || "default";
-            const handler = this.taskHandlers.get(taskType);
+            const handler = this.taskHandlers.get(taskType)!;
+            await handler(task, controller.signal);
 
-            if (handler) {
-                await handler(task);
+            if (task.errorMessage === TIMEOUT_MESSAGE) {
+                await this.finishTimedOutTask(task);
             } else {
-                this.logger.warn(`未找到任务处理器: ${taskType}`);
+                // 任务完成
+                task.status = QueueTaskStatus.COMPLETED;
+                task.completedAt = new Date();
+                this.removeFromQueue(task.id);
+                await this.taskRepository.update(task.taskId, { queuePayload: null });
             }
-
-            // 任务完成
-            task.status = QueueTaskStatus.COMPLETED;
-            task.completedAt = new Date();
-            this.removeFromQueue(task.id);
-
         } catch (error) {
-            await this.handleTaskError(task, error as Error);
+            if (task.errorMessage === TIMEOUT_MESSAGE) {
+                // 超时中断导致的异常不再重试
+                await this.finishTimedOutTask(task);
+            } else {
+                await this.handleTaskError(task, error as Error);
+            }
         } finally {
-            // 清理
+            // 处理器已退出，释放并发名额
             clearTimeout(timeoutTimer);
             this.processingTasks.delete(task.id);
             this.currentConcurrency--;
@@ -307,19 +364,29 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
     }
 
     /**
-     * 处理任务超时
+     * 处理任务超时：中断处理器，任务在处理器退出后标记为失败
+     * 处理器退出前任务仍占用并发名额并保持处理中，避免同一任务被重复提交
      */
-    private async handleTaskTimeout(task: QueuedTask): Promise<void> {
-        this.logger.warn(`任务超时: ${task.id}`);
+    private handleTaskTimeout(task: QueuedTask, controller: AbortController): void {
+        this.logger.warn(`任务超时，正在中断: ${task.id}`);
+        task.errorMessage = TIMEOUT_MESSAGE;
+        controller.abort();
+    }
+
+    /**
+     * 超时任务的处理器退出后标记为失败并移出队列
+     */
+    private async finishTimedOutTask(task: QueuedTask): Promise<void> {
         task.status = QueueTaskStatus.FAILED;
-        task.errorMessage = "任务执行超时";
+        task.completedAt = new Date();
+        this.removeFromQueue(task.id);
 
         await this.taskRepository.update(task.taskId, {
             status: TaskStatus.FAILED,
+            errorMessage: TIMEOUT_MESSAGE,
+            queuePayload: null,
         });
-
-        this.removeFromQueue(task.id);
-        this.currentConcurrency--;
+        this.logger.warn(`超时任务已停止: ${task.id}`);
     }
 
     /**
@@ -350,6 +417,7 @@ export class TaskPersistenceQueueService implements OnModuleInit, OnModuleDestro
 
             await this.taskRepository.update(task.taskId, {
                 status: TaskStatus.FAILED,
+                queuePayload: null,
             });
 
             this.removeFromQueue(task.id);
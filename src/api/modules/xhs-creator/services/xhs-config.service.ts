@@ -51,6 +51,7 @@ export class XhsConfigService {
                     imageKeyConfigId: "",
                     coverImagePower: 80,
                     contentImagePower: 40,
+                    summaryImagePower: 40,
                     textModel: "gpt-4o-mini",
                     textModelId: null,
                     imageModel: "gpt-image-1",
@@ -58,7 +59,15 @@ export class XhsConfigService {
                     imageEndpointType: "images",
                     imageEndpointUrl: null,
                     outlinePower: 10,
+                    pageRewritePower: 2,
                     freeUsageLimit: 5,
+                    freeQuotaPeriod: "none",
+                    freeOutlineLimit: null,
+                    freeCoverImageLimit: null,
+                    freeContentImageLimit: null,
+                    dailySpendCap: null,
+                    monthlySpendCap: null,
+                    allowUserSpendCap: true,
                     homeTitle: "今天想在无限画布创作什么？",
                     quickStartTemplates: null,
                 }),
@@ -93,6 +102,7 @@ export class XhsConfigService {
         if (dto.pluginName !== undefined) config.pluginName = dto.pluginName;
         if (dto.coverImagePower !== undefined) config.coverImagePower = dto.coverImagePower;
         if (dto.contentImagePower !== undefined) config.contentImagePower = dto.contentImagePower;
+        if (dto.summaryImagePower !== undefined) config.summaryImagePower = dto.summaryImagePower;
         if (dto.textModel !== undefined) config.textModel = dto.textModel;
         if (dto.textModelId !== undefined) config.textModelId = dto.textModelId || null;
         if (dto.imageModel !== undefined) config.imageModel = dto.imageModel;
@@ -101,11 +111,48 @@ export class XhsConfigService {
         if (dto.imageKeyConfigId !== undefined) config.imageKeyConfigId = dto.imageKeyConfigId;
         if (dto.imageEndpointType !== undefined) config.imageEndpointType = dto.imageEndpointType;
         if (dto.imageEndpointUrl !== undefined) config.imageEndpointUrl = dto.imageEndpointUrl || null;
+        if (dto.imageFallbackModels !== undefined) {
+            config.imageFallbackModels = (dto.imageFallbackModels || []).filter((route) => route?.modelId);
+        }
         if (dto.highConcurrency !== undefined) config.highConcurrency = dto.highConcurrency;
+        if (dto.imageRetryMaxAttempts !== undefined) config.imageRetryMaxAttempts = dto.imageRetryMaxAttempts;
+        if (dto.imageRetryBaseDelay !== undefined) config.imageRetryBaseDelay = dto.imageRetryBaseDelay;
+        if (dto.imageRetryableErrors !== undefined) config.imageRetryableErrors = dto.imageRetryableErrors?.length ? dto.imageRetryableErrors : null;
         if (dto.outlinePower !== undefined) config.outlinePower = dto.outlinePower;
+        if (dto.pageRewritePower !== undefined) config.pageRewritePower = dto.pageRewritePower;
+        if (dto.outlineOutputMode !== undefined) config.outlineOutputMode = dto.outlineOutputMode;
         if (dto.freeUsageLimit !== undefined) config.freeUsageLimit = dto.freeUsageLimit;
+        if (dto.freeQuotaPeriod !== undefined) config.freeQuotaPeriod = dto.freeQuotaPeriod;
+        if (dto.freeOutlineLimit !== undefined) config.freeOutlineLimit = dto.freeOutlineLimit;
+        if (dto.freeCoverImageLimit !== undefined) config.freeCoverImageLimit = dto.freeCoverImageLimit;
+        if (dto.freeContentImageLimit !== undefined) config.freeContentImageLimit = dto.freeContentImageLimit;
+        if (dto.dailySpendCap !== undefined) config.dailySpendCap = dto.dailySpendCap;
+        if (dto.monthlySpendCap !== undefined) config.monthlySpendCap = dto.monthlySpendCap;
+        if (dto.allowUserSpendCap !== undefined) config.allowUserSpendCap = dto.allowUserSpendCap;
         if (dto.homeTitle !== undefined) config.homeTitle = dto.homeTitle;
         if (dto.quickStartTemplates !== undefined) config.quickStartTemplates = dto.quickStartTemplates;
+        if (dto.complianceEnabled !== undefined) config.complianceEnabled = dto.complianceEnabled;
+        if (dto.complianceBlockCritical !== undefined) config.complianceBlockCritical = dto.complianceBlockCritical;
+        if (dto.complianceRules !== undefined) {
+            const rules = (dto.complianceRules || [])
+                .filter((rule) => rule?.pattern?.trim())
+                .map((rule) => ({
+                    pattern: rule.pattern.trim(),
+                    category: rule.category || "custom",
+                    severity: rule.severity === "critical" ? ("critical" as const) : ("warning" as const),
+                    replacement: rule.replacement?.trim() || null,
+                    isRegex: !!rule.isRegex,
+                    enabled: rule.enabled !== false,
+                }));
+            for (const rule of rules.filter((item) => item.isRegex)) {
+                try {
+                    new RegExp(rule.pattern);
+                } catch {
+                    throw new Error(`合规规则正则无效: ${rule.pattern}`);
+                }
+            }
+            config.complianceRules = rules.length ? rules : null;
+        }
 
         const savedConfig = await this.configRepository.save(config);
 
@@ -121,6 +168,8 @@ export class XhsConfigService {
             pluginName: config.pluginName,
             coverImagePower: config.coverImagePower,
             contentImagePower: config.contentImagePower,
+            summaryImagePower: config.summaryImagePower,
+            pageRewritePower: config.pageRewritePower,
             homeTitle: config.homeTitle,
             quickStartTemplates: config.quickStartTemplates,
         };
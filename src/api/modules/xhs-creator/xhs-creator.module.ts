@@ -7,6 +7,11 @@ import { XhsImageHistory } from "../../db/entities/xhs-image-history.entity";
 import { XhsProvider } from "../../db/entities/xhs-provider.entity";
 import { XhsConfig } from "../../db/entities/xhs-config.entity";
 import { XhsUserUsage } from "../../db/entities/xhs-user-usage.entity";
+import { XhsPromptTemplate } from "../../db/entities/xhs-prompt-template.entity";
+import { XhsOutlineHistory } from "../../db/entities/xhs-outline-history.entity";
+import { XhsPowerHold } from "../../db/entities/xhs-power-hold.entity";
+import { XhsBillingLedger } from "../../db/entities/xhs-billing-ledger.entity";
+import { XhsPricingTier } from "../../db/entities/xhs-pricing-tier.entity";
 import {
     OutlineController,
     ImageController,
@@ -16,6 +21,11 @@ import {
     XhsConfigWebController,
     TaskConsoleController,
     BalanceController,
+    ImageSpecController,
+    PromptTemplateController,
+    StorageConsoleController,
+    BillingConsoleController,
+    PricingTierConsoleController,
 } from "./controllers";
 import {
     OutlineService,
@@ -24,6 +34,24 @@ import {
     XhsConfigService,
     ImageVersionService,
     GeneratorResolverService,
+    ImageSpecificationService,
+    CustomPromptTemplateService,
+    ImageStorageService,
+    ImageStorageMigrationService,
+    TaskPersistenceQueueService,
+    SseConnectionPoolService,
+    GenerationJobService,
+    QueryBuilderService,
+    CircuitBreakerService,
+    ImageRetryService,
+    EncryptionService,
+    ProviderRegistryService,
+    OutlineHistoryService,
+    CaptionService,
+    ComplianceService,
+    PageLayoutService,
+    BillingLedgerService,
+    PricingTierService,
 } from "./services";
 import { BillingService } from "./services/billing.service";
 import { EstimationService } from "./services/estimation.service";
@@ -33,7 +61,7 @@ import { EstimationService } from "./services/estimation.service";
  * 提供AI驱动的小红书图文内容生成功能
  */
 @Module({
-    imports: [TypeOrmModule.forFeature([XhsTask, XhsImage, XhsImageHistory, XhsProvider, XhsConfig, XhsUserUsage]), AiPublicModule],
+    imports: [TypeOrmModule.forFeature([XhsTask, XhsImage, XhsImageHistory, XhsProvider, XhsConfig, XhsUserUsage, XhsPromptTemplate, XhsOutlineHistory, XhsPowerHold, XhsBillingLedger, XhsPricingTier]), AiPublicModule],
     controllers: [
         OutlineController,
         ImageController,
@@ -43,6 +71,11 @@ import { EstimationService } from "./services/estimation.service";
         XhsConfigWebController,
         TaskConsoleController,
         BalanceController,
+        ImageSpecController,
+        PromptTemplateController,
+        StorageConsoleController,
+        BillingConsoleController,
+        PricingTierConsoleController,
     ],
     providers: [
         OutlineService,
@@ -53,6 +86,24 @@ import { EstimationService } from "./services/estimation.service";
         ImageVersionService,
         GeneratorResolverService,
         EstimationService,
+        ImageSpecificationService,
+        CustomPromptTemplateService,
+        ImageStorageService,
+        ImageStorageMigrationService,
+        TaskPersistenceQueueService,
+        SseConnectionPoolService,
+        GenerationJobService,
+        QueryBuilderService,
+        CircuitBreakerService,
+        ImageRetryService,
+        EncryptionService,
+        ProviderRegistryService,
+        OutlineHistoryService,
+        CaptionService,
+        ComplianceService,
+        PageLayoutService,
+        BillingLedgerService,
+        PricingTierService,
     ],
     exports: [
         OutlineService,
@@ -63,6 +114,24 @@ import { EstimationService } from "./services/estimation.service";
         ImageVersionService,
         GeneratorResolverService,
         EstimationService,
+        ImageSpecificationService,
+        CustomPromptTemplateService,
+        ImageStorageService,
+        ImageStorageMigrationService,
+        TaskPersistenceQueueService,
+        SseConnectionPoolService,
+        GenerationJobService,
+        QueryBuilderService,
+        CircuitBreakerService,
+        ImageRetryService,
+        EncryptionService,
+        ProviderRegistryService,
+        OutlineHistoryService,
+        CaptionService,
+        ComplianceService,
+        PageLayoutService,
+        BillingLedgerService,
+        PricingTierService,
     ],
 })
 export class XhsCreatorModule {}
@@ -6,9 +6,36 @@
  * 页面类型
  */
 export interface Page {
+    /** 页面ID（稳定标识，图片按此跟随页面） */
+    id?: string;
     index: number;
     type: "cover" | "content" | "summary";
     content: string;
+    styleId?: string | null;
+    /** 结构化内容（大纲 JSON 输出模式生成，编辑文案后清空） */
+    structured?: StructuredOutlinePage | null;
+    /** 图片提示词覆盖（为空时使用系统组装的提示词） */
+    promptOverride?: PagePromptOverride | null;
+}
+
+/**
+ * 页面级图片提示词覆盖
+ */
+export interface PagePromptOverride {
+    /** replace：作为最终提示词；append：追加到系统提示词之后 */
+    mode: "replace" | "append";
+    text: string;
+}
+
+/**
+ * 结构化大纲页面
+ */
+export interface StructuredOutlinePage {
+    type: "cover" | "content" | "summary";
+    title: string;
+    subtitle: string;
+    bullets: string[];
+    imageDescription: string;
 }
 
 /**
@@ -57,6 +84,15 @@ export interface StreamProgressEvent {
     message?: string;
 }
 
+/**
+ * 封面候选（cover_variants 事件）
+ */
+export interface CoverVariant {
+    version: number;
+    imageUrl: string;
+    thumbnailUrl?: string | null;
+}
+
 /**
  * 插件配置
  */
@@ -64,24 +100,79 @@ export interface RedInkConfig {
     pluginName: string;
 }
 
+/**
+ * 备用图片模型
+ */
+export interface ImageModelRoute {
+    modelId: string;
+    endpointType: "images" | "chat" | "custom";
+    endpointUrl?: string | null;
+}
+
+/**
+ * 合规检查规则
+ */
+export interface ComplianceRule {
+    pattern: string;
+    category: string;
+    severity: "critical" | "warning";
+    replacement?: string | null;
+    isRegex?: boolean;
+    enabled?: boolean;
+}
+
 export interface XhsConfig {
     id: string;
     pluginName: string;
     coverImagePower: number;
     contentImagePower: number;
+    /** 总结页图片积分 */
+    summaryImagePower: number;
     outlinePower: number;
+    pageRewritePower: number;
+    /** 共用免费次数（未单独设置额度的操作共用） */
     freeUsageLimit: number;
+    /** 免费次数重置周期 */
+    freeQuotaPeriod: "none" | "daily" | "weekly" | "monthly";
+    /** 大纲（含单页改写）免费次数，为空使用共用次数 */
+    freeOutlineLimit: number | null;
+    /** 封面图免费次数，为空使用共用次数 */
+    freeCoverImageLimit: number | null;
+    /** 内容图免费次数，为空使用共用次数 */
+    freeContentImageLimit: number | null;
+    /** 每用户每日消费上限（积分），为空不限制 */
+    dailySpendCap: number | null;
+    /** 每用户每月消费上限（积分），为空不限制 */
+    monthlySpendCap: number | null;
+    /** 是否允许用户自行设置消费上限 */
+    allowUserSpendCap: boolean;
     textModel: string;
     textModelId: string | null;
     imageModel: string;
     imageModelId: string | null;
     imageEndpointType: "images" | "chat" | "custom";
     imageEndpointUrl: string | null;
+    /** 备用图片模型（按顺序故障转移） */
+    imageFallbackModels: ImageModelRoute[] | null;
     highConcurrency: boolean;
+    /** 单张图片最大尝试次数（含首次） */
+    imageRetryMaxAttempts: number;
+    /** 重试退避基准间隔（毫秒） */
+    imageRetryBaseDelay: number;
+    /** 可重试错误关键字，为空使用默认规则 */
+    imageRetryableErrors: string[] | null;
     homeTitle: string;
     quickStartTemplates: { title: string; image: string }[] | null;
     outlinePrompt: string | null;
+    /** 大纲输出模式：text 文本 / json 结构化 */
+    outlineOutputMode: "text" | "json";
     imagePrompt: string | null;
+    /** 是否启用大纲合规检查 */
+    complianceEnabled: boolean;
+    /** 存在严重违规时是否阻止图片生成 */
+    complianceBlockCritical: boolean;
+    /** 合规词库，为空使用内置词库 */
+    complianceRules: ComplianceRule[] | null;
     createdAt: string;
     updatedAt: string;
 }
@@ -90,6 +181,8 @@ export interface XhsPluginConfig {
     pluginName: string;
     coverImagePower: number;
     contentImagePower: number;
+    summaryImagePower: number;
+    pageRewritePower: number;
     homeTitle?: string;
     quickStartTemplates?: { title: string; image: string }[] | null;
 }
@@ -117,13 +210,49 @@ export interface XhsImage {
     prompt: string;
     imageUrl?: string;
     thumbnailUrl?: string;
-    status: "pending" | "generating" | "completed" | "failed";
+    status: "pending" | "generating" | "completed" | "failed" | "cancelled";
     errorMessage?: string;
     retryCount: number;
     currentVersion: number;
     createdAt: string;
 }
 
+/**
+ * 图片尺寸规格
+ */
+export interface ImageSizeSpec {
+    id: string;
+    name: string;
+    aspectRatio: string;
+    width: number;
+    height: number;
+    description: string;
+    useCase: string[];
+    recommended: boolean;
+}
+
+/**
+ * 图片风格预设
+ */
+export interface ImageStylePreset {
+    id: string;
+    name: string;
+    promptModifier: string;
+    colorTheme: string[];
+    thumbnailUrl?: string;
+    applicableTypes: ("cover" | "content" | "summary")[];
+    tags: string[];
+}
+
+/**
+ * 图片生成偏好（比例、模型、清晰度）
+ */
+export interface GenerationPreferences {
+    aspectRatio?: string;
+    model?: string;
+    quality?: "1k" | "2k";
+}
+
 export interface XhsTask {
     id: string;
     topic: string;
@@ -141,16 +270,157 @@ export interface XhsTask {
     totalPages: number;
     generatedPages: number;
     errorMessage?: string;
+    stylePresetId?: string | null;
+    /** 任务预算（积分），为空不限制 */
+    budget?: number | null;
+    generationPreferences?: GenerationPreferences | null;
+    caption?: XhsCaption | null;
     createdAt: string;
     updatedAt: string;
     images?: XhsImage[];
 }
 
+/**
+ * 发布文案
+ */
+export interface XhsCaption {
+    /** AI 生成的标题候选（每个不超过 20 字） */
+    titles: string[];
+    title: string;
+    body: string;
+    /** 话题标签（不含 #） */
+    hashtags: string[];
+    generatedAt: string | null;
+}
+
+export interface CaptionResponse {
+    success: boolean;
+    caption: XhsCaption;
+}
+
+/**
+ * 单条违规命中
+ */
+export interface ComplianceFinding {
+    category: string;
+    severity: "critical" | "warning";
+    match: string;
+    start: number;
+    /** 建议替换词，为空表示建议删除 */
+    replacement: string | null;
+    pattern: string;
+}
+
+/**
+ * 大纲合规检查结果（只包含有命中的页面）
+ */
+export interface ComplianceReport {
+    enabled: boolean;
+    blockCritical: boolean;
+    criticalCount: number;
+    warningCount: number;
+    pages: { index: number; findings: ComplianceFinding[] }[];
+}
+
+export interface ComplianceCheckResponse {
+    success: boolean;
+    compliance: ComplianceReport;
+}
+
 export interface OutlineResponse {
     success: boolean;
     taskId: string;
     outline: string;
     pages: Page[];
+    compliance?: ComplianceReport;
+}
+
+/**
+ * 流式大纲事件
+ */
+export type OutlineStreamEvent =
+    | { type: "start"; taskId: string; billing: { isFree: boolean; powerDeducted: number } }
+    | { type: "delta"; content: string }
+    | { type: "page"; page: Page }
+    | {
+          type: "complete";
+          taskId: string;
+          outline: string;
+          pages: Page[];
+          compliance?: ComplianceReport;
+          billing: { isFree: boolean; powerDeducted: number };
+      }
+    | { type: "error"; message: string };
+
+/**
+ * 大纲版本（列表项，不含页面快照）
+ */
+export interface OutlineVersion {
+    version: number;
+    source: "ai" | "user-edit" | "page-rewrite";
+    /** 单页改写的页面索引 */
+    pageIndex: number | null;
+    pageCount: number;
+    isCurrent: boolean;
+    createdAt: string;
+}
+
+/**
+ * 大纲页面级差异
+ */
+export interface OutlinePageDiff {
+    index: number;
+    status: "added" | "removed" | "modified" | "unchanged";
+    before: Page | null;
+    after: Page | null;
+}
+
+export interface OutlineVersionListResponse {
+    success: boolean;
+    versions: OutlineVersion[];
+}
+
+export interface OutlineDiffResponse {
+    success: boolean;
+    from: number;
+    to: number | null;
+    pages: OutlinePageDiff[];
+}
+
+export interface OutlineRestoreResponse {
+    success: boolean;
+    message: string;
+    task: {
+        id: string;
+        outline: string;
+        pages: Page[];
+        totalPages: number;
+    };
+}
+
+export interface TextModelCapabilitiesResponse {
+    success: boolean;
+    modelName: string | null;
+    vision: boolean;
+}
+
+export interface RewritePageResponse {
+    success: boolean;
+    page: Page;
+    compliance?: ComplianceReport;
+    billing: { isFree: boolean; powerDeducted: number };
+}
+
+export interface PromptPreviewResponse {
+    success: boolean;
+    pages: Array<{
+        index: number;
+        /** 系统组装的提示词 */
+        compiledPrompt: string;
+        /** 应用覆盖后实际用于生成的提示词 */
+        prompt: string;
+        promptOverride: PagePromptOverride | null;
+    }>;
 }
 
 export interface RegenerateImageResponse {
@@ -174,6 +444,144 @@ export interface TaskDetailResponse {
     task: XhsTask;
 }
 
+/**
+ * 费用汇总（积分）
+ */
+export interface CostSummary {
+    charged: number;
+    refunded: number;
+    /** 实际花费（扣费减退款） */
+    net: number;
+    freeUses: number;
+}
+
+/**
+ * 计费账本记录
+ */
+export interface BillingLedgerEntry {
+    id: string;
+    type: "charge" | "free-use" | "refund" | "free-refund";
+    scene: "outline" | "page-rewrite" | "image";
+    amount: number;
+    imageId: string | null;
+    pageId: string | null;
+    pageIndex: number | null;
+    pageType: Page["type"] | null;
+    version: number | null;
+    createdAt: string;
+}
+
+/**
+ * 任务费用明细
+ */
+export interface TaskCostBreakdown extends CostSummary {
+    scenes: Array<CostSummary & { scene: BillingLedgerEntry["scene"] }>;
+    pages: Array<CostSummary & { pageId: string | null; pageIndex: number | null; pageType: Page["type"] | null }>;
+    entries: BillingLedgerEntry[];
+}
+
+export interface TaskBillingResponse {
+    success: boolean;
+    billing: TaskCostBreakdown;
+}
+
+/**
+ * 会员等级定价（免费次数为空沿用全局配置，最大页数为空不限制）
+ */
+export interface XhsPricingTier {
+    id: string;
+    /** 主系统会员等级ID */
+    membershipLevelId: string;
+    name: string;
+    outlinePower: number;
+    pageRewritePower: number;
+    coverImagePower: number;
+    contentImagePower: number;
+    summaryImagePower: number;
+    freeUsageLimit: number | null;
+    freeOutlineLimit: number | null;
+    freeCoverImageLimit: number | null;
+    freeContentImageLimit: number | null;
+    maxPages: number | null;
+    isEnabled: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * 主系统会员等级
+ */
+export interface MembershipLevelOption {
+    id: string;
+    name: string;
+    level: number;
+}
+
+/**
+ * 当前用户适用的定价（按会员等级匹配，未匹配时为全局配置）
+ */
+export interface UserPricing {
+    outlinePower: number;
+    pageRewritePower: number;
+    coverImagePower: number;
+    contentImagePower: number;
+    summaryImagePower: number;
+    freeUsageLimit: number;
+    freeQuotaPeriod: XhsConfig["freeQuotaPeriod"];
+    freeQuotaLimits: Record<"outline" | "cover" | "content", number | null>;
+    /** 每个任务最大页数，为空不限制 */
+    maxPages: number | null;
+    /** 匹配到的定价，为空表示使用全局配置 */
+    tierId: string | null;
+    tierName: string | null;
+}
+
+/**
+ * 消费上限范围：今日、本月、任务预算
+ */
+export type SpendLimitScope = "daily" | "monthly" | "task";
+
+/**
+ * 单项消费上限使用情况
+ */
+export interface SpendLimitUsage {
+    /** 生效的上限，为空不限制 */
+    limit: number | null;
+    /** 已消费积分（含进行中的生成冻结的积分） */
+    spent: number;
+    /** 剩余可消费积分，不限制时为空 */
+    remaining: number | null;
+    resetAt: string | null;
+}
+
+/**
+ * 用户消费上限汇总
+ */
+export interface SpendLimitSummary {
+    daily: SpendLimitUsage;
+    monthly: SpendLimitUsage;
+    /** 任务预算（未指定任务时为空） */
+    task: SpendLimitUsage | null;
+    adminDailyCap: number | null;
+    adminMonthlyCap: number | null;
+    userDailyCap: number | null;
+    userMonthlyCap: number | null;
+    allowUserSpendCap: boolean;
+}
+
+/**
+ * 超出消费上限或任务预算时的 budget_exceeded 事件
+ */
+export interface BudgetExceededEvent {
+    scope: SpendLimitScope;
+    limit: number;
+    spent: number;
+    required: number;
+    /** 因此未生成的页面 */
+    pageIndexes: number[];
+    message: string;
+}
+
 export interface TaskImagesResponse {
     success: boolean;
     images: XhsImage[];
@@ -182,6 +590,15 @@ export interface TaskImagesResponse {
 export interface ProviderListResponse {
     success: boolean;
     providers: XhsProvider[];
+    /** 各服务类型当前激活的服务商ID，null 表示使用系统模型 */
+    active: Record<XhsProvider["serviceType"], string | null>;
+}
+
+export interface ProviderTestResponse {
+    success: boolean;
+    ok: boolean;
+    latency: number;
+    message: string;
 }
 
 export interface ProviderMutationResponse {
@@ -1,4 +1,4 @@
-import type { XhsConfig } from "~/models";
+import type { ComplianceRule, XhsConfig } from "~/models";
 
 /**
  * 获取小红书图文配置
@@ -21,22 +21,50 @@ export const apiUpdateXhsConfig = async (
             | "pluginName"
             | "coverImagePower"
             | "contentImagePower"
+            | "summaryImagePower"
             | "outlinePower"
+            | "pageRewritePower"
             | "freeUsageLimit"
+            | "freeQuotaPeriod"
+            | "freeOutlineLimit"
+            | "freeCoverImageLimit"
+            | "freeContentImageLimit"
+            | "dailySpendCap"
+            | "monthlySpendCap"
+            | "allowUserSpendCap"
             | "textModel"
             | "textModelId"
             | "imageModel"
             | "imageModelId"
             | "imageEndpointType"
             | "imageEndpointUrl"
+            | "imageFallbackModels"
             | "highConcurrency"
+            | "imageRetryMaxAttempts"
+            | "imageRetryBaseDelay"
+            | "imageRetryableErrors"
             | "homeTitle"
             | "quickStartTemplates"
             | "outlinePrompt"
+            | "outlineOutputMode"
             | "imagePrompt"
+            | "complianceEnabled"
+            | "complianceBlockCritical"
+            | "complianceRules"
         >
     >,
 ) => {
     return await usePluginConsolePatch(`/config/${id}`, data);
 };
 
+
+/**
+ * 获取内置合规词库与分类
+ */
+export const apiGetDefaultComplianceRules = async () => {
+    return (await usePluginConsoleGet("/config/compliance/default-rules")) as {
+        success: boolean;
+        rules: ComplianceRule[];
+        categories: Record<string, string>;
+    };
+};
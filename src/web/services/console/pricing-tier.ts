@@ -0,0 +1,53 @@
+import type { MembershipLevelOption, XhsPricingTier } from "~/models";
+
+/**
+ * 定价配置可编辑字段
+ */
+export type PricingTierPayload = Omit<XhsPricingTier, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * 获取会员等级定价列表
+ */
+export const apiGetPricingTiers = async () => {
+    return (await usePluginConsoleGet("/pricing-tiers")) as {
+        success: boolean;
+        tiers: XhsPricingTier[];
+    };
+};
+
+/**
+ * 获取主系统会员等级
+ */
+export const apiGetMembershipLevels = async () => {
+    return (await usePluginConsoleGet("/pricing-tiers/membership-levels")) as {
+        success: boolean;
+        levels: MembershipLevelOption[];
+    };
+};
+
+/**
+ * 创建会员等级定价
+ */
+export const apiCreatePricingTier = async (data: PricingTierPayload) => {
+    return (await usePluginConsolePost("/pricing-tiers", data)) as {
+        success: boolean;
+        tier: XhsPricingTier;
+    };
+};
+
+/**
+ * 更新会员等级定价
+ */
+export const apiUpdatePricingTier = async (id: string, data: Partial<Omit<PricingTierPayload, "membershipLevelId">>) => {
+    return (await usePluginConsolePut(`/pricing-tiers/${id}`, data)) as {
+        success: boolean;
+        tier: XhsPricingTier;
+    };
+};
+
+/**
+ * 删除会员等级定价
+ */
+export const apiDeletePricingTier = async (id: string) => {
+    return (await usePluginConsoleDelete(`/pricing-tiers/${id}`)) as { success: boolean };
+};
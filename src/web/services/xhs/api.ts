@@ -1,14 +1,34 @@
 import { useUserStore } from "@buildingai/stores/user";
 
 import type {
+    CaptionResponse,
+    ComplianceCheckResponse,
+    ComplianceReport,
+    GenerationPreferences,
+    ImageSizeSpec,
+    ImageStylePreset,
+    OutlineDiffResponse,
     OutlineResponse,
+    OutlineRestoreResponse,
+    OutlineStreamEvent,
     ProviderListResponse,
     ProviderMutationResponse,
+    ProviderTestResponse,
     OperationResult,
+    OutlineVersionListResponse,
+    PagePromptOverride,
+    PromptPreviewResponse,
+    TaskBillingResponse,
     RegenerateImageResponse,
+    RewritePageResponse,
+    TextModelCapabilitiesResponse,
+    StructuredOutlinePage,
     TaskDetailResponse,
     TaskImagesResponse,
+    SpendLimitSummary,
     TaskListResponse,
+    UserPricing,
+    XhsCaption,
 } from "~/models";
 
 /**
@@ -45,20 +65,68 @@ const buildWebApiUrl = (path: string) => `${getPluginWebBaseUrl()}${path}`;
  */
 export const balanceApi = {
     /**
-     * 获取用户使用统计（免费次数、余额等）
+     * 获取用户使用统计（当前周期的免费额度、余额等）
      */
     async getUserUsage() {
         return await usePluginWebGet<{
             success: boolean;
             data?: {
+                /** 共用免费次数 */
                 freeUsageCount: number;
                 freeUsageLimit: number;
                 remainingFreeCount: number;
+                freeQuotaPeriod: "none" | "daily" | "weekly" | "monthly";
+                /** 当前周期开始时间（不重置时为空） */
+                periodStart: string | null;
+                /** 下次重置时间（不重置时为空） */
+                resetAt: string | null;
+                /** 各类操作的免费额度，shared 表示使用共用次数 */
+                quotas: Record<
+                    "outline" | "cover" | "content",
+                    { used: number; limit: number; remaining: number; shared: boolean }
+                >;
                 userPower: number;
+                /** 进行中的批量生成冻结的积分 */
+                heldPower: number;
+                /** 可用积分（余额减去冻结积分） */
+                availablePower: number;
             };
             message?: string;
         }>("/balance/usage");
     },
+
+    /**
+     * 获取当前用户适用的定价（按会员等级匹配）
+     */
+    async getPricing() {
+        return await usePluginWebGet<{
+            success: boolean;
+            data?: UserPricing;
+            message?: string;
+        }>("/balance/pricing");
+    },
+
+    /**
+     * 获取消费上限（今日、本月），传入任务ID时附带任务预算
+     */
+    async getSpendLimits(taskId?: string | null) {
+        return await usePluginWebGet<{
+            success: boolean;
+            data?: SpendLimitSummary;
+            message?: string;
+        }>(`/balance/spend-limits${taskId ? `?taskId=${encodeURIComponent(taskId)}` : ""}`);
+    },
+
+    /**
+     * 设置自己的每日/每月消费上限（为空不限制）
+     */
+    async updateSpendLimits(data: { dailySpendCap?: number | null; monthlySpendCap?: number | null }) {
+        return await usePluginWebPut<{
+            success: boolean;
+            data?: SpendLimitSummary;
+            message?: string;
+        }>("/balance/spend-limits", data);
+    },
 };
 
 /**
@@ -68,12 +136,168 @@ export const outlineApi = {
     /**
      * 生成大纲
      */
-    async generate(topic: string, userImages?: string[]) {
+    async generate(topic: string, userImages?: string[], stylePresetId?: string | null) {
         return await usePluginWebPost<OutlineResponse>("/outline", {
             topic,
             userImages,
+            stylePresetId: stylePresetId || undefined,
         });
     },
+
+    /**
+     * 流式生成大纲（POST + SSE 流式响应）
+     * 页面块生成完成即推送 page 事件，最终以 complete 事件返回完整大纲
+     */
+    async generateStream(
+        topic: string,
+        userImages: string[] | undefined,
+        stylePresetId: string | null | undefined,
+        onEvent: (data: OutlineStreamEvent) => void,
+    ): Promise<void> {
+        await postEventStream(
+            "/outline/stream",
+            {
+                topic,
+                userImages,
+                stylePresetId: stylePresetId || undefined,
+            },
+            onEvent,
+            "大纲生成",
+        );
+    },
+
+    /**
+     * 获取当前文本模型能力（是否支持识图）
+     */
+    async getCapabilities() {
+        return await usePluginWebGet<TextModelCapabilitiesResponse>("/outline/capabilities");
+    },
+
+    /**
+     * 按要求改写单页大纲
+     * @param pages 编辑中的大纲，作为改写上下文并随改写结果一并保存
+     */
+    async rewritePage(
+        taskId: string,
+        pageIndex: number,
+        instruction: string,
+        pages?: Array<{
+            index: number;
+            type: "cover" | "content" | "summary";
+            content: string;
+            styleId?: string | null;
+            structured?: StructuredOutlinePage | null;
+        }>,
+    ) {
+        return await usePluginWebPost<RewritePageResponse>("/outline/rewrite-page", {
+            taskId,
+            pageIndex,
+            instruction,
+            pages,
+        });
+    },
+
+    /**
+     * 检查大纲合规性（可传入未保存的本地修改）
+     */
+    async checkCompliance(pages: Array<{ index: number; content: string }>) {
+        return await usePluginWebPost<ComplianceCheckResponse>("/outline/compliance", { pages });
+    },
+};
+
+/**
+ * 图片规格API（尺寸规格、风格预设）
+ */
+export const specApi = {
+    /**
+     * 获取尺寸规格
+     * @param recommended 仅返回小红书推荐尺寸
+     */
+    async getSizeSpecs(recommended?: boolean) {
+        return await usePluginWebGet<{
+            success: boolean;
+            sizes: ImageSizeSpec[];
+        }>(`/specs/sizes${recommended ? "?recommended=true" : ""}`);
+    },
+
+    /**
+     * 获取风格预设
+     * @param pageType 按页面类型过滤
+     */
+    async getStylePresets(pageType?: "cover" | "content" | "summary") {
+        return await usePluginWebGet<{
+            success: boolean;
+            styles: ImageStylePreset[];
+        }>(`/specs/styles${pageType ? `?pageType=${pageType}` : ""}`);
+    },
+};
+
+/**
+ * POST 请求并按 SSE 文本流逐条解析事件
+ * @param label 用于错误提示的接口名称
+ */
+const postEventStream = async (
+    path: string,
+    body: Record<string, any>,
+    onEvent: (data: any) => void,
+    label: string,
+): Promise<void> => {
+    const url = buildWebApiUrl(path);
+
+    // Get authentication token from user store
+    const userStore = useUserStore();
+    const token = userStore.token || userStore.temporaryToken;
+
+    // Build headers with authentication
+    const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "Accept": "text/event-stream",
+    };
+
+    if (token) {
+        headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    const response = await fetch(url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+    });
+
+    if (!response.ok || !response.body) {
+        throw new Error(`${label}接口请求失败: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder("utf-8");
+    let buffer = "";
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        const events = buffer.split("\n\n");
+        buffer = events.pop() || "";
+
+        for (const rawEvent of events) {
+            const trimmed = rawEvent.trim();
+            if (!trimmed) continue;
+
+            const lines = trimmed.split("\n");
+            const dataLine = lines.find((line) => line.startsWith("data:"));
+            if (!dataLine) continue;
+
+            const jsonStr = dataLine.replace(/^data:\s*/, "");
+            try {
+                const data = JSON.parse(jsonStr);
+                onEvent(data);
+            } catch (error) {
+                console.error(`解析${label} SSE 数据失败:`, error, jsonStr);
+            }
+        }
+    }
 };
 
 /**
@@ -82,6 +306,7 @@ export const outlineApi = {
 export const imageApi = {
     /**
      * 批量生成图片（SSE，使用 POST 文本流，避免超长 URL）
+     * 生成在服务端执行，连接断开后可通过 subscribeGeneration 重新订阅
      * @param isRegenerate 是否为批量重绘（全部重绘）
      */
     async generateImages(
@@ -90,68 +315,60 @@ export const imageApi = {
         fullOutline: string,
         onEvent: (data: any) => void,
         isRegenerate?: boolean,
+        preferences?: GenerationPreferences,
+        coverVariants?: number,
+        pageIds?: string[],
     ): Promise<void> {
-        const url = buildWebApiUrl("/images/generate");
-
-        // Get authentication token from user store
-        const userStore = useUserStore();
-        const token = userStore.token || userStore.temporaryToken;
-
-        // Build headers with authentication
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-            "Accept": "text/event-stream",
-        };
-
-        if (token) {
-            headers["Authorization"] = `Bearer ${token}`;
-        }
-
-        const response = await fetch(url, {
-            method: "POST",
-            headers,
-            body: JSON.stringify({
+        await postEventStream(
+            "/images/generate",
+            {
                 taskId,
                 pages,
                 fullOutline,
                 isRegenerate,
-            }),
-        });
-
-        if (!response.ok || !response.body) {
-            throw new Error(`图片生成接口请求失败: ${response.status}`);
-        }
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder("utf-8");
-        let buffer = "";
-
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
+                ...preferences,
+                coverVariants,
+                pageIds,
+            },
+            onEvent,
+            "图片生成",
+        );
+    },
 
-            const events = buffer.split("\n\n");
-            buffer = events.pop() || "";
+    /**
+     * 预览页面的图片提示词（页面格式同批量生成）
+     */
+    async previewPrompts(taskId: string, pages: any[], fullOutline: string) {
+        return await usePluginWebPost<PromptPreviewResponse>("/images/prompt-preview", {
+            taskId,
+            pages,
+            fullOutline,
+        });
+    },
 
-            for (const rawEvent of events) {
-                const trimmed = rawEvent.trim();
-                if (!trimmed) continue;
+    /**
+     * 选择封面候选，生成流程以选中封面继续生成内容页
+     */
+    async selectCover(taskId: string, version: number) {
+        return await usePluginWebPost<OperationResult>("/images/cover/select", {
+            taskId,
+            version,
+        });
+    },
 
-                const lines = trimmed.split("\n");
-                const dataLine = lines.find((line) => line.startsWith("data:"));
-                if (!dataLine) continue;
+    /**
+     * 订阅任务生成进度（断线重连，先回放已发生的事件）
+     * 任务未在生成且无可回放事件时立即结束
+     */
+    async subscribeGeneration(taskId: string, onEvent: (data: any) => void): Promise<void> {
+        await postEventStream("/images/stream", { taskId }, onEvent, "生成进度订阅");
+    },
 
-                const jsonStr = dataLine.replace(/^data:\s*/, "");
-                try {
-                    const data = JSON.parse(jsonStr);
-                    onEvent(data);
-                } catch (error) {
-                    console.error("解析图片生成 SSE 数据失败:", error, jsonStr);
-                }
-            }
-        }
+    /**
+     * 重试任务中生成失败的页面（POST + SSE 流式响应，事件格式同批量生成）
+     */
+    async retryFailed(taskId: string, onEvent: (data: any) => void): Promise<void> {
+        await postEventStream("/images/retry-failed", { taskId }, onEvent, "失败页重试");
     },
 
     /**
@@ -162,6 +379,7 @@ export const imageApi = {
         pageIndex: number,
         prompt: string,
         onEvent: (data: any) => void,
+        preferences?: GenerationPreferences,
     ): Promise<void> {
         const url = buildWebApiUrl("/images/regenerate");
 
@@ -186,6 +404,7 @@ export const imageApi = {
                 taskId,
                 pageIndex,
                 prompt,
+                ...preferences,
             }),
         });
 
@@ -236,6 +455,7 @@ export const imageApi = {
                 imageUrl: string;
                 prompt: string;
                 generatedBy: string;
+                generatedModel?: string | null;
                 powerAmount: number;
                 isCurrent: boolean;
                 createdAt: string;
@@ -366,7 +586,15 @@ export const taskApi = {
      */
     async updateOutline(
         taskId: string,
-        pages: Array<{ index: number; type: "cover" | "content" | "summary"; content: string }>,
+        pages: Array<{
+            id?: string;
+            index: number;
+            type: "cover" | "content" | "summary";
+            content: string;
+            styleId?: string | null;
+            structured?: StructuredOutlinePage | null;
+            promptOverride?: PagePromptOverride | null;
+        }>,
     ) {
         return await usePluginWebPut<{
             success: boolean;
@@ -376,8 +604,84 @@ export const taskApi = {
                 pages: typeof pages;
                 totalPages: number;
             };
+            compliance: ComplianceReport;
         }>(`/tasks/${taskId}/outline`, { pages });
     },
+
+    /**
+     * 获取大纲版本列表
+     */
+    async getOutlineVersions(taskId: string) {
+        return await usePluginWebGet<OutlineVersionListResponse>(`/tasks/${taskId}/outline/versions`);
+    },
+
+    /**
+     * 对比大纲版本（未传 to 时与当前大纲对比）
+     */
+    async diffOutlineVersions(taskId: string, from: number, to?: number) {
+        const params = new URLSearchParams({ from: from.toString() });
+        if (to !== undefined) params.append("to", to.toString());
+        return await usePluginWebGet<OutlineDiffResponse>(
+            `/tasks/${taskId}/outline/diff?${params.toString()}`,
+        );
+    },
+
+    /**
+     * 恢复到指定大纲版本
+     */
+    async restoreOutlineVersion(taskId: string, version: number) {
+        return await usePluginWebPost<OutlineRestoreResponse>(
+            `/tasks/${taskId}/outline/versions/${version}/restore`,
+        );
+    },
+
+    /**
+     * AI 生成（或重新生成）发布文案
+     */
+    async generateCaption(taskId: string) {
+        return await usePluginWebPost<CaptionResponse>(`/tasks/${taskId}/caption`);
+    },
+
+    /**
+     * 保存编辑后的发布文案
+     */
+    async updateCaption(taskId: string, caption: Partial<Omit<XhsCaption, "generatedAt">>) {
+        return await usePluginWebPut<CaptionResponse>(`/tasks/${taskId}/caption`, caption);
+    },
+
+    /**
+     * 获取任务费用明细
+     */
+    async getBilling(taskId: string) {
+        return await usePluginWebGet<TaskBillingResponse>(`/tasks/${taskId}/billing`);
+    },
+
+    /**
+     * 取消图片生成（未完成页面的积分自动退回）
+     */
+    async cancel(taskId: string) {
+        return await usePluginWebPost<{ success: boolean }>(`/tasks/${taskId}/cancel`);
+    },
+
+    /**
+     * 更新任务风格预设
+     */
+    async updateStyle(taskId: string, stylePresetId: string | null) {
+        return await usePluginWebPut<{
+            success: boolean;
+            stylePresetId: string | null;
+        }>(`/tasks/${taskId}/style`, { stylePresetId });
+    },
+
+    /**
+     * 设置任务预算（积分），为空不限制
+     */
+    async updateBudget(taskId: string, budget: number | null) {
+        return await usePluginWebPut<{
+            success: boolean;
+            budget: number | null;
+        }>(`/tasks/${taskId}/budget`, { budget });
+    },
 };
 
 /**
@@ -412,6 +716,20 @@ export const providerApi = {
         return await usePluginConsolePost<OperationResult>(`/providers/${id}/activate`);
     },
 
+    /**
+     * 取消激活服务商（回退到系统模型）
+     */
+    async deactivate(id: string) {
+        return await usePluginConsolePost<OperationResult>(`/providers/${id}/deactivate`);
+    },
+
+    /**
+     * 测试服务商连接
+     */
+    async test(id: string) {
+        return await usePluginConsolePost<ProviderTestResponse>(`/providers/${id}/test`);
+    },
+
     /**
      * 删除服务商
      */
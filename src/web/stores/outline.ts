@@ -2,6 +2,7 @@ import { defineStore } from "pinia";
 
 import type { OutlineResponse } from "~/models";
 import { outlineApi } from "~/services/xhs/api";
+import { useXhsCreatorStore } from "./xhs-creator";
 
 /**
  * 页面类型（用于大纲 Store）
@@ -81,18 +82,14 @@ export const useOutlineStore = defineStore("xhsOutline", {
 
         /** 增量重绘所需积分 */
         dirtyPagesPower(): number {
-            return this.dirtyPages.reduce(
-                (sum, p) => sum + (p.type === "cover" ? 80 : 40),
-                0,
-            );
+            const pagePower = useXhsCreatorStore().pagePower;
+            return this.dirtyPages.reduce((sum, p) => sum + pagePower[p.type], 0);
         },
 
         /** 全部重绘所需积分 */
         totalPagesPower(): number {
-            return this.pages.reduce(
-                (sum, p) => sum + (p.type === "cover" ? 80 : 40),
-                0,
-            );
+            const pagePower = useXhsCreatorStore().pagePower;
+            return this.pages.reduce((sum, p) => sum + pagePower[p.type], 0);
         },
     },
 
@@ -1,13 +1,24 @@
 import { defineStore } from "pinia";
 
 import type {
+    BudgetExceededEvent,
+    ComplianceFinding,
+    ComplianceReport,
+    CoverVariant,
+    GenerationPreferences,
+    ImageStylePreset,
     OutlineResponse,
+    PagePromptOverride,
     RegenerateImageResponse,
+    SpendLimitScope,
+    SpendLimitSummary,
+    StructuredOutlinePage,
     TaskDetailResponse,
     TaskImagesResponse,
     TaskListResponse,
+    UserPricing,
 } from "~/models";
-import { outlineApi, imageApi, taskApi } from "~/services/xhs/api";
+import { balanceApi, outlineApi, imageApi, taskApi, specApi } from "~/services/xhs/api";
 
 /**
  * 从页面内容中提取图片提示词（与后端逻辑保持一致）
@@ -21,16 +32,66 @@ const extractImagePrompt = (content: string): string => {
     return typeof prompt === "string" ? prompt.trim() : content;
 };
 
+/**
+ * 生成新页面的ID（服务端会校验，无效时重新分配）
+ */
+export const createPageId = (): string => {
+    if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+        return crypto.randomUUID();
+    }
+    return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, (c) => {
+        const r = (Math.random() * 16) | 0;
+        return (c === "x" ? r : (r & 0x3) | 0x8).toString(16);
+    });
+};
+
+/**
+ * 转换为图片生成接口的页面格式
+ * 为避免请求体过大，仅传递图片生成所需的关键信息（图片描述限制长度）
+ */
+const toGenerationPages = (pages: Page[]) =>
+    pages.map((p) => ({
+        id: p.id,
+        index: p.index,
+        type: p.type,
+        content: extractImagePrompt(p.content).slice(0, 300),
+        styleId: p.styleId,
+        promptOverride: p.promptOverride ?? null,
+    }));
+
+/**
+ * 清晰度积分倍率（与后端 QUALITY_POWER_MULTIPLIER 保持一致）
+ */
+const QUALITY_POWER_MULTIPLIER: Record<string, number> = {
+    "1k": 1,
+    "2k": 1.5,
+};
+
+/**
+ * 输入框中的生成偏好（与 GenerationPreferences 组件一致）
+ */
+export interface ComposerPreferences {
+    mode: "auto" | "image" | "video";
+    aspectRatio: string;
+    model: string;
+    quality: string;
+}
+
 /**
  * 页面类型
  */
 export interface Page {
+    id?: string;                 // 页面ID（稳定标识，图片按此跟随页面）
     index: number;
     type: "cover" | "content" | "summary";
     content: string;
+    styleId?: string | null;     // 页面级风格预设（为空时使用任务风格）
+    promptOverride?: PagePromptOverride | null; // 图片提示词覆盖（为空时使用系统提示词）
+    structured?: StructuredOutlinePage | null; // 结构化内容（JSON 大纲模式）
     imageUrl?: string;
-    status?: "pending" | "generating" | "completed" | "failed";
+    status?: "pending" | "generating" | "completed" | "failed" | "cancelled";
     errorMessage?: string;
+    retryAttempt?: { attempt: number; maxAttempts: number }; // 自动重试进度（生成中时有值）
     // 增量重绘相关字段
     isDirty?: boolean;           // 是否被修改（相对于原始内容）
     originalContent?: string;     // 原始内容快照（仅历史编辑时有值）
@@ -52,9 +113,15 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
         outline: "",
         pages: [] as Page[],
 
+        // 大纲合规检查结果
+        compliance: null as ComplianceReport | null,
+
         // 生成状态
         isGeneratingOutline: false,
         isGeneratingImages: false,
+        // 取消生成：请求中 / 本轮已被取消
+        isCancellingGeneration: false,
+        generationCancelled: false,
         generationProgress: {
             stage: "", // 'cover' | 'content'
             current: 0,
@@ -62,6 +129,30 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             message: "",
         },
 
+        // 生成偏好（自动模式下不传，由后端沿用任务偏好或默认值）
+        preferences: {
+            mode: "auto",
+            aspectRatio: "auto",
+            model: "4.0",
+            quality: "2k",
+        } as ComposerPreferences,
+
+        // 封面候选数（大于 1 时先生成多张封面供选择）与等待选择的候选
+        coverVariantCount: 1,
+        coverVariants: null as { pageIndex: number; variants: CoverVariant[] } | null,
+        isSelectingCover: false,
+
+        // 当前用户适用的定价（按会员等级匹配）
+        pricing: null as UserPricing | null,
+
+        // 消费上限（今日、本月与当前任务预算）与最近一次因超出上限停止的生成
+        spendLimits: null as SpendLimitSummary | null,
+        budgetExceeded: null as BudgetExceededEvent | null,
+
+        // 任务风格预设
+        stylePresetId: null as string | null,
+        stylePresets: [] as ImageStylePreset[],
+
         // 编辑来源：'new' 新建 | 'history' 从历史记录编辑
         editSource: null as 'new' | 'history' | null,
 
@@ -119,42 +210,154 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             return this.pages.filter((p) => p.isDirty === true).length;
         },
 
+        /**
+         * 提交给后端的图片生成偏好
+         */
+        imagePreferences(): GenerationPreferences {
+            if (this.preferences.mode === "auto") {
+                return {};
+            }
+            return {
+                aspectRatio: this.preferences.aspectRatio === "auto" ? undefined : this.preferences.aspectRatio,
+                model: this.preferences.model,
+                quality: this.preferences.quality as GenerationPreferences["quality"],
+            };
+        },
+
+        /**
+         * 当前清晰度对应的积分倍率
+         */
+        powerMultiplier(): number {
+            const quality = this.imagePreferences.quality;
+            return (quality && QUALITY_POWER_MULTIPLIER[quality]) || 1;
+        },
+
+        /**
+         * 各页面类型的图片单价（来自定价接口，未加载时为 0）
+         */
+        pagePower(): Record<Page["type"], number> {
+            return {
+                cover: this.pricing?.coverImagePower ?? 0,
+                content: this.pricing?.contentImagePower ?? 0,
+                summary: this.pricing?.summaryImagePower ?? 0,
+            };
+        },
+
+        /**
+         * 单页生成所需积分（封面按候选数计费）
+         */
+        pageGenerationPower(): (page: Page) => number {
+            return (page) =>
+                Math.ceil(
+                    this.pagePower[page.type] * (page.type === "cover" ? this.coverVariantCount : 1) * this.powerMultiplier,
+                );
+        },
+
         /**
          * 增量重绘：仅重绘修改页面所需积分
          */
         dirtyPagesPower(): number {
             return this.pages
                 .filter((p) => p.isDirty === true)
-                .reduce((sum, p) => sum + (p.type === "cover" ? 80 : 40), 0);
+                .reduce((sum, p) => sum + this.pageGenerationPower(p), 0);
         },
 
         /**
-         * 全部重绘所需积分
+         * 全部重绘所需积分（封面按候选数计费）
          */
         totalPagesPower(): number {
-            return this.pages.reduce((sum, p) => sum + (p.type === "cover" ? 80 : 40), 0);
+            return this.pages.reduce((sum, p) => sum + this.pageGenerationPower(p), 0);
+        },
+
+        /**
+         * 当前最紧的消费限制（任务预算、今日、本月中剩余最少的一项），都不限制时为 null
+         */
+        tightestSpendLimit(): { scope: SpendLimitScope; limit: number; remaining: number } | null {
+            if (!this.spendLimits) {
+                return null;
+            }
+            const { task, daily, monthly } = this.spendLimits;
+            const candidates: Array<[SpendLimitScope, typeof daily | null]> = [
+                ["task", task],
+                ["daily", daily],
+                ["monthly", monthly],
+            ];
+            let tightest: { scope: SpendLimitScope; limit: number; remaining: number } | null = null;
+            for (const [scope, usage] of candidates) {
+                if (!usage || usage.limit === null || usage.remaining === null) {
+                    continue;
+                }
+                if (!tightest || usage.remaining < tightest.remaining) {
+                    tightest = { scope, limit: usage.limit, remaining: usage.remaining };
+                }
+            }
+            return tightest;
+        },
+
+        /**
+         * 超出会员等级最大页数时的上限（未超出时为 null）
+         */
+        exceededMaxPages(): number | null {
+            const maxPages = this.pricing?.maxPages;
+            return maxPages && this.pages.length > maxPages ? maxPages : null;
         },
     },
 
     actions: {
         /**
-         * 生成大纲
+         * 生成大纲（流式）
+         * 页面块生成完成即加入 pages，便于大纲页边生成边展示
+         * @param onFirstPage 收到第一页时回调（用于提前切换到大纲页）
          */
-        async generateOutline() {
+        async generateOutline(onFirstPage?: () => void) {
             this.isGeneratingOutline = true;
+            this.outline = "";
+            this.pages = [];
+            this.compliance = null;
 
             try {
-                const result: OutlineResponse = await outlineApi.generate(
-                    this.topic,
-                    this.userImages,
-                );
+                let result = null as OutlineResponse | null;
+                let streamError = null as string | null;
 
-                this.taskId = result.taskId;
-                this.outline = result.outline;
-                this.pages = result.pages.map((p: any) => ({
-                    ...p,
-                    status: "pending",
-                }));
+                await outlineApi.generateStream(this.topic, this.userImages, this.stylePresetId, (event) => {
+                    switch (event.type) {
+                        case "start":
+                            this.taskId = event.taskId;
+                            break;
+                        case "delta":
+                            this.outline += event.content;
+                            break;
+                        case "page":
+                            this.pages.push({ ...event.page, status: "pending" });
+                            if (this.pages.length === 1) {
+                                onFirstPage?.();
+                            }
+                            break;
+                        case "complete":
+                            result = {
+                                success: true,
+                                taskId: event.taskId,
+                                outline: event.outline,
+                                pages: event.pages,
+                                compliance: event.compliance,
+                            };
+                            this.taskId = event.taskId;
+                            this.outline = event.outline;
+                            this.compliance = event.compliance ?? null;
+                            this.pages = event.pages.map((p) => ({
+                                ...p,
+                                status: "pending",
+                            }));
+                            break;
+                        case "error":
+                            streamError = event.message;
+                            break;
+                    }
+                });
+
+                if (streamError || !result) {
+                    throw new Error(streamError || "生成大纲失败，请稍后再试");
+                }
 
                 return result;
             } catch (error) {
@@ -172,6 +375,8 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             const page = this.pages.find((p) => p.index === index);
             if (page) {
                 page.content = content;
+                // 结构化内容与编辑后的文案不再一致
+                page.structured = null;
                 // 增量重绘：检测内容是否与原始内容不同
                 if (page.originalContent !== undefined) {
                     page.isDirty = page.originalContent !== content;
@@ -179,6 +384,221 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             }
         },
 
+        /**
+         * 按要求改写单页（以当前编辑中的大纲为上下文）
+         */
+        async rewritePage(index: number, instruction: string) {
+            if (!this.taskId) {
+                throw new Error("任务ID不存在");
+            }
+
+            const result = await outlineApi.rewritePage(
+                this.taskId,
+                index,
+                instruction,
+                this.pages.map((page) => ({
+                    id: page.id,
+                    index: page.index,
+                    type: page.type as "cover" | "content" | "summary",
+                    content: page.content,
+                    styleId: page.styleId ?? null,
+                    structured: page.structured ?? null,
+                    promptOverride: page.promptOverride ?? null,
+                })),
+            );
+
+            this.updatePage(index, result.page.content);
+            const page = this.pages.find((p) => p.index === index);
+            if (page) {
+                page.structured = result.page.structured ?? null;
+            }
+            if (result.compliance) {
+                this.compliance = result.compliance;
+            }
+            return result;
+        },
+
+        /**
+         * 检查当前编辑中的大纲合规性
+         */
+        async checkCompliance() {
+            if (!this.pages.length) {
+                this.compliance = null;
+                return null;
+            }
+
+            const result = await outlineApi.checkCompliance(
+                this.pages.map((page) => ({ index: page.index, content: page.content })),
+            );
+            this.compliance = result.compliance;
+            return result.compliance;
+        },
+
+        /**
+         * 按建议替换（或删除）违规内容
+         * 优先替换命中位置的原文，内容已变动时替换第一处匹配
+         */
+        applyComplianceFix(index: number, finding: ComplianceFinding) {
+            const page = this.pages.find((p) => p.index === index);
+            if (!page) {
+                return;
+            }
+
+            const replacement = finding.replacement ?? "";
+            const content = page.content;
+            const start =
+                content.slice(finding.start, finding.start + finding.match.length) === finding.match
+                    ? finding.start
+                    : content.indexOf(finding.match);
+            if (start < 0) {
+                return;
+            }
+
+            this.updatePage(
+                index,
+                content.slice(0, start) + replacement + content.slice(start + finding.match.length),
+            );
+        },
+
+        /**
+         * 恢复大纲版本，已有配图按页面ID跟随页面（旧数据按位置）
+         */
+        async restoreOutlineVersion(version: number) {
+            if (!this.taskId) {
+                throw new Error("任务ID不存在");
+            }
+
+            const result = await taskApi.restoreOutlineVersion(this.taskId, version);
+            this.pages = result.task.pages.map((p) => {
+                const existing = this.pages.find((page) =>
+                    p.id && page.id ? page.id === p.id : page.index === p.index,
+                );
+                return {
+                    ...p,
+                    imageUrl: existing?.imageUrl,
+                    status: existing?.status,
+                    errorMessage: existing?.errorMessage,
+                    originalContent: existing?.originalContent,
+                    isDirty:
+                        existing?.originalContent !== undefined
+                            ? existing.originalContent !== p.content
+                            : undefined,
+                };
+            });
+            return result;
+        },
+
+        /**
+         * 加载当前用户适用的定价
+         */
+        async loadPricing() {
+            const result = await balanceApi.getPricing();
+            if (result.success && result.data) {
+                this.pricing = result.data;
+            }
+            return this.pricing;
+        },
+
+        /**
+         * 加载消费上限（有当前任务时附带任务预算）
+         */
+        async loadSpendLimits() {
+            const result = await balanceApi.getSpendLimits(this.taskId);
+            if (result.success && result.data) {
+                this.spendLimits = result.data;
+            }
+            return this.spendLimits;
+        },
+
+        /**
+         * 设置当前任务预算（为空不限制）
+         */
+        async setTaskBudget(budget: number | null) {
+            if (!this.taskId) {
+                throw new Error("任务ID不存在");
+            }
+            await taskApi.updateBudget(this.taskId, budget);
+            this.budgetExceeded = null;
+            await this.loadSpendLimits();
+        },
+
+        /**
+         * 设置自己的每日/每月消费上限（为空不限制）
+         */
+        async updateSpendCaps(caps: { dailySpendCap?: number | null; monthlySpendCap?: number | null }) {
+            const result = await balanceApi.updateSpendLimits(caps);
+            if (!result.success) {
+                throw new Error(result.message || "设置消费上限失败");
+            }
+            await this.loadSpendLimits();
+        },
+
+        /**
+         * 加载风格预设（已加载时直接返回）
+         */
+        async loadStylePresets() {
+            if (this.stylePresets.length > 0) {
+                return this.stylePresets;
+            }
+            const result = await specApi.getStylePresets();
+            this.stylePresets = result.styles || [];
+            return this.stylePresets;
+        },
+
+        /**
+         * 设置任务风格（已有任务时同步保存到后端）
+         */
+        async setTaskStyle(styleId: string | null) {
+            this.stylePresetId = styleId;
+            if (this.taskId) {
+                await taskApi.updateStyle(this.taskId, styleId);
+            }
+        },
+
+        /**
+         * 设置页面风格（覆盖任务风格）
+         */
+        updatePageStyle(index: number, styleId: string | null) {
+            const page = this.pages.find((p) => p.index === index);
+            if (page) {
+                page.styleId = styleId;
+                // 增量重绘：风格变化也需要重绘
+                if (page.originalContent !== undefined) {
+                    page.isDirty = true;
+                }
+            }
+        },
+
+        /**
+         * 设置页面图片提示词覆盖（为空表示使用系统提示词）
+         */
+        updatePagePrompt(index: number, override: PagePromptOverride | null) {
+            const page = this.pages.find((p) => p.index === index);
+            if (page) {
+                page.promptOverride = override?.text.trim() ? override : null;
+                // 增量重绘：提示词变化也需要重绘
+                if (page.originalContent !== undefined) {
+                    page.isDirty = true;
+                }
+            }
+        },
+
+        /**
+         * 预览页面的图片提示词（与生成图片使用相同的页面内容和大纲片段）
+         */
+        async previewPrompts(indexes?: number[]) {
+            if (!this.taskId) {
+                throw new Error("任务ID不存在");
+            }
+
+            const pages = indexes ? this.pages.filter((p) => indexes.includes(p.index)) : this.pages;
+            return await imageApi.previewPrompts(
+                this.taskId,
+                toGenerationPages(pages),
+                (this.outline || "").slice(0, 500),
+            );
+        },
+
         /**
          * 生成图片（SSE）
          * @param isRegenerate 是否为批量重绘（全部重绘）
@@ -201,17 +621,15 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             }
 
             // 为避免 URL 过长导致 431，仅传递图片生成所需的关键信息
-            const simplifiedPages = pagesToGenerate.map((p) => ({
-                index: p.index,
-                type: p.type,
-                // 只保留提取出的图片描述，并限制长度
-                content: extractImagePrompt(p.content).slice(0, 300),
-            }));
+            const simplifiedPages = toGenerationPages(pagesToGenerate);
 
             // 后端只会取 fullOutline 的前一小段做风格参考，这里也做长度限制
             const trimmedOutline = (this.outline || "").slice(0, 500);
 
             this.isGeneratingImages = true;
+            this.generationCancelled = false;
+            this.budgetExceeded = null;
+            this.coverVariants = null;
             
             // 用于捕获全局错误
             let globalError: Error | null = null;
@@ -222,62 +640,13 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
                     simplifiedPages,
                     trimmedOutline,
                     (data: any) => {
-                    switch (data.type) {
-                        case "progress":
-                            // 更新进度
-                            this.generationProgress = {
-                                stage: data.stage,
-                                current: data.current,
-                                total: data.total,
-                                message: data.message,
-                            };
-
-                            // 更新页面状态
-                            if (data.pageIndex !== undefined) {
-                                const page = this.pages.find(
-                                    (p) => p.index === data.pageIndex,
-                                );
-                                if (page) {
-                                    page.status = "generating";
-                                }
-                            }
-                            break;
-
-                        case "complete":
-                            // 图片生成完成
-                            const completedPage = this.pages.find(
-                                (p) => p.index === data.pageIndex,
-                            );
-                            if (completedPage) {
-                                completedPage.imageUrl = data.imageUrl;
-                                completedPage.status = "completed";
-                            }
-                            break;
-
-                        case "error":
-                            // 检查是否为全局错误（没有指定 pageIndex）
-                            if (data.pageIndex === undefined || data.pageIndex === null) {
-                                // 全局错误（如余额不足），记录错误
-                                globalError = new Error(data.message || "图片生成失败");
-                            } else {
-                                // 单个图片生成失败
-                                const failedPage = this.pages.find(
-                                    (p) => p.index === data.pageIndex,
-                                );
-                                if (failedPage) {
-                                    failedPage.status = "failed";
-                                    failedPage.errorMessage = data.message;
-                                }
-                            }
-                            break;
-
-                        case "finish":
-                            // 全部完成
-                            this.isGeneratingImages = false;
-                            break;
-                    }
+                        globalError = this.applyGenerationEvent(data) || globalError;
                     },
                     isRegenerate,  // 传递是否为批量重绘标记
+                    this.imagePreferences,
+                    this.coverVariantCount > 1 ? this.coverVariantCount : undefined,
+                    // 完整的页面顺序，服务端据此让已有图片跟随调整后的页面
+                    this.pages.every((p) => p.id) ? this.pages.map((p) => p.id!) : undefined,
                 );
                 
                 // SSE 完成后检查是否有全局错误
@@ -285,6 +654,12 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
                     throw globalError;
                 }
             } catch (error) {
+                // 网络中断（如手机锁屏）时服务端仍在生成，重新订阅进度
+                if (error instanceof TypeError) {
+                    console.warn("图片生成连接中断，尝试重新订阅进度:", error);
+                    await this.resumeGeneration();
+                    return;
+                }
                 console.error("图片生成流式请求失败:", error);
                 throw error;
             } finally {
@@ -292,6 +667,217 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             }
         },
 
+        /**
+         * 应用一条图片生成 SSE 事件到本地状态
+         * @returns 全局错误（如余额不足），无则返回 null
+         */
+        applyGenerationEvent(data: any): Error | null {
+            switch (data.type) {
+                case "progress":
+                    // 更新进度
+                    this.generationProgress = {
+                        stage: data.stage,
+                        current: data.current,
+                        total: data.total,
+                        message: data.message,
+                    };
+
+                    // 更新页面状态
+                    if (data.pageIndex !== undefined) {
+                        const page = this.pages.find(
+                            (p) => p.index === data.pageIndex,
+                        );
+                        if (page) {
+                            page.status = "generating";
+                        }
+                    }
+                    break;
+
+                case "complete": {
+                    // 图片生成完成
+                    const completedPage = this.pages.find(
+                        (p) => p.index === data.pageIndex,
+                    );
+                    if (completedPage) {
+                        completedPage.imageUrl = data.imageUrl;
+                        completedPage.status = "completed";
+                        completedPage.retryAttempt = undefined;
+                    }
+                    // 封面已选定，关闭候选选择
+                    if (this.coverVariants?.pageIndex === data.pageIndex) {
+                        this.coverVariants = null;
+                    }
+                    break;
+                }
+
+                case "cover_variants":
+                    // 封面候选已生成，等待用户选择后继续生成内容页
+                    this.coverVariants = {
+                        pageIndex: data.pageIndex,
+                        variants: data.variants || [],
+                    };
+                    this.generationProgress.message = data.message;
+                    break;
+
+                case "retrying": {
+                    // 临时错误自动重试中
+                    const retryingPage = this.pages.find(
+                        (p) => p.index === data.pageIndex,
+                    );
+                    if (retryingPage) {
+                        retryingPage.status = "generating";
+                        retryingPage.retryAttempt = {
+                            attempt: data.attempt,
+                            maxAttempts: data.maxAttempts,
+                        };
+                    }
+                    this.generationProgress.message = data.message;
+                    break;
+                }
+
+                case "failover":
+                    // 主模型失败，已切换到备用模型继续生成
+                    this.generationProgress.message = data.message;
+                    break;
+
+                case "error": {
+                    // 检查是否为全局错误（没有指定 pageIndex）
+                    if (data.pageIndex === undefined || data.pageIndex === null) {
+                        // 全局错误（如余额不足），记录错误
+                        return new Error(data.message || "图片生成失败");
+                    }
+                    // 单个图片生成失败
+                    const failedPage = this.pages.find(
+                        (p) => p.index === data.pageIndex,
+                    );
+                    if (failedPage) {
+                        failedPage.status = "failed";
+                        failedPage.errorMessage = data.message;
+                        failedPage.retryAttempt = undefined;
+                    }
+                    break;
+                }
+
+                case "budget_exceeded":
+                    // 超出消费上限或任务预算：停止生成，未生成的页面标记为失败（调高预算后可重试）
+                    for (const page of this.pages) {
+                        if (data.pageIndexes?.includes(page.index)) {
+                            page.status = "failed";
+                            page.errorMessage = data.message;
+                            page.retryAttempt = undefined;
+                        }
+                    }
+                    this.budgetExceeded = data as BudgetExceededEvent;
+                    this.generationProgress.message = data.message;
+                    this.isGeneratingImages = false;
+                    this.coverVariants = null;
+                    return new Error(data.message || "已超出消费上限");
+
+                case "finish":
+                    // 全部完成
+                    this.isGeneratingImages = false;
+                    break;
+
+                case "cancelled":
+                    // 用户取消：未完成的页面标记为已取消
+                    for (const page of this.pages) {
+                        if (data.pageIndexes?.includes(page.index)) {
+                            page.status = "cancelled";
+                            page.errorMessage = undefined;
+                            page.retryAttempt = undefined;
+                        }
+                    }
+                    this.generationProgress.message = data.message;
+                    this.generationCancelled = true;
+                    this.isGeneratingImages = false;
+                    this.coverVariants = null;
+                    break;
+            }
+            return null;
+        },
+
+        /**
+         * 选择封面候选，服务端以选中封面为参考继续生成内容页
+         */
+        async selectCoverVariant(version: number) {
+            if (!this.taskId || !this.coverVariants || this.isSelectingCover) {
+                return;
+            }
+
+            this.isSelectingCover = true;
+            try {
+                await imageApi.selectCover(this.taskId, version);
+                const selected = this.coverVariants.variants.find((v) => v.version === version);
+                const coverPage = this.pages.find((p) => p.index === this.coverVariants?.pageIndex);
+                if (coverPage && selected) {
+                    coverPage.imageUrl = selected.imageUrl;
+                    coverPage.status = "completed";
+                }
+                this.coverVariants = null;
+            } finally {
+                this.isSelectingCover = false;
+            }
+        },
+
+        /**
+         * 取消当前任务的图片生成
+         * 服务端中断生成并退回积分，页面状态由 SSE cancelled 事件更新
+         */
+        async cancelGeneration() {
+            if (!this.taskId || this.isCancellingGeneration) {
+                return;
+            }
+
+            this.isCancellingGeneration = true;
+            try {
+                await taskApi.cancel(this.taskId);
+            } finally {
+                this.isCancellingGeneration = false;
+            }
+        },
+
+        /**
+         * 重新订阅服务端生成进度（页面刷新、切后台或断线后）
+         * 连接失败时按 2s/4s/8s 退避重试，订阅结束后以服务端进度为准
+         */
+        async resumeGeneration() {
+            if (!this.taskId) {
+                return;
+            }
+
+            const taskId = this.taskId;
+            let globalError: Error | null = null;
+            this.isGeneratingImages = true;
+            this.generationCancelled = false;
+            this.budgetExceeded = null;
+
+            try {
+                for (let attempt = 0; attempt < 4; attempt++) {
+                    if (attempt > 0) {
+                        await new Promise((resolve) => setTimeout(resolve, 1000 * 2 ** attempt));
+                    }
+                    try {
+                        await imageApi.subscribeGeneration(taskId, (data: any) => {
+                            globalError = this.applyGenerationEvent(data) || globalError;
+                        });
+                        break;
+                    } catch (error) {
+                        if (!(error instanceof TypeError) || attempt === 3) {
+                            throw error;
+                        }
+                    }
+                }
+
+                await this.recoverFromProgress(taskId);
+            } finally {
+                this.isGeneratingImages = false;
+            }
+
+            if (globalError) {
+                throw globalError;
+            }
+        },
+
         /**
          * 重新生成单张图片（流式）
          */
@@ -334,11 +920,16 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
                                 page.errorMessage = data.message;
                                 throw new Error(data.message || "重新生成失败");
 
+                            case "budget_exceeded":
+                                this.budgetExceeded = data as BudgetExceededEvent;
+                                throw new Error(data.message || "已超出消费上限");
+
                             case "finish":
                                 console.log("重新生成完成");
                                 break;
                         }
                     },
+                    this.imagePreferences,
                 );
                 page.errorMessage = undefined;
             } catch (error) {
@@ -348,6 +939,45 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             }
         },
 
+        /**
+         * 重试所有生成失败的页面
+         * 服务端只重绘失败页面，沿用已有封面作为参考图
+         */
+        async retryFailedImages() {
+            if (!this.taskId) {
+                throw new Error("任务ID不存在");
+            }
+
+            this.failedPages.forEach((page) => {
+                page.status = "pending";
+                page.errorMessage = undefined;
+            });
+
+            this.isGeneratingImages = true;
+            this.generationCancelled = false;
+            this.budgetExceeded = null;
+            let globalError: Error | null = null;
+
+            try {
+                await imageApi.retryFailed(this.taskId, (data: any) => {
+                    globalError = this.applyGenerationEvent(data) || globalError;
+                });
+
+                if (globalError) {
+                    throw globalError;
+                }
+            } catch (error) {
+                // 网络中断时服务端仍在生成，重新订阅进度
+                if (error instanceof TypeError) {
+                    await this.resumeGeneration();
+                    return;
+                }
+                throw error;
+            } finally {
+                this.isGeneratingImages = false;
+            }
+        },
+
         /**
          * 重新生成当前任务的所有图片（作为新版本）
          */
@@ -385,10 +1015,22 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             this.topic = task.topic;
             this.outline = task.outline;
             this.userImages = task.userImages || [];
+            this.stylePresetId = task.stylePresetId || null;
             
             // 标记来源为历史记录编辑
             this.editSource = 'history';
 
+            // 恢复任务保存的生成偏好
+            const savedPreferences = task.generationPreferences;
+            if (savedPreferences && Object.keys(savedPreferences).length > 0) {
+                this.preferences = {
+                    mode: "image",
+                    aspectRatio: savedPreferences.aspectRatio || "auto",
+                    model: savedPreferences.model || "4.0",
+                    quality: savedPreferences.quality || "2k",
+                };
+            }
+
             // 加载图片
             const imagesResult: TaskImagesResponse = await taskApi.getTaskImages(id);
             const images = imagesResult.images;
@@ -405,6 +1047,13 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
                     isDirty: false,
                 };
             });
+
+            // 任务仍在服务端生成中，重新订阅进度
+            if (task.status === "pending" || task.status === "generating_images") {
+                this.resumeGeneration().catch((error) => {
+                    console.error("订阅生成进度失败:", error);
+                });
+            }
         },
 
         /**
@@ -416,6 +1065,9 @@ export const useXhsCreatorStore = defineStore("xhsCreator", {
             this.userImages = [];
             this.outline = "";
             this.pages = [];
+            this.compliance = null;
+            this.coverVariants = null;
+            this.budgetExceeded = null;
             this.editSource = null;  // 清除来源标记
             this.generationProgress = {
                 stage: "",
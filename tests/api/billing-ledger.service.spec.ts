@@ -0,0 +1,258 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { DataSource } from "@buildingai/db/typeorm";
+
+import { BillingLedgerService } from "../../src/api/modules/xhs-creator/services/billing-ledger.service";
+import {
+    XhsBillingLedger,
+    BillingLedgerType,
+    ReconcileStatus,
+} from "../../src/api/db/entities/xhs-billing-ledger.entity";
+import { XhsImage } from "../../src/api/db/entities/xhs-image.entity";
+import { PLUGIN_IDENTIFIER } from "../../src/api/modules/xhs-creator/constants";
+import { ACCOUNT_LOG_TYPE, ACTION } from "@buildingai/constants/shared/account-log.constants";
+
+/**
+ * 账本记录
+ */
+function entry(overrides: Partial<XhsBillingLedger>): XhsBillingLedger {
+    return {
+        id: "ledger-1",
+        userId: "user-1",
+        type: BillingLedgerType.CHARGE,
+        scene: "image",
+        amount: 0,
+        taskId: "task-1",
+        imageId: null,
+        pageId: null,
+        pageIndex: null,
+        pageType: null,
+        associationNo: null,
+        createdAt: new Date(),
+        ...overrides,
+    } as XhsBillingLedger;
+}
+
+/**
+ * BillingLedgerService 单元测试
+ */
+describe("BillingLedgerService", () => {
+    let service: BillingLedgerService;
+
+    const mockManager = {
+        create: jest.fn((_entity, data) => ({ ...data })),
+        findOne: jest.fn(),
+        save: jest.fn(),
+    };
+
+    const ledgerQueryBuilder = {
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getRawMany: jest.fn(),
+    };
+
+    const mockLedgerRepository = {
+        find: jest.fn(),
+        update: jest.fn(),
+        createQueryBuilder: jest.fn(() => ledgerQueryBuilder),
+        manager: mockManager,
+    };
+
+    const hostLogQueryBuilder = {
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getMany: jest.fn(),
+    };
+
+    const mockDataSource = {
+        getRepository: jest.fn(() => ({ createQueryBuilder: jest.fn(() => hostLogQueryBuilder) })),
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                BillingLedgerService,
+                { provide: getRepositoryToken(XhsBillingLedger), useValue: mockLedgerRepository },
+                { provide: DataSource, useValue: mockDataSource },
+            ],
+        }).compile();
+
+        service = module.get<BillingLedgerService>(BillingLedgerService);
+    });
+
+    afterEach(() => {
+        service.onModuleDestroy();
+        jest.useRealTimers();
+    });
+
+    describe("record", () => {
+        it("按图片记录补全任务和页面引用", async () => {
+            mockManager.findOne.mockResolvedValue({
+                id: "img-1",
+                taskId: "task-1",
+                pageId: "page-1",
+                pageIndex: 2,
+                pageType: "content",
+            });
+
+            await service.record({
+                userId: "user-1",
+                type: BillingLedgerType.CHARGE,
+                scene: "image",
+                amount: 10,
+                imageId: "img-1",
+                associationNo: "img-1",
+            });
+
+            expect(mockManager.findOne).toHaveBeenCalledWith(XhsImage, { where: { id: "img-1" } });
+            expect(mockManager.save).toHaveBeenCalledWith(
+                expect.objectContaining({ taskId: "task-1", pageId: "page-1", pageIndex: 2, pageType: "content" }),
+            );
+        });
+
+        it("写入失败时抛出异常", async () => {
+            mockManager.save.mockRejectedValueOnce(new Error("写入失败"));
+
+            await expect(
+                service.record({ userId: "user-1", type: BillingLedgerType.CHARGE, scene: "outline", amount: 10 }),
+            ).rejects.toThrow("写入失败");
+        });
+    });
+
+    describe("getTaskBreakdown", () => {
+        it("按场景和页面汇总扣费、退款与免费次数", async () => {
+            mockLedgerRepository.find.mockResolvedValue([
+                entry({ scene: "outline", amount: 10 }),
+                entry({ imageId: "img-a", pageId: "page-a", pageIndex: 1, pageType: "cover", amount: 20 }),
+                entry({ imageId: "img-a", pageId: "page-a", pageIndex: 1, type: BillingLedgerType.REFUND, amount: 20 }),
+                entry({ imageId: "img-b", pageId: "page-b", pageIndex: 0, amount: 10 }),
+                entry({ imageId: "img-c", pageId: "page-c", pageIndex: 2, type: BillingLedgerType.FREE_USE }),
+                entry({ imageId: "img-c", pageId: "page-c", pageIndex: 2, type: BillingLedgerType.FREE_REFUND }),
+                entry({ imageId: "img-d", pageId: "page-d", pageIndex: 3, type: BillingLedgerType.FREE_USE }),
+            ]);
+
+            const breakdown = await service.getTaskBreakdown("task-1");
+
+            expect(breakdown).toMatchObject({ charged: 40, refunded: 20, net: 20, freeUses: 1 });
+            expect(breakdown.scenes).toEqual([
+                { scene: "outline", charged: 10, refunded: 0, net: 10, freeUses: 0 },
+                { scene: "image", charged: 30, refunded: 20, net: 10, freeUses: 1 },
+            ]);
+            expect(breakdown.pages.map((page) => [page.pageId, page.net, page.freeUses])).toEqual([
+                ["page-b", 10, 0],
+                ["page-a", 0, 0],
+                ["page-c", 0, 0],
+                ["page-d", 0, 1],
+            ]);
+            expect(breakdown.entries).toHaveLength(7);
+        });
+    });
+
+    describe("reconcile", () => {
+        const now = Date.now();
+
+        beforeEach(() => {
+            ledgerQueryBuilder.getRawMany.mockResolvedValue([{ associationNo: "img-1" }, { associationNo: "img-2" }]);
+            mockLedgerRepository.find.mockResolvedValue([
+                entry({ id: "ledger-1", associationNo: "img-1", amount: 20, createdAt: new Date(now) }),
+                entry({ id: "ledger-2", associationNo: "img-2", amount: 10, createdAt: new Date(now) }),
+                entry({
+                    id: "ledger-3",
+                    associationNo: "img-2",
+                    type: BillingLedgerType.REFUND,
+                    amount: 10,
+                    createdAt: new Date(now),
+                }),
+            ]);
+        });
+
+        it("按关联单号对比账本与主系统流水", async () => {
+            hostLogQueryBuilder.getMany.mockResolvedValue([
+                { associationNo: "img-1", action: ACTION.DEC, changeAmount: -20, createdAt: new Date(now) },
+                { associationNo: "img-2", action: ACTION.DEC, changeAmount: -10, createdAt: new Date(now) },
+            ]);
+
+            const result = await service.reconcile();
+
+            expect(result).toMatchObject({ checked: 2, matched: 1, mismatched: 1 });
+            expect(result.mismatches).toEqual([
+                {
+                    associationNo: "img-2",
+                    userId: "user-1",
+                    taskId: "task-1",
+                    ledgerCharged: 10,
+                    hostCharged: 10,
+                    ledgerRefunded: 10,
+                    hostRefunded: 0,
+                },
+            ]);
+            expect(mockLedgerRepository.update).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ reconcileStatus: ReconcileStatus.MATCHED }),
+            );
+            expect(mockLedgerRepository.update).toHaveBeenCalledWith(
+                expect.anything(),
+                expect.objectContaining({ reconcileStatus: ReconcileStatus.MISMATCHED }),
+            );
+        });
+
+        it("只查询本插件写入的主系统流水", async () => {
+            hostLogQueryBuilder.getMany.mockResolvedValue([]);
+
+            await service.reconcile();
+
+            expect(hostLogQueryBuilder.andWhere).toHaveBeenCalledWith("log.accountType = :accountType", {
+                accountType: ACCOUNT_LOG_TYPE.PLUGIN_DEC,
+            });
+            expect(hostLogQueryBuilder.andWhere).toHaveBeenCalledWith("log.sourceInfo ->> 'source' = :source", {
+                source: PLUGIN_IDENTIFIER,
+            });
+        });
+
+        it("忽略账本上线前的主系统流水", async () => {
+            hostLogQueryBuilder.getMany.mockResolvedValue([
+                { associationNo: "img-1", action: ACTION.DEC, changeAmount: -20, createdAt: new Date(now) },
+                {
+                    associationNo: "img-1",
+                    action: ACTION.DEC,
+                    changeAmount: -20,
+                    createdAt: new Date(now - 24 * 60 * 60 * 1000),
+                },
+                { associationNo: "img-2", action: ACTION.DEC, changeAmount: -10, createdAt: new Date(now) },
+                { associationNo: "img-2", action: ACTION.INC, changeAmount: 10, createdAt: new Date(now) },
+            ]);
+
+            const result = await service.reconcile();
+
+            expect(result).toMatchObject({ checked: 2, matched: 2, mismatched: 0 });
+        });
+
+        it("对账执行中时拒绝重复执行", async () => {
+            hostLogQueryBuilder.getMany.mockResolvedValue([]);
+
+            const running = service.reconcile();
+            await expect(service.reconcile()).rejects.toThrow("对账任务正在执行中");
+            await running;
+
+            await expect(service.reconcile()).resolves.toMatchObject({ checked: 2 });
+        });
+
+        it("每小时自动对账，异常只记录日志", async () => {
+            jest.useFakeTimers();
+            const reconcile = jest.spyOn(service, "reconcile").mockRejectedValue(new Error("数据库错误"));
+
+            service.onModuleInit();
+            jest.advanceTimersByTime(60 * 60 * 1000);
+            await Promise.resolve();
+
+            expect(reconcile).toHaveBeenCalledTimes(1);
+
+            service.onModuleDestroy();
+            jest.advanceTimersByTime(60 * 60 * 1000);
+            expect(reconcile).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,687 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { DataSource } from "@buildingai/db/typeorm";
+import { AppBillingService } from "@buildingai/core/modules";
+
+import { BillingService, SpendLimitExceededError } from "../../src/api/modules/xhs-creator/services/billing.service";
+import { BillingLedgerService } from "../../src/api/modules/xhs-creator/services/billing-ledger.service";
+import { PricingTierService } from "../../src/api/modules/xhs-creator/services/pricing-tier.service";
+import { XhsConfigService } from "../../src/api/modules/xhs-creator/services/xhs-config.service";
+import { XhsUserUsage } from "../../src/api/db/entities/xhs-user-usage.entity";
+import { XhsTask } from "../../src/api/db/entities/xhs-task.entity";
+import { XhsImage, ImageStatus } from "../../src/api/db/entities/xhs-image.entity";
+import { XhsPowerHold } from "../../src/api/db/entities/xhs-power-hold.entity";
+import { BillingLedgerType } from "../../src/api/db/entities/xhs-billing-ledger.entity";
+import { ImageQuality } from "../../src/api/modules/xhs-creator/constants";
+
+/**
+ * 链式查询构造器模拟
+ */
+function createQueryBuilderMock(affected = 1, held = 0) {
+    const builder: Record<string, jest.Mock> = {};
+    for (const method of ["update", "set", "select", "where", "andWhere", "setParameters"]) {
+        builder[method] = jest.fn().mockReturnValue(builder);
+    }
+    builder.execute = jest.fn().mockResolvedValue({ affected });
+    builder.getRawOne = jest.fn().mockResolvedValue({ held });
+    return builder;
+}
+
+/**
+ * BillingService 单元测试
+ */
+describe("BillingService", () => {
+    let service: BillingService;
+    let usage: Partial<XhsUserUsage>;
+    let usageBuilder: ReturnType<typeof createQueryBuilderMock>;
+    let holdBuilder: ReturnType<typeof createQueryBuilderMock>;
+
+    const mockManager = {
+        query: jest.fn(),
+        createQueryBuilder: jest.fn(),
+        create: jest.fn((_entity, data) => ({ id: "hold-1", settledAmount: 0, ...data })),
+        save: jest.fn(async (data) => data),
+        findOne: jest.fn(),
+        update: jest.fn(),
+        transaction: jest.fn((callback) => callback(mockManager)),
+    };
+
+    const mockUsageRepository = {
+        findOne: jest.fn(),
+        save: jest.fn(async (data) => ({ id: "usage-1", ...data })),
+        create: jest.fn((data) => data),
+        update: jest.fn(),
+        createQueryBuilder: jest.fn(),
+        manager: mockManager,
+    };
+
+    const mockImageRepository = {
+        findOne: jest.fn(),
+        update: jest.fn(),
+        manager: mockManager,
+    };
+
+    const mockHoldRepository = {
+        findOne: jest.fn(),
+        update: jest.fn(),
+        manager: mockManager,
+    };
+
+    const mockConfigService = {
+        getConfig: jest.fn(),
+    };
+
+    const mockAppBillingService = {
+        getUserPower: jest.fn(),
+        deductUserPower: jest.fn(),
+        addUserPower: jest.fn(),
+    };
+
+    const mockDataSource = {
+        transaction: jest.fn((callback) => callback(mockManager)),
+    };
+
+    const mockLedgerService = {
+        record: jest.fn(),
+        getNetSpent: jest.fn(),
+    };
+
+    const mockPricingTierService = {
+        getUserTier: jest.fn(),
+    };
+
+    const mockConfig = (overrides: Record<string, unknown> = {}) => {
+        mockConfigService.getConfig.mockResolvedValue({
+            outlinePower: 10,
+            pageRewritePower: 2,
+            coverImagePower: 20,
+            contentImagePower: 10,
+            summaryImagePower: 10,
+            freeUsageLimit: 0,
+            freeQuotaPeriod: "none",
+            freeOutlineLimit: null,
+            freeCoverImageLimit: null,
+            freeContentImageLimit: null,
+            ...overrides,
+        });
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+
+        usage = {
+            id: "usage-1",
+            userId: "user-1",
+            freeUsageCount: 0,
+            outlineFreeCount: 0,
+            coverFreeCount: 0,
+            contentFreeCount: 0,
+            periodStart: null,
+            dailySpendCap: null,
+            monthlySpendCap: null,
+        };
+        usageBuilder = createQueryBuilderMock();
+        holdBuilder = createQueryBuilderMock();
+
+        mockConfig();
+        mockUsageRepository.findOne.mockImplementation(async () => usage);
+        mockUsageRepository.createQueryBuilder.mockReturnValue(usageBuilder);
+        mockManager.createQueryBuilder.mockReturnValue(holdBuilder);
+        mockManager.findOne.mockImplementation(async (entity) => (entity === XhsUserUsage ? usage : null));
+        mockPricingTierService.getUserTier.mockResolvedValue(null);
+        mockAppBillingService.getUserPower.mockResolvedValue(1000);
+        mockLedgerService.getNetSpent.mockResolvedValue(0);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                BillingService,
+                { provide: getRepositoryToken(XhsUserUsage), useValue: mockUsageRepository },
+                { provide: getRepositoryToken(XhsImage), useValue: mockImageRepository },
+                { provide: getRepositoryToken(XhsPowerHold), useValue: mockHoldRepository },
+                { provide: XhsConfigService, useValue: mockConfigService },
+                { provide: AppBillingService, useValue: mockAppBillingService },
+                { provide: DataSource, useValue: mockDataSource },
+                { provide: BillingLedgerService, useValue: mockLedgerService },
+                { provide: PricingTierService, useValue: mockPricingTierService },
+            ],
+        }).compile();
+
+        service = module.get<BillingService>(BillingService);
+    });
+
+    describe("reserveBatch", () => {
+        const pages: Array<{ type: "cover" | "content" | "summary" }> = [
+            { type: "cover" },
+            { type: "content" },
+            { type: "content" },
+        ];
+
+        it("无免费次数时冻结整批积分", async () => {
+            const hold = await service.reserveBatch("user-1", "task-1", pages);
+
+            expect(hold).toMatchObject({ userId: "user-1", taskId: "task-1", amount: 40 });
+            expect(mockManager.query).toHaveBeenCalledWith(expect.stringContaining("pg_advisory_xact_lock"), [
+                "xhs-power:user-1",
+            ]);
+        });
+
+        it("共用免费次数按单价最低的页面抵扣", async () => {
+            mockConfig({ freeUsageLimit: 1 });
+
+            const hold = await service.reserveBatch("user-1", "task-1", pages);
+
+            expect(hold!.amount).toBe(30);
+        });
+
+        it("单独设置的额度只抵扣对应页面，封面候选按封面计费", async () => {
+            mockConfig({ freeCoverImageLimit: 1 });
+
+            const hold = await service.reserveBatch("user-1", "task-1", pages, ImageQuality.STANDARD, 1);
+
+            expect(hold!.amount).toBe(40);
+        });
+
+        it("按清晰度倍率计算冻结积分", async () => {
+            const hold = await service.reserveBatch("user-1", "task-1", [{ type: "content" }], ImageQuality.HD);
+
+            expect(hold!.amount).toBe(15);
+        });
+
+        it("全部可用免费次数时不冻结", async () => {
+            mockConfig({ freeUsageLimit: 3 });
+
+            await expect(service.reserveBatch("user-1", "task-1", pages)).resolves.toBeNull();
+            expect(mockDataSource.transaction).not.toHaveBeenCalled();
+        });
+
+        it("可用积分不足时拒绝冻结", async () => {
+            mockAppBillingService.getUserPower.mockResolvedValue(30);
+
+            await expect(service.reserveBatch("user-1", "task-1", pages)).rejects.toThrow("余额不足");
+            expect(mockManager.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("settleHold", () => {
+        const options = { userId: "user-1", imageId: "img-1", pageType: "content" as const };
+
+        it("结算本页份额并扣费", async () => {
+            const amount = await service.settleHold("hold-1", options);
+
+            expect(amount).toBe(10);
+            expect(holdBuilder.setParameters).toHaveBeenCalledWith({ powerAmount: 10 });
+            expect(mockAppBillingService.deductUserPower).toHaveBeenCalledWith(
+                expect.objectContaining({ userId: "user-1", amount: 10, associationNo: "img-1" }),
+                mockManager,
+            );
+            expect(mockLedgerService.record).toHaveBeenCalledWith(
+                expect.objectContaining({ type: BillingLedgerType.CHARGE, amount: 10, imageId: "img-1" }),
+                mockManager,
+            );
+            expect(mockManager.update).toHaveBeenCalledWith(XhsImage, "img-1", { powerDeducted: true, powerAmount: 10 });
+        });
+
+        it("冻结已结束或剩余额度不足时不扣费", async () => {
+            holdBuilder.execute.mockResolvedValue({ affected: 0 });
+
+            await expect(service.settleHold("hold-1", options)).rejects.toThrow("冻结积分不足或已结束");
+            expect(mockAppBillingService.deductUserPower).not.toHaveBeenCalled();
+            expect(mockLedgerService.record).not.toHaveBeenCalled();
+        });
+
+        it("额外计费的图片不标记扣费", async () => {
+            await service.settleHold("hold-1", { ...options, pageType: "cover" }, false);
+
+            expect(mockAppBillingService.deductUserPower).toHaveBeenCalledWith(
+                expect.objectContaining({ amount: 20 }),
+                mockManager,
+            );
+            expect(mockManager.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("executeWithHold", () => {
+        const options = { userId: "user-1", imageId: "img-1", pageType: "content" as const };
+
+        beforeEach(() => {
+            mockImageRepository.findOne.mockResolvedValue({ id: "img-1", powerDeducted: false });
+        });
+
+        it("生成成功后结算本页份额", async () => {
+            const operation = jest.fn().mockResolvedValue("url");
+
+            const result = await service.executeWithHold("hold-1", options, operation);
+
+            expect(result).toEqual({ result: "url", powerAmount: 10 });
+            expect(mockImageRepository.update).toHaveBeenCalledWith("img-1", { status: ImageStatus.GENERATING });
+        });
+
+        it("生成失败时标记失败且不扣费", async () => {
+            const operation = jest.fn().mockRejectedValue(new Error("生成超时"));
+
+            await expect(service.executeWithHold("hold-1", options, operation)).rejects.toThrow("生成超时");
+            expect(mockAppBillingService.deductUserPower).not.toHaveBeenCalled();
+            expect(mockImageRepository.update).toHaveBeenLastCalledWith(
+                "img-1",
+                expect.objectContaining({ status: ImageStatus.FAILED, errorMessage: "生成超时" }),
+            );
+        });
+
+        it("结算失败时标记失败", async () => {
+            holdBuilder.execute.mockResolvedValue({ affected: 0 });
+
+            await expect(service.executeWithHold("hold-1", options, jest.fn().mockResolvedValue("url"))).rejects.toThrow(
+                "冻结积分不足或已结束",
+            );
+            expect(mockImageRepository.update).toHaveBeenLastCalledWith(
+                "img-1",
+                expect.objectContaining({ status: ImageStatus.FAILED }),
+            );
+        });
+
+        it("对应额度有免费次数时优先使用免费次数", async () => {
+            mockConfig({ freeContentImageLimit: 1 });
+            const executeWithBilling = jest
+                .spyOn(service, "executeWithBilling")
+                .mockResolvedValue({ result: "url", powerAmount: 0 });
+
+            await service.executeWithHold("hold-1", options, jest.fn());
+
+            expect(executeWithBilling).toHaveBeenCalled();
+            expect(holdBuilder.execute).not.toHaveBeenCalled();
+        });
+
+        it("额外计费的图片不修改图片记录", async () => {
+            await service.executeWithHold("hold-1", options, jest.fn().mockRejectedValue(new Error("失败")), true).catch(
+                () => undefined,
+            );
+
+            expect(mockImageRepository.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("免费次数", () => {
+        it("进入新周期时清零各项计数", async () => {
+            mockConfig({ freeUsageLimit: 5, freeQuotaPeriod: "daily" });
+            usage.freeUsageCount = 5;
+            usage.periodStart = new Date(2000, 0, 1);
+
+            const summary = await service.getUserUsage("user-1");
+
+            expect(usageBuilder.set).toHaveBeenCalledWith(
+                expect.objectContaining({ freeUsageCount: 0, coverFreeCount: 0, contentFreeCount: 0 }),
+            );
+            expect(usageBuilder.andWhere).toHaveBeenCalledWith(
+                "(period_start IS NULL OR period_start < :periodStart)",
+                expect.any(Object),
+            );
+            expect(summary.remainingFreeCount).toBe(5);
+            expect(summary.resetAt!.getTime() - summary.periodStart!.getTime()).toBeGreaterThan(0);
+        });
+
+        it("同一周期内不清零", async () => {
+            const now = new Date();
+            mockConfig({ freeUsageLimit: 5, freeQuotaPeriod: "monthly" });
+            usage.freeUsageCount = 2;
+            usage.periodStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+            const summary = await service.getUserUsage("user-1");
+
+            expect(usageBuilder.update).not.toHaveBeenCalled();
+            expect(summary.remainingFreeCount).toBe(3);
+            expect(summary.resetAt).toEqual(new Date(now.getFullYear(), now.getMonth() + 1, 1));
+        });
+
+        it("不重置时没有重置时间", async () => {
+            const summary = await service.getUserUsage("user-1");
+
+            expect(summary.periodStart).toBeNull();
+            expect(summary.resetAt).toBeNull();
+        });
+
+        it("单独设置额度的操作使用各自计数，其他操作共用额度", async () => {
+            mockConfig({ freeUsageLimit: 5, freeCoverImageLimit: 2 });
+            usage.freeUsageCount = 4;
+            usage.coverFreeCount = 1;
+
+            const { quotas } = await service.getUserUsage("user-1");
+
+            expect(quotas.cover).toEqual({ used: 1, limit: 2, remaining: 1, shared: false });
+            expect(quotas.content).toEqual({ used: 4, limit: 5, remaining: 1, shared: true });
+        });
+
+        it("使用免费次数时条件更新计数并写入账本", async () => {
+            mockConfig({ freeUsageLimit: 1 });
+
+            const result = await service.consume("user-1", "outline", undefined, "task-1");
+
+            expect(result).toEqual({ isFree: true, powerDeducted: 0 });
+            expect(usageBuilder.andWhere).toHaveBeenCalledWith("free_usage_count < :limit", { limit: 1 });
+            expect(mockLedgerService.record).toHaveBeenCalledWith(
+                expect.objectContaining({ type: BillingLedgerType.FREE_USE, scene: "outline", taskId: "task-1" }),
+                undefined,
+            );
+            expect(mockAppBillingService.deductUserPower).not.toHaveBeenCalled();
+        });
+
+        it("免费次数被并发请求用完时改为扣积分", async () => {
+            mockConfig({ freeUsageLimit: 1 });
+            usageBuilder.execute.mockResolvedValue({ affected: 0 });
+
+            const result = await service.consume("user-1", "outline", undefined, "task-1");
+
+            expect(result).toEqual({ isFree: false, powerDeducted: 10 });
+            expect(mockAppBillingService.deductUserPower).toHaveBeenCalledWith(
+                expect.objectContaining({ amount: 10 }),
+                mockManager,
+            );
+        });
+
+        it("退回免费次数时计数不小于 0 并写入账本", async () => {
+            mockConfig({ freeCoverImageLimit: 1 });
+
+            await service.refundFreeUsage("user-1", "image", "cover", "img-1");
+
+            const values = usageBuilder.set.mock.calls[0][0];
+            expect(Object.keys(values)).toEqual(["coverFreeCount"]);
+            expect(values.coverFreeCount()).toBe("GREATEST(cover_free_count - 1, 0)");
+            expect(mockLedgerService.record).toHaveBeenCalledWith(
+                expect.objectContaining({ type: BillingLedgerType.FREE_REFUND, imageId: "img-1" }),
+                undefined,
+            );
+        });
+
+        it("免费生成失败时退回免费次数并标记失败", async () => {
+            mockConfig({ freeUsageLimit: 1 });
+            mockImageRepository.findOne.mockResolvedValue({ id: "img-1", powerDeducted: false });
+
+            await expect(
+                service.executeWithBilling(
+                    { userId: "user-1", imageId: "img-1", pageType: "content" },
+                    jest.fn().mockRejectedValue(new Error("生成失败")),
+                ),
+            ).rejects.toThrow("生成失败");
+
+            expect(mockLedgerService.record).toHaveBeenLastCalledWith(
+                expect.objectContaining({ type: BillingLedgerType.FREE_REFUND }),
+                undefined,
+            );
+            expect(mockImageRepository.update).toHaveBeenLastCalledWith(
+                "img-1",
+                expect.objectContaining({ status: ImageStatus.FAILED, errorMessage: "生成失败" }),
+            );
+        });
+    });
+
+    describe("会员定价", () => {
+        it("未匹配定价时使用全局配置", async () => {
+            const config = await service.getPowerConfig("user-1");
+
+            expect(config).toMatchObject({
+                outlinePower: 10,
+                coverImagePower: 20,
+                contentImagePower: 10,
+                freeUsageLimit: 0,
+                maxPages: null,
+                tierId: null,
+                tierName: null,
+            });
+            expect(mockPricingTierService.getUserTier).toHaveBeenCalledWith("user-1");
+        });
+
+        it("匹配定价时覆盖单价、免费次数和最大页数", async () => {
+            mockPricingTierService.getUserTier.mockResolvedValue({
+                id: "tier-1",
+                name: "年度会员",
+                outlinePower: 0,
+                coverImagePower: 12,
+                contentImagePower: 6,
+                freeUsageLimit: 20,
+                freeCoverImageLimit: 3,
+                maxPages: 18,
+            });
+
+            const config = await service.getPowerConfig("user-1");
+
+            expect(config).toMatchObject({
+                outlinePower: 0,
+                coverImagePower: 12,
+                contentImagePower: 6,
+                freeUsageLimit: 20,
+                maxPages: 18,
+                tierId: "tier-1",
+                tierName: "年度会员",
+            });
+            expect(config.freeQuotaLimits.cover).toBe(3);
+        });
+
+        it("定价中为空的字段沿用全局配置", async () => {
+            mockConfig({ freeContentImageLimit: 8 });
+            mockPricingTierService.getUserTier.mockResolvedValue({
+                id: "tier-1",
+                name: "月度会员",
+                coverImagePower: 12,
+                contentImagePower: null,
+                summaryImagePower: null,
+                freeUsageLimit: null,
+                freeContentImageLimit: null,
+            });
+
+            const config = await service.getPowerConfig("user-1");
+
+            expect(config.contentImagePower).toBe(10);
+            expect(config.summaryImagePower).toBe(10);
+            expect(config.freeUsageLimit).toBe(0);
+            expect(config.freeQuotaLimits.content).toBe(8);
+        });
+
+        it("不传用户时不查询定价", async () => {
+            await service.getPowerConfig();
+
+            expect(mockPricingTierService.getUserTier).not.toHaveBeenCalled();
+        });
+
+        it("按会员单价扣费和冻结", async () => {
+            mockPricingTierService.getUserTier.mockResolvedValue({ id: "tier-1", name: "年度会员", contentImagePower: 6 });
+
+            await expect(service.getPowerForPage("user-1", "content", ImageQuality.HD)).resolves.toBe(9);
+            const hold = await service.reserveBatch("user-1", "task-1", [{ type: "cover" }, { type: "content" }]);
+            expect(hold!.amount).toBe(26);
+        });
+    });
+
+    describe("消费上限", () => {
+        const mockTask = (budget: number | null) => {
+            mockManager.findOne.mockImplementation(async (entity) => {
+                if (entity === XhsTask) {
+                    return { id: "task-1", userId: "user-1", budget };
+                }
+                return entity === XhsUserUsage ? usage : null;
+            });
+        };
+
+        it("后台上限与用户上限取较小值", async () => {
+            mockConfig({ dailySpendCap: 100, monthlySpendCap: 500 });
+            usage.dailySpendCap = 50;
+
+            const limits = await service.getSpendLimits("user-1");
+
+            expect(limits.daily.limit).toBe(50);
+            expect(limits.monthly.limit).toBe(500);
+            expect(limits.task).toBeNull();
+        });
+
+        it("后台关闭用户上限时只使用后台上限", async () => {
+            mockConfig({ dailySpendCap: 100, allowUserSpendCap: false });
+            usage.dailySpendCap = 50;
+            usage.monthlySpendCap = 80;
+
+            const limits = await service.getSpendLimits("user-1");
+
+            expect(limits.daily.limit).toBe(100);
+            expect(limits.monthly.limit).toBeNull();
+            expect(limits.userDailyCap).toBeNull();
+        });
+
+        it("已消费积分包含冻结中的积分", async () => {
+            mockConfig({ dailySpendCap: 100 });
+            mockLedgerService.getNetSpent.mockResolvedValue(20);
+            holdBuilder.getRawOne.mockResolvedValue({ held: 30 });
+            mockTask(80);
+
+            const limits = await service.getSpendLimits("user-1", "task-1");
+
+            expect(limits.daily).toMatchObject({ limit: 100, spent: 50, remaining: 50 });
+            expect(limits.task).toMatchObject({ limit: 80, spent: 50, remaining: 30, resetAt: null });
+        });
+
+        it("超出任务预算时拒绝冻结", async () => {
+            mockLedgerService.getNetSpent.mockResolvedValue(20);
+            mockTask(50);
+
+            const error = await service
+                .reserveBatch("user-1", "task-1", [{ type: "cover" }, { type: "content" }, { type: "content" }])
+                .catch((e) => e);
+
+            expect(error).toBeInstanceOf(SpendLimitExceededError);
+            expect(error).toMatchObject({ scope: "task", limit: 50, spent: 20, required: 40 });
+            expect(mockManager.save).not.toHaveBeenCalled();
+        });
+
+        it("超出每日上限时拒绝扣费", async () => {
+            mockConfig({ dailySpendCap: 15 });
+            mockLedgerService.getNetSpent.mockResolvedValue(10);
+
+            await expect(service.consume("user-1", "outline", undefined, "task-1")).rejects.toThrow(
+                SpendLimitExceededError,
+            );
+            expect(mockAppBillingService.deductUserPower).not.toHaveBeenCalled();
+        });
+
+        it("用户设置上限只更新传入的字段", async () => {
+            await service.updateUserSpendCaps("user-1", { dailySpendCap: 100 });
+
+            expect(mockUsageRepository.update).toHaveBeenCalledWith("usage-1", { dailySpendCap: 100 });
+        });
+
+        it("上限不是非负整数时拒绝设置", async () => {
+            await expect(service.updateUserSpendCaps("user-1", { monthlySpendCap: -1 })).rejects.toThrow(
+                "消费上限需为不小于 0 的整数",
+            );
+            await expect(service.updateUserSpendCaps("user-1", { dailySpendCap: 1.5 })).rejects.toThrow(
+                "消费上限需为不小于 0 的整数",
+            );
+        });
+
+        it("后台关闭用户上限时拒绝设置", async () => {
+            mockConfig({ allowUserSpendCap: false });
+
+            await expect(service.updateUserSpendCaps("user-1", { dailySpendCap: 100 })).rejects.toThrow(
+                "当前不支持自行设置消费上限",
+            );
+            expect(mockUsageRepository.update).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("executeWithBilling", () => {
+        const options = { userId: "user-1", imageId: "img-1", pageType: "content" as const };
+
+        it("重试失败页面时重新扣费（失败时已回退并清除扣费标记）", async () => {
+            mockImageRepository.findOne.mockResolvedValue({ id: "img-1", powerDeducted: false, powerAmount: 0 });
+
+            const result = await service.executeWithBilling(options, jest.fn().mockResolvedValue("url"));
+
+            expect(result).toEqual({ result: "url", powerAmount: 10 });
+            expect(mockAppBillingService.deductUserPower).toHaveBeenCalledWith(
+                expect.objectContaining({ userId: "user-1", amount: 10, associationNo: "img-1" }),
+                mockManager,
+            );
+            expect(mockManager.update).toHaveBeenCalledWith(XhsImage, "img-1", {
+                status: ImageStatus.GENERATING,
+                powerDeducted: true,
+                powerAmount: 10,
+            });
+        });
+
+        it("续跑时已扣费的页面不重复扣费", async () => {
+            mockImageRepository.findOne.mockResolvedValue({ id: "img-1", powerDeducted: true, powerAmount: 10 });
+
+            const result = await service.executeWithBilling(options, jest.fn().mockResolvedValue("url"));
+
+            expect(result.powerAmount).toBe(10);
+            expect(mockAppBillingService.deductUserPower).not.toHaveBeenCalled();
+        });
+
+        it("生成失败时退回积分并清除扣费标记，下次重试重新计费", async () => {
+            mockImageRepository.findOne.mockResolvedValue({ id: "img-1", powerDeducted: false, powerAmount: 0 });
+
+            await expect(
+                service.executeWithBilling(options, jest.fn().mockRejectedValue(new Error("生成超时"))),
+            ).rejects.toThrow("生成超时");
+
+            expect(mockAppBillingService.addUserPower).toHaveBeenCalledWith(
+                expect.objectContaining({ userId: "user-1", amount: 10, associationNo: "img-1" }),
+                mockManager,
+            );
+            expect(mockLedgerService.record).toHaveBeenCalledWith(
+                expect.objectContaining({ type: BillingLedgerType.REFUND, amount: 10, imageId: "img-1" }),
+                mockManager,
+            );
+            expect(mockManager.update).toHaveBeenLastCalledWith(
+                XhsImage,
+                "img-1",
+                expect.objectContaining({ status: ImageStatus.FAILED, powerDeducted: false, powerAmount: 0 }),
+            );
+        });
+    });
+
+    describe("rollbackPower", () => {
+        it("在同一事务内退回积分并写入退款账本", async () => {
+            await service.rollbackPower("user-1", 10, "image", "content", "img-1");
+
+            expect(mockDataSource.transaction).toHaveBeenCalledTimes(1);
+            expect(mockAppBillingService.addUserPower).toHaveBeenCalledWith(
+                expect.objectContaining({ userId: "user-1", amount: 10, associationNo: "img-1" }),
+                mockManager,
+            );
+            expect(mockLedgerService.record).toHaveBeenCalledWith(
+                expect.objectContaining({ type: BillingLedgerType.REFUND, amount: 10, imageId: "img-1" }),
+                mockManager,
+            );
+        });
+
+        it("积分为 0 时不回退", async () => {
+            await service.rollbackPower("user-1", 0, "image", "content", "img-1");
+
+            expect(mockDataSource.transaction).not.toHaveBeenCalled();
+            expect(mockAppBillingService.addUserPower).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("单页改写计费", () => {
+        it("按单页改写单价扣费，关联任务ID", async () => {
+            const result = await service.consume("user-1", "page-rewrite", undefined, "task-1");
+
+            expect(result).toEqual({ isFree: false, powerDeducted: 2 });
+            expect(mockAppBillingService.deductUserPower).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    userId: "user-1",
+                    amount: 2,
+                    remark: "小红书大纲单页改写",
+                    associationNo: "task-1",
+                }),
+                mockManager,
+            );
+        });
+
+        it("单页改写单价为 0 时不扣费", async () => {
+            mockConfig({ pageRewritePower: 0 });
+
+            await expect(service.consume("user-1", "page-rewrite", undefined, "task-1")).resolves.toEqual({
+                isFree: false,
+                powerDeducted: 0,
+            });
+            expect(mockAppBillingService.deductUserPower).not.toHaveBeenCalled();
+        });
+    });
+});
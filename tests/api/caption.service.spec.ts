@@ -0,0 +1,132 @@
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { CaptionService } from "../../src/api/modules/xhs-creator/services/caption.service";
+import { OutlineService } from "../../src/api/modules/xhs-creator/services/outline.service";
+import { XhsTask } from "../../src/api/db/entities/xhs-task.entity";
+
+/**
+ * CaptionService 单元测试
+ */
+describe("CaptionService", () => {
+    let service: CaptionService;
+
+    const mockOutlineService = {
+        generateText: jest.fn(),
+    };
+
+    const task = {
+        id: "task-1",
+        topic: "新手咖啡入门",
+        pages: [
+            { index: 0, type: "cover", content: "[封面]\n咖啡入门" },
+            { index: 1, type: "content", content: "[内容]\n选豆" },
+        ],
+    } as XhsTask;
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [CaptionService, { provide: OutlineService, useValue: mockOutlineService }],
+        }).compile();
+
+        service = module.get<CaptionService>(CaptionService);
+    });
+
+    describe("generateCaption", () => {
+        it("以主题和大纲生成标题候选、正文和话题", async () => {
+            mockOutlineService.generateText.mockResolvedValue(
+                '```json\n{"titles":["咖啡入门指南","咖啡入门指南","新手也能做出好咖啡"],"body":" 正文内容 ","hashtags":["#咖啡","咖啡 入门","#咖啡"],}\n```',
+            );
+
+            const caption = await service.generateCaption(task);
+
+            expect(caption).toEqual({
+                titles: ["咖啡入门指南", "新手也能做出好咖啡"],
+                title: "咖啡入门指南",
+                body: "正文内容",
+                hashtags: ["咖啡", "咖啡入门"],
+                generatedAt: expect.any(String),
+            });
+            const prompt = mockOutlineService.generateText.mock.calls[0][0];
+            expect(prompt).toContain("新手咖啡入门");
+            expect(prompt).toContain("第2页：\n[内容]\n选豆");
+        });
+
+        it("超长标题截断到 20 字，没有标题时使用主题", async () => {
+            mockOutlineService.generateText
+                .mockResolvedValueOnce(JSON.stringify({ titles: ["☕".repeat(25)], body: "正文" }))
+                .mockResolvedValueOnce(JSON.stringify({ titles: [], body: "正文" }));
+
+            const truncated = await service.generateCaption(task);
+            const fallback = await service.generateCaption(task);
+
+            expect(Array.from(truncated.title)).toHaveLength(20);
+            expect(fallback.titles).toEqual(["新手咖啡入门"]);
+        });
+
+        it("话题最多保留 10 个", async () => {
+            const hashtags = Array.from({ length: 12 }, (_, i) => `话题${i}`);
+            mockOutlineService.generateText.mockResolvedValue(JSON.stringify({ titles: ["标题"], body: "正文", hashtags }));
+
+            const caption = await service.generateCaption(task);
+
+            expect(caption.hashtags).toEqual(hashtags.slice(0, 10));
+        });
+
+        it("输出无法解析时重试一次", async () => {
+            mockOutlineService.generateText
+                .mockResolvedValueOnce("抱歉，我无法完成")
+                .mockResolvedValueOnce(JSON.stringify({ titles: ["标题"], body: "正文" }));
+
+            const caption = await service.generateCaption(task);
+
+            expect(mockOutlineService.generateText).toHaveBeenCalledTimes(2);
+            expect(caption.title).toBe("标题");
+        });
+
+        it("两次解析都失败时抛出最后一次的错误", async () => {
+            mockOutlineService.generateText
+                .mockResolvedValueOnce("抱歉，我无法完成")
+                .mockResolvedValueOnce(JSON.stringify({ titles: ["标题"], body: "" }));
+
+            await expect(service.generateCaption(task)).rejects.toThrow("正文为空");
+        });
+
+        it("任务没有大纲时抛出异常", async () => {
+            await expect(service.generateCaption({ ...task, pages: [] } as XhsTask)).rejects.toThrow(
+                "任务没有大纲，无法生成文案",
+            );
+            expect(mockOutlineService.generateText).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("normalizeCaption", () => {
+        const previous = {
+            titles: ["原标题"],
+            title: "原标题",
+            body: "原正文",
+            hashtags: ["咖啡"],
+            generatedAt: "2026-01-01T00:00:00.000Z",
+        };
+
+        it("只更新传入的字段，保留生成时间", () => {
+            const caption = service.normalizeCaption({ body: " 新正文 ", hashtags: ["#咖啡", "#拿铁", "拿铁"] }, previous);
+
+            expect(caption).toEqual({
+                titles: ["原标题"],
+                title: "原标题",
+                body: "新正文",
+                hashtags: ["咖啡", "拿铁"],
+                generatedAt: "2026-01-01T00:00:00.000Z",
+            });
+        });
+
+        it("用户编辑的标题同样截断到 20 字", () => {
+            const caption = service.normalizeCaption({ title: "超".repeat(30) });
+
+            expect(caption.title).toBe("超".repeat(20));
+            expect(caption.generatedAt).toBeNull();
+        });
+    });
+});
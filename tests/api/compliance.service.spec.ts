@@ -0,0 +1,131 @@
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ComplianceService } from "../../src/api/modules/xhs-creator/services/compliance.service";
+import { XhsConfigService } from "../../src/api/modules/xhs-creator/services/xhs-config.service";
+import type { ComplianceRule } from "../../src/api/db/entities/xhs-config.entity";
+
+/**
+ * ComplianceService 单元测试
+ */
+describe("ComplianceService", () => {
+    let service: ComplianceService;
+    let configService: { getConfig: jest.Mock };
+
+    const mockConfig = (overrides: Record<string, unknown> = {}) => {
+        configService.getConfig.mockResolvedValue({
+            complianceEnabled: true,
+            complianceBlockCritical: true,
+            complianceRules: [],
+            ...overrides,
+        });
+    };
+
+    beforeEach(async () => {
+        configService = { getConfig: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [ComplianceService, { provide: XhsConfigService, useValue: configService }],
+        }).compile();
+
+        service = module.get<ComplianceService>(ComplianceService);
+    });
+
+    describe("check", () => {
+        it("未开启时不检查", async () => {
+            mockConfig({ complianceEnabled: false });
+
+            const report = await service.check([{ index: 0, content: "全网第一的最好产品" }]);
+
+            expect(report.enabled).toBe(false);
+            expect(report.pages).toEqual([]);
+            expect(report.criticalCount).toBe(0);
+        });
+
+        it("未配置词库时使用内置词库", async () => {
+            mockConfig();
+
+            const report = await service.check([
+                { index: 0, content: "这是全网第一的面霜" },
+                { index: 1, content: "普通的使用心得" },
+            ]);
+
+            expect(report.pages).toHaveLength(1);
+            expect(report.pages[0].index).toBe(0);
+            expect(report.pages[0].findings[0]).toMatchObject({ match: "全网第一", severity: "critical", replacement: "热门" });
+            expect(report.criticalCount).toBe(1);
+        });
+
+        it("按严重程度分别计数并按位置排序", async () => {
+            const rules: ComplianceRule[] = [
+                { pattern: "微信", category: "contact", severity: "warning" },
+                { pattern: "根治", category: "medical", severity: "critical", replacement: "改善" },
+            ];
+            mockConfig({ complianceRules: rules });
+
+            const report = await service.check([{ index: 2, content: "根治痘痘，加微信咨询，再说一次根治" }]);
+
+            expect(report.criticalCount).toBe(2);
+            expect(report.warningCount).toBe(1);
+            expect(report.pages[0].findings.map((finding) => finding.match)).toEqual(["根治", "微信", "根治"]);
+            expect(report.pages[0].findings[1].replacement).toBeNull();
+        });
+
+        it("普通规则按字面匹配且不区分大小写", async () => {
+            mockConfig({ complianceRules: [{ pattern: "No.1", category: "absolute", severity: "critical" }] });
+
+            const report = await service.check([{ index: 0, content: "行业 no.1 与 NoX1" }]);
+
+            expect(report.pages[0].findings.map((finding) => finding.match)).toEqual(["no.1"]);
+        });
+
+        it("同一位置只保留最先命中的规则", async () => {
+            mockConfig({
+                complianceRules: [
+                    { pattern: "最便宜", category: "absolute", severity: "critical" },
+                    { pattern: "最", category: "absolute", severity: "warning" },
+                ],
+            });
+
+            const report = await service.check([{ index: 0, content: "最便宜" }]);
+
+            expect(report.pages[0].findings).toHaveLength(1);
+            expect(report.pages[0].findings[0].match).toBe("最便宜");
+        });
+
+        it("跳过停用规则和无效正则", async () => {
+            mockConfig({
+                complianceRules: [
+                    { pattern: "最好", category: "absolute", severity: "critical", enabled: false },
+                    { pattern: "([", category: "absolute", severity: "critical", isRegex: true },
+                    { pattern: "\\d{11}", category: "contact", severity: "warning", isRegex: true },
+                ],
+            });
+
+            const report = await service.check([{ index: 0, content: "最好联系 13800138000" }]);
+
+            expect(report.criticalCount).toBe(0);
+            expect(report.pages[0].findings.map((finding) => finding.match)).toEqual(["13800138000"]);
+        });
+    });
+
+    describe("assertImageGenerationAllowed", () => {
+        const rules: ComplianceRule[] = [{ pattern: "根治", category: "medical", severity: "critical" }];
+
+        it("存在严重违规且开启阻止时拒绝生成", async () => {
+            mockConfig({ complianceRules: rules });
+
+            await expect(
+                service.assertImageGenerationAllowed([
+                    { index: 0, content: "封面" },
+                    { index: 1, content: "三天根治" },
+                ]),
+            ).rejects.toThrow("第 2 页「根治」");
+        });
+
+        it("未开启阻止时只提示不拒绝", async () => {
+            mockConfig({ complianceRules: rules, complianceBlockCritical: false });
+
+            await expect(service.assertImageGenerationAllowed([{ index: 0, content: "三天根治" }])).resolves.toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,66 @@
+import * as crypto from "crypto";
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { EncryptionService } from "../../src/api/modules/xhs-creator/services/encryption.service";
+
+/**
+ * EncryptionService 单元测试
+ */
+describe("EncryptionService", () => {
+    let service: EncryptionService;
+
+    beforeEach(async () => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [EncryptionService],
+        }).compile();
+
+        service = module.get<EncryptionService>(EncryptionService);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("加密后可还原明文，每次加密结果不同", () => {
+        const first = service.encryptToString("sk-test-1234567890");
+        const second = service.encryptToString("sk-test-1234567890");
+
+        expect(first.split(":")).toHaveLength(4);
+        expect(first).not.toBe(second);
+        expect(service.decryptFromString(first)).toBe("sk-test-1234567890");
+        expect(service.decryptFromString(second)).toBe("sk-test-1234567890");
+    });
+
+    it("同一密文重复解密时复用派生密钥", () => {
+        const encrypted = service.encryptToString("sk-test-1234567890");
+        const pbkdf2 = jest.spyOn(crypto, "pbkdf2Sync");
+
+        service.decryptFromString(encrypted);
+        service.decryptFromString(encrypted);
+
+        expect(pbkdf2).not.toHaveBeenCalled();
+    });
+
+    it("未缓存的盐值只派生一次密钥", () => {
+        const encrypted = service.encryptToString("sk-test-1234567890");
+        const other = new EncryptionService();
+        const pbkdf2 = jest.spyOn(crypto, "pbkdf2Sync");
+
+        expect(other.decryptFromString(encrypted)).toBe("sk-test-1234567890");
+        other.decryptFromString(encrypted);
+
+        expect(pbkdf2).toHaveBeenCalledTimes(1);
+    });
+
+    it("密文被篡改时解密失败", () => {
+        const [salt, iv, authTag, data] = service.encryptToString("sk-test-1234567890").split(":");
+        const tampered = Buffer.from(data, "base64");
+        tampered[0] ^= 0xff;
+
+        expect(() => service.decryptFromString([salt, iv, authTag, tampered.toString("base64")].join(":"))).toThrow();
+    });
+
+    it("格式无效时抛出异常", () => {
+        expect(() => service.decryptFromString("sk-plain-text")).toThrow("无效的加密字符串格式");
+    });
+});
@@ -0,0 +1,297 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+
+import { GenerationJobService } from "../../src/api/modules/xhs-creator/services/generation-job.service";
+import {
+    QueuedTask,
+    QueueTaskStatus,
+    QueueTaskType,
+    TaskPersistenceQueueService,
+} from "../../src/api/modules/xhs-creator/services/task-persistence-queue.service";
+import { SseConnectionPoolService } from "../../src/api/modules/xhs-creator/services/sse-connection-pool.service";
+import { ImageService, PendingCoverSelection } from "../../src/api/modules/xhs-creator/services/image.service";
+import { QueryBuilderService } from "../../src/api/modules/xhs-creator/services/query-builder.service";
+import { ComplianceService } from "../../src/api/modules/xhs-creator/services/compliance.service";
+import { XhsTask } from "../../src/api/db/entities/xhs-task.entity";
+import { ImageStatus } from "../../src/api/db/entities/xhs-image.entity";
+import { COVER_VARIANTS } from "../../src/api/modules/xhs-creator/constants";
+
+/**
+ * GenerationJobService 单元测试
+ */
+describe("GenerationJobService", () => {
+    let service: GenerationJobService;
+
+    const mockTaskRepository = {
+        findOne: jest.fn(),
+    };
+
+    const mockQueueService = {
+        registerHandler: jest.fn(),
+        enqueue: jest.fn(),
+        cancelPending: jest.fn(),
+        hasActiveTask: jest.fn(),
+    };
+
+    const mockPoolService = {
+        beginTask: jest.fn(),
+        publish: jest.fn(),
+        finishTask: jest.fn(),
+        hasTaskEvents: jest.fn(),
+        subscribe: jest.fn(),
+    };
+
+    const mockImageService = {
+        runGeneration: jest.fn(),
+        resumeGeneration: jest.fn(),
+        cancelGeneration: jest.fn(),
+        selectCoverVariant: jest.fn(),
+    };
+
+    const mockQueryBuilder = {
+        findFailedImages: jest.fn(),
+        bulkUpdateImageStatus: jest.fn(),
+    };
+
+    const mockComplianceService = {
+        assertImageGenerationAllowed: jest.fn(),
+    };
+
+    const task = {
+        id: "task-1",
+        userId: "user-1",
+        pages: [
+            { index: 0, type: "cover", content: "封面" },
+            { index: 1, type: "content", content: "内容" },
+        ],
+    };
+
+    const job: QueuedTask = {
+        id: "queue-1",
+        taskId: "task-1",
+        userId: "user-1",
+        priority: 0,
+        status: QueueTaskStatus.PROCESSING,
+        payload: { pages: task.pages, fullOutline: "大纲" },
+        retryCount: 0,
+        maxRetries: 3,
+        createdAt: new Date(),
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        mockTaskRepository.findOne.mockResolvedValue(task);
+        mockQueueService.hasActiveTask.mockReturnValue(false);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                GenerationJobService,
+                { provide: getRepositoryToken(XhsTask), useValue: mockTaskRepository },
+                { provide: TaskPersistenceQueueService, useValue: mockQueueService },
+                { provide: SseConnectionPoolService, useValue: mockPoolService },
+                { provide: ImageService, useValue: mockImageService },
+                { provide: QueryBuilderService, useValue: mockQueryBuilder },
+                { provide: ComplianceService, useValue: mockComplianceService },
+            ],
+        }).compile();
+
+        service = module.get<GenerationJobService>(GenerationJobService);
+    });
+
+    afterEach(() => {
+        service.onModuleDestroy();
+        jest.useRealTimers();
+    });
+
+    describe("cancel", () => {
+        it("执行中的任务中断进行中的请求，由生成流程退回积分", async () => {
+            let signal: AbortSignal | undefined;
+            mockImageService.runGeneration.mockImplementation(
+                (_taskId, _pages, _outline, _subject, _isRegenerate, _preferences, jobSignal: AbortSignal) =>
+                    new Promise<null>((resolve) => {
+                        signal = jobSignal;
+                        jobSignal.addEventListener("abort", () => resolve(null));
+                    }),
+            );
+            const running = service["runJob"](job, new AbortController().signal);
+
+            await service.cancel("user-1", "task-1");
+            await running;
+
+            expect(signal?.aborted).toBe(true);
+            expect(mockQueueService.cancelPending).not.toHaveBeenCalled();
+            expect(mockImageService.cancelGeneration).not.toHaveBeenCalled();
+        });
+
+        it("排队中的任务移出队列，并退回提交后扣除的积分", async () => {
+            const createdAt = new Date("2026-01-01T00:00:00.000Z");
+            mockQueueService.cancelPending.mockResolvedValue({
+                id: "queue-1",
+                taskId: "task-1",
+                payload: { pages: [{ index: 1 }] },
+                createdAt,
+            });
+
+            await service.cancel("user-1", "task-1");
+
+            expect(mockImageService.cancelGeneration).toHaveBeenCalledWith("task-1", [1], expect.anything(), createdAt);
+        });
+
+        it("排队参数没有页面时按任务页面取消", async () => {
+            mockQueueService.cancelPending.mockResolvedValue({
+                id: "queue-1",
+                taskId: "task-1",
+                payload: { retryFailed: true },
+                createdAt: new Date(),
+            });
+
+            await service.cancel("user-1", "task-1");
+
+            expect(mockImageService.cancelGeneration).toHaveBeenCalledWith(
+                "task-1",
+                [0, 1],
+                expect.anything(),
+                expect.any(Date),
+            );
+        });
+
+        it("等待选择封面时只取消内容页，不退积分", async () => {
+            jest.useFakeTimers();
+            const selection: PendingCoverSelection = {
+                pageIndex: 0,
+                versions: [1, 2],
+                pages: [{ index: 1, type: "content", content: "内容" }],
+                fullOutline: "大纲",
+            };
+            service["awaitCoverSelection"]("task-1", selection);
+
+            await service.cancel("user-1", "task-1");
+
+            expect(mockImageService.cancelGeneration).toHaveBeenCalledWith("task-1", [1], expect.anything());
+            expect(service.isActive("task-1")).toBe(false);
+        });
+
+        it("任务不在生成中时抛出异常", async () => {
+            mockQueueService.cancelPending.mockResolvedValue(null);
+
+            await expect(service.cancel("user-1", "task-1")).rejects.toThrow("任务当前不在生成中");
+        });
+
+        it("不能取消他人的任务", async () => {
+            await expect(service.cancel("user-2", "task-1")).rejects.toThrow("无权访问该任务");
+        });
+    });
+
+    describe("retryFailed", () => {
+        beforeEach(() => {
+            mockQueueService.enqueue.mockResolvedValue("queue-2");
+        });
+
+        it("只将失败页面重置为待生成，并按失败页数入队续跑", async () => {
+            mockQueryBuilder.findFailedImages.mockResolvedValue([{ id: "img-1" }, { id: "img-3" }]);
+
+            await expect(service.retryFailed("user-1", "task-1")).resolves.toBe("queue-2");
+
+            expect(mockQueryBuilder.bulkUpdateImageStatus).toHaveBeenCalledWith(["img-1", "img-3"], ImageStatus.PENDING, {
+                errorMessage: null,
+            });
+            expect(mockQueueService.enqueue).toHaveBeenCalledWith("task-1", "user-1", {
+                type: QueueTaskType.IMAGE_GENERATION,
+                taskId: "task-1",
+                retryFailed: true,
+            });
+            expect(mockPoolService.publish).toHaveBeenCalledWith("task-1", { data: expect.stringContaining('"total":2') });
+        });
+
+        it("提交前检查任务大纲的合规性", async () => {
+            mockComplianceService.assertImageGenerationAllowed.mockRejectedValueOnce(new Error("第 2 页「根治」"));
+
+            await expect(service.retryFailed("user-1", "task-1")).rejects.toThrow("根治");
+            expect(mockQueryBuilder.bulkUpdateImageStatus).not.toHaveBeenCalled();
+        });
+
+        it("没有失败页面时抛出异常", async () => {
+            mockQueryBuilder.findFailedImages.mockResolvedValue([]);
+
+            await expect(service.retryFailed("user-1", "task-1")).rejects.toThrow("没有生成失败的页面需要重试");
+            expect(mockQueueService.enqueue).not.toHaveBeenCalled();
+        });
+
+        it("任务生成中时拒绝重试", async () => {
+            mockQueueService.hasActiveTask.mockReturnValue(true);
+
+            await expect(service.retryFailed("user-1", "task-1")).rejects.toThrow("该任务正在生成中");
+        });
+    });
+
+    describe("封面候选", () => {
+        const selection: PendingCoverSelection = {
+            pageIndex: 0,
+            versions: [1, 2, 3],
+            pages: [{ index: 1, type: "content", content: "内容" }],
+            fullOutline: "大纲",
+        };
+
+        beforeEach(() => {
+            mockImageService.selectCoverVariant.mockResolvedValue("/storage/task-1/page_0_v2.png");
+            mockQueueService.enqueue.mockResolvedValue("queue-2");
+        });
+
+        it("超时未选择时自动选用第一张", () => {
+            jest.useFakeTimers();
+            const continueAfterCover = jest.spyOn(service as any, "continueAfterCover").mockResolvedValue(undefined);
+            service["awaitCoverSelection"]("task-1", selection);
+
+            jest.advanceTimersByTime(COVER_VARIANTS.SELECTION_TIMEOUT - 1);
+            expect(continueAfterCover).not.toHaveBeenCalled();
+            expect(service.isActive("task-1")).toBe(true);
+
+            jest.advanceTimersByTime(1);
+            expect(continueAfterCover).toHaveBeenCalledWith("task-1", 1);
+        });
+
+        it("选择封面后以选中封面继续生成内容页，并取消超时", async () => {
+            jest.useFakeTimers();
+            service["awaitCoverSelection"]("task-1", selection);
+
+            await service.selectCover("user-1", "task-1", 2);
+
+            expect(mockImageService.selectCoverVariant).toHaveBeenCalledWith("task-1", 0, 2);
+            expect(mockPoolService.publish).toHaveBeenCalledWith("task-1", {
+                data: expect.stringContaining("/storage/task-1/page_0_v2.png"),
+            });
+            expect(mockQueueService.enqueue).toHaveBeenCalledWith("task-1", "user-1", {
+                type: QueueTaskType.IMAGE_GENERATION,
+                taskId: "task-1",
+                pages: selection.pages,
+                fullOutline: "大纲",
+                isRegenerate: undefined,
+                coverSelected: true,
+            });
+            expect(mockPoolService.beginTask).not.toHaveBeenCalled();
+
+            jest.advanceTimersByTime(COVER_VARIANTS.SELECTION_TIMEOUT);
+            expect(mockImageService.selectCoverVariant).toHaveBeenCalledTimes(1);
+            expect(service.isActive("task-1")).toBe(false);
+        });
+
+        it("选择不存在的候选版本时抛出异常", async () => {
+            jest.useFakeTimers();
+            service["awaitCoverSelection"]("task-1", selection);
+
+            await expect(service.selectCover("user-1", "task-1", 9)).rejects.toThrow("封面候选 v9 不存在");
+            expect(service.isActive("task-1")).toBe(true);
+        });
+
+        it("没有等待选择的封面时抛出异常", async () => {
+            await expect(service.selectCover("user-1", "task-1", 1)).rejects.toThrow("当前没有等待选择的封面候选");
+        });
+
+        it("不能为他人的任务选择封面", async () => {
+            jest.useFakeTimers();
+            service["awaitCoverSelection"]("task-1", selection);
+
+            await expect(service.selectCover("user-2", "task-1", 1)).rejects.toThrow("无权访问该任务");
+        });
+    });
+});
@@ -0,0 +1,151 @@
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { GeneratorResolverService } from "../../src/api/modules/xhs-creator/services/generator-resolver.service";
+import { XhsConfigService } from "../../src/api/modules/xhs-creator/services/xhs-config.service";
+import {
+    ProviderRegistryService,
+    ResolvedModelCredential,
+} from "../../src/api/modules/xhs-creator/services/provider-registry.service";
+import { OpenAIGenerator } from "../../src/api/modules/xhs-creator/generators/openai.generator";
+import { ChatCompletionsGenerator } from "../../src/api/modules/xhs-creator/generators/chat-completions.generator";
+import { CustomEndpointGenerator } from "../../src/api/modules/xhs-creator/generators/custom-endpoint.generator";
+import { ServiceType } from "../../src/api/db/entities/xhs-provider.entity";
+
+/**
+ * 系统模型凭据
+ */
+function systemCredential(modelId: string): ResolvedModelCredential {
+    return {
+        source: "system",
+        sourceId: modelId,
+        providerName: "OpenAI",
+        apiKey: "sk-test",
+        modelName: modelId,
+        supportsVision: false,
+    };
+}
+
+/**
+ * GeneratorResolverService 单元测试
+ */
+describe("GeneratorResolverService", () => {
+    let service: GeneratorResolverService;
+
+    const mockConfigService = {
+        getConfig: jest.fn(),
+    };
+
+    const mockProviderRegistry = {
+        getActiveProvider: jest.fn(),
+        resolveProvider: jest.fn(),
+        resolveSystemModel: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        jest.spyOn(console, "log").mockImplementation(() => undefined);
+        mockProviderRegistry.getActiveProvider.mockResolvedValue(null);
+        mockProviderRegistry.resolveSystemModel.mockImplementation(async (modelId: string) => systemCredential(modelId));
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                GeneratorResolverService,
+                { provide: XhsConfigService, useValue: mockConfigService },
+                { provide: ProviderRegistryService, useValue: mockProviderRegistry },
+            ],
+        }).compile();
+
+        service = module.get<GeneratorResolverService>(GeneratorResolverService);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("resolveChain", () => {
+        it("主模型在前，备用模型按配置顺序排列", async () => {
+            mockConfigService.getConfig.mockResolvedValue({
+                imageModelId: "model-a",
+                imageEndpointType: "images",
+                imageFallbackModels: [
+                    { modelId: "model-b", endpointType: "chat" },
+                    { modelId: "model-c", endpointType: "custom", endpointUrl: "https://example.com/generate" },
+                ],
+            });
+
+            const chain = await service.resolveChain();
+
+            expect(chain.map((item) => item.modelId)).toEqual(["model-a", "model-b", "model-c"]);
+            expect(chain[0].generator).toBeInstanceOf(OpenAIGenerator);
+            expect(chain[1].generator).toBeInstanceOf(ChatCompletionsGenerator);
+            expect(chain[2].generator).toBeInstanceOf(CustomEndpointGenerator);
+            expect(chain.map((item) => item.circuitName)).toEqual([
+                "xhs-image-generation:model-a:images",
+                "xhs-image-generation:model-b:chat",
+                "xhs-image-generation:model-c:custom",
+            ]);
+        });
+
+        it("跳过重复的模型和解析失败的模型", async () => {
+            mockConfigService.getConfig.mockResolvedValue({
+                imageModelId: "model-a",
+                imageEndpointType: "images",
+                imageFallbackModels: [
+                    { modelId: "model-a", endpointType: "images" },
+                    { modelId: "model-b", endpointType: "images" },
+                    { modelId: "model-c", endpointType: "images" },
+                ],
+            });
+            mockProviderRegistry.resolveSystemModel.mockImplementation(async (modelId: string) => {
+                if (modelId === "model-b") {
+                    throw new Error("模型未绑定密钥");
+                }
+                return systemCredential(modelId);
+            });
+
+            const chain = await service.resolveChain();
+
+            expect(chain.map((item) => item.modelId)).toEqual(["model-a", "model-c"]);
+        });
+
+        it("已激活的图片服务商替代主模型，备用模型保留", async () => {
+            const provider = { id: "provider-1", name: "自定义服务商" };
+            mockConfigService.getConfig.mockResolvedValue({
+                imageModelId: "model-a",
+                imageFallbackModels: [{ modelId: "model-b", endpointType: "images" }],
+            });
+            mockProviderRegistry.getActiveProvider.mockResolvedValue(provider);
+            mockProviderRegistry.resolveProvider.mockReturnValue({
+                ...systemCredential("provider-1"),
+                source: "provider",
+                endpointType: "chat",
+            });
+
+            const chain = await service.resolveChain();
+
+            expect(mockProviderRegistry.getActiveProvider).toHaveBeenCalledWith(ServiceType.IMAGE);
+            expect(chain.map((item) => [item.source, item.modelId])).toEqual([
+                ["provider", "provider-1"],
+                ["system", "model-b"],
+            ]);
+        });
+
+        it("全部模型解析失败时抛出首个错误", async () => {
+            mockConfigService.getConfig.mockResolvedValue({
+                imageModelId: "model-a",
+                imageFallbackModels: [{ modelId: "model-b", endpointType: "images" }],
+            });
+            mockProviderRegistry.resolveSystemModel
+                .mockRejectedValueOnce(new Error("主模型不存在"))
+                .mockRejectedValueOnce(new Error("备用模型不存在"));
+
+            await expect(service.resolveChain()).rejects.toThrow("主模型不存在");
+        });
+
+        it("未配置图片模型时抛出异常", async () => {
+            mockConfigService.getConfig.mockResolvedValue({ imageModelId: null, imageFallbackModels: [] });
+
+            await expect(service.resolveChain()).rejects.toThrow("尚未选择图片生成模型");
+        });
+    });
+});
@@ -0,0 +1,104 @@
+import { BaseGenerator } from "../../src/api/modules/xhs-creator/generators/base.generator";
+import { OpenAIGenerator } from "../../src/api/modules/xhs-creator/generators/openai.generator";
+import { ChatCompletionsGenerator } from "../../src/api/modules/xhs-creator/generators/chat-completions.generator";
+import { CustomEndpointGenerator } from "../../src/api/modules/xhs-creator/generators/custom-endpoint.generator";
+
+/**
+ * 图片生成器偏好映射单元测试
+ */
+describe("图片生成器", () => {
+    describe("OpenAIGenerator", () => {
+        const createGenerator = (model: string, config?: Record<string, any>) => {
+            const generator = new OpenAIGenerator({ apiKey: "sk-test", model, config });
+            const generate = jest.fn().mockResolvedValue({ data: [{ url: "https://img/1.png" }] });
+            generator["client"] = { images: { generate } } as any;
+            return { generator, generate };
+        };
+
+        it("按画面比例选择模型支持的最接近尺寸", async () => {
+            const { generator, generate } = createGenerator("dall-e-3");
+
+            await generator.generateImage("咖啡", { aspectRatio: "3:4" });
+
+            expect(generate).toHaveBeenCalledWith(
+                expect.objectContaining({ model: "dall-e-3", size: "1024x1792", quality: "standard" }),
+                expect.anything(),
+            );
+        });
+
+        it("dall-e-2 只使用正方形，不支持的显式尺寸按比例重新选择", async () => {
+            const { generator, generate } = createGenerator("dall-e-2");
+
+            await generator.generateImage("咖啡", { aspectRatio: "16:9", size: "1792x1024" });
+
+            expect(generate).toHaveBeenCalledWith(expect.objectContaining({ size: "1024x1024" }), expect.anything());
+        });
+
+        it("gpt-image 系列 2K 清晰度映射为 high", async () => {
+            const { generator, generate } = createGenerator("gpt-image-1");
+
+            await generator.generateImage("咖啡", { aspectRatio: "4:3", quality: "2k" });
+
+            expect(generate).toHaveBeenCalledWith(
+                expect.objectContaining({ size: "1536x1024", quality: "high" }),
+                expect.anything(),
+            );
+        });
+
+        it("按服务商配置将模型版本映射为具体模型", async () => {
+            const { generator, generate } = createGenerator("dall-e-3", { modelVersions: { "4.0": "gpt-image-1" } });
+
+            await generator.generateImage("咖啡", { modelVersion: "4.0", quality: "1k" });
+
+            expect(generator.supportsModelVersion("4.0")).toBe(true);
+            expect(generate).toHaveBeenCalledWith(
+                expect.objectContaining({ model: "gpt-image-1", quality: "medium" }),
+                expect.anything(),
+            );
+        });
+
+        it("未映射的模型版本直接拒绝，不发起请求", async () => {
+            const { generator, generate } = createGenerator("dall-e-3");
+
+            expect(generator.supportsModelVersion("3.5")).toBe(false);
+            await expect(generator.generateImage("咖啡", { modelVersion: "3.5" })).rejects.toThrow(
+                "不支持选择模型版本 3.5",
+            );
+            expect(generate).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("ChatCompletionsGenerator", () => {
+        it("未映射的模型版本直接拒绝", async () => {
+            const generator = new ChatCompletionsGenerator({ apiKey: "sk-test", model: "gemini-2.5-flash-image" });
+
+            expect(generator.supportsModelVersion("4.0")).toBe(false);
+            await expect(generator.generateImage("咖啡", { modelVersion: "4.0" })).rejects.toThrow(
+                "不支持选择模型版本 4.0",
+            );
+        });
+
+        it("已映射的模型版本视为支持", () => {
+            const generator = new ChatCompletionsGenerator({
+                apiKey: "sk-test",
+                model: "gemini-2.5-flash-image",
+                config: { modelVersions: { "4.0": "gemini-3-pro-image" } },
+            });
+
+            expect(generator.supportsModelVersion("4.0")).toBe(true);
+            expect(generator["resolveModel"]("4.0", "gpt-4-vision-preview")).toBe("gemini-3-pro-image");
+            expect(generator["resolveModel"](undefined, "gpt-4-vision-preview")).toBe("gemini-2.5-flash-image");
+        });
+    });
+
+    describe("CustomEndpointGenerator", () => {
+        it("自定义端点支持任意模型版本", () => {
+            const generator: BaseGenerator = new CustomEndpointGenerator({
+                apiKey: "sk-test",
+                endpointUrl: "https://example.com/generate",
+            });
+
+            expect(generator.supportsModelVersion("3.5")).toBe(true);
+        });
+    });
+});
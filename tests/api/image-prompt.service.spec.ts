@@ -2,16 +2,29 @@ import { Test, TestingModule } from "@nestjs/testing";
 import { getRepositoryToken } from "@nestjs/typeorm";
 
 import { ImagePromptService } from "../services/image-prompt.service";
+import { ImageSpecificationService } from "../services/image-specification.service";
+import { XhsConfigService } from "../services/xhs-config.service";
+import { CustomPromptTemplateService, TemplateType } from "../services/custom-prompt-template.service";
 
 /**
  * ImagePromptService 单元测试
  */
 describe("ImagePromptService", () => {
     let service: ImagePromptService;
+    let configService: { getConfig: jest.Mock };
+    let templateService: { getUserDefaultTemplate: jest.Mock };
 
     beforeEach(async () => {
+        configService = { getConfig: jest.fn().mockResolvedValue({ imagePrompt: "配置模板" }) };
+        templateService = { getUserDefaultTemplate: jest.fn().mockResolvedValue(null) };
+
         const module: TestingModule = await Test.createTestingModule({
-            providers: [ImagePromptService],
+            providers: [
+                ImagePromptService,
+                ImageSpecificationService,
+                { provide: XhsConfigService, useValue: configService },
+                { provide: CustomPromptTemplateService, useValue: templateService },
+            ],
         }).compile();
 
         service = module.get<ImagePromptService>(ImagePromptService);
@@ -47,6 +60,47 @@ describe("ImagePromptService", () => {
 
             expect(result).toContain("总结");
         });
+
+        it("指定风格预设时追加风格修饰语和主色调", () => {
+            const result = service.buildImagePrompt(
+                "图片描述：咖啡豆研磨过程",
+                "content",
+                undefined,
+                undefined,
+                null,
+                "japanese_fresh",
+            );
+
+            expect(result).toContain("Japanese aesthetic");
+            expect(result).toContain("#F5E6D3");
+        });
+
+        it("风格预设不存在时不追加内容", () => {
+            const base = service.buildImagePrompt("图片描述：咖啡", "content");
+            const result = service.buildImagePrompt("图片描述：咖啡", "content", undefined, undefined, null, "unknown");
+
+            expect(result).toBe(base);
+        });
+    });
+
+    describe("resolveCustomTemplate", () => {
+        it("优先使用用户对应页面类型的默认模板", async () => {
+            templateService.getUserDefaultTemplate.mockResolvedValue("用户封面模板");
+
+            const result = await service.resolveCustomTemplate("user-1", "cover");
+
+            expect(result).toBe("用户封面模板");
+            expect(templateService.getUserDefaultTemplate).toHaveBeenCalledWith(
+                "user-1",
+                TemplateType.IMAGE_COVER,
+            );
+        });
+
+        it("用户未设置默认模板时回退到配置的 imagePrompt", async () => {
+            const result = await service.resolveCustomTemplate("user-1", "content");
+
+            expect(result).toBe("配置模板");
+        });
     });
 
     describe("extractImagePrompt", () => {
@@ -64,4 +118,23 @@ describe("ImagePromptService", () => {
             expect(result).toBe(content);
         });
     });
+
+    describe("applyPromptOverride", () => {
+        it("replace 模式直接使用覆盖文本", () => {
+            const result = service.applyPromptOverride("组装的提示词", { mode: "replace", text: " 只画一杯拿铁 " });
+
+            expect(result).toBe("只画一杯拿铁");
+        });
+
+        it("append 模式追加到组装的提示词之后", () => {
+            const result = service.applyPromptOverride("组装的提示词", { mode: "append", text: "暖色调" });
+
+            expect(result).toBe("组装的提示词\n\n暖色调");
+        });
+
+        it("没有覆盖或覆盖文本为空时原样返回", () => {
+            expect(service.applyPromptOverride("组装的提示词")).toBe("组装的提示词");
+            expect(service.applyPromptOverride("组装的提示词", { mode: "replace", text: "  " })).toBe("组装的提示词");
+        });
+    });
 });
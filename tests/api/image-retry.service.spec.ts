@@ -0,0 +1,168 @@
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { ImageRetryService } from "../../src/api/modules/xhs-creator/services/image-retry.service";
+import { CircuitBreakerService } from "../../src/api/modules/xhs-creator/services/circuit-breaker.service";
+import { IMAGE_RETRY } from "../../src/api/modules/xhs-creator/constants";
+import type { XhsConfig } from "../../src/api/db/entities/xhs-config.entity";
+
+/**
+ * ImageRetryService 单元测试
+ */
+describe("ImageRetryService", () => {
+    let service: ImageRetryService;
+
+    const mockCircuitBreaker = {
+        execute: jest.fn(),
+        isAvailable: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        mockCircuitBreaker.execute.mockImplementation((_name, operation: () => Promise<unknown>) => operation());
+        mockCircuitBreaker.isAvailable.mockReturnValue(true);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [ImageRetryService, { provide: CircuitBreakerService, useValue: mockCircuitBreaker }],
+        }).compile();
+
+        service = module.get<ImageRetryService>(ImageRetryService);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("getBackoffDelay", () => {
+        it("首次失败后等待基准间隔", () => {
+            jest.spyOn(Math, "random").mockReturnValue(0);
+
+            expect(service.getBackoffDelay(1, 2000)).toBe(2000);
+        });
+
+        it("每次失败后等待时间翻倍", () => {
+            jest.spyOn(Math, "random").mockReturnValue(0);
+
+            expect(service.getBackoffDelay(2, 2000)).toBe(4000);
+            expect(service.getBackoffDelay(3, 2000)).toBe(8000);
+        });
+
+        it("等待时间不超过上限", () => {
+            jest.spyOn(Math, "random").mockReturnValue(0);
+
+            expect(service.getBackoffDelay(10, 2000)).toBe(IMAGE_RETRY.MAX_DELAY);
+        });
+
+        it("随机抖动不超过 20%", () => {
+            jest.spyOn(Math, "random").mockReturnValue(0.999);
+
+            const delay = service.getBackoffDelay(1, 1000);
+            expect(delay).toBeGreaterThan(1000);
+            expect(delay).toBeLessThanOrEqual(1200);
+        });
+    });
+
+    describe("isRetryable", () => {
+        const keywords = ["429", "timeout", "ECONNRESET"];
+
+        it("错误信息包含关键字时可重试", () => {
+            expect(service.isRetryable(new Error("Request failed with status code 429"), keywords)).toBe(true);
+        });
+
+        it("关键字匹配不区分大小写", () => {
+            expect(service.isRetryable(new Error("Gateway Timeout"), keywords)).toBe(true);
+            expect(service.isRetryable(new Error("socket hang up: econnreset"), keywords)).toBe(true);
+        });
+
+        it("不包含关键字的错误不重试", () => {
+            expect(service.isRetryable(new Error("内容违反安全策略"), keywords)).toBe(false);
+        });
+
+        it("忽略空关键字", () => {
+            expect(service.isRetryable(new Error("内容违反安全策略"), [""])).toBe(false);
+        });
+    });
+
+    describe("resolvePolicy", () => {
+        it("未配置时使用默认策略", () => {
+            const policy = service.resolvePolicy({} as XhsConfig);
+
+            expect(policy).toEqual({
+                maxAttempts: IMAGE_RETRY.MAX_ATTEMPTS,
+                baseDelay: IMAGE_RETRY.BASE_DELAY,
+                retryableErrors: IMAGE_RETRY.RETRYABLE_ERRORS,
+            });
+        });
+
+        it("尝试次数限制在 1 到上限之间", () => {
+            expect(service.resolvePolicy({ imageRetryMaxAttempts: 0 } as XhsConfig).maxAttempts).toBe(1);
+            expect(service.resolvePolicy({ imageRetryMaxAttempts: 99 } as XhsConfig).maxAttempts).toBe(
+                IMAGE_RETRY.MAX_ATTEMPTS_LIMIT,
+            );
+        });
+    });
+
+    describe("executeWithFailover", () => {
+        const policy = { maxAttempts: 1, baseDelay: 0, retryableErrors: [] };
+        const routes = [
+            { circuitName: "image:primary", modelName: "primary" },
+            { circuitName: "image:backup", modelName: "backup" },
+        ];
+
+        it("主模型失败时切换到备用模型", async () => {
+            const onFailover = jest.fn();
+            const operation = jest
+                .fn()
+                .mockRejectedValueOnce(new Error("服务商异常"))
+                .mockResolvedValueOnce("https://img/1.png");
+
+            const { result, route } = await service.executeWithFailover(routes, operation, policy, { onFailover });
+
+            expect(result).toBe("https://img/1.png");
+            expect(route.modelName).toBe("backup");
+            expect(onFailover).toHaveBeenCalledWith(routes[0], routes[1], expect.objectContaining({ message: "服务商异常" }));
+        });
+
+        it("各模型使用各自的熔断器", async () => {
+            await service.executeWithFailover(routes, jest.fn().mockResolvedValue("url"), policy);
+
+            expect(mockCircuitBreaker.execute).toHaveBeenCalledWith(
+                "image:primary",
+                expect.any(Function),
+                expect.anything(),
+                undefined,
+            );
+        });
+
+        it("熔断中的模型直接跳过", async () => {
+            mockCircuitBreaker.isAvailable.mockImplementation((name: string) => name !== "image:primary");
+            const operation = jest.fn().mockResolvedValue("url");
+
+            const { route } = await service.executeWithFailover(routes, operation, policy);
+
+            expect(route.modelName).toBe("backup");
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        it("全部失败时抛出最后一个错误", async () => {
+            const operation = jest
+                .fn()
+                .mockRejectedValueOnce(new Error("主模型异常"))
+                .mockRejectedValueOnce(new Error("备用模型异常"));
+
+            await expect(service.executeWithFailover(routes, operation, policy)).rejects.toThrow("备用模型异常");
+        });
+
+        it("任务取消后不再切换备用模型", async () => {
+            const controller = new AbortController();
+            const operation = jest.fn().mockImplementation(async () => {
+                controller.abort();
+                throw new Error("请求已中断");
+            });
+
+            await expect(
+                service.executeWithFailover(routes, operation, policy, { signal: controller.signal }),
+            ).rejects.toThrow("请求已中断");
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+    });
+});
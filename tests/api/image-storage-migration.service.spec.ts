@@ -0,0 +1,141 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+
+import { ImageStorageMigrationService } from "../../src/api/modules/xhs-creator/services/image-storage-migration.service";
+import { ImageStorageService } from "../../src/api/modules/xhs-creator/services/image-storage.service";
+import { XhsTask } from "../../src/api/db/entities/xhs-task.entity";
+import { XhsImage } from "../../src/api/db/entities/xhs-image.entity";
+import { XhsImageHistory } from "../../src/api/db/entities/xhs-image-history.entity";
+
+/**
+ * 按批次返回行的仓库
+ */
+function createRepositoryMock(...batches: Record<string, unknown>[][]) {
+    const queryBuilder = {
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        orderBy: jest.fn().mockReturnThis(),
+        take: jest.fn().mockReturnThis(),
+        getMany: jest.fn(),
+    };
+    for (const batch of batches) {
+        queryBuilder.getMany.mockResolvedValueOnce(batch);
+    }
+    queryBuilder.getMany.mockResolvedValue([]);
+
+    return {
+        queryBuilder,
+        createQueryBuilder: jest.fn(() => queryBuilder),
+        update: jest.fn(),
+    };
+}
+
+/**
+ * ImageStorageMigrationService 单元测试
+ */
+describe("ImageStorageMigrationService", () => {
+    const dataUrl = "data:image/png;base64,AAAA";
+
+    const mockStorageService = {
+        store: jest.fn(),
+        isDataUrl: jest.fn((url: string) => url.startsWith("data:image/")),
+    };
+
+    const createService = async (repositories: {
+        tasks?: ReturnType<typeof createRepositoryMock>;
+        images?: ReturnType<typeof createRepositoryMock>;
+        histories?: ReturnType<typeof createRepositoryMock>;
+    }) => {
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ImageStorageMigrationService,
+                { provide: getRepositoryToken(XhsTask), useValue: repositories.tasks || createRepositoryMock() },
+                { provide: getRepositoryToken(XhsImage), useValue: repositories.images || createRepositoryMock() },
+                {
+                    provide: getRepositoryToken(XhsImageHistory),
+                    useValue: repositories.histories || createRepositoryMock(),
+                },
+                { provide: ImageStorageService, useValue: mockStorageService },
+            ],
+        }).compile();
+
+        return module.get<ImageStorageMigrationService>(ImageStorageMigrationService);
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockStorageService.store.mockResolvedValue({
+            url: "/storage/task-1/page_0_v1.png",
+            thumbnailUrl: "/storage/task-1/page_0_v1_thumb.webp",
+        });
+    });
+
+    it("改写历史版本、主记录和封面，主记录同时写入缩略图", async () => {
+        const histories = createRepositoryMock([{ id: "h-1", taskId: "task-1", pageIndex: 0, version: 1, imageUrl: dataUrl }]);
+        const images = createRepositoryMock([
+            { id: "img-1", taskId: "task-1", pageIndex: 0, currentVersion: 1, imageUrl: dataUrl },
+        ]);
+        const tasks = createRepositoryMock([{ id: "task-1", coverImageUrl: dataUrl }]);
+        const service = await createService({ histories, images, tasks });
+
+        const result = await service.migrateBase64Images();
+
+        expect(result).toEqual({ histories: 1, images: 1, tasks: 1, failed: 0 });
+        expect(histories.update).toHaveBeenCalledWith("h-1", { imageUrl: "/storage/task-1/page_0_v1.png" });
+        expect(images.update).toHaveBeenCalledWith("img-1", {
+            imageUrl: "/storage/task-1/page_0_v1.png",
+            thumbnailUrl: "/storage/task-1/page_0_v1_thumb.webp",
+        });
+        expect(tasks.update).toHaveBeenCalledWith("task-1", { coverImageUrl: "/storage/task-1/page_0_v1.png" });
+    });
+
+    it("相同图片只落盘一次", async () => {
+        const histories = createRepositoryMock([{ id: "h-1", taskId: "task-1", pageIndex: 0, version: 1, imageUrl: dataUrl }]);
+        const images = createRepositoryMock([
+            { id: "img-1", taskId: "task-1", pageIndex: 0, currentVersion: 1, imageUrl: dataUrl },
+        ]);
+        const service = await createService({ histories, images });
+
+        await service.migrateBase64Images();
+
+        expect(mockStorageService.store).toHaveBeenCalledTimes(1);
+        expect(mockStorageService.store).toHaveBeenCalledWith(dataUrl, "task-1", "page_0_v1");
+    });
+
+    it("按 ID 游标分批读取", async () => {
+        const images = createRepositoryMock(
+            [{ id: "img-1", taskId: "task-1", pageIndex: 0, currentVersion: 1, imageUrl: `${dataUrl}1` }],
+            [{ id: "img-2", taskId: "task-1", pageIndex: 1, currentVersion: 1, imageUrl: `${dataUrl}2` }],
+        );
+        const service = await createService({ images });
+
+        const result = await service.migrateBase64Images();
+
+        expect(result.images).toBe(2);
+        expect(images.queryBuilder.andWhere).toHaveBeenCalledWith("row.id > :lastId", { lastId: "img-1" });
+        expect(images.queryBuilder.andWhere).toHaveBeenCalledWith("row.id > :lastId", { lastId: "img-2" });
+    });
+
+    it("落盘失败时计入失败数且不改写记录", async () => {
+        mockStorageService.store.mockResolvedValue({ url: dataUrl, thumbnailUrl: null });
+        const images = createRepositoryMock([
+            { id: "img-1", taskId: "task-1", pageIndex: 0, currentVersion: 1, imageUrl: dataUrl },
+        ]);
+        const service = await createService({ images });
+
+        const result = await service.migrateBase64Images();
+
+        expect(result).toMatchObject({ images: 0, failed: 1 });
+        expect(images.update).not.toHaveBeenCalled();
+    });
+
+    it("迁移执行中时拒绝重复执行", async () => {
+        const service = await createService({});
+
+        const running = service.migrateBase64Images();
+        await expect(service.migrateBase64Images()).rejects.toThrow("迁移任务正在执行中");
+        await running;
+
+        await expect(service.migrateBase64Images()).resolves.toEqual({ histories: 0, images: 0, tasks: 0, failed: 0 });
+    });
+});
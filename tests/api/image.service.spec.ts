@@ -0,0 +1,343 @@
+import { MessageEvent } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { lastValueFrom, Subject, toArray } from "rxjs";
+
+import { ImageService } from "../../src/api/modules/xhs-creator/services/image.service";
+import { XhsConfigService } from "../../src/api/modules/xhs-creator/services/xhs-config.service";
+import { BillingService } from "../../src/api/modules/xhs-creator/services/billing.service";
+import { ImageVersionService } from "../../src/api/modules/xhs-creator/services/image-version.service";
+import { GeneratorResolverService } from "../../src/api/modules/xhs-creator/services/generator-resolver.service";
+import { ImagePromptService } from "../../src/api/modules/xhs-creator/services/image-prompt.service";
+import { ImageStorageService } from "../../src/api/modules/xhs-creator/services/image-storage.service";
+import { ImageRetryService } from "../../src/api/modules/xhs-creator/services/image-retry.service";
+import { PageLayoutService } from "../../src/api/modules/xhs-creator/services/page-layout.service";
+import { ComplianceService } from "../../src/api/modules/xhs-creator/services/compliance.service";
+import { XhsTask, TaskStatus, PagePromptOverride } from "../../src/api/db/entities/xhs-task.entity";
+import { XhsImage, ImageStatus } from "../../src/api/db/entities/xhs-image.entity";
+import { XhsImageHistory } from "../../src/api/db/entities/xhs-image-history.entity";
+
+/**
+ * 收集事件输出
+ */
+function collectEvents(subject: Subject<MessageEvent>) {
+    const events: Record<string, any>[] = [];
+    let completed = false;
+    subject.subscribe({
+        next: (event) => events.push(JSON.parse(event.data as string)),
+        complete: () => {
+            completed = true;
+        },
+    });
+    return { events, isCompleted: () => completed };
+}
+
+/**
+ * ImageService 单元测试
+ */
+describe("ImageService", () => {
+    let service: ImageService;
+
+    const mockTaskRepository = {
+        findOne: jest.fn(),
+        update: jest.fn(),
+        save: jest.fn(),
+    };
+
+    const mockImageRepository = {
+        find: jest.fn(),
+        findOne: jest.fn(),
+        update: jest.fn(),
+        save: jest.fn(),
+        create: jest.fn((data) => ({ ...data })),
+    };
+
+    const mockBillingService = {
+        refundImageChargesSince: jest.fn(),
+        executeWithBilling: jest.fn(),
+    };
+
+    const mockComplianceService = {
+        assertImageGenerationAllowed: jest.fn(),
+    };
+
+    const mockPromptService = {
+        resolveCustomTemplate: jest.fn(),
+        buildImagePrompt: jest.fn((content: string) => `组装:${content}`),
+        applyPromptOverride: jest.fn((prompt: string, override?: PagePromptOverride | null) =>
+            override ? `${prompt}|${override.mode}:${override.text}` : prompt,
+        ),
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ImageService,
+                { provide: getRepositoryToken(XhsTask), useValue: mockTaskRepository },
+                { provide: getRepositoryToken(XhsImage), useValue: mockImageRepository },
+                { provide: getRepositoryToken(XhsImageHistory), useValue: {} },
+                { provide: XhsConfigService, useValue: { getConfig: jest.fn() } },
+                { provide: BillingService, useValue: mockBillingService },
+                { provide: ImageVersionService, useValue: {} },
+                { provide: GeneratorResolverService, useValue: {} },
+                { provide: ImagePromptService, useValue: mockPromptService },
+                { provide: ImageStorageService, useValue: {} },
+                { provide: ImageRetryService, useValue: {} },
+                { provide: PageLayoutService, useValue: {} },
+                { provide: ComplianceService, useValue: mockComplianceService },
+            ],
+        }).compile();
+
+        service = module.get<ImageService>(ImageService);
+    });
+
+    describe("cancelGeneration", () => {
+        const since = new Date("2026-01-01T00:00:00.000Z");
+
+        beforeEach(() => {
+            mockTaskRepository.findOne.mockResolvedValue({ id: "task-1", userId: "user-1" });
+            mockImageRepository.find.mockResolvedValue([
+                { id: "img-0", pageIndex: 0, pageType: "cover", status: ImageStatus.COMPLETED },
+                { id: "img-1", pageIndex: 1, pageType: "content", status: ImageStatus.GENERATING },
+                { id: "img-2", pageIndex: 2, pageType: "summary", status: ImageStatus.PENDING },
+            ]);
+            mockBillingService.refundImageChargesSince.mockResolvedValueOnce(40).mockResolvedValueOnce(0);
+        });
+
+        it("退回未完成页面本轮已扣的积分，已完成页面不退", async () => {
+            const subject = new Subject<MessageEvent>();
+
+            await service.cancelGeneration("task-1", [0, 1, 2], subject, since);
+
+            expect(mockBillingService.refundImageChargesSince).toHaveBeenCalledTimes(2);
+            expect(mockBillingService.refundImageChargesSince).toHaveBeenCalledWith(
+                "user-1",
+                "img-1",
+                "content",
+                since,
+                "用户已取消生成",
+            );
+            expect(mockBillingService.refundImageChargesSince).toHaveBeenCalledWith(
+                "user-1",
+                "img-2",
+                "summary",
+                since,
+                "用户已取消生成",
+            );
+        });
+
+        it("未完成页面标记为已取消，任务标记为失败", async () => {
+            await service.cancelGeneration("task-1", [0, 1, 2], new Subject<MessageEvent>(), since);
+
+            expect(mockImageRepository.update).toHaveBeenCalledWith(
+                { id: expect.anything() },
+                { status: ImageStatus.CANCELLED, errorMessage: "用户已取消生成" },
+            );
+            expect(mockTaskRepository.update).toHaveBeenCalledWith("task-1", {
+                status: TaskStatus.FAILED,
+                errorMessage: "用户已取消生成",
+            });
+        });
+
+        it("推送 cancelled 事件并结束事件流", async () => {
+            const subject = new Subject<MessageEvent>();
+            const { events, isCompleted } = collectEvents(subject);
+
+            await service.cancelGeneration("task-1", [0, 1, 2], subject, since);
+
+            expect(events).toEqual([expect.objectContaining({ type: "cancelled", pageIndexes: [1, 2] })]);
+            expect(isCompleted()).toBe(true);
+        });
+
+        it("未传提交时间时不退积分（内容页尚未扣费）", async () => {
+            await service.cancelGeneration("task-1", [1, 2], new Subject<MessageEvent>());
+
+            expect(mockBillingService.refundImageChargesSince).not.toHaveBeenCalled();
+            expect(mockImageRepository.update).toHaveBeenCalled();
+        });
+
+        it("任务不存在时抛出异常", async () => {
+            mockTaskRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.cancelGeneration("task-x", [0], new Subject<MessageEvent>())).rejects.toThrow(
+                "任务不存在",
+            );
+        });
+    });
+
+    describe("resumeGeneration", () => {
+        it("重试失败页面时只为重置为待生成的页面续跑计费", async () => {
+            mockTaskRepository.findOne.mockResolvedValue({
+                id: "task-1",
+                userId: "user-1",
+                outline: "大纲",
+                pages: [
+                    { id: "p0", index: 0, type: "cover", content: "封面" },
+                    { id: "p1", index: 1, type: "content", content: "内容一" },
+                    { id: "p2", index: 2, type: "content", content: "内容二" },
+                ],
+            });
+            mockImageRepository.find.mockResolvedValue([
+                { pageId: "p0", pageIndex: 0, status: ImageStatus.COMPLETED },
+                { pageId: "p1", pageIndex: 1, status: ImageStatus.PENDING },
+                { pageId: "p2", pageIndex: 2, status: ImageStatus.COMPLETED },
+            ]);
+            const execute = jest.spyOn(service as any, "executeGeneration").mockResolvedValue(null);
+            const subject = new Subject<MessageEvent>();
+
+            await service.resumeGeneration("task-1", subject);
+
+            expect(execute).toHaveBeenCalledWith(
+                "task-1",
+                [expect.objectContaining({ id: "p1", index: 1 })],
+                "大纲",
+                subject,
+                false,
+                undefined,
+                true,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+            );
+        });
+
+        it("续跑失败时推送错误事件并标记任务失败", async () => {
+            mockTaskRepository.findOne.mockResolvedValue(null);
+            const subject = new Subject<MessageEvent>();
+            const { events, isCompleted } = collectEvents(subject);
+
+            await expect(service.resumeGeneration("task-1", subject)).resolves.toBeNull();
+
+            expect(events).toEqual([{ type: "error", message: "任务不存在" }]);
+            expect(isCompleted()).toBe(true);
+            expect(mockTaskRepository.update).toHaveBeenCalledWith("task-1", {
+                status: TaskStatus.FAILED,
+                errorMessage: "任务不存在",
+            });
+        });
+    });
+
+    describe("regenerateImage", () => {
+        const pages = [
+            { id: "p0", index: 0, type: "cover", content: "封面" },
+            { id: "p1", index: 1, type: "content", content: "内容" },
+        ];
+
+        beforeEach(() => {
+            mockTaskRepository.findOne.mockResolvedValue({ id: "task-1", userId: "user-1", pages });
+        });
+
+        it("不能重新生成他人任务的图片", async () => {
+            await expect(service.regenerateImage("user-2", "task-1", 1, "新的提示词")).rejects.toThrow("无权访问该任务");
+
+            expect(mockComplianceService.assertImageGenerationAllowed).not.toHaveBeenCalled();
+            expect(mockBillingService.executeWithBilling).not.toHaveBeenCalled();
+        });
+
+        it("合规检查包含本次提交的提示词，违规时不扣费", async () => {
+            mockComplianceService.assertImageGenerationAllowed.mockRejectedValue(new Error("第 2 页「根治」"));
+
+            await expect(service.regenerateImage("user-1", "task-1", 1, "根治失眠")).rejects.toThrow("根治");
+
+            expect(mockComplianceService.assertImageGenerationAllowed).toHaveBeenCalledWith([
+                ...pages,
+                { index: 1, content: "根治失眠" },
+            ]);
+            expect(mockBillingService.executeWithBilling).not.toHaveBeenCalled();
+        });
+
+        it("流式接口推送校验失败的错误事件", async () => {
+            mockComplianceService.assertImageGenerationAllowed.mockRejectedValue(new Error("第 2 页「根治」"));
+            const events = await lastValueFrom(
+                service.regenerateImageStream("user-1", "task-1", 1, "根治失眠").pipe(toArray()),
+            );
+
+            expect(events.map((event) => JSON.parse(event.data as string))).toEqual([
+                expect.objectContaining({ type: "start" }),
+                expect.objectContaining({ type: "error", pageIndex: 1, message: "第 2 页「根治」" }),
+            ]);
+        });
+    });
+
+    describe("提示词预览与覆盖", () => {
+        const saved: PagePromptOverride = { mode: "append", text: "暖色调" };
+        const task = () => ({
+            id: "task-1",
+            userId: "user-1",
+            outline: "完整大纲",
+            stylePresetId: null,
+            pages: [
+                { id: "p0", index: 0, type: "cover", content: "封面" },
+                { id: "p1", index: 1, type: "content", content: "内容", promptOverride: saved },
+            ],
+        });
+
+        beforeEach(() => {
+            mockTaskRepository.findOne.mockResolvedValue(task());
+        });
+
+        it("返回组装的提示词和应用覆盖后的最终提示词", async () => {
+            const result = await service.previewPrompts(
+                "user-1",
+                "task-1",
+                [
+                    { index: 0, type: "cover", content: "封面" },
+                    { index: 1, type: "content", content: "内容" },
+                ],
+                "大纲片段",
+            );
+
+            expect(result).toEqual([
+                { index: 0, compiledPrompt: "组装:封面", prompt: "组装:封面", promptOverride: null },
+                { index: 1, compiledPrompt: "组装:内容", prompt: "组装:内容|append:暖色调", promptOverride: saved },
+            ]);
+            expect(mockPromptService.buildImagePrompt).toHaveBeenCalledWith("封面", "cover", "完整大纲", undefined, undefined, null);
+            expect(mockPromptService.buildImagePrompt).toHaveBeenCalledWith("内容", "content", "大纲片段", undefined, undefined, null);
+        });
+
+        it("请求中的覆盖优先于任务保存的覆盖，显式传 null 表示不使用覆盖", async () => {
+            const replace: PagePromptOverride = { mode: "replace", text: "只画一杯咖啡" };
+
+            const [withReplace] = await service.previewPrompts("user-1", "task-1", [
+                { index: 1, type: "content", content: "内容", promptOverride: replace },
+            ]);
+            const [withoutOverride] = await service.previewPrompts("user-1", "task-1", [
+                { index: 1, type: "content", content: "内容", promptOverride: null },
+            ]);
+
+            expect(withReplace).toMatchObject({ promptOverride: replace, prompt: "组装:内容|replace:只画一杯咖啡" });
+            expect(withoutOverride).toMatchObject({ promptOverride: null, prompt: "组装:内容" });
+        });
+
+        it("不能预览他人任务的提示词", async () => {
+            await expect(
+                service.previewPrompts("user-2", "task-1", [{ index: 0, type: "cover", content: "封面" }]),
+            ).rejects.toThrow("无权访问该任务");
+            expect(mockPromptService.buildImagePrompt).not.toHaveBeenCalled();
+        });
+
+        it("保存页面覆盖到任务，覆盖文本为空时清除", () => {
+            const current = task() as unknown as XhsTask;
+            const replace: PagePromptOverride = { mode: "replace", text: "只画封面" };
+
+            service["syncPageSettings"](current, [
+                { index: 0, promptOverride: replace },
+                { index: 1, promptOverride: { mode: "append", text: "  " } },
+            ]);
+
+            expect(current.pages[0].promptOverride).toEqual(replace);
+            expect(current.pages[1].promptOverride).toBeNull();
+        });
+
+        it("未传覆盖时保留任务已保存的覆盖", () => {
+            const current = task() as unknown as XhsTask;
+
+            service["syncPageSettings"](current, [{ index: 1, styleId: "style-1" }]);
+
+            expect(current.pages[1]).toMatchObject({ styleId: "style-1", promptOverride: saved });
+        });
+    });
+});
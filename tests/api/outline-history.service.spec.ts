@@ -0,0 +1,197 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+
+import { OutlineHistoryService } from "../../src/api/modules/xhs-creator/services/outline-history.service";
+import { PageLayoutService } from "../../src/api/modules/xhs-creator/services/page-layout.service";
+import { XhsTask } from "../../src/api/db/entities/xhs-task.entity";
+import { XhsOutlineHistory } from "../../src/api/db/entities/xhs-outline-history.entity";
+
+/**
+ * OutlineHistoryService 单元测试
+ */
+describe("OutlineHistoryService", () => {
+    let service: OutlineHistoryService;
+
+    const mockManager = {
+        update: jest.fn(),
+        save: jest.fn(),
+    };
+
+    const mockTaskRepository = {
+        manager: {
+            transaction: jest.fn((callback) => callback(mockManager)),
+        },
+    };
+
+    const mockHistoryRepository = {
+        target: XhsOutlineHistory,
+        find: jest.fn(),
+        findOne: jest.fn(),
+        update: jest.fn(),
+        save: jest.fn(),
+    };
+
+    const mockPageLayoutService = {
+        assignPageIds: jest.fn((pages) => pages),
+        remapImages: jest.fn(),
+    };
+
+    const pages = [
+        { id: "p0", index: 0, type: "cover" as const, content: "[封面]\n咖啡入门" },
+        { id: "p1", index: 1, type: "content" as const, content: "[内容]\n选豆" },
+    ];
+
+    const task = (overrides: Partial<XhsTask> = {}) =>
+        ({ id: "task-1", outline: "大纲", pages, totalPages: pages.length, ...overrides }) as XhsTask;
+
+    /**
+     * 按版本号返回历史记录
+     */
+    const mockVersions = (...records: Partial<XhsOutlineHistory>[]) => {
+        mockHistoryRepository.findOne.mockImplementation(
+            async ({ where }) => records.find((record) => record.version === where.version) || null,
+        );
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OutlineHistoryService,
+                { provide: getRepositoryToken(XhsTask), useValue: mockTaskRepository },
+                { provide: getRepositoryToken(XhsOutlineHistory), useValue: mockHistoryRepository },
+                { provide: PageLayoutService, useValue: mockPageLayoutService },
+            ],
+        }).compile();
+
+        service = module.get<OutlineHistoryService>(OutlineHistoryService);
+    });
+
+    describe("record", () => {
+        it("在最新版本之后追加当前版本", async () => {
+            mockHistoryRepository.findOne.mockResolvedValue({ version: 3 });
+
+            await service.record(task(), "page-rewrite", 1);
+
+            expect(mockHistoryRepository.update).toHaveBeenCalledWith(
+                { taskId: "task-1", isCurrent: true },
+                { isCurrent: false },
+            );
+            expect(mockHistoryRepository.save).toHaveBeenCalledWith({
+                taskId: "task-1",
+                version: 4,
+                source: "page-rewrite",
+                pageIndex: 1,
+                outline: "大纲",
+                pages,
+                isCurrent: true,
+            });
+        });
+
+        it("没有页面时不记录", async () => {
+            await service.record(task({ pages: [] }), "ai");
+
+            expect(mockHistoryRepository.save).not.toHaveBeenCalled();
+        });
+
+        it("保存失败时不影响主流程", async () => {
+            mockHistoryRepository.findOne.mockRejectedValue(new Error("数据库不可用"));
+
+            await expect(service.record(task(), "user-edit")).resolves.toBeUndefined();
+        });
+
+        it("传入调用方事务时在该事务中保存，失败时抛出错误", async () => {
+            const repository = {
+                findOne: jest.fn().mockResolvedValue(null),
+                update: jest.fn(),
+                save: jest.fn().mockRejectedValue(new Error("数据库不可用")),
+            };
+            const callerManager = { getRepository: jest.fn(() => repository) };
+
+            await expect(service.record(task(), "user-edit", undefined, callerManager as any)).rejects.toThrow(
+                "数据库不可用",
+            );
+
+            expect(callerManager.getRepository).toHaveBeenCalledWith(XhsOutlineHistory);
+            expect(repository.save).toHaveBeenCalledWith(expect.objectContaining({ version: 1, source: "user-edit" }));
+            expect(mockHistoryRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("diff", () => {
+        it("按页面位置标记新增、删除、修改和未变化", async () => {
+            mockVersions(
+                { version: 1, pages: [pages[0], pages[1]] },
+                {
+                    version: 2,
+                    pages: [pages[0], { ...pages[1], content: "[内容]\n选豆要看产地" }, { ...pages[1], index: 2 }],
+                },
+                { version: 3, pages: [pages[0]] },
+            );
+
+            const added = await service.diff(task(), 1, 2);
+            const removed = await service.diff(task(), 1, 3);
+
+            expect(added.map((item) => item.status)).toEqual(["unchanged", "modified", "added"]);
+            expect(added[1].after?.content).toBe("[内容]\n选豆要看产地");
+            expect(removed.map((item) => item.status)).toEqual(["unchanged", "removed"]);
+            expect(removed[1]).toMatchObject({ before: pages[1], after: null });
+        });
+
+        it("页面风格变化视为修改", async () => {
+            mockVersions({ version: 1, pages: [pages[0], { ...pages[1], styleId: "style-1" }] });
+
+            const diffs = await service.diff(task(), 1);
+
+            expect(diffs.map((item) => item.status)).toEqual(["unchanged", "modified"]);
+        });
+
+        it("未传目标版本时与任务当前大纲对比", async () => {
+            mockVersions({ version: 1, pages: [pages[0]] });
+
+            const diffs = await service.diff(task(), 1);
+
+            expect(diffs.map((item) => item.status)).toEqual(["unchanged", "added"]);
+        });
+
+        it("版本不存在时抛出异常", async () => {
+            mockVersions({ version: 1, pages });
+
+            await expect(service.diff(task(), 5)).rejects.toThrow("版本 v5 不存在");
+            await expect(service.diff(task(), 1, 6)).rejects.toThrow("版本 v6 不存在");
+        });
+    });
+
+    describe("restoreVersion", () => {
+        const restored = [{ index: 0, type: "cover" as const, content: "[封面]\nAI 原始大纲" }];
+
+        it("切换当前版本并回写任务大纲，不创建新版本", async () => {
+            mockVersions({ id: "history-1", version: 1, outline: "AI 原始大纲", pages: restored });
+
+            const result = await service.restoreVersion(task(), 1);
+
+            expect(result).toMatchObject({ outline: "AI 原始大纲", pages: restored, totalPages: 1 });
+            expect(mockManager.update).toHaveBeenCalledWith(XhsOutlineHistory, { taskId: "task-1" }, { isCurrent: false });
+            expect(mockManager.update).toHaveBeenCalledWith(XhsOutlineHistory, "history-1", { isCurrent: true });
+            expect(mockManager.save).toHaveBeenCalledWith(result);
+            expect(mockHistoryRepository.save).not.toHaveBeenCalled();
+        });
+
+        it("早期版本沿用当前页面ID，并在同一事务中按页面ID调整图片", async () => {
+            mockVersions({ id: "history-1", version: 1, outline: "AI 原始大纲", pages: restored });
+
+            await service.restoreVersion(task(), 1);
+
+            expect(mockPageLayoutService.assignPageIds).toHaveBeenCalledWith(restored, pages);
+            expect(mockPageLayoutService.remapImages).toHaveBeenCalledWith("task-1", restored, true, mockManager);
+        });
+
+        it("版本不存在时抛出异常", async () => {
+            mockVersions();
+
+            await expect(service.restoreVersion(task(), 2)).rejects.toThrow("版本 v2 不存在");
+            expect(mockTaskRepository.manager.transaction).not.toHaveBeenCalled();
+        });
+    });
+});
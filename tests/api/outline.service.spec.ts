@@ -0,0 +1,353 @@
+import { Test, TestingModule } from "@nestjs/testing";
+
+import { OutlineService } from "../../src/api/modules/xhs-creator/services/outline.service";
+import { XhsConfigService } from "../../src/api/modules/xhs-creator/services/xhs-config.service";
+import { ProviderRegistryService } from "../../src/api/modules/xhs-creator/services/provider-registry.service";
+import { ImageStorageService } from "../../src/api/modules/xhs-creator/services/image-storage.service";
+import { CustomPromptTemplateService } from "../../src/api/modules/xhs-creator/services/custom-prompt-template.service";
+import { OpenAIGenerator } from "../../src/api/modules/xhs-creator/generators/openai.generator";
+
+/**
+ * OutlineService 结构化大纲解析单元测试
+ */
+describe("OutlineService", () => {
+    let service: OutlineService;
+
+    const mockConfigService = {
+        getConfig: jest.fn(),
+    };
+
+    const mockProviderRegistry = {
+        resolveText: jest.fn(),
+    };
+
+    const mockStorageService = {
+        toReferenceImages: jest.fn(),
+    };
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        mockConfigService.getConfig.mockResolvedValue({ outlineOutputMode: "text" });
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OutlineService,
+                { provide: XhsConfigService, useValue: mockConfigService },
+                { provide: ProviderRegistryService, useValue: mockProviderRegistry },
+                { provide: ImageStorageService, useValue: mockStorageService },
+                { provide: CustomPromptTemplateService, useValue: { getUserDefaultTemplate: jest.fn() } },
+            ],
+        }).compile();
+
+        service = module.get<OutlineService>(OutlineService);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    const parse = (text: string) => service["parseStructuredOutline"](text);
+
+    /**
+     * 模拟文本模型按给定分片流式输出
+     */
+    const mockModelStream = (chunks: string[]) =>
+        jest
+            .spyOn(service as any, "generateOutlineText")
+            .mockImplementation(async (_prompt: unknown, onDelta?: (delta: string) => void) => {
+                chunks.forEach((chunk) => onDelta?.(chunk));
+                return chunks.join("");
+            });
+
+    describe("parseStructuredOutline", () => {
+        it("应该解析合法的结构化大纲", () => {
+            const result = parse(
+                JSON.stringify({
+                    pages: [
+                        { type: "cover", title: "咖啡入门", subtitle: "新手必看", bullets: [], imageDescription: "一杯拿铁" },
+                        { type: "content", title: "选豆", bullets: ["阿拉比卡", "罗布斯塔"], imageDescription: "咖啡豆" },
+                    ],
+                }),
+            );
+
+            expect(result.errors).toEqual([]);
+            expect(result.pages).toHaveLength(2);
+            expect(result.pages![0]).toEqual({
+                type: "cover",
+                title: "咖啡入门",
+                subtitle: "新手必看",
+                bullets: [],
+                imageDescription: "一杯拿铁",
+            });
+            expect(result.pages![1].bullets).toEqual(["阿拉比卡", "罗布斯塔"]);
+        });
+
+        it("应该去除代码块和尾逗号", () => {
+            const result = parse(
+                '```json\n{"pages":[{"type":"cover","title":"标题","imageDescription":"配图",},]}\n```',
+            );
+
+            expect(result.errors).toEqual([]);
+            expect(result.pages![0].title).toBe("标题");
+        });
+
+        it("应该接受顶层数组和中文页面类型", () => {
+            const result = parse(
+                JSON.stringify([
+                    { type: "封面", title: "封面标题", imageDescription: "配图" },
+                    { type: "总结", title: "总结标题", imageDescription: "配图" },
+                ]),
+            );
+
+            expect(result.pages!.map((page) => page.type)).toEqual(["cover", "summary"]);
+        });
+
+        it("应该归一化要点：拆分字符串并去除列表符号", () => {
+            const result = parse(
+                JSON.stringify({
+                    pages: [{ type: "cover", title: "标题", bullets: "- 第一点\n2. 第二点\n\n• 第三点", imageDescription: "配图" }],
+                }),
+            );
+
+            expect(result.pages![0].bullets).toEqual(["第一点", "第二点", "第三点"]);
+        });
+
+        it("缺少封面时应将第一页作为封面", () => {
+            const result = parse(
+                JSON.stringify({
+                    pages: [
+                        { type: "content", title: "第一页", imageDescription: "配图" },
+                        { type: "content", title: "第二页", imageDescription: "配图" },
+                    ],
+                }),
+            );
+
+            expect(result.pages!.map((page) => page.type)).toEqual(["cover", "content"]);
+        });
+
+        it("缺少必填字段或类型无效时应返回全部错误", () => {
+            const result = parse(
+                JSON.stringify({
+                    pages: [
+                        { type: "cover", title: "", imageDescription: "配图" },
+                        { type: "unknown", title: "标题" },
+                    ],
+                }),
+            );
+
+            expect(result.pages).toBeUndefined();
+            expect(result.errors).toEqual([
+                "第1页缺少 title",
+                "第2页 type 无效: unknown",
+                "第2页缺少 imageDescription",
+            ]);
+        });
+
+        it("要点不是字符串数组时应返回错误", () => {
+            const result = parse(
+                JSON.stringify({ pages: [{ type: "cover", title: "标题", bullets: [1, 2], imageDescription: "配图" }] }),
+            );
+
+            expect(result.errors).toEqual(["第1页 bullets 必须是字符串数组"]);
+        });
+
+        it("没有 JSON 内容或无法解析时应返回错误", () => {
+            expect(parse("这不是 JSON").errors).toEqual(["输出中没有 JSON 内容"]);
+            expect(parse("{pages: [}").errors[0]).toContain("JSON 解析失败");
+        });
+
+        it("pages 为空时应返回错误", () => {
+            expect(parse('{"pages": []}').errors).toEqual(["pages 必须是非空数组"]);
+        });
+    });
+
+    describe("generateOutlineStream", () => {
+        it("页面块完整时立即回调，最后一页在输出结束后回调", async () => {
+            mockModelStream(["[封面]\n标题", "\n<page>\n[内", "容]\n第一点\n<pa", "ge>\n[总结]\n收尾"]);
+            const received: string[] = [];
+            const onPage = jest.fn((page) => received.push(`${page.index}:${page.type}`));
+
+            const result = await service.generateOutlineStream("咖啡入门", undefined, undefined, {
+                onDelta: () => {
+                    received.push("delta");
+                },
+                onPage,
+            });
+
+            expect(received).toEqual(["delta", "delta", "0:cover", "delta", "delta", "1:content", "2:summary"]);
+            expect(result.outline).toBe("[封面]\n标题\n<page>\n[内容]\n第一点\n<page>\n[总结]\n收尾");
+            expect(result.pages.map((page) => page.type)).toEqual(["cover", "content", "summary"]);
+        });
+
+        it("每个页面只回调一次", async () => {
+            mockModelStream(["[封面]\n标题\n<page>\n", "[内容]\n第一点", "\n补充\n", "<page>\n[总结]\n收尾"]);
+            const onPage = jest.fn();
+
+            await service.generateOutlineStream("咖啡入门", undefined, undefined, { onPage });
+
+            expect(onPage.mock.calls.map(([page]) => page.index)).toEqual([0, 1, 2]);
+            expect(onPage.mock.calls[1][0].content).toBe("[内容]\n第一点\n补充");
+        });
+
+        it("JSON 输出模式在校验后一次性回调所有页面", async () => {
+            mockConfigService.getConfig.mockResolvedValue({ outlineOutputMode: "json" });
+            const json = JSON.stringify({
+                pages: [
+                    { type: "cover", title: "咖啡入门", imageDescription: "一杯拿铁" },
+                    { type: "content", title: "选豆", imageDescription: "咖啡豆" },
+                ],
+            });
+            mockModelStream([json.slice(0, 20), json.slice(20)]);
+            const onDelta = jest.fn();
+            const onPage = jest.fn();
+
+            const result = await service.generateOutlineStream("咖啡入门", undefined, undefined, { onDelta, onPage });
+
+            expect(onDelta).toHaveBeenCalledTimes(2);
+            expect(onPage).toHaveBeenCalledTimes(2);
+            expect(onPage.mock.calls[0][0]).toMatchObject({ index: 0, type: "cover", structured: { title: "咖啡入门" } });
+            expect(result.outline).toContain("<page>");
+        });
+
+        it("模型调用失败时抛出异常", async () => {
+            jest.spyOn(service as any, "generateOutlineText").mockRejectedValue(new Error("模型不可用"));
+
+            await expect(service.generateOutlineStream("咖啡入门", undefined, undefined, {})).rejects.toThrow(
+                "模型不可用",
+            );
+        });
+    });
+
+    describe("rewritePage", () => {
+        const pages = [
+            { index: 0, type: "cover" as const, content: "[封面]\n咖啡入门" },
+            { index: 1, type: "content" as const, content: "[内容]\n选豆\n配图建议：咖啡豆" },
+            { index: 2, type: "summary" as const, content: "[总结]\n收尾" },
+        ];
+
+        it("以完整大纲为上下文只改写目标页", async () => {
+            const generate = jest
+                .spyOn(service as any, "generateOutlineText")
+                .mockResolvedValue("[内容]\n选豆更简洁\n配图建议：咖啡豆");
+
+            const page = await service.rewritePage("咖啡入门", pages, 1, "更简洁");
+
+            expect(page).toEqual({
+                index: 1,
+                type: "content",
+                content: "[内容]\n选豆更简洁\n配图建议：咖啡豆",
+                structured: null,
+            });
+            const prompt = generate.mock.calls[0][0] as string;
+            expect(prompt).toContain("主题：咖啡入门");
+            expect(prompt).toContain(service.serializeOutline(pages));
+            expect(prompt).toContain("需要改写的是第 2 页（内容）");
+            expect(prompt).toContain("改写要求：更简洁");
+        });
+
+        it("去除代码块与分隔符，并保持原页面类型", async () => {
+            jest.spyOn(service as any, "generateOutlineText").mockResolvedValue("```\n<page>\n[总结]\n新的内容\n```");
+
+            const page = await service.rewritePage("咖啡入门", pages, 1, "更简洁");
+
+            expect(page.type).toBe("content");
+            expect(page.content).toBe("[内容]\n新的内容");
+        });
+
+        it("JSON 输出模式返回结构化页面，类型以原页面为准", async () => {
+            mockConfigService.getConfig.mockResolvedValue({ outlineOutputMode: "json" });
+            jest.spyOn(service as any, "generateOutlineText").mockResolvedValue(
+                JSON.stringify({ pages: [{ type: "cover", title: "选豆", bullets: ["看产地"], imageDescription: "咖啡豆" }] }),
+            );
+
+            const page = await service.rewritePage("咖啡入门", pages, 1, "加一个小技巧");
+
+            expect(page.type).toBe("content");
+            expect(page.structured).toMatchObject({ type: "content", title: "选豆", bullets: ["看产地"] });
+            expect(page.content).toContain("• 看产地");
+        });
+
+        it("JSON 输出模式校验失败时按文本处理", async () => {
+            mockConfigService.getConfig.mockResolvedValue({ outlineOutputMode: "json" });
+            jest.spyOn(service as any, "generateOutlineText").mockResolvedValue("选豆要看产地");
+
+            const page = await service.rewritePage("咖啡入门", pages, 1, "加一个小技巧");
+
+            expect(page).toMatchObject({ content: "[内容]\n选豆要看产地", structured: null });
+        });
+
+        it("改写结果为空时抛出异常", async () => {
+            jest.spyOn(service as any, "generateOutlineText").mockResolvedValue("```\n```");
+
+            await expect(service.rewritePage("咖啡入门", pages, 1, "更简洁")).rejects.toThrow("改写结果为空");
+        });
+
+        it("页面不存在时抛出异常", async () => {
+            await expect(service.rewritePage("咖啡入门", pages, 5, "更简洁")).rejects.toThrow("页面不存在");
+        });
+    });
+
+    describe("参考图片", () => {
+        const userImages = ["/storage/uploads/product.png"];
+        let generateText: jest.SpyInstance;
+
+        const mockTextModel = (supportsVision: boolean) => {
+            mockProviderRegistry.resolveText.mockResolvedValue({
+                source: "provider",
+                sourceId: "provider-1",
+                providerName: "自定义服务商",
+                apiKey: "sk-test",
+                modelName: "gpt-4o",
+                supportsVision,
+            });
+        };
+
+        beforeEach(() => {
+            jest.spyOn(console, "log").mockImplementation(() => undefined);
+            generateText = jest.spyOn(OpenAIGenerator.prototype, "generateText").mockResolvedValue("[封面]\n标题");
+            mockStorageService.toReferenceImages.mockResolvedValue(["data:image/png;base64,AAAA"]);
+        });
+
+        it("支持视觉输入的模型随提示词发送图片", async () => {
+            mockTextModel(true);
+
+            await service.generateOutline("新品咖啡机", userImages, "user-1");
+
+            expect(mockStorageService.toReferenceImages).toHaveBeenCalledWith(userImages);
+            expect(generateText).toHaveBeenCalledWith(expect.stringContaining("见消息中的图片"), {
+                images: ["data:image/png;base64,AAAA"],
+            });
+        });
+
+        it("不支持视觉输入的模型只在提示词中说明图片数量", async () => {
+            mockTextModel(false);
+
+            await service.generateOutline("新品咖啡机", userImages, "user-1");
+
+            expect(mockStorageService.toReferenceImages).not.toHaveBeenCalled();
+            expect(generateText).toHaveBeenCalledWith(expect.stringContaining("用户提供了 1 张参考图片"), {
+                images: [],
+            });
+        });
+
+        it("流式生成同样发送图片", async () => {
+            mockTextModel(true);
+            const streamText = jest.spyOn(OpenAIGenerator.prototype, "streamText").mockResolvedValue("[封面]\n标题");
+
+            await service.generateOutlineStream("新品咖啡机", userImages, "user-1", {});
+
+            expect(streamText).toHaveBeenCalledWith(expect.any(String), expect.any(Function), {
+                images: ["data:image/png;base64,AAAA"],
+            });
+        });
+
+        it("没有参考图片时不检查模型能力", async () => {
+            mockTextModel(true);
+
+            await service.generateOutline("新品咖啡机", undefined, "user-1");
+
+            expect(mockProviderRegistry.resolveText).toHaveBeenCalledTimes(1);
+            expect(generateText).toHaveBeenCalledWith(expect.not.stringContaining("参考图片"), { images: [] });
+        });
+    });
+});
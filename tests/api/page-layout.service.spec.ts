@@ -0,0 +1,173 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+
+import { PageLayoutService } from "../../src/api/modules/xhs-creator/services/page-layout.service";
+import { XhsImage } from "../../src/api/db/entities/xhs-image.entity";
+import { XhsImageHistory } from "../../src/api/db/entities/xhs-image-history.entity";
+
+/**
+ * PageLayoutService 单元测试
+ */
+describe("PageLayoutService", () => {
+    let service: PageLayoutService;
+    let manager: { find: jest.Mock; update: jest.Mock; delete: jest.Mock };
+    let transaction: jest.Mock;
+
+    const ID_A = "11111111-1111-4111-8111-111111111111";
+    const ID_B = "22222222-2222-4222-8222-222222222222";
+    const ID_C = "33333333-3333-4333-8333-333333333333";
+
+    beforeEach(async () => {
+        manager = { find: jest.fn(), update: jest.fn(), delete: jest.fn() };
+        transaction = jest.fn((callback) => callback(manager));
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                PageLayoutService,
+                {
+                    provide: getRepositoryToken(XhsImage),
+                    useValue: {
+                        manager: { transaction },
+                    },
+                },
+            ],
+        }).compile();
+
+        service = module.get<PageLayoutService>(PageLayoutService);
+    });
+
+    describe("assignPageIds", () => {
+        it("保留有效ID并为缺少ID的页面生成新ID", () => {
+            const pages = service.assignPageIds([{ index: 0, id: ID_A }, { index: 1 }]);
+
+            expect(pages[0].id).toBe(ID_A);
+            expect(pages[1].id).toMatch(/^[0-9a-f-]{36}$/);
+            expect(pages[1].id).not.toBe(ID_A);
+        });
+
+        it("替换无效和重复的ID", () => {
+            const pages = service.assignPageIds([
+                { index: 0, id: ID_A },
+                { index: 1, id: ID_A },
+                { index: 2, id: "page-2" },
+            ]);
+
+            expect(pages[0].id).toBe(ID_A);
+            expect(new Set(pages.map((page) => page.id)).size).toBe(3);
+            expect(pages[2].id).not.toBe("page-2");
+        });
+
+        it("缺少ID时沿用原页面同位置的ID", () => {
+            const pages = service.assignPageIds<{ index: number; id?: string }>([{ index: 0 }, { index: 1 }], [
+                { index: 0, id: ID_A },
+                { index: 1, id: ID_B },
+            ]);
+
+            expect(pages.map((page) => page.id)).toEqual([ID_A, ID_B]);
+        });
+
+        it("原ID已被其他页面显式携带时不沿用", () => {
+            const pages = service.assignPageIds([{ index: 0 }, { index: 1, id: ID_A }], [{ index: 0, id: ID_A }]);
+
+            expect(pages[1].id).toBe(ID_A);
+            expect(pages[0].id).not.toBe(ID_A);
+        });
+    });
+
+    describe("remapImages", () => {
+        it("按页面ID更新图片及版本历史的页面索引", async () => {
+            manager.find.mockResolvedValue([
+                { id: "img-a", pageId: ID_A, pageIndex: 0 },
+                { id: "img-b", pageId: ID_B, pageIndex: 1 },
+            ]);
+
+            await service.remapImages("task-1", [
+                { id: ID_B, index: 0 },
+                { id: ID_A, index: 1 },
+            ]);
+
+            expect(manager.update).toHaveBeenCalledWith(XhsImage, "img-a", { pageId: ID_A, pageIndex: 1 });
+            expect(manager.update).toHaveBeenCalledWith(
+                XhsImageHistory,
+                { imageId: "img-a" },
+                { pageId: ID_A, pageIndex: 1 },
+            );
+            expect(manager.update).toHaveBeenCalledWith(XhsImage, "img-b", { pageId: ID_B, pageIndex: 0 });
+            expect(manager.delete).not.toHaveBeenCalled();
+        });
+
+        it("页型变化时同步更新图片页型", async () => {
+            manager.find.mockResolvedValue([{ id: "img-a", pageId: ID_A, pageIndex: 1, pageType: "content" }]);
+
+            await service.remapImages("task-1", [{ id: ID_A, index: 1, type: "summary" }]);
+
+            expect(manager.update).toHaveBeenCalledWith(XhsImage, "img-a", {
+                pageId: ID_A,
+                pageIndex: 1,
+                pageType: "summary",
+            });
+            expect(manager.update).toHaveBeenCalledWith(
+                XhsImageHistory,
+                { imageId: "img-a" },
+                { pageId: ID_A, pageIndex: 1 },
+            );
+        });
+
+        it("传入调用方事务时在该事务中执行", async () => {
+            const callerManager = { find: jest.fn(), update: jest.fn(), delete: jest.fn() };
+            callerManager.find.mockResolvedValue([{ id: "img-a", pageId: ID_A, pageIndex: 0, pageType: "cover" }]);
+
+            await service.remapImages("task-1", [{ id: ID_A, index: 1, type: "cover" }], true, callerManager as any);
+
+            expect(transaction).not.toHaveBeenCalled();
+            expect(callerManager.update).toHaveBeenCalledWith(XhsImage, "img-a", {
+                pageId: ID_A,
+                pageIndex: 1,
+                pageType: "cover",
+            });
+        });
+
+        it("位置未变化的图片不更新", async () => {
+            manager.find.mockResolvedValue([{ id: "img-a", pageId: ID_A, pageIndex: 0 }]);
+
+            await service.remapImages("task-1", [{ id: ID_A, index: 0 }]);
+
+            expect(manager.update).not.toHaveBeenCalled();
+        });
+
+        it("未关联页面ID的旧图片按当前位置关联", async () => {
+            manager.find.mockResolvedValue([{ id: "img-old", pageId: null, pageIndex: 1 }]);
+
+            await service.remapImages("task-1", [{ id: ID_C, index: 1 }]);
+
+            expect(manager.update).toHaveBeenCalledWith(XhsImage, "img-old", { pageId: ID_C, pageIndex: 1 });
+        });
+
+        it("传入完整大纲时删除已删除页面的图片", async () => {
+            manager.find.mockResolvedValue([
+                { id: "img-a", pageId: ID_A, pageIndex: 0 },
+                { id: "img-b", pageId: ID_B, pageIndex: 1 },
+            ]);
+
+            await service.remapImages("task-1", [{ id: ID_A, index: 0 }], true);
+
+            expect(manager.delete).toHaveBeenCalledTimes(1);
+            expect(manager.delete.mock.calls[0][0]).toBe(XhsImage);
+        });
+
+        it("未传入完整大纲时保留不在列表中的图片", async () => {
+            manager.find.mockResolvedValue([{ id: "img-b", pageId: ID_B, pageIndex: 1 }]);
+
+            await service.remapImages("task-1", [{ id: ID_A, index: 0 }]);
+
+            expect(manager.delete).not.toHaveBeenCalled();
+        });
+
+        it("更新失败时抛出错误", async () => {
+            manager.find.mockResolvedValue([{ id: "img-a", pageId: ID_A, pageIndex: 0 }]);
+            manager.update.mockRejectedValueOnce(new Error("数据库错误"));
+
+            await expect(service.remapImages("task-1", [{ id: ID_A, index: 1 }])).rejects.toThrow("数据库错误");
+        });
+    });
+});
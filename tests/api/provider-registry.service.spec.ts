@@ -0,0 +1,160 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+import { PublicAiModelService } from "@buildingai/extension-sdk";
+
+import { ProviderRegistryService } from "../../src/api/modules/xhs-creator/services/provider-registry.service";
+import { EncryptionService } from "../../src/api/modules/xhs-creator/services/encryption.service";
+import { XhsConfigService } from "../../src/api/modules/xhs-creator/services/xhs-config.service";
+import { XhsProvider, ProviderType, ServiceType } from "../../src/api/db/entities/xhs-provider.entity";
+
+/**
+ * ProviderRegistryService 单元测试
+ */
+describe("ProviderRegistryService", () => {
+    let service: ProviderRegistryService;
+    let encryptionService: EncryptionService;
+    let encryptedKey: string;
+
+    const mockProviderRepository = {
+        find: jest.fn(),
+        findOne: jest.fn(),
+        save: jest.fn(),
+        update: jest.fn(),
+        create: jest.fn((data) => ({ id: "provider-1", ...data })),
+    };
+
+    const provider = (overrides: Partial<XhsProvider> = {}) =>
+        ({
+            id: "provider-1",
+            name: "自定义服务商",
+            type: ProviderType.OPENAI,
+            serviceType: ServiceType.IMAGE,
+            apiKey: encryptedKey,
+            baseUrl: null,
+            model: null,
+            config: null,
+            isActive: true,
+            isEnabled: true,
+            ...overrides,
+        }) as XhsProvider;
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ProviderRegistryService,
+                EncryptionService,
+                { provide: getRepositoryToken(XhsProvider), useValue: mockProviderRepository },
+                { provide: PublicAiModelService, useValue: {} },
+                { provide: XhsConfigService, useValue: { getConfig: jest.fn() } },
+            ],
+        }).compile();
+
+        service = module.get<ProviderRegistryService>(ProviderRegistryService);
+        encryptionService = module.get<EncryptionService>(EncryptionService);
+        encryptedKey = encryptionService.encryptToString("sk-secret");
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("list", () => {
+        it("返回脱敏后的密钥且不解密", async () => {
+            const decrypt = jest.spyOn(encryptionService, "decryptFromString");
+            mockProviderRepository.find.mockResolvedValue([provider(), provider({ id: "provider-2", apiKey: "" })]);
+
+            const providers = await service.list();
+
+            expect(providers.map((item) => item.apiKey)).toEqual(["********", ""]);
+            expect(decrypt).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("create", () => {
+        it("加密保存 API Key，返回脱敏结果", async () => {
+            const result = await service.create({
+                name: "自定义服务商",
+                type: ProviderType.OPENAI,
+                serviceType: ServiceType.IMAGE,
+                apiKey: "sk-new",
+            });
+
+            const saved = mockProviderRepository.save.mock.calls[0][0];
+            expect(saved.apiKey).not.toBe("sk-new");
+            expect(encryptionService.decryptFromString(saved.apiKey)).toBe("sk-new");
+            expect(result.apiKey).toBe("********");
+        });
+    });
+
+    describe("update", () => {
+        it("传回脱敏值时保持原密钥不变", async () => {
+            mockProviderRepository.findOne.mockResolvedValue(provider());
+
+            await service.update("provider-1", { apiKey: "********", model: "gpt-image-1" });
+
+            expect(mockProviderRepository.save).toHaveBeenCalledWith(
+                expect.objectContaining({ apiKey: encryptedKey, model: "gpt-image-1" }),
+            );
+        });
+
+        it("传入新密钥时重新加密", async () => {
+            mockProviderRepository.findOne.mockResolvedValue(provider());
+
+            await service.update("provider-1", { apiKey: "sk-rotated" });
+
+            const saved = mockProviderRepository.save.mock.calls[0][0];
+            expect(encryptionService.decryptFromString(saved.apiKey)).toBe("sk-rotated");
+        });
+    });
+
+    describe("resolveProvider", () => {
+        it("解密 API Key 并补全默认端点", () => {
+            const credential = service.resolveProvider(provider({ type: ProviderType.GEMINI }));
+
+            expect(credential).toMatchObject({
+                source: "provider",
+                apiKey: "sk-secret",
+                endpointType: "chat",
+                modelName: "gpt-image-1",
+            });
+            expect(credential.baseUrl).toContain("generativelanguage.googleapis.com");
+        });
+
+        it("兼容尚未加密的历史明文密钥", () => {
+            const decrypt = jest.spyOn(encryptionService, "decryptFromString");
+
+            expect(service.resolveProvider(provider({ apiKey: "sk-plain" })).apiKey).toBe("sk-plain");
+            expect(decrypt).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("getTextCapabilities", () => {
+        it("读取已激活文本服务商的能力时不解密密钥", async () => {
+            const decrypt = jest.spyOn(encryptionService, "decryptFromString");
+            mockProviderRepository.findOne.mockResolvedValue(
+                provider({ serviceType: ServiceType.TEXT, config: { vision: true } }),
+            );
+
+            await expect(service.getTextCapabilities()).resolves.toEqual({ modelName: "gpt-4o-mini", vision: true });
+            expect(decrypt).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("启动时加密历史明文密钥", () => {
+        it("只加密未加密的密钥", async () => {
+            mockProviderRepository.find.mockResolvedValue([
+                provider({ id: "provider-1", apiKey: "sk-plain" }),
+                provider({ id: "provider-2" }),
+            ]);
+
+            await service.onModuleInit();
+
+            expect(mockProviderRepository.update).toHaveBeenCalledTimes(1);
+            const [id, patch] = mockProviderRepository.update.mock.calls[0];
+            expect(id).toBe("provider-1");
+            expect(encryptionService.decryptFromString(patch.apiKey)).toBe("sk-plain");
+        });
+    });
+});
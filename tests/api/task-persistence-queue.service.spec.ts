@@ -0,0 +1,228 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { getRepositoryToken } from "@nestjs/typeorm";
+
+import {
+    QueuedTask,
+    QueueTaskStatus,
+    QueueTaskType,
+    TaskPersistenceQueueService,
+} from "../../src/api/modules/xhs-creator/services/task-persistence-queue.service";
+import { XhsTask, TaskStatus } from "../../src/api/db/entities/xhs-task.entity";
+
+/**
+ * TaskPersistenceQueueService 单元测试
+ */
+describe("TaskPersistenceQueueService", () => {
+    let service: TaskPersistenceQueueService;
+
+    const mockTaskRepository = {
+        find: jest.fn(),
+        update: jest.fn(),
+    };
+
+    const processNext = () => service["processNextTask"]();
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        mockTaskRepository.find.mockResolvedValue([]);
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TaskPersistenceQueueService,
+                { provide: getRepositoryToken(XhsTask), useValue: mockTaskRepository },
+            ],
+        }).compile();
+
+        service = module.get<TaskPersistenceQueueService>(TaskPersistenceQueueService);
+    });
+
+    afterEach(() => {
+        service.onModuleDestroy();
+        jest.useRealTimers();
+    });
+
+    describe("enqueue", () => {
+        it("入队时持久化任务状态与入队参数", async () => {
+            await service.enqueue("task-1", "user-1", { type: QueueTaskType.IMAGE_GENERATION, pages: [] });
+
+            expect(mockTaskRepository.update).toHaveBeenCalledWith("task-1", {
+                status: TaskStatus.PENDING,
+                queuePayload: expect.objectContaining({ type: QueueTaskType.IMAGE_GENERATION, enqueuedAt: expect.any(String) }),
+            });
+            expect(service.hasActiveTask("task-1")).toBe(true);
+        });
+    });
+
+    describe("恢复未完成任务", () => {
+        it("按入队时保存的参数恢复排队和生成中的任务", async () => {
+            const enqueuedAt = new Date("2026-01-01T00:00:00.000Z");
+            mockTaskRepository.find.mockResolvedValue([
+                {
+                    id: "task-1",
+                    userId: "user-1",
+                    createdAt: new Date("2025-12-31T00:00:00.000Z"),
+                    queuePayload: { pages: [{ index: 1 }], enqueuedAt: enqueuedAt.toISOString() },
+                },
+                { id: "task-2", userId: "user-2", createdAt: enqueuedAt, queuePayload: null },
+            ]);
+            const handler = jest.fn().mockResolvedValue(undefined);
+            service.registerHandler(QueueTaskType.IMAGE_GENERATION, handler);
+
+            await service["recoverPendingTasks"]();
+            await processNext();
+
+            expect(mockTaskRepository.find).toHaveBeenCalledWith({
+                where: [{ status: TaskStatus.PENDING }, { status: TaskStatus.GENERATING_IMAGES }],
+            });
+            const recovered: QueuedTask = handler.mock.calls[0][0];
+            expect(recovered).toMatchObject({
+                taskId: "task-1",
+                userId: "user-1",
+                payload: { type: QueueTaskType.IMAGE_GENERATION, pages: [{ index: 1 }], recovered: true },
+                createdAt: enqueuedAt,
+            });
+            expect(recovered.payload).not.toHaveProperty("enqueuedAt");
+            expect(service.hasActiveTask("task-2")).toBe(true);
+        });
+
+        it("处理器未注册时任务继续等待", async () => {
+            mockTaskRepository.find.mockResolvedValue([
+                { id: "task-1", userId: "user-1", createdAt: new Date(), queuePayload: null },
+            ]);
+
+            await service["recoverPendingTasks"]();
+            await processNext();
+
+            expect(service.getQueueStatus()).toMatchObject({ pending: 1, processing: 0 });
+        });
+    });
+
+    describe("处理任务", () => {
+        it("完成后移出队列并清除入队参数", async () => {
+            service.registerHandler(QueueTaskType.IMAGE_GENERATION, jest.fn().mockResolvedValue(undefined));
+            await service.enqueue("task-1", "user-1", { type: QueueTaskType.IMAGE_GENERATION });
+
+            await processNext();
+
+            expect(service.hasActiveTask("task-1")).toBe(false);
+            expect(mockTaskRepository.update).toHaveBeenLastCalledWith("task-1", { queuePayload: null });
+            expect(service.getQueueStatus().processing).toBe(0);
+        });
+
+        it("失败后保留在队列中等待重试", async () => {
+            jest.useFakeTimers();
+            service.registerHandler(QueueTaskType.IMAGE_GENERATION, jest.fn().mockRejectedValue(new Error("服务商异常")));
+            await service.enqueue("task-1", "user-1", { type: QueueTaskType.IMAGE_GENERATION });
+
+            await processNext();
+
+            const [queued] = service["queue"];
+            expect(queued).toMatchObject({ status: QueueTaskStatus.PENDING, retryCount: 1, errorMessage: "服务商异常" });
+            expect(service.getQueueStatus().processing).toBe(0);
+        });
+    });
+
+    describe("任务超时", () => {
+        it("超时后中断处理器，处理器退出后才标记失败并释放名额", async () => {
+            jest.useFakeTimers();
+            let stop: (() => void) | undefined;
+            let received: AbortSignal | undefined;
+            service.registerHandler(
+                QueueTaskType.IMAGE_GENERATION,
+                jest.fn(
+                    (_task: QueuedTask, signal: AbortSignal) =>
+                        new Promise<void>((resolve) => {
+                            received = signal;
+                            signal.addEventListener("abort", () => {
+                                stop = resolve;
+                            });
+                        }),
+                ),
+            );
+            await service.enqueue("task-1", "user-1", { type: QueueTaskType.IMAGE_GENERATION });
+
+            const running = processNext();
+            jest.advanceTimersByTime(30 * 60 * 1000);
+
+            expect(received?.aborted).toBe(true);
+            expect(service.getQueueStatus().processing).toBe(1);
+            expect(service.hasActiveTask("task-1")).toBe(true);
+            expect(mockTaskRepository.update).not.toHaveBeenCalledWith(
+                "task-1",
+                expect.objectContaining({ status: TaskStatus.FAILED }),
+            );
+
+            stop!();
+            await running;
+
+            expect(service.getQueueStatus().processing).toBe(0);
+            expect(service.hasActiveTask("task-1")).toBe(false);
+            expect(mockTaskRepository.update).toHaveBeenLastCalledWith("task-1", {
+                status: TaskStatus.FAILED,
+                errorMessage: "任务执行超时",
+                queuePayload: null,
+            });
+        });
+
+        it("超时中断导致的异常不再重试", async () => {
+            jest.useFakeTimers();
+            service.registerHandler(
+                QueueTaskType.IMAGE_GENERATION,
+                jest.fn(
+                    (_task: QueuedTask, signal: AbortSignal) =>
+                        new Promise<void>((_resolve, reject) => {
+                            signal.addEventListener("abort", () => reject(new Error("请求已中断")));
+                        }),
+                ),
+            );
+            await service.enqueue("task-1", "user-1", { type: QueueTaskType.IMAGE_GENERATION });
+
+            const running = processNext();
+            jest.advanceTimersByTime(30 * 60 * 1000);
+            await running;
+
+            expect(service["queue"]).toHaveLength(0);
+            expect(mockTaskRepository.update).toHaveBeenLastCalledWith(
+                "task-1",
+                expect.objectContaining({ status: TaskStatus.FAILED, errorMessage: "任务执行超时" }),
+            );
+        });
+    });
+
+    describe("cancel", () => {
+        it("取消排队中的任务", async () => {
+            const queueId = await service.enqueue("task-1", "user-1", { type: QueueTaskType.IMAGE_GENERATION });
+
+            await expect(service.cancel(queueId)).resolves.toBe(true);
+
+            expect(service.hasActiveTask("task-1")).toBe(false);
+            expect(mockTaskRepository.update).toHaveBeenLastCalledWith("task-1", {
+                status: TaskStatus.FAILED,
+                queuePayload: null,
+            });
+        });
+
+        it("取消处理中的任务只中断处理器，名额在处理器退出后释放", async () => {
+            let received: AbortSignal | undefined;
+            service.registerHandler(
+                QueueTaskType.IMAGE_GENERATION,
+                jest.fn(
+                    (_task: QueuedTask, signal: AbortSignal) =>
+                        new Promise<void>((resolve) => {
+                            received = signal;
+                            signal.addEventListener("abort", () => resolve());
+                        }),
+                ),
+            );
+            const queueId = await service.enqueue("task-1", "user-1", { type: QueueTaskType.IMAGE_GENERATION });
+            const running = processNext();
+
+            await expect(service.cancel(queueId)).resolves.toBe(true);
+            expect(received?.aborted).toBe(true);
+            expect(service.getQueueStatus().processing).toBe(1);
+
+            await running;
+            expect(service.getQueueStatus().processing).toBe(0);
+        });
+    });
+});